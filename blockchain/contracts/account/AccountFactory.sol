@@ -65,7 +65,8 @@ contract PropellantBDAccountFactory is Ownable {
      * @param salt Additional salt for address calculation
      * @param name User's display name
      * @param bio User's bio description
-     * @param email User's email
+     * @param emailHash Lookup hash of the user's email, keyed with the platform's lookup key off-chain
+     * @param emailCommitment Salted commitment to the user's email
      * @param avatar User's avatar IPFS hash
      * @return account The address of the newly created account
      */
@@ -74,13 +75,14 @@ contract PropellantBDAccountFactory is Ownable {
         uint256 salt,
         string memory name,
         string memory bio,
-        string memory email,
+        bytes32 emailHash,
+        bytes32 emailCommitment,
         string memory avatar
     ) external returns (PropellantBDAccount account) {
         account = createAccount(owner, salt);
         
         // Initialize the profile
-        account.initializeWithProfile(name, bio, email, avatar);
+        account.initializeWithProfile(name, bio, emailHash, emailCommitment, avatar);
         
         emit AccountInitialized(address(account), owner);
         
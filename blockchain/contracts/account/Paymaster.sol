@@ -103,6 +103,7 @@ contract PropellantBDPaymaster is BasePaymaster, Ownable {
         
         // Check if the sender has a profile
         require(profileModule.profileExists(sender), "Paymaster: sender has no profile");
+        require(!profileModule.isProfileErased(sender), "Paymaster: sender profile is erased");
         
         // Reset daily usage if it's a new day
         if (block.timestamp - lastUsageTimestamp[sender] >= 1 days) {
@@ -76,13 +76,15 @@ contract PropellantBDAccount is BaseAccount, Initializable {
      * @dev Initialize the account with a profile
      * @param name User's display name
      * @param bio User's bio description
-     * @param email User's email
+     * @param emailHash Lookup hash of the user's email, keyed with the platform's lookup key off-chain
+     * @param emailCommitment Salted commitment to the user's email
      * @param avatar User's avatar IPFS hash
      */
     function initializeWithProfile(
         string memory name,
         string memory bio,
-        string memory email,
+        bytes32 emailHash,
+        bytes32 emailCommitment,
         string memory avatar
     ) 
         external 
@@ -91,7 +93,7 @@ contract PropellantBDAccount is BaseAccount, Initializable {
         require(!_profileInitialized, "PropellantBDAccount: profile already initialized");
         
         // Create a profile for the owner
-        _profileModule.createProfile(name, bio, email, avatar);
+        _profileModule.createProfile(name, bio, emailHash, emailCommitment, avatar, "");
         
         _profileInitialized = true;
         
@@ -131,11 +133,11 @@ contract PropellantBDAccount is BaseAccount, Initializable {
     }
     
     /**
-     * @dev Checks if the account has an associated profile
+     * @dev Checks if the account has an associated profile that is not erased
      * @return True if the account has a profile, false otherwise
      */
     function hasProfile() external view returns (bool) {
-        return _profileInitialized && _profileModule.profileExists(_owner);
+        return _profileInitialized && _profileModule.profileExists(_owner) && !_profileModule.isProfileErased(_owner);
     }
     
     /**
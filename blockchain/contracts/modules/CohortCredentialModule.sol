@@ -0,0 +1,261 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./RoleModule.sol";
+import "./CredentialVerificationModule.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+/**
+ * @title CohortCredentialModule
+ * @dev Contract module for batch issuance of credentials in the PropellantBD ecosystem.
+ * Issuers publish one Merkle root per cohort and each member claims their credential with a proof.
+ */
+contract CohortCredentialModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant ISSUER_ROLE = keccak256("ISSUER_ROLE");
+    
+    // Reference to RoleModule for role checks
+    RoleModule private _roleModule;
+    
+    // Reference to CredentialVerificationModule for issuing claimed credentials
+    CredentialVerificationModule private _credentialModule;
+    
+    // Cohort structure
+    struct Cohort {
+        bytes32 id;                  // Unique identifier
+        address issuer;              // Who published the cohort
+        string name;                 // Name/title of the shared credential
+        string description;          // Detailed description
+        string metadataURI;          // IPFS URI for additional metadata
+        CredentialVerificationModule.CredentialType credentialType; // Type of credential
+        uint256 expirationDate;      // When the claimed credentials expire (0 for no expiration)
+        bool revocable;              // Whether the claimed credentials can be revoked
+        bytes32 merkleRoot;          // Root of the tree of member addresses
+        uint256 creationTime;        // When the cohort was published
+        uint256 claimCount;          // Number of credentials claimed so far
+        bool active;                 // Whether claims are open
+    }
+    
+    // Mappings for cohort data
+    mapping(bytes32 => Cohort) private _cohorts;
+    mapping(address => bytes32[]) private _issuerCohorts;
+    mapping(bytes32 => mapping(address => bytes32)) private _claimedCredentials; // Maps cohort and member to credential ID
+    
+    // Events
+    event CohortPublished(bytes32 indexed id, address indexed issuer, bytes32 merkleRoot, string name);
+    event CohortClosed(bytes32 indexed id);
+    event CohortCredentialClaimed(bytes32 indexed cohortId, address indexed subject, bytes32 indexed credentialId);
+    
+    /**
+     * @dev Modifier to ensure the cohort exists
+     */
+    modifier cohortMustExist(bytes32 id) {
+        require(_cohorts[id].creationTime > 0, "CohortCredential: cohort does not exist");
+        _;
+    }
+    
+    /**
+     * @dev Constructor that sets the role module and credential module addresses
+     */
+    constructor(address payable roleModuleAddress, address payable credentialModuleAddress) {
+        require(roleModuleAddress != address(0), "CohortCredential: role module address is zero");
+        require(credentialModuleAddress != address(0), "CohortCredential: credential module address is zero");
+        
+        _roleModule = RoleModule(roleModuleAddress);
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+    }
+    
+    /**
+     * @dev Publishes a cohort whose members can each claim the same credential
+     * @param name Name/title of the shared credential
+     * @param description Detailed description
+     * @param metadataURI IPFS URI for additional metadata
+     * @param credentialType Type of credential
+     * @param expirationDate When the claimed credentials expire (0 for no expiration)
+     * @param revocable Whether the claimed credentials can be revoked
+     * @param merkleRoot Root of the tree of member addresses
+     */
+    function publishCohort(
+        string memory name,
+        string memory description,
+        string memory metadataURI,
+        CredentialVerificationModule.CredentialType credentialType,
+        uint256 expirationDate,
+        bool revocable,
+        bytes32 merkleRoot
+    ) 
+        external 
+        whenNotPaused 
+        returns (bytes32) 
+    {
+        require(_roleModule.hasRole(ISSUER_ROLE, msg.sender), "CohortCredential: caller is not an issuer");
+        require(bytes(name).length > 0, "CohortCredential: name cannot be empty");
+        require(merkleRoot != bytes32(0), "CohortCredential: merkle root cannot be empty");
+        
+        // If expiration date is set, it must be in the future
+        if (expirationDate > 0) {
+            require(expirationDate > block.timestamp, "CohortCredential: expiration date must be in the future");
+        }
+        
+        // Generate a unique ID for the cohort
+        bytes32 id = keccak256(abi.encodePacked(
+            msg.sender,
+            merkleRoot,
+            block.timestamp,
+            _issuerCohorts[msg.sender].length
+        ));
+        
+        _cohorts[id] = Cohort({
+            id: id,
+            issuer: msg.sender,
+            name: name,
+            description: description,
+            metadataURI: metadataURI,
+            credentialType: credentialType,
+            expirationDate: expirationDate,
+            revocable: revocable,
+            merkleRoot: merkleRoot,
+            creationTime: block.timestamp,
+            claimCount: 0,
+            active: true
+        });
+        
+        _issuerCohorts[msg.sender].push(id);
+        
+        emit CohortPublished(id, msg.sender, merkleRoot, name);
+        
+        return id;
+    }
+    
+    /**
+     * @dev Closes a cohort so no further credentials can be claimed
+     * @param id ID of the cohort
+     */
+    function closeCohort(bytes32 id) 
+        external 
+        whenNotPaused 
+        cohortMustExist(id) 
+    {
+        require(
+            msg.sender == _cohorts[id].issuer || hasRole(ADMIN_ROLE, msg.sender),
+            "CohortCredential: caller cannot close this cohort"
+        );
+        require(_cohorts[id].active, "CohortCredential: cohort already closed");
+        
+        _cohorts[id].active = false;
+        
+        emit CohortClosed(id);
+    }
+    
+    /**
+     * @dev Claims the caller's credential from a cohort.
+     * Creates a regular credential in the CredentialVerificationModule.
+     * @param id ID of the cohort
+     * @param proof Merkle proof that the caller is a member of the cohort
+     */
+    function claimCredential(bytes32 id, bytes32[] memory proof) 
+        external 
+        whenNotPaused 
+        cohortMustExist(id) 
+        returns (bytes32) 
+    {
+        Cohort storage cohort = _cohorts[id];
+        
+        require(cohort.active, "CohortCredential: cohort is closed");
+        require(_claimedCredentials[id][msg.sender] == bytes32(0), "CohortCredential: credential already claimed");
+        require(
+            MerkleProof.verify(proof, cohort.merkleRoot, leafFor(msg.sender)),
+            "CohortCredential: invalid proof"
+        );
+        
+        // The cohort root doubles as the evidence hash, linking the credential to its cohort
+        bytes32 credentialId = _credentialModule.issueCredentialFromModule(
+            cohort.issuer,
+            CredentialVerificationModule.CredentialRequest({
+                subject: msg.sender,
+                name: cohort.name,
+                description: cohort.description,
+                metadataURI: cohort.metadataURI,
+                credentialType: cohort.credentialType,
+                expirationDate: cohort.expirationDate,
+                evidenceHash: cohort.merkleRoot,
+                revocable: cohort.revocable,
+                schemaId: bytes32(0)
+            })
+        );
+        
+        _claimedCredentials[id][msg.sender] = credentialId;
+        cohort.claimCount++;
+        
+        emit CohortCredentialClaimed(id, msg.sender, credentialId);
+        
+        return credentialId;
+    }
+    
+    /**
+     * @dev Computes the Merkle leaf for a cohort member
+     * @param member Address of the member
+     */
+    function leafFor(address member) 
+        public 
+        pure 
+        returns (bytes32) 
+    {
+        return keccak256(bytes.concat(keccak256(abi.encode(member))));
+    }
+    
+    /**
+     * @dev Gets a cohort's data
+     * @param id ID of the cohort
+     */
+    function getCohort(bytes32 id) 
+        external 
+        view 
+        cohortMustExist(id) 
+        returns (Cohort memory) 
+    {
+        return _cohorts[id];
+    }
+    
+    /**
+     * @dev Gets all cohorts published by an issuer
+     * @param issuer Address of the issuer
+     */
+    function getIssuerCohorts(address issuer) 
+        external 
+        view 
+        returns (bytes32[] memory) 
+    {
+        return _issuerCohorts[issuer];
+    }
+    
+    /**
+     * @dev Gets the credential a member claimed from a cohort (0 if unclaimed)
+     * @param id ID of the cohort
+     * @param member Address of the member
+     */
+    function getClaimedCredential(bytes32 id, address member) 
+        external 
+        view 
+        returns (bytes32) 
+    {
+        return _claimedCredentials[id][member];
+    }
+    
+    /**
+     * @dev Checks if a member has claimed their credential from a cohort
+     * @param id ID of the cohort
+     * @param member Address of the member
+     */
+    function hasClaimed(bytes32 id, address member) 
+        external 
+        view 
+        returns (bool) 
+    {
+        return _claimedCredentials[id][member] != bytes32(0);
+    }
+}
@@ -0,0 +1,149 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./CredentialVerificationModule.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+/**
+ * @title CredentialClaimsModule
+ * @dev Contract module for selective disclosure of credential fields in the PropellantBD ecosystem.
+ * A credential commits to its individual claims with a Merkle root, so holders can reveal single claims.
+ */
+contract CredentialClaimsModule is AccessControl, Pausable, Upgradeable {
+    // Reference to CredentialVerificationModule for issuance and credential data
+    CredentialVerificationModule private _credentialModule;
+    
+    // Maps credential ID to the root of its claims tree
+    mapping(bytes32 => bytes32) private _claimsRoots;
+    
+    // Events
+    event ClaimsRootSet(bytes32 indexed credentialId, bytes32 claimsRoot);
+    
+    /**
+     * @dev Constructor that sets the credential module address
+     */
+    constructor(address payable credentialModuleAddress) {
+        require(credentialModuleAddress != address(0), "CredentialClaims: credential module address is zero");
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+    }
+    
+    /**
+     * @dev Issues a credential that commits to a tree of claims, alongside its evidence hash
+     * @param request Credential data
+     * @param claimsRoot Root of the claims tree
+     */
+    function issueCredentialWithClaims(
+        CredentialVerificationModule.CredentialRequest memory request,
+        bytes32 claimsRoot
+    ) 
+        external 
+        whenNotPaused 
+        returns (bytes32) 
+    {
+        require(claimsRoot != bytes32(0), "CredentialClaims: claims root cannot be empty");
+        
+        bytes32 id = _credentialModule.issueCredentialFromModule(msg.sender, request);
+        _setClaimsRoot(id, claimsRoot);
+        
+        return id;
+    }
+    
+    /**
+     * @dev Attaches a claims root to an existing credential. Can only be done once.
+     * @param credentialId ID of the credential
+     * @param claimsRoot Root of the claims tree
+     */
+    function setClaimsRoot(bytes32 credentialId, bytes32 claimsRoot) 
+        external 
+        whenNotPaused 
+    {
+        require(
+            _credentialModule.getCredentialData(credentialId).issuer == msg.sender,
+            "CredentialClaims: caller is not the credential issuer"
+        );
+        require(claimsRoot != bytes32(0), "CredentialClaims: claims root cannot be empty");
+        require(_claimsRoots[credentialId] == bytes32(0), "CredentialClaims: claims root already set");
+        
+        _setClaimsRoot(credentialId, claimsRoot);
+    }
+    
+    /**
+     * @dev Verifies a single disclosed claim against a credential's claims root.
+     * Credentials without a separate root are checked against their evidence hash,
+     * so issuers can commit to claims in place of evidence.
+     * @param credentialId ID of the credential
+     * @param key Name of the claim
+     * @param value Disclosed value of the claim
+     * @param salt Salt hiding the claim from guessing
+     * @param proof Merkle proof of the claim
+     */
+    function verifyClaim(
+        bytes32 credentialId,
+        string memory key,
+        string memory value,
+        bytes32 salt,
+        bytes32[] memory proof
+    ) 
+        external 
+        view 
+        returns (bool) 
+    {
+        return MerkleProof.verify(proof, getClaimsRoot(credentialId), claimLeaf(key, value, salt));
+    }
+    
+    /**
+     * @dev Gets the root claims are verified against (the evidence hash if no separate root is set)
+     * @param credentialId ID of the credential
+     */
+    function getClaimsRoot(bytes32 credentialId) 
+        public 
+        view 
+        returns (bytes32) 
+    {
+        bytes32 root = _claimsRoots[credentialId];
+        if (root == bytes32(0)) {
+            root = _credentialModule.getCredentialData(credentialId).evidenceHash;
+        }
+        return root;
+    }
+    
+    /**
+     * @dev Checks if a credential has a claims root alongside its evidence hash
+     * @param credentialId ID of the credential
+     */
+    function hasClaimsRoot(bytes32 credentialId) 
+        external 
+        view 
+        returns (bool) 
+    {
+        return _claimsRoots[credentialId] != bytes32(0);
+    }
+    
+    /**
+     * @dev Computes the Merkle leaf for a claim
+     * @param key Name of the claim
+     * @param value Value of the claim
+     * @param salt Salt hiding the claim from guessing
+     */
+    function claimLeaf(string memory key, string memory value, bytes32 salt) 
+        public 
+        pure 
+        returns (bytes32) 
+    {
+        return keccak256(bytes.concat(keccak256(abi.encode(key, value, salt))));
+    }
+    
+    /**
+     * @dev Internal function to store a credential's claims root
+     */
+    function _setClaimsRoot(bytes32 credentialId, bytes32 claimsRoot) 
+        internal 
+    {
+        _claimsRoots[credentialId] = claimsRoot;
+        
+        emit ClaimsRootSet(credentialId, claimsRoot);
+    }
+}
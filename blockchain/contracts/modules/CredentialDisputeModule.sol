@@ -0,0 +1,390 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./CredentialVerificationModule.sol";
+
+/**
+ * @title CredentialDisputeModule
+ * @dev Contract module for disputing credential decisions in the PropellantBD ecosystem.
+ * Subjects dispute a rejection or revocation; an admin or arbitrator reviews it and either
+ * upholds the decision or restores the credential. Every step is written to the credential's history.
+ */
+contract CredentialDisputeModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant ARBITRATOR_ROLE = keccak256("ARBITRATOR_ROLE");
+    
+    // Default time limits
+    uint256 public constant DEFAULT_DISPUTE_WINDOW = 30 days;
+    uint256 public constant DEFAULT_RESOLUTION_PERIOD = 14 days;
+    
+    // Reference to CredentialVerificationModule for credential data and history
+    CredentialVerificationModule private _credentialModule;
+    
+    // Dispute lifecycle
+    enum DisputeState {
+        OPEN,            // Awaiting an arbitrator
+        UNDER_REVIEW,    // Assigned to an arbitrator
+        RESOLVED         // Decided or withdrawn
+    }
+    
+    // How a dispute ended
+    enum DisputeOutcome {
+        NONE,            // Not resolved yet
+        UPHELD,          // The issuer's decision stands
+        RESTORED,        // The credential was restored to VERIFIED
+        WITHDRAWN        // The subject withdrew the dispute
+    }
+    
+    // Dispute structure
+    struct Dispute {
+        bytes32 credentialId;        // Disputed credential
+        address subject;             // Subject who opened the dispute
+        CredentialVerificationModule.VerificationStatus disputedStatus; // Status being disputed
+        string reason;               // Subject's reason for disputing
+        string evidenceURI;          // IPFS URI of the subject's evidence
+        DisputeState state;          // Current state
+        DisputeOutcome outcome;      // Outcome once resolved
+        address arbitrator;          // Arbitrator reviewing or resolving the dispute
+        uint256 openedAt;            // When the dispute was opened
+        uint256 deadline;            // When the review should be resolved by
+        uint256 resolvedAt;          // When the dispute was resolved (0 if not resolved)
+        string resolutionNotes;      // Arbitrator's notes on the outcome
+    }
+    
+    // Mappings for dispute data
+    mapping(uint256 => Dispute) private _disputes;                 // Maps dispute ID to dispute (IDs start at 1)
+    mapping(bytes32 => uint256[]) private _credentialDisputes;     // All disputes of a credential
+    mapping(bytes32 => uint256) private _activeDisputes;           // Open or under-review dispute of a credential
+    mapping(bytes32 => uint256) private _disputedDecisions;        // Time of the last decision disputed per credential
+    uint256 private _disputeCount;
+    
+    // Configurable time limits
+    uint256 private _disputeWindow;
+    uint256 private _resolutionPeriod;
+    
+    // Events
+    event DisputeOpened(uint256 indexed disputeId, bytes32 indexed credentialId, address indexed subject, string evidenceURI);
+    event DisputeUnderReview(uint256 indexed disputeId, address indexed arbitrator, uint256 deadline);
+    event DisputeResolved(uint256 indexed disputeId, bytes32 indexed credentialId, address indexed resolvedBy, DisputeOutcome outcome);
+    event DisputeWindowUpdated(uint256 disputeWindow);
+    event ResolutionPeriodUpdated(uint256 resolutionPeriod);
+    
+    /**
+     * @dev Constructor that sets the credential module address and default time limits
+     */
+    constructor(address payable credentialModuleAddress) {
+        require(credentialModuleAddress != address(0), "CredentialDispute: credential module address is zero");
+        
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+        _disputeWindow = DEFAULT_DISPUTE_WINDOW;
+        _resolutionPeriod = DEFAULT_RESOLUTION_PERIOD;
+    }
+    
+    /**
+     * @dev Opens a dispute against the rejection or revocation of the caller's credential.
+     * Must be opened within the dispute window of the decision; each decision can be disputed once.
+     * @param credentialId ID of the credential
+     * @param reason Reason for disputing the decision
+     * @param evidenceURI IPFS URI of supporting evidence
+     */
+    function openDispute(bytes32 credentialId, string memory reason, string memory evidenceURI) 
+        external 
+        whenNotPaused 
+        returns (uint256) 
+    {
+        CredentialVerificationModule.Credential memory credential = _credentialModule.getCredentialData(credentialId);
+        
+        require(credential.subject == msg.sender, "CredentialDispute: caller is not the credential subject");
+        require(
+            credential.status == CredentialVerificationModule.VerificationStatus.REJECTED ||
+            credential.status == CredentialVerificationModule.VerificationStatus.REVOKED,
+            "CredentialDispute: credential is not rejected or revoked"
+        );
+        require(bytes(reason).length > 0, "CredentialDispute: reason cannot be empty");
+        require(_activeDisputes[credentialId] == 0, "CredentialDispute: dispute already open");
+        
+        uint256 decidedAt = _lastDecisionTime(credentialId);
+        require(_disputedDecisions[credentialId] != decidedAt, "CredentialDispute: decision already disputed");
+        require(block.timestamp <= decidedAt + _disputeWindow, "CredentialDispute: dispute window has passed");
+        
+        uint256 disputeId = ++_disputeCount;
+        Dispute storage dispute = _disputes[disputeId];
+        dispute.credentialId = credentialId;
+        dispute.subject = msg.sender;
+        dispute.disputedStatus = credential.status;
+        dispute.reason = reason;
+        dispute.evidenceURI = evidenceURI;
+        dispute.state = DisputeState.OPEN;
+        dispute.openedAt = block.timestamp;
+        dispute.deadline = block.timestamp + _resolutionPeriod;
+        
+        _credentialDisputes[credentialId].push(disputeId);
+        _activeDisputes[credentialId] = disputeId;
+        _disputedDecisions[credentialId] = decidedAt;
+        
+        _credentialModule.addVerificationRecordFromModule(
+            credentialId,
+            msg.sender,
+            CredentialVerificationModule.RecordType.DISPUTE,
+            credential.status,
+            reason
+        );
+        
+        emit DisputeOpened(disputeId, credentialId, msg.sender, evidenceURI);
+        
+        return disputeId;
+    }
+    
+    /**
+     * @dev Assigns a dispute to the caller for review. Disputes past their deadline
+     * can be taken over by another arbitrator.
+     * @param disputeId ID of the dispute
+     */
+    function startReview(uint256 disputeId) 
+        external 
+        whenNotPaused 
+    {
+        Dispute storage dispute = _disputes[disputeId];
+        
+        _checkArbitrator(dispute);
+        require(
+            dispute.state == DisputeState.OPEN ||
+            (dispute.state == DisputeState.UNDER_REVIEW && block.timestamp > dispute.deadline),
+            "CredentialDispute: dispute cannot be reviewed"
+        );
+        
+        // A dispute picked up after its deadline gets a fresh resolution period
+        if (block.timestamp > dispute.deadline) {
+            dispute.deadline = block.timestamp + _resolutionPeriod;
+        }
+        
+        dispute.state = DisputeState.UNDER_REVIEW;
+        dispute.arbitrator = msg.sender;
+        
+        emit DisputeUnderReview(disputeId, msg.sender, dispute.deadline);
+    }
+    
+    /**
+     * @dev Resolves a dispute under review by upholding the decision or restoring the credential
+     * @param disputeId ID of the dispute
+     * @param restore Whether to restore the credential to VERIFIED
+     * @param notes Arbitrator's notes on the outcome
+     */
+    function resolveDispute(uint256 disputeId, bool restore, string memory notes) 
+        external 
+        whenNotPaused 
+    {
+        Dispute storage dispute = _disputes[disputeId];
+        
+        require(dispute.state == DisputeState.UNDER_REVIEW, "CredentialDispute: dispute is not under review");
+        require(dispute.arbitrator == msg.sender, "CredentialDispute: caller is not the assigned arbitrator");
+        _checkArbitrator(dispute);
+        
+        if (restore) {
+            // Restoring changes the credential's status
+            _credentialModule.addVerificationRecordFromModule(
+                dispute.credentialId,
+                msg.sender,
+                CredentialVerificationModule.RecordType.VERIFICATION,
+                CredentialVerificationModule.VerificationStatus.VERIFIED,
+                notes
+            );
+        } else {
+            _credentialModule.addVerificationRecordFromModule(
+                dispute.credentialId,
+                msg.sender,
+                CredentialVerificationModule.RecordType.DISPUTE,
+                dispute.disputedStatus,
+                notes
+            );
+        }
+        
+        dispute.resolutionNotes = notes;
+        _resolve(disputeId, restore ? DisputeOutcome.RESTORED : DisputeOutcome.UPHELD);
+    }
+    
+    /**
+     * @dev Withdraws an unresolved dispute
+     * @param disputeId ID of the dispute
+     */
+    function withdrawDispute(uint256 disputeId) 
+        external 
+        whenNotPaused 
+    {
+        Dispute storage dispute = _disputes[disputeId];
+        
+        require(dispute.subject == msg.sender, "CredentialDispute: caller is not the dispute subject");
+        require(dispute.state != DisputeState.RESOLVED, "CredentialDispute: dispute already resolved");
+        
+        _credentialModule.addVerificationRecordFromModule(
+            dispute.credentialId,
+            msg.sender,
+            CredentialVerificationModule.RecordType.DISPUTE,
+            dispute.disputedStatus,
+            "Dispute withdrawn"
+        );
+        
+        _resolve(disputeId, DisputeOutcome.WITHDRAWN);
+    }
+    
+    /**
+     * @dev Sets how long subjects have to dispute a decision
+     * @param disputeWindow Time after a decision during which it can be disputed
+     */
+    function setDisputeWindow(uint256 disputeWindow) 
+        external 
+        onlyRole(ADMIN_ROLE) 
+    {
+        require(disputeWindow > 0, "CredentialDispute: dispute window cannot be zero");
+        
+        _disputeWindow = disputeWindow;
+        
+        emit DisputeWindowUpdated(disputeWindow);
+    }
+    
+    /**
+     * @dev Sets how long arbitrators have to resolve a dispute
+     * @param resolutionPeriod Time after opening or takeover by which a dispute should be resolved
+     */
+    function setResolutionPeriod(uint256 resolutionPeriod) 
+        external 
+        onlyRole(ADMIN_ROLE) 
+    {
+        require(resolutionPeriod > 0, "CredentialDispute: resolution period cannot be zero");
+        
+        _resolutionPeriod = resolutionPeriod;
+        
+        emit ResolutionPeriodUpdated(resolutionPeriod);
+    }
+    
+    /**
+     * @dev Gets a dispute
+     * @param disputeId ID of the dispute
+     */
+    function getDispute(uint256 disputeId) 
+        external 
+        view 
+        returns (Dispute memory) 
+    {
+        require(_disputes[disputeId].openedAt > 0, "CredentialDispute: dispute does not exist");
+        return _disputes[disputeId];
+    }
+    
+    /**
+     * @dev Gets the IDs of all disputes of a credential
+     * @param credentialId ID of the credential
+     */
+    function getCredentialDisputes(bytes32 credentialId) 
+        external 
+        view 
+        returns (uint256[] memory) 
+    {
+        return _credentialDisputes[credentialId];
+    }
+    
+    /**
+     * @dev Gets the unresolved dispute of a credential (0 if none)
+     * @param credentialId ID of the credential
+     */
+    function getActiveDispute(bytes32 credentialId) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _activeDisputes[credentialId];
+    }
+    
+    /**
+     * @dev Checks if an unresolved dispute is past its resolution deadline
+     * @param disputeId ID of the dispute
+     */
+    function isOverdue(uint256 disputeId) 
+        external 
+        view 
+        returns (bool) 
+    {
+        Dispute storage dispute = _disputes[disputeId];
+        return dispute.openedAt > 0 && dispute.state != DisputeState.RESOLVED && block.timestamp > dispute.deadline;
+    }
+    
+    /**
+     * @dev Gets the number of disputes opened
+     */
+    function getDisputeCount() 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _disputeCount;
+    }
+    
+    /**
+     * @dev Gets the current time limits
+     * @return disputeWindow Time after a decision during which it can be disputed
+     * @return resolutionPeriod Time arbitrators have to resolve a dispute
+     */
+    function getTimeLimits() 
+        external 
+        view 
+        returns (uint256 disputeWindow, uint256 resolutionPeriod) 
+    {
+        return (_disputeWindow, _resolutionPeriod);
+    }
+    
+    /**
+     * @dev Internal function to check the caller may arbitrate a dispute.
+     * Arbitrators cannot decide disputes about credentials they issued or hold.
+     */
+    function _checkArbitrator(Dispute storage dispute) 
+        internal 
+        view 
+    {
+        require(dispute.openedAt > 0, "CredentialDispute: dispute does not exist");
+        require(
+            hasRole(ARBITRATOR_ROLE, msg.sender) || hasRole(ADMIN_ROLE, msg.sender),
+            "CredentialDispute: caller is not an arbitrator"
+        );
+        require(
+            msg.sender != dispute.subject && msg.sender != _credentialModule.getCredentialData(dispute.credentialId).issuer,
+            "CredentialDispute: arbitrator has a conflict of interest"
+        );
+    }
+    
+    /**
+     * @dev Internal function to close a dispute with an outcome
+     */
+    function _resolve(uint256 disputeId, DisputeOutcome outcome) 
+        internal 
+    {
+        Dispute storage dispute = _disputes[disputeId];
+        
+        dispute.state = DisputeState.RESOLVED;
+        dispute.outcome = outcome;
+        dispute.resolvedAt = block.timestamp;
+        delete _activeDisputes[dispute.credentialId];
+        
+        emit DisputeResolved(disputeId, dispute.credentialId, msg.sender, outcome);
+    }
+    
+    /**
+     * @dev Internal function to get when a credential's current status was set
+     */
+    function _lastDecisionTime(bytes32 credentialId) 
+        internal 
+        view 
+        returns (uint256) 
+    {
+        CredentialVerificationModule.VerificationRecord[] memory history = _credentialModule.getVerificationHistory(credentialId);
+        
+        for (uint256 i = history.length; i > 0; i--) {
+            if (history[i - 1].recordType == CredentialVerificationModule.RecordType.VERIFICATION) {
+                return history[i - 1].timestamp;
+            }
+        }
+        return 0;
+    }
+}
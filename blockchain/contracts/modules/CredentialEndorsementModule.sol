@@ -0,0 +1,260 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./RoleModule.sol";
+import "./CredentialVerificationModule.sol";
+
+/**
+ * @title CredentialEndorsementModule
+ * @dev Contract module for multi-party endorsement of credentials in the PropellantBD ecosystem.
+ * Issuers and organizations co-sign credentials; a credential becomes VERIFIED once its quorum is met.
+ */
+contract CredentialEndorsementModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant ISSUER_ROLE = keccak256("ISSUER_ROLE");
+    bytes32 public constant ORGANIZATION_ROLE = keccak256("ORGANIZATION_ROLE");
+    
+    // Reference to RoleModule for role checks
+    RoleModule private _roleModule;
+    
+    // Reference to CredentialVerificationModule for credential data and history
+    CredentialVerificationModule private _credentialModule;
+    
+    // Endorsement structure
+    struct Endorsement {
+        address endorser;            // Issuer or organization co-signing the credential
+        string notes;                // Notes from the endorser
+        uint256 timestamp;           // When the endorsement was given
+    }
+    
+    // Mappings for endorsement data
+    mapping(bytes32 => Endorsement[]) private _endorsements;
+    mapping(bytes32 => mapping(address => bool)) private _hasEndorsed;
+    mapping(bytes32 => uint256) private _credentialQuorums; // Per-credential quorum (0 falls back to the type quorum)
+    mapping(CredentialVerificationModule.CredentialType => uint256) private _typeQuorums; // Default quorum per credential type (0 disables)
+    
+    // Events
+    event CredentialEndorsed(bytes32 indexed id, address indexed endorser, uint256 endorsementCount);
+    event QuorumReached(bytes32 indexed id, uint256 endorsementCount);
+    event CredentialQuorumSet(bytes32 indexed id, uint256 quorum);
+    event TypeQuorumSet(CredentialVerificationModule.CredentialType indexed credentialType, uint256 quorum);
+    
+    /**
+     * @dev Constructor that sets the role module and credential module addresses
+     */
+    constructor(address payable roleModuleAddress, address payable credentialModuleAddress) {
+        require(roleModuleAddress != address(0), "CredentialEndorsement: role module address is zero");
+        require(credentialModuleAddress != address(0), "CredentialEndorsement: credential module address is zero");
+        
+        _roleModule = RoleModule(roleModuleAddress);
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+    }
+    
+    /**
+     * @dev Endorses a credential. Verifies it once the endorsement quorum is reached.
+     * @param id ID of the credential
+     * @param notes Notes from the endorser
+     */
+    function endorseCredential(bytes32 id, string memory notes) 
+        external 
+        whenNotPaused 
+    {
+        require(
+            _roleModule.hasRole(ISSUER_ROLE, msg.sender) || _roleModule.hasRole(ORGANIZATION_ROLE, msg.sender),
+            "CredentialEndorsement: caller is not an issuer or organization"
+        );
+        
+        CredentialVerificationModule.Credential memory credential = _credentialModule.getCredentialData(id);
+        CredentialVerificationModule.VerificationStatus status = credential.status;
+        
+        require(msg.sender != credential.subject && msg.sender != credential.issuer, "CredentialEndorsement: cannot endorse own credential");
+        require(!_hasEndorsed[id][msg.sender], "CredentialEndorsement: credential already endorsed");
+        require(
+            status == CredentialVerificationModule.VerificationStatus.PENDING ||
+            status == CredentialVerificationModule.VerificationStatus.VERIFIED,
+            "CredentialEndorsement: credential cannot be endorsed"
+        );
+        
+        _endorsements[id].push(Endorsement({
+            endorser: msg.sender,
+            notes: notes,
+            timestamp: block.timestamp
+        }));
+        _hasEndorsed[id][msg.sender] = true;
+        
+        uint256 count = _endorsements[id].length;
+        
+        // Record the endorsement in the credential's verification history
+        _credentialModule.addVerificationRecordFromModule(
+            id,
+            msg.sender,
+            CredentialVerificationModule.RecordType.ENDORSEMENT,
+            status,
+            notes
+        );
+        
+        emit CredentialEndorsed(id, msg.sender, count);
+        
+        _checkQuorum(id, status);
+    }
+    
+    /**
+     * @dev Verifies a pending credential if its endorsements meet its current quorum.
+     * Lets anyone apply a lowered type quorum to credentials that were already endorsed.
+     * @param id ID of the credential
+     * @return Whether the credential was verified
+     */
+    function checkQuorum(bytes32 id) 
+        external 
+        whenNotPaused 
+        returns (bool) 
+    {
+        return _checkQuorum(id, _credentialModule.getCredentialData(id).status);
+    }
+    
+    /**
+     * @dev Sets the endorsement quorum of a single credential
+     * @param id ID of the credential
+     * @param quorum Number of endorsements required (0 to use the type default)
+     */
+    function setCredentialQuorum(bytes32 id, uint256 quorum) 
+        external 
+        whenNotPaused 
+    {
+        require(
+            msg.sender == _credentialModule.getCredentialData(id).issuer || hasRole(ADMIN_ROLE, msg.sender),
+            "CredentialEndorsement: caller is not the issuer or admin"
+        );
+        
+        _credentialQuorums[id] = quorum;
+        
+        emit CredentialQuorumSet(id, quorum);
+        
+        // A lowered quorum may already be met
+        _checkQuorum(id, _credentialModule.getCredentialData(id).status);
+    }
+    
+    /**
+     * @dev Sets the default endorsement quorum for a credential type
+     * @param credentialType Type of credential
+     * @param quorum Number of endorsements required (0 disables quorum verification)
+     */
+    function setTypeQuorum(CredentialVerificationModule.CredentialType credentialType, uint256 quorum) 
+        external 
+        whenNotPaused 
+        onlyRole(ADMIN_ROLE) 
+    {
+        _typeQuorums[credentialType] = quorum;
+        
+        emit TypeQuorumSet(credentialType, quorum);
+    }
+    
+    /**
+     * @dev Gets all endorsements of a credential
+     * @param id ID of the credential
+     */
+    function getEndorsements(bytes32 id) 
+        external 
+        view 
+        returns (Endorsement[] memory) 
+    {
+        return _endorsements[id];
+    }
+    
+    /**
+     * @dev Gets the number of endorsements of a credential
+     * @param id ID of the credential
+     */
+    function getEndorsementCount(bytes32 id) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _endorsements[id].length;
+    }
+    
+    /**
+     * @dev Checks if an account has endorsed a credential
+     * @param id ID of the credential
+     * @param endorser Address to check
+     */
+    function hasEndorsed(bytes32 id, address endorser) 
+        external 
+        view 
+        returns (bool) 
+    {
+        return _hasEndorsed[id][endorser];
+    }
+    
+    /**
+     * @dev Gets the quorum that applies to a credential (0 if quorum verification is disabled)
+     * @param id ID of the credential
+     */
+    function getEffectiveQuorum(bytes32 id) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _effectiveQuorum(id);
+    }
+    
+    /**
+     * @dev Gets the default quorum for a credential type
+     * @param credentialType Type of credential
+     */
+    function getTypeQuorum(CredentialVerificationModule.CredentialType credentialType) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _typeQuorums[credentialType];
+    }
+    
+    /**
+     * @dev Internal function to verify a pending credential once enough endorsers have co-signed
+     */
+    function _checkQuorum(bytes32 id, CredentialVerificationModule.VerificationStatus status) 
+        internal 
+        returns (bool) 
+    {
+        uint256 count = _endorsements[id].length;
+        uint256 quorum = _effectiveQuorum(id);
+        if (
+            quorum == 0 ||
+            count < quorum ||
+            status != CredentialVerificationModule.VerificationStatus.PENDING
+        ) {
+            return false;
+        }
+        
+        _credentialModule.addVerificationRecordFromModule(
+            id,
+            address(this),
+            CredentialVerificationModule.RecordType.VERIFICATION,
+            CredentialVerificationModule.VerificationStatus.VERIFIED,
+            "Endorsement quorum reached"
+        );
+        
+        emit QuorumReached(id, count);
+        return true;
+    }
+    
+    /**
+     * @dev Internal function to resolve a credential's quorum, falling back to its type default
+     */
+    function _effectiveQuorum(bytes32 id) 
+        internal 
+        view 
+        returns (uint256) 
+    {
+        if (_credentialQuorums[id] > 0) {
+            return _credentialQuorums[id];
+        }
+        
+        return _typeQuorums[_credentialModule.getCredentialData(id).credentialType];
+    }
+}
@@ -0,0 +1,327 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "./CredentialVerificationModule.sol";
+
+/**
+ * @title CredentialQueryModule
+ * @dev Read-only contract module for querying credentials in the PropellantBD ecosystem.
+ * Keeps list, filter and derived views out of the CredentialVerificationModule to stay within the contract size limit.
+ */
+contract CredentialQueryModule {
+    // Reference to CredentialVerificationModule for credential data
+    CredentialVerificationModule private _credentialModule;
+    
+    // Criteria a credential must meet to be included in a page
+    struct CredentialFilter {
+        bool filterByType;           // Whether to match credentialType
+        CredentialVerificationModule.CredentialType credentialType; // Type to match
+        bool filterByStatus;         // Whether to match status
+        CredentialVerificationModule.VerificationStatus status; // Status to match
+        bool onlyValid;              // Whether to only include currently valid credentials
+    }
+    
+    /**
+     * @dev Constructor that sets the credential module address
+     */
+    constructor(address payable credentialModuleAddress) {
+        require(credentialModuleAddress != address(0), "CredentialQuery: credential module address is zero");
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+    }
+    
+    /**
+     * @dev Gets a page of a subject's publicly visible credentials that expire within a window from now.
+     * Includes credentials already expired but still within their issuer's grace period.
+     * Credentials the subject declined, hid or has not accepted yet are left out, as in getVisibleSubjectCredentials.
+     * Scans `limit` credential IDs from `offset`; keep requesting from `nextOffset` until it reaches the subject's credential count.
+     * @param subject Address of the subject
+     * @param window Length of the window in seconds (type(uint256).max for all expiring credentials)
+     * @param offset Index of the first credential ID to scan
+     * @param limit Number of credential IDs to scan
+     */
+    function getExpiringCredentials(address subject, uint256 window, uint256 offset, uint256 limit) 
+        external 
+        view 
+        returns (bytes32[] memory expiring, uint256 nextOffset) 
+    {
+        bytes32[] memory ids = _credentialModule.getSubjectCredentialIds(subject, offset, limit);
+        expiring = new bytes32[](ids.length);
+        uint256 count = 0;
+        
+        // End of the window, saturated so large windows do not overflow
+        uint256 windowEnd = window > type(uint256).max - block.timestamp ? type(uint256).max : block.timestamp + window;
+        
+        for (uint256 i = 0; i < ids.length; i++) {
+            CredentialVerificationModule.Credential memory credential = _credentialModule.getCredentialData(ids[i]);
+            if (_isPubliclyVisible(credential) && _isExpiring(credential, windowEnd)) {
+                expiring[count++] = ids[i];
+            }
+        }
+        
+        // Shrink the array to the number of expiring credentials
+        assembly {
+            mstore(expiring, count)
+        }
+        
+        return (expiring, offset + ids.length);
+    }
+    
+    /**
+     * @dev Gets a page of a subject's publicly visible credentials matching a filter.
+     * Credentials the subject declined or hid are left out, as in getVisibleSubjectCredentials.
+     * Scans `limit` credential IDs from `offset`, so a filtered page may hold fewer than `limit` credentials;
+     * keep requesting from `nextOffset` until it reaches the subject's credential count.
+     * @param subject Address of the subject
+     * @param filter Criteria credentials must meet
+     * @param offset Index of the first credential ID to scan
+     * @param limit Number of credential IDs to scan
+     */
+    function getSubjectCredentialsPage(
+        address subject,
+        CredentialFilter memory filter,
+        uint256 offset,
+        uint256 limit
+    ) 
+        external 
+        view 
+        returns (CredentialVerificationModule.Credential[] memory credentials, uint256 nextOffset) 
+    {
+        bytes32[] memory ids = _credentialModule.getSubjectCredentialIds(subject, offset, limit);
+        return (_collect(ids, filter), offset + ids.length);
+    }
+    
+    /**
+     * @dev Gets a page of an issuer's publicly visible credentials matching a filter.
+     * Credentials the subject declined or hid are left out, as in getVisibleSubjectCredentials.
+     * Scans `limit` credential IDs from `offset`, so a filtered page may hold fewer than `limit` credentials;
+     * keep requesting from `nextOffset` until it reaches the issuer's credential count.
+     * @param issuer Address of the issuer
+     * @param filter Criteria credentials must meet
+     * @param offset Index of the first credential ID to scan
+     * @param limit Number of credential IDs to scan
+     */
+    function getIssuerCredentialsPage(
+        address issuer,
+        CredentialFilter memory filter,
+        uint256 offset,
+        uint256 limit
+    ) 
+        external 
+        view 
+        returns (CredentialVerificationModule.Credential[] memory credentials, uint256 nextOffset) 
+    {
+        bytes32[] memory ids = _credentialModule.getIssuerCredentialIds(issuer, offset, limit);
+        return (_collect(ids, filter), offset + ids.length);
+    }
+    
+    /**
+     * @dev Counts the publicly visible credentials matching a filter within one page of a subject's credential IDs.
+     * No totals are kept on-chain: a total means adding up the counts of every page, requesting from `nextOffset`
+     * until it reaches the subject's credential count.
+     * @param subject Address of the subject
+     * @param filter Criteria credentials must meet
+     * @param offset Index of the first credential ID to scan
+     * @param limit Number of credential IDs to scan
+     */
+    function countSubjectCredentialsPage(
+        address subject,
+        CredentialFilter memory filter,
+        uint256 offset,
+        uint256 limit
+    ) 
+        external 
+        view 
+        returns (uint256 count, uint256 nextOffset) 
+    {
+        bytes32[] memory ids = _credentialModule.getSubjectCredentialIds(subject, offset, limit);
+        return (_count(ids, filter), offset + ids.length);
+    }
+    
+    /**
+     * @dev Counts the publicly visible credentials matching a filter within one page of an issuer's credential IDs.
+     * No totals are kept on-chain: a total means adding up the counts of every page, requesting from `nextOffset`
+     * until it reaches the issuer's credential count.
+     * @param issuer Address of the issuer
+     * @param filter Criteria credentials must meet
+     * @param offset Index of the first credential ID to scan
+     * @param limit Number of credential IDs to scan
+     */
+    function countIssuerCredentialsPage(
+        address issuer,
+        CredentialFilter memory filter,
+        uint256 offset,
+        uint256 limit
+    ) 
+        external 
+        view 
+        returns (uint256 count, uint256 nextOffset) 
+    {
+        bytes32[] memory ids = _credentialModule.getIssuerCredentialIds(issuer, offset, limit);
+        return (_count(ids, filter), offset + ids.length);
+    }
+    
+    /**
+     * @dev Gets a page of a subject's publicly visible credential IDs, i.e. accepted by the subject and not hidden.
+     * Scans `limit` credential IDs from `offset`; keep requesting from `nextOffset` until it reaches the subject's credential count.
+     * @param subject Address of the subject
+     * @param offset Index of the first credential ID to scan
+     * @param limit Number of credential IDs to scan
+     */
+    function getVisibleSubjectCredentials(address subject, uint256 offset, uint256 limit) 
+        external 
+        view 
+        returns (bytes32[] memory ids, uint256 nextOffset) 
+    {
+        bytes32[] memory scanned = _credentialModule.getSubjectCredentialIds(subject, offset, limit);
+        ids = new bytes32[](scanned.length);
+        uint256 count = 0;
+        
+        for (uint256 i = 0; i < scanned.length; i++) {
+            if (_isPubliclyVisible(_credentialModule.getCredentialData(scanned[i]))) {
+                ids[count++] = scanned[i];
+            }
+        }
+        
+        // Shrink the array to the number of visible credentials
+        assembly {
+            mstore(ids, count)
+        }
+        
+        return (ids, offset + scanned.length);
+    }
+    
+    /**
+     * @dev Gets the subject's consent and visibility settings for a credential
+     * @param id ID of the credential
+     */
+    function getCredentialConsent(bytes32 id) 
+        external 
+        view 
+        returns (CredentialVerificationModule.ConsentStatus consent, bool hidden) 
+    {
+        CredentialVerificationModule.Credential memory credential = _credentialModule.getCredentialData(id);
+        return (credential.consent, credential.hidden);
+    }
+    
+    /**
+     * @dev Checks if a credential has expired but is still within its issuer's grace period
+     * @param id ID of the credential
+     */
+    function isInGracePeriod(bytes32 id) 
+        external 
+        view 
+        returns (bool) 
+    {
+        CredentialVerificationModule.Credential memory credential = _credentialModule.getCredentialData(id);
+        
+        return credential.expirationDate > 0 &&
+            credential.expirationDate <= block.timestamp &&
+            block.timestamp < credential.expirationDate + _credentialModule.getGracePeriod(credential.issuer);
+    }
+    
+    /**
+     * @dev Gets the credential module queried by this module
+     */
+    function getCredentialModule() 
+        external 
+        view 
+        returns (address) 
+    {
+        return address(_credentialModule);
+    }
+    
+    /**
+     * @dev Internal function to load the credentials matching a filter
+     */
+    function _collect(bytes32[] memory ids, CredentialFilter memory filter) 
+        internal 
+        view 
+        returns (CredentialVerificationModule.Credential[] memory) 
+    {
+        CredentialVerificationModule.Credential[] memory matches = new CredentialVerificationModule.Credential[](ids.length);
+        uint256 count = 0;
+        
+        for (uint256 i = 0; i < ids.length; i++) {
+            CredentialVerificationModule.Credential memory credential = _credentialModule.getCredentialData(ids[i]);
+            if (_matches(credential, filter)) {
+                matches[count++] = credential;
+            }
+        }
+        
+        // Shrink the array to the number of matching credentials
+        assembly {
+            mstore(matches, count)
+        }
+        
+        return matches;
+    }
+    
+    /**
+     * @dev Internal function to count the credentials matching a filter
+     */
+    function _count(bytes32[] memory ids, CredentialFilter memory filter) 
+        internal 
+        view 
+        returns (uint256 count) 
+    {
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (_matches(_credentialModule.getCredentialData(ids[i]), filter)) {
+                count++;
+            }
+        }
+    }
+    
+    /**
+     * @dev Internal function to check a publicly visible credential against a filter
+     */
+    function _matches(CredentialVerificationModule.Credential memory credential, CredentialFilter memory filter) 
+        internal 
+        view 
+        returns (bool) 
+    {
+        if (!_isPubliclyVisible(credential)) {
+            return false;
+        }
+        if (filter.filterByType && credential.credentialType != filter.credentialType) {
+            return false;
+        }
+        if (filter.filterByStatus && credential.status != filter.status) {
+            return false;
+        }
+        if (filter.onlyValid && !_credentialModule.isCredentialValid(credential.id)) {
+            return false;
+        }
+        return true;
+    }
+    
+    /**
+     * @dev Internal function to check if a credential appears in public listings
+     */
+    function _isPubliclyVisible(CredentialVerificationModule.Credential memory credential) 
+        internal 
+        pure 
+        returns (bool) 
+    {
+        return credential.consent == CredentialVerificationModule.ConsentStatus.ACCEPTED && !credential.hidden;
+    }
+    
+    /**
+     * @dev Internal function to check if a live credential expires before the end of a window
+     */
+    function _isExpiring(CredentialVerificationModule.Credential memory credential, uint256 windowEnd) 
+        internal 
+        view 
+        returns (bool) 
+    {
+        if (
+            credential.expirationDate == 0 ||
+            credential.status == CredentialVerificationModule.VerificationStatus.REVOKED ||
+            credential.status == CredentialVerificationModule.VerificationStatus.REJECTED
+        ) {
+            return false;
+        }
+        
+        uint256 lapseTime = credential.expirationDate + _credentialModule.getGracePeriod(credential.issuer);
+        return credential.expirationDate <= windowEnd && block.timestamp < lapseTime;
+    }
+}
@@ -0,0 +1,227 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./RoleModule.sol";
+import "./CredentialVerificationModule.sol";
+
+/**
+ * @title CredentialSchemaModule
+ * @dev Contract module for managing credential schemas in the PropellantBD ecosystem.
+ * Handles registration, versioning, and deprecation of credential templates.
+ */
+contract CredentialSchemaModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant ISSUER_ROLE = keccak256("ISSUER_ROLE");
+    
+    // Reference to RoleModule for role checks
+    RoleModule private _roleModule;
+    
+    // Schema structure
+    struct CredentialSchema {
+        bytes32 id;                  // Unique identifier
+        address creator;             // Who registered the schema
+        string name;                 // Name of the schema family
+        uint256 version;             // Version within the schema family (starting at 1)
+        CredentialVerificationModule.CredentialType credentialType; // Type of credential the schema describes
+        string schemaURI;            // URI of the JSON schema document
+        bytes32 schemaHash;          // Hash of the JSON schema document
+        uint256 creationTime;        // When the schema was registered
+        bool deprecated;             // Whether the schema is deprecated for new issuance
+    }
+    
+    // Mappings for schema data
+    mapping(bytes32 => CredentialSchema) private _schemas;
+    mapping(bytes32 => bytes32[]) private _schemaVersions; // Maps name hash to schema IDs ordered by version
+    mapping(address => bytes32[]) private _creatorSchemas;
+    
+    // Events
+    event SchemaRegistered(bytes32 indexed id, address indexed creator, string name, uint256 version);
+    event SchemaDeprecated(bytes32 indexed id, address indexed deprecatedBy);
+    
+    /**
+     * @dev Modifier to ensure the schema exists
+     */
+    modifier schemaMustExist(bytes32 id) {
+        require(_schemas[id].creationTime > 0, "CredentialSchema: schema does not exist");
+        _;
+    }
+    
+    /**
+     * @dev Constructor that sets the role module address
+     */
+    constructor(address payable roleModuleAddress) {
+        require(roleModuleAddress != address(0), "CredentialSchema: role module address is zero");
+        _roleModule = RoleModule(roleModuleAddress);
+    }
+    
+    /**
+     * @dev Registers a new schema, or a new version of an existing schema family
+     * @param name Name of the schema family
+     * @param credentialType Type of credential the schema describes
+     * @param schemaURI URI of the JSON schema document
+     * @param schemaHash Hash of the JSON schema document
+     */
+    function registerSchema(
+        string memory name,
+        CredentialVerificationModule.CredentialType credentialType,
+        string memory schemaURI,
+        bytes32 schemaHash
+    ) 
+        external 
+        whenNotPaused 
+        returns (bytes32) 
+    {
+        require(
+            _roleModule.hasRole(ISSUER_ROLE, msg.sender) || hasRole(ADMIN_ROLE, msg.sender),
+            "CredentialSchema: caller is not an issuer or admin"
+        );
+        require(bytes(name).length > 0, "CredentialSchema: name cannot be empty");
+        require(bytes(schemaURI).length > 0, "CredentialSchema: schema URI cannot be empty");
+        require(schemaHash != bytes32(0), "CredentialSchema: schema hash cannot be empty");
+        
+        bytes32 nameHash = keccak256(bytes(name));
+        bytes32[] storage versions = _schemaVersions[nameHash];
+        
+        // Only the family creator (or an admin) can publish further versions
+        if (versions.length > 0) {
+            require(
+                _schemas[versions[0]].creator == msg.sender || hasRole(ADMIN_ROLE, msg.sender),
+                "CredentialSchema: caller is not the schema creator"
+            );
+        }
+        
+        uint256 version = versions.length + 1;
+        bytes32 id = keccak256(abi.encodePacked(name, version));
+        
+        _schemas[id] = CredentialSchema({
+            id: id,
+            creator: msg.sender,
+            name: name,
+            version: version,
+            credentialType: credentialType,
+            schemaURI: schemaURI,
+            schemaHash: schemaHash,
+            creationTime: block.timestamp,
+            deprecated: false
+        });
+        
+        versions.push(id);
+        _creatorSchemas[msg.sender].push(id);
+        
+        emit SchemaRegistered(id, msg.sender, name, version);
+        
+        return id;
+    }
+    
+    /**
+     * @dev Deprecates a schema so it can no longer be used for new credentials
+     * @param id ID of the schema
+     */
+    function deprecateSchema(bytes32 id) 
+        external 
+        whenNotPaused 
+        schemaMustExist(id) 
+    {
+        require(
+            _schemas[id].creator == msg.sender || hasRole(ADMIN_ROLE, msg.sender),
+            "CredentialSchema: caller is not the schema creator or admin"
+        );
+        require(!_schemas[id].deprecated, "CredentialSchema: schema already deprecated");
+        
+        _schemas[id].deprecated = true;
+        
+        emit SchemaDeprecated(id, msg.sender);
+    }
+    
+    /**
+     * @dev Gets a schema's data
+     * @param id ID of the schema
+     */
+    function getSchema(bytes32 id) 
+        external 
+        view 
+        schemaMustExist(id) 
+        returns (CredentialSchema memory) 
+    {
+        return _schemas[id];
+    }
+    
+    /**
+     * @dev Gets all schema IDs of a schema family, ordered by version
+     * @param name Name of the schema family
+     */
+    function getSchemaVersions(string memory name) 
+        external 
+        view 
+        returns (bytes32[] memory) 
+    {
+        return _schemaVersions[keccak256(bytes(name))];
+    }
+    
+    /**
+     * @dev Gets the ID of the latest version of a schema family
+     * @param name Name of the schema family
+     */
+    function getLatestSchemaId(string memory name) 
+        external 
+        view 
+        returns (bytes32) 
+    {
+        bytes32[] storage versions = _schemaVersions[keccak256(bytes(name))];
+        require(versions.length > 0, "CredentialSchema: schema does not exist");
+        return versions[versions.length - 1];
+    }
+    
+    /**
+     * @dev Gets all schemas registered by a creator
+     * @param creator Address of the creator
+     */
+    function getCreatorSchemas(address creator) 
+        external 
+        view 
+        returns (bytes32[] memory) 
+    {
+        return _creatorSchemas[creator];
+    }
+    
+    /**
+     * @dev Gets the credential type a schema describes
+     * @param id ID of the schema
+     */
+    function getSchemaCredentialType(bytes32 id) 
+        external 
+        view 
+        schemaMustExist(id) 
+        returns (CredentialVerificationModule.CredentialType) 
+    {
+        return _schemas[id].credentialType;
+    }
+    
+    /**
+     * @dev Checks if a schema exists
+     * @param id ID to check
+     */
+    function schemaExists(bytes32 id) 
+        external 
+        view 
+        returns (bool) 
+    {
+        return _schemas[id].creationTime > 0;
+    }
+    
+    /**
+     * @dev Checks if a schema exists and is not deprecated
+     * @param id ID to check
+     */
+    function isSchemaActive(bytes32 id) 
+        external 
+        view 
+        returns (bool) 
+    {
+        return _schemas[id].creationTime > 0 && !_schemas[id].deprecated;
+    }
+}
@@ -0,0 +1,132 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./CredentialVerificationModule.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
+
+/**
+ * @title CredentialSigningModule
+ * @dev Contract module for relayed credential issuance in the PropellantBD ecosystem.
+ * Issuers sign EIP-712 credential requests off-chain and anyone can submit them,
+ * so issuers do not need to hold gas.
+ */
+contract CredentialSigningModule is AccessControl, Pausable, Upgradeable, EIP712, Nonces {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    
+    // EIP-712 type hashes for signed issuance
+    bytes32 public constant CREDENTIAL_REQUEST_TYPEHASH = keccak256(
+        "CredentialRequest(address subject,string name,string description,string metadataURI,uint8 credentialType,uint256 expirationDate,bytes32 evidenceHash,bool revocable,bytes32 schemaId)"
+    );
+    bytes32 public constant ISSUE_CREDENTIAL_TYPEHASH = keccak256(
+        "IssueCredential(address issuer,CredentialRequest request,uint256 nonce,uint256 deadline)CredentialRequest(address subject,string name,string description,string metadataURI,uint8 credentialType,uint256 expirationDate,bytes32 evidenceHash,bool revocable,bytes32 schemaId)"
+    );
+    
+    // Reference to CredentialVerificationModule for issuing signed credentials
+    CredentialVerificationModule private _credentialModule;
+    
+    // Events
+    event SignedCredentialIssued(bytes32 indexed id, address indexed issuer, address indexed relayer, uint256 nonce);
+    event NonceInvalidated(address indexed issuer, uint256 nonce);
+    
+    /**
+     * @dev Constructor that sets the credential module address
+     */
+    constructor(address payable credentialModuleAddress) 
+        EIP712("PropellantBD Credentials", "1") 
+    {
+        require(credentialModuleAddress != address(0), "CredentialSigning: credential module address is zero");
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+    }
+    
+    /**
+     * @dev Issues a new credential from an EIP-712 signature of the issuer.
+     * The issuer must be allowed to issue the credential in the CredentialVerificationModule.
+     * @param issuer Address of the issuer that signed the request
+     * @param request Credential data signed by the issuer
+     * @param deadline Timestamp after which the signature is no longer valid
+     * @param signature EIP-712 signature (or ERC-1271 signature for contract issuers)
+     * @return id ID of the new credential
+     */
+    function issueCredentialWithSig(
+        address issuer,
+        CredentialVerificationModule.CredentialRequest memory request,
+        uint256 deadline,
+        bytes memory signature
+    ) 
+        external 
+        whenNotPaused 
+        returns (bytes32 id) 
+    {
+        require(block.timestamp <= deadline, "CredentialSigning: signature expired");
+        
+        uint256 nonce = _useNonce(issuer);
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            ISSUE_CREDENTIAL_TYPEHASH,
+            issuer,
+            _hashCredentialRequest(request),
+            nonce,
+            deadline
+        )));
+        
+        require(
+            SignatureChecker.isValidSignatureNow(issuer, digest, signature),
+            "CredentialSigning: invalid signature"
+        );
+        
+        id = _credentialModule.issueCredentialFromModule(issuer, request);
+        
+        emit SignedCredentialIssued(id, issuer, msg.sender, nonce);
+    }
+    
+    /**
+     * @dev Invalidates the caller's current issuance nonce, cancelling any
+     * signed request that has not been submitted yet
+     */
+    function invalidateNonce() 
+        external 
+        whenNotPaused 
+    {
+        uint256 nonce = _useNonce(msg.sender);
+        
+        emit NonceInvalidated(msg.sender, nonce);
+    }
+    
+    /**
+     * @dev Returns the EIP-712 domain separator used for signed issuance
+     */
+    function domainSeparator() 
+        external 
+        view 
+        returns (bytes32) 
+    {
+        return _domainSeparatorV4();
+    }
+    
+    /**
+     * @dev Internal function to compute the EIP-712 struct hash of a credential request
+     */
+    function _hashCredentialRequest(CredentialVerificationModule.CredentialRequest memory request) 
+        internal 
+        pure 
+        returns (bytes32) 
+    {
+        return keccak256(abi.encode(
+            CREDENTIAL_REQUEST_TYPEHASH,
+            request.subject,
+            keccak256(bytes(request.name)),
+            keccak256(bytes(request.description)),
+            keccak256(bytes(request.metadataURI)),
+            request.credentialType,
+            request.expirationDate,
+            request.evidenceHash,
+            request.revocable,
+            request.schemaId
+        ));
+    }
+}
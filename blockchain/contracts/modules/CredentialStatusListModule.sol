@@ -0,0 +1,305 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./CredentialVerificationModule.sol";
+
+/**
+ * @title CredentialStatusListModule
+ * @dev Contract module for compact credential status lists in the PropellantBD ecosystem.
+ * Each credential gets an index in its issuer's status list, similar to StatusList2021:
+ * one bitstring for revocation and one for suspension, readable in bulk by verifiers.
+ */
+contract CredentialStatusListModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    
+    // Reference to CredentialVerificationModule for credential data
+    CredentialVerificationModule private _credentialModule;
+    
+    // Purpose of a status bitstring
+    enum StatusPurpose {
+        REVOCATION,      // Bit set once the credential is revoked
+        SUSPENSION       // Bit set while the issuer has suspended the credential
+    }
+    
+    // Position of a credential in its issuer's status list
+    struct StatusEntry {
+        address issuer;              // Issuer owning the status list
+        uint256 index;               // Index of the credential's bits
+        bool assigned;               // Whether the credential has been given an index
+    }
+    
+    // Status of a credential as returned by bulk queries
+    struct CredentialStatus {
+        bytes32 id;                  // ID of the credential
+        address issuer;              // Issuer owning the status list
+        uint256 index;               // Index of the credential's bits
+        bool revoked;                // Whether the revocation bit is set
+        bool suspended;              // Whether the suspension bit is set
+        bool valid;                  // Whether the credential is valid and not suspended
+    }
+    
+    // Mappings for status list data
+    mapping(bytes32 => StatusEntry) private _entries;
+    mapping(address => uint256) private _listLengths;  // Number of indices assigned per issuer
+    mapping(address => mapping(StatusPurpose => mapping(uint256 => uint256))) private _bitstrings; // Issuer => purpose => 256-bit words
+    
+    // Events
+    event StatusIndexAssigned(bytes32 indexed id, address indexed issuer, uint256 index);
+    event StatusBitUpdated(bytes32 indexed id, StatusPurpose indexed purpose, bool value);
+    event CredentialSuspended(bytes32 indexed id, address indexed suspendedBy, string reason);
+    event CredentialReinstated(bytes32 indexed id, address indexed reinstatedBy, string reason);
+    
+    /**
+     * @dev Constructor that sets the credential module address
+     */
+    constructor(address payable credentialModuleAddress) {
+        require(credentialModuleAddress != address(0), "CredentialStatusList: credential module address is zero");
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+    }
+    
+    /**
+     * @dev Assigns a credential its status list index if needed and mirrors its revocation.
+     * Called by the credential module on every status change; anyone can call it
+     * to index credentials issued before the status list was set.
+     * @param id ID of the credential
+     */
+    function syncCredential(bytes32 id) 
+        external 
+    {
+        CredentialVerificationModule.Credential memory credential = _credentialModule.getCredentialData(id);
+        StatusEntry storage entry = _entries[id];
+        
+        if (!entry.assigned) {
+            entry.issuer = credential.issuer;
+            entry.index = _listLengths[credential.issuer]++;
+            entry.assigned = true;
+            
+            emit StatusIndexAssigned(id, entry.issuer, entry.index);
+        }
+        
+        _setBit(id, StatusPurpose.REVOCATION, credential.status == CredentialVerificationModule.VerificationStatus.REVOKED);
+    }
+    
+    /**
+     * @dev Suspends a credential until the issuer reinstates it
+     * @param id ID of the credential
+     * @param reason Reason for the suspension
+     */
+    function suspendCredential(bytes32 id, string memory reason) 
+        external 
+        whenNotPaused 
+    {
+        CredentialVerificationModule.Credential memory credential = _checkCanUpdate(id);
+        
+        require(credential.revocable, "CredentialStatusList: credential is not revocable");
+        require(
+            credential.status != CredentialVerificationModule.VerificationStatus.REVOKED,
+            "CredentialStatusList: credential is revoked"
+        );
+        require(!isSuspended(id), "CredentialStatusList: credential already suspended");
+        
+        _setBit(id, StatusPurpose.SUSPENSION, true);
+        
+        emit CredentialSuspended(id, msg.sender, reason);
+    }
+    
+    /**
+     * @dev Reinstates a suspended credential
+     * @param id ID of the credential
+     * @param reason Reason for the reinstatement
+     */
+    function reinstateCredential(bytes32 id, string memory reason) 
+        external 
+        whenNotPaused 
+    {
+        _checkCanUpdate(id);
+        
+        require(isSuspended(id), "CredentialStatusList: credential is not suspended");
+        
+        _setBit(id, StatusPurpose.SUSPENSION, false);
+        
+        emit CredentialReinstated(id, msg.sender, reason);
+    }
+    
+    /**
+     * @dev Gets the status of many credentials in one call.
+     * Credentials without a status index are returned with empty list fields.
+     * @param ids IDs of the credentials
+     */
+    function getCredentialStatuses(bytes32[] memory ids) 
+        external 
+        view 
+        returns (CredentialStatus[] memory) 
+    {
+        CredentialStatus[] memory statuses = new CredentialStatus[](ids.length);
+        
+        for (uint256 i = 0; i < ids.length; i++) {
+            StatusEntry storage entry = _entries[ids[i]];
+            
+            statuses[i].id = ids[i];
+            if (entry.assigned) {
+                statuses[i].issuer = entry.issuer;
+                statuses[i].index = entry.index;
+                statuses[i].revoked = _getBit(entry, StatusPurpose.REVOCATION);
+                statuses[i].suspended = _getBit(entry, StatusPurpose.SUSPENSION);
+            }
+            statuses[i].valid = _credentialModule.isCredentialValid(ids[i]);
+        }
+        
+        return statuses;
+    }
+    
+    /**
+     * @dev Gets the status list position of many credentials, so clients can check them against cached lists
+     * @param ids IDs of the credentials
+     */
+    function getStatusEntries(bytes32[] memory ids) 
+        external 
+        view 
+        returns (StatusEntry[] memory) 
+    {
+        StatusEntry[] memory entries = new StatusEntry[](ids.length);
+        
+        for (uint256 i = 0; i < ids.length; i++) {
+            entries[i] = _entries[ids[i]];
+        }
+        
+        return entries;
+    }
+    
+    /**
+     * @dev Gets a page of an issuer's status bitstring as 256-bit words.
+     * Bit `index % 256` of word `index / 256` holds the status of the credential at `index`.
+     * @param issuer Address of the issuer
+     * @param purpose Bitstring to read
+     * @param offset Index of the first word
+     * @param limit Maximum number of words to return
+     */
+    function getStatusListWords(address issuer, StatusPurpose purpose, uint256 offset, uint256 limit) 
+        external 
+        view 
+        returns (uint256[] memory) 
+    {
+        uint256 wordCount = (_listLengths[issuer] + 255) / 256;
+        if (offset >= wordCount) {
+            return new uint256[](0);
+        }
+        
+        // Clamp the limit first so offset + limit cannot overflow
+        if (limit > wordCount - offset) {
+            limit = wordCount - offset;
+        }
+        uint256 end = offset + limit;
+        
+        uint256[] memory words = new uint256[](limit);
+        for (uint256 i = offset; i < end; i++) {
+            words[i - offset] = _bitstrings[issuer][purpose][i];
+        }
+        
+        return words;
+    }
+    
+    /**
+     * @dev Gets the number of indices assigned in an issuer's status list
+     * @param issuer Address of the issuer
+     */
+    function getStatusListLength(address issuer) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _listLengths[issuer];
+    }
+    
+    /**
+     * @dev Gets a credential's position in its issuer's status list
+     * @param id ID of the credential
+     */
+    function getStatusEntry(bytes32 id) 
+        external 
+        view 
+        returns (StatusEntry memory) 
+    {
+        return _entries[id];
+    }
+    
+    /**
+     * @dev Checks if a credential is currently suspended
+     * @param id ID of the credential
+     */
+    function isSuspended(bytes32 id) 
+        public 
+        view 
+        returns (bool) 
+    {
+        StatusEntry storage entry = _entries[id];
+        return entry.assigned && _getBit(entry, StatusPurpose.SUSPENSION);
+    }
+    
+    /**
+     * @dev Gets the address of the credential module
+     */
+    function getCredentialModule() 
+        external 
+        view 
+        returns (address) 
+    {
+        return address(_credentialModule);
+    }
+    
+    /**
+     * @dev Internal function to check the caller may suspend or reinstate a credential.
+     * The credential must already be indexed.
+     */
+    function _checkCanUpdate(bytes32 id) 
+        internal 
+        view 
+        returns (CredentialVerificationModule.Credential memory credential) 
+    {
+        credential = _credentialModule.getCredentialData(id);
+        
+        require(
+            msg.sender == credential.issuer || hasRole(ADMIN_ROLE, msg.sender),
+            "CredentialStatusList: caller is not the issuer or admin"
+        );
+        require(_entries[id].assigned, "CredentialStatusList: credential has no status index");
+    }
+    
+    /**
+     * @dev Internal function to update one of a credential's status bits, emitting only on change
+     */
+    function _setBit(bytes32 id, StatusPurpose purpose, bool value) 
+        internal 
+    {
+        StatusEntry storage entry = _entries[id];
+        if (_getBit(entry, purpose) == value) {
+            return;
+        }
+        
+        uint256 mask = 1 << (entry.index % 256);
+        mapping(uint256 => uint256) storage words = _bitstrings[entry.issuer][purpose];
+        
+        if (value) {
+            words[entry.index / 256] |= mask;
+        } else {
+            words[entry.index / 256] &= ~mask;
+        }
+        
+        emit StatusBitUpdated(id, purpose, value);
+    }
+    
+    /**
+     * @dev Internal function to read one of a credential's status bits
+     */
+    function _getBit(StatusEntry storage entry, StatusPurpose purpose) 
+        internal 
+        view 
+        returns (bool) 
+    {
+        return (_bitstrings[entry.issuer][purpose][entry.index / 256] >> (entry.index % 256)) & 1 == 1;
+    }
+}
@@ -0,0 +1,189 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./CredentialVerificationModule.sol";
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/**
+ * @dev Minimal soulbound token interface (ERC-5192)
+ */
+interface IERC5192 {
+    event Locked(uint256 tokenId);
+    event Unlocked(uint256 tokenId);
+    
+    function locked(uint256 tokenId) external view returns (bool);
+}
+
+/**
+ * @title CredentialTokenModule
+ * @dev Contract module for soulbound tokens representing verified credentials in the PropellantBD ecosystem.
+ * Each VERIFIED credential accepted by its subject is mirrored as a locked ERC-721 token held by the subject,
+ * so wallets and other dApps can display it. Token IDs are the credential IDs.
+ */
+contract CredentialTokenModule is AccessControl, Pausable, Upgradeable, ERC721, IERC5192 {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    
+    // Reference to CredentialVerificationModule for credential data
+    CredentialVerificationModule private _credentialModule;
+    
+    // Number of tokens currently minted
+    uint256 private _totalSupply;
+    
+    /**
+     * @dev Constructor that sets the credential module address
+     */
+    constructor(address payable credentialModuleAddress) 
+        ERC721("PropellantBD Credential", "PBDC") 
+    {
+        require(credentialModuleAddress != address(0), "CredentialToken: credential module address is zero");
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+    }
+    
+    /**
+     * @dev Mints or burns a credential's token to match its current state.
+     * Called by the credential module on every status change; anyone can call it
+     * to mint tokens for credentials verified before the module was set, or to
+     * move a token after its credential was migrated to a new wallet.
+     * @param id ID of the credential
+     */
+    function syncCredential(bytes32 id) 
+        external 
+    {
+        CredentialVerificationModule.Credential memory credential = _credentialModule.getCredentialData(id);
+        uint256 tokenId = uint256(id);
+        address owner = _ownerOf(tokenId);
+        
+        // Only credentials the subject accepted and did not hide are displayed in their wallet
+        bool shouldExist = credential.status == CredentialVerificationModule.VerificationStatus.VERIFIED &&
+            credential.consent == CredentialVerificationModule.ConsentStatus.ACCEPTED &&
+            !credential.hidden;
+        
+        if (owner != address(0) && (!shouldExist || owner != credential.subject)) {
+            _burn(tokenId);
+            _totalSupply--;
+            owner = address(0);
+        }
+        
+        if (owner == address(0) && shouldExist) {
+            // _mint rather than _safeMint, so a subject contract cannot block verification
+            _mint(credential.subject, tokenId);
+            _totalSupply++;
+            
+            emit Locked(tokenId);
+        }
+    }
+    
+    /**
+     * @dev Tokens are always locked to their holder
+     * @param tokenId ID of the token
+     */
+    function locked(uint256 tokenId) 
+        external 
+        view 
+        override 
+        returns (bool) 
+    {
+        _requireOwned(tokenId);
+        return true;
+    }
+    
+    /**
+     * @dev Gets the token URI, which is the credential's metadata URI
+     * @param tokenId ID of the token
+     */
+    function tokenURI(uint256 tokenId) 
+        public 
+        view 
+        override 
+        returns (string memory) 
+    {
+        _requireOwned(tokenId);
+        return _credentialModule.getCredentialData(bytes32(tokenId)).metadataURI;
+    }
+    
+    /**
+     * @dev Soulbound tokens cannot be approved for transfer
+     */
+    function approve(address, uint256) 
+        public 
+        pure 
+        override 
+    {
+        revert("CredentialToken: token is soulbound");
+    }
+    
+    /**
+     * @dev Soulbound tokens cannot be approved for transfer
+     */
+    function setApprovalForAll(address, bool) 
+        public 
+        pure 
+        override 
+    {
+        revert("CredentialToken: token is soulbound");
+    }
+    
+    /**
+     * @dev Checks if a credential currently has a token
+     * @param id ID of the credential
+     */
+    function hasToken(bytes32 id) 
+        external 
+        view 
+        returns (bool) 
+    {
+        return _ownerOf(uint256(id)) != address(0);
+    }
+    
+    /**
+     * @dev Gets the number of tokens currently minted
+     */
+    function totalSupply() 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _totalSupply;
+    }
+    
+    /**
+     * @dev Gets the credential module address
+     */
+    function getCredentialModule() 
+        external 
+        view 
+        returns (address) 
+    {
+        return address(_credentialModule);
+    }
+    
+    /**
+     * @dev See {IERC165-supportsInterface}
+     */
+    function supportsInterface(bytes4 interfaceId) 
+        public 
+        view 
+        override 
+        returns (bool) 
+    {
+        return interfaceId == type(IERC5192).interfaceId || super.supportsInterface(interfaceId);
+    }
+    
+    /**
+     * @dev Internal function that only allows minting and burning, never transfers
+     */
+    function _update(address to, uint256 tokenId, address auth) 
+        internal 
+        override 
+        returns (address) 
+    {
+        address from = _ownerOf(tokenId);
+        require(from == address(0) || to == address(0), "CredentialToken: token is soulbound");
+        
+        return super._update(to, tokenId, auth);
+    }
+}
@@ -6,6 +6,10 @@ import "../base/Pausable.sol";
 import "../base/Upgradeable.sol";
 import "./RoleModule.sol";
 import "./UserProfileModule.sol";
+import "./CredentialSchemaModule.sol";
+import "./IssuerAccreditationModule.sol";
+import "./CredentialStatusListModule.sol";
+import "./CredentialTokenModule.sol";
 
 /**
  * @title CredentialVerificationModule
@@ -21,12 +25,30 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
     // Credential issuer role - only these accounts can issue credentials
     bytes32 public constant ISSUER_ROLE = keccak256("ISSUER_ROLE");
     
+    // Credential module role - companion modules allowed to issue on behalf of issuers
+    bytes32 public constant CREDENTIAL_MODULE_ROLE = keccak256("CREDENTIAL_MODULE_ROLE");
+    
+    // Longest grace period an issuer can allow after expiration
+    uint256 public constant MAX_GRACE_PERIOD = 365 days;
+    
     // Reference to RoleModule for role checks
     RoleModule private _roleModule;
     
     // Reference to UserProfileModule for profile validation
     UserProfileModule private _userProfileModule;
     
+    // Reference to CredentialSchemaModule for schema validation
+    CredentialSchemaModule private _schemaModule;
+    
+    // Reference to IssuerAccreditationModule for scoped issuance (unset for global ISSUER_ROLE checks)
+    IssuerAccreditationModule private _accreditationModule;
+    
+    // Reference to CredentialStatusListModule mirroring statuses into issuer bitstrings (unset to disable)
+    CredentialStatusListModule private _statusListModule;
+    
+    // Reference to CredentialTokenModule mirroring verified credentials as soulbound tokens (unset to disable)
+    CredentialTokenModule private _tokenModule;
+    
     // Credential types
     enum CredentialType {
         EDUCATION,       // Educational qualifications
@@ -46,6 +68,22 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         REVOKED          // Previously verified but now revoked
     }
     
+    // Kind of entry in a credential's verification history
+    enum RecordType {
+        VERIFICATION,    // Status set by the issuer, an admin or a credential module
+        ENDORSEMENT,     // Corroboration by another issuer or organization
+        RENEWAL,         // Expiration extended by the issuer
+        DISPUTE,         // Dispute opened, upheld or withdrawn by the subject
+        ISSUANCE         // Issuance by an account acting for the issuer (e.g. an organization member)
+    }
+    
+    // Subject consent to a credential issued to them
+    enum ConsentStatus {
+        PENDING,         // Awaiting the subject's decision
+        ACCEPTED,        // Accepted by the subject
+        DECLINED         // Declined by the subject
+    }
+    
     // Credential structure
     struct Credential {
         bytes32 id;                  // Unique identifier
@@ -60,6 +98,22 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         uint256 expirationDate;      // When the credential expires (0 for no expiration)
         bytes32 evidenceHash;        // Hash of evidence supporting the credential
         bool revocable;              // Whether this credential can be revoked
+        bytes32 schemaId;            // Schema the credential conforms to (0 for none)
+        ConsentStatus consent;       // Subject's acceptance of the credential
+        bool hidden;                 // Whether the subject hid the credential from public listings
+    }
+    
+    // Issuance request, also the EIP-712 struct signed for relayed issuance (see CredentialSigningModule)
+    struct CredentialRequest {
+        address subject;             // Who the credential is about
+        string name;                 // Name/title of the credential
+        string description;          // Detailed description
+        string metadataURI;          // IPFS URI for additional metadata
+        CredentialType credentialType; // Type of credential
+        uint256 expirationDate;      // When the credential expires (0 for no expiration)
+        bytes32 evidenceHash;        // Hash of evidence supporting the credential
+        bool revocable;              // Whether this credential can be revoked
+        bytes32 schemaId;            // Schema the credential conforms to (0 for none)
     }
     
     // Verification record
@@ -68,6 +122,18 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         VerificationStatus status;   // Status set by this verification
         string notes;                // Notes from the verifier
         uint256 timestamp;           // When the verification occurred
+        RecordType recordType;       // Kind of history entry
+    }
+    
+    // Issuer activity counters. Status counts track changes into a status,
+    // so a credential verified and later revoked counts towards both.
+    struct IssuerStats {
+        uint256 issuedCount;         // Credentials issued
+        uint256 verifiedCount;       // Credentials set to VERIFIED
+        uint256 rejectedCount;       // Credentials set to REJECTED
+        uint256 revokedCount;        // Credentials set to REVOKED
+        uint256 firstIssuanceDate;   // When the issuer first issued a credential (0 if never)
+        uint256 lastIssuanceDate;    // When the issuer last issued a credential (0 if never)
     }
     
     // Mappings for credential data
@@ -75,6 +141,12 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
     mapping(address => bytes32[]) private _subjectCredentials;
     mapping(address => bytes32[]) private _issuerCredentials;
     mapping(bytes32 => VerificationRecord[]) private _verificationHistory;
+    mapping(address => uint256) private _issuerGracePeriods; // Time an issuer's credentials stay valid after expiring
+    mapping(address => IssuerStats) private _issuerStats;
+    
+    // Directory of every account that was added as or acted as an issuer
+    address[] private _issuers;
+    mapping(address => bool) private _isListedIssuer;
     
     // Events
     event CredentialIssued(bytes32 indexed id, address indexed subject, address indexed issuer, CredentialType credentialType);
@@ -83,6 +155,14 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
     event CredentialUpdated(bytes32 indexed id, string name, string description);
     event IssuerAdded(address indexed issuer);
     event IssuerRemoved(address indexed issuer);
+    event SchemaModuleUpdated(address indexed schemaModule);
+    event AccreditationModuleUpdated(address indexed accreditationModule);
+    event StatusListModuleUpdated(address indexed statusListModule);
+    event TokenModuleUpdated(address indexed tokenModule);
+    event CredentialConsentChanged(bytes32 indexed id, address indexed subject, ConsentStatus consent);
+    event CredentialVisibilityChanged(bytes32 indexed id, address indexed subject, bool hidden);
+    event CredentialRenewed(bytes32 indexed id, address indexed issuer, uint256 previousExpirationDate, uint256 newExpirationDate);
+    event GracePeriodUpdated(address indexed issuer, uint256 gracePeriod);
     
     /**
      * @dev Modifier to ensure the caller is the credential subject or an admin
@@ -95,14 +175,19 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         _;
     }
     
+    /**
+     * @dev Modifier to ensure the caller is the credential subject
+     */
+    modifier onlySubject(bytes32 id) {
+        _checkSubject(id);
+        _;
+    }
+    
     /**
      * @dev Modifier to ensure the caller is the credential issuer
      */
     modifier onlyIssuer(bytes32 id) {
-        require(
-            _credentials[id].issuer == msg.sender,
-            "CredentialVerification: caller is not the credential issuer"
-        );
+        _checkIssuer(id);
         _;
     }
     
@@ -131,6 +216,7 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
                 "CredentialVerification: issuer must be an organization or admin");
         
         _roleModule.grantRoleSafe(ISSUER_ROLE, issuer);
+        _listIssuer(issuer);
         
         emit IssuerAdded(issuer);
     }
@@ -151,6 +237,66 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         emit IssuerRemoved(issuer);
     }
     
+    /**
+     * @dev Sets the accreditation module used to scope issuance.
+     * Once set, issuers need an accreditation covering each credential they issue.
+     * @param accreditationModuleAddress Address of the IssuerAccreditationModule (zero to disable)
+     */
+    function setAccreditationModule(address payable accreditationModuleAddress) 
+        external 
+        whenNotPaused 
+        onlyRole(ADMIN_ROLE) 
+    {
+        _accreditationModule = IssuerAccreditationModule(accreditationModuleAddress);
+        
+        emit AccreditationModuleUpdated(accreditationModuleAddress);
+    }
+    
+    /**
+     * @dev Sets the status list module that mirrors credential statuses.
+     * Once set, suspended credentials are no longer valid.
+     * @param statusListModuleAddress Address of the CredentialStatusListModule (zero to disable)
+     */
+    function setStatusListModule(address payable statusListModuleAddress) 
+        external 
+        whenNotPaused 
+        onlyRole(ADMIN_ROLE) 
+    {
+        _statusListModule = CredentialStatusListModule(statusListModuleAddress);
+        
+        emit StatusListModuleUpdated(statusListModuleAddress);
+    }
+    
+    /**
+     * @dev Sets the token module that mints soulbound tokens for verified credentials
+     * @param tokenModuleAddress Address of the CredentialTokenModule (zero to disable)
+     */
+    function setTokenModule(address payable tokenModuleAddress) 
+        external 
+        whenNotPaused 
+        onlyRole(ADMIN_ROLE) 
+    {
+        _tokenModule = CredentialTokenModule(tokenModuleAddress);
+        
+        emit TokenModuleUpdated(tokenModuleAddress);
+    }
+    
+    /**
+     * @dev Sets the schema module used to validate schema-bound credentials
+     * @param schemaModuleAddress Address of the CredentialSchemaModule
+     */
+    function setSchemaModule(address payable schemaModuleAddress) 
+        external 
+        whenNotPaused 
+        onlyRole(ADMIN_ROLE) 
+    {
+        require(schemaModuleAddress != address(0), "CredentialVerification: schema module address is zero");
+        
+        _schemaModule = CredentialSchemaModule(schemaModuleAddress);
+        
+        emit SchemaModuleUpdated(schemaModuleAddress);
+    }
+    
     /**
      * @dev Issues a new credential
      * @param subject Address of the credential subject
@@ -176,23 +322,125 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         whenNotPaused 
         returns (bytes32)
     {
-        require(_roleModule.hasRole(ISSUER_ROLE, msg.sender), "CredentialVerification: caller is not an issuer");
-        require(subject != address(0), "CredentialVerification: subject is zero address");
-        require(_userProfileModule.profileExists(subject), "CredentialVerification: subject profile does not exist");
-        require(bytes(name).length > 0, "CredentialVerification: name cannot be empty");
+        return _issueCredential(msg.sender, CredentialRequest({
+            subject: subject,
+            name: name,
+            description: description,
+            metadataURI: metadataURI,
+            credentialType: credentialType,
+            expirationDate: expirationDate,
+            evidenceHash: evidenceHash,
+            revocable: revocable,
+            schemaId: bytes32(0)
+        }));
+    }
+    
+    /**
+     * @dev Issues a new credential conforming to a registered schema.
+     * The credential type is taken from the schema.
+     * @param subject Address of the credential subject
+     * @param name Name/title of the credential
+     * @param description Detailed description
+     * @param metadataURI IPFS URI for additional metadata
+     * @param schemaId ID of the schema in the CredentialSchemaModule
+     * @param expirationDate When the credential expires (0 for no expiration)
+     * @param evidenceHash Hash of evidence supporting the credential
+     * @param revocable Whether this credential can be revoked
+     */
+    function issueCredentialWithSchema(
+        address subject,
+        string memory name,
+        string memory description,
+        string memory metadataURI,
+        bytes32 schemaId,
+        uint256 expirationDate,
+        bytes32 evidenceHash,
+        bool revocable
+    ) 
+        external 
+        whenNotPaused 
+        returns (bytes32)
+    {
+        require(address(_schemaModule) != address(0), "CredentialVerification: schema module not set");
+        require(_schemaModule.schemaExists(schemaId), "CredentialVerification: schema does not exist");
+        
+        return _issueCredential(msg.sender, CredentialRequest({
+            subject: subject,
+            name: name,
+            description: description,
+            metadataURI: metadataURI,
+            credentialType: _schemaModule.getSchemaCredentialType(schemaId),
+            expirationDate: expirationDate,
+            evidenceHash: evidenceHash,
+            revocable: revocable,
+            schemaId: schemaId
+        }));
+    }
+    
+    /**
+     * @dev Issues a new credential on behalf of an issuer from a companion module
+     * (e.g. cohort claims). The issuer must still hold ISSUER_ROLE.
+     * @param issuer Address of the issuer the credential is issued for
+     * @param request Credential data
+     */
+    function issueCredentialFromModule(address issuer, CredentialRequest memory request) 
+        external 
+        whenNotPaused 
+        onlyRole(CREDENTIAL_MODULE_ROLE) 
+        returns (bytes32)
+    {
+        return _issueCredential(issuer, request);
+    }
+    
+    /**
+     * @dev Internal function to issue a credential on behalf of an issuer
+     * @param issuer Address of the issuer
+     * @param request Credential data
+     */
+    function _issueCredential(address issuer, CredentialRequest memory request) 
+        internal 
+        returns (bytes32)
+    {
+        // Without accreditation any issuer can issue any credential
+        if (address(_accreditationModule) == address(0)) {
+            require(_roleModule.hasRole(ISSUER_ROLE, issuer), "CredentialVerification: caller is not an issuer");
+        }
+        require(request.subject != address(0), "CredentialVerification: subject is zero address");
+        require(_userProfileModule.profileExists(request.subject), "CredentialVerification: subject profile does not exist");
+        require(!_userProfileModule.isProfileErased(request.subject), "CredentialVerification: subject profile is erased");
+        require(bytes(request.name).length > 0, "CredentialVerification: name cannot be empty");
+        
+        // Schema-bound credentials must use an active schema of the same credential type
+        if (request.schemaId != bytes32(0)) {
+            require(address(_schemaModule) != address(0), "CredentialVerification: schema module not set");
+            require(_schemaModule.schemaExists(request.schemaId), "CredentialVerification: schema does not exist");
+            require(_schemaModule.isSchemaActive(request.schemaId), "CredentialVerification: schema is deprecated");
+            require(
+                _schemaModule.getSchemaCredentialType(request.schemaId) == request.credentialType,
+                "CredentialVerification: credential type does not match schema"
+            );
+        }
+        
+        // Accredited issuers and their delegates are limited to their scope
+        if (address(_accreditationModule) != address(0)) {
+            require(
+                _accreditationModule.isAccredited(issuer, request.credentialType, request.schemaId),
+                "CredentialVerification: issuer is not accredited for this credential"
+            );
+        }
         
         // If expiration date is set, it must be in the future
-        if (expirationDate > 0) {
-            require(expirationDate > block.timestamp, "CredentialVerification: expiration date must be in the future");
+        if (request.expirationDate > 0) {
+            require(request.expirationDate > block.timestamp, "CredentialVerification: expiration date must be in the future");
         }
         
         // Generate a unique ID for the credential
         bytes32 id = keccak256(abi.encodePacked(
-            subject, 
-            msg.sender, 
-            name, 
+            request.subject, 
+            issuer, 
+            request.name, 
             block.timestamp, 
-            _issuerCredentials[msg.sender].length
+            _issuerCredentials[issuer].length
         ));
         
         // Ensure the ID is unique
@@ -201,28 +449,193 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         // Create and store the new credential
         _credentials[id] = Credential({
             id: id,
-            subject: subject,
-            issuer: msg.sender,
-            name: name,
-            description: description,
-            metadataURI: metadataURI,
-            credentialType: credentialType,
+            subject: request.subject,
+            issuer: issuer,
+            name: request.name,
+            description: request.description,
+            metadataURI: request.metadataURI,
+            credentialType: request.credentialType,
             status: VerificationStatus.PENDING,
             issuanceDate: block.timestamp,
-            expirationDate: expirationDate,
-            evidenceHash: evidenceHash,
-            revocable: revocable
+            expirationDate: request.expirationDate,
+            evidenceHash: request.evidenceHash,
+            revocable: request.revocable,
+            schemaId: request.schemaId,
+            consent: ConsentStatus.PENDING,
+            hidden: false
         });
         
         // Add to subject's and issuer's credentials
-        _subjectCredentials[subject].push(id);
-        _issuerCredentials[msg.sender].push(id);
+        _subjectCredentials[request.subject].push(id);
+        _issuerCredentials[issuer].push(id);
         
-        emit CredentialIssued(id, subject, msg.sender, credentialType);
+        // Update the issuer's activity counters
+        IssuerStats storage stats = _issuerStats[issuer];
+        if (stats.firstIssuanceDate == 0) {
+            stats.firstIssuanceDate = block.timestamp;
+            _listIssuer(issuer);
+        }
+        stats.lastIssuanceDate = block.timestamp;
+        stats.issuedCount++;
+        
+        emit CredentialIssued(id, request.subject, issuer, request.credentialType);
+        
+        _syncModules(id);
         
         return id;
     }
     
+    /**
+     * @dev Internal function to revert if a credential does not exist
+     */
+    function _requireCredentialExists(bytes32 id) 
+        internal 
+        view 
+    {
+        require(_credentials[id].issuanceDate > 0, "CredentialVerification: credential does not exist");
+    }
+    
+    /**
+     * @dev Internal function to revert unless the caller is the credential subject
+     */
+    function _checkSubject(bytes32 id) 
+        internal 
+        view 
+    {
+        require(_credentials[id].subject == msg.sender, "CredentialVerification: caller is not the credential subject");
+    }
+    
+    /**
+     * @dev Internal function to revert unless the caller is the credential issuer
+     */
+    function _checkIssuer(bytes32 id) 
+        internal 
+        view 
+    {
+        require(_credentials[id].issuer == msg.sender, "CredentialVerification: caller is not the credential issuer");
+    }
+    
+    /**
+     * @dev Internal function to update a credential's status and record it in the history
+     */
+    function _setStatus(bytes32 id, address verifier, VerificationStatus status, string memory notes) 
+        internal 
+    {
+        _addVerificationRecord(id, verifier, RecordType.VERIFICATION, status, notes);
+        
+        // Update credential status
+        _credentials[id].status = status;
+        _countStatus(_credentials[id].issuer, status);
+        
+        emit CredentialVerified(id, verifier, status);
+        
+        _syncModules(id);
+    }
+    
+    /**
+     * @dev Internal function to mirror a credential's state into the status list and token modules, if set
+     */
+    function _syncModules(bytes32 id) 
+        internal 
+    {
+        if (address(_statusListModule) != address(0)) {
+            _statusListModule.syncCredential(id);
+        }
+        if (address(_tokenModule) != address(0)) {
+            _tokenModule.syncCredential(id);
+        }
+    }
+    
+    /**
+     * @dev Internal function to count a status change towards the issuer's stats
+     */
+    function _countStatus(address issuer, VerificationStatus status) 
+        internal 
+    {
+        if (status == VerificationStatus.VERIFIED) {
+            _issuerStats[issuer].verifiedCount++;
+        } else if (status == VerificationStatus.REJECTED) {
+            _issuerStats[issuer].rejectedCount++;
+        } else if (status == VerificationStatus.REVOKED) {
+            _issuerStats[issuer].revokedCount++;
+        }
+    }
+    
+    /**
+     * @dev Internal function to add an account to the issuer directory once
+     */
+    function _listIssuer(address issuer) 
+        internal 
+    {
+        if (!_isListedIssuer[issuer]) {
+            _isListedIssuer[issuer] = true;
+            _issuers.push(issuer);
+        }
+    }
+    
+    /**
+     * @dev Internal function to append a record to a credential's verification history
+     */
+    function _addVerificationRecord(
+        bytes32 id,
+        address verifier,
+        RecordType recordType,
+        VerificationStatus status,
+        string memory notes
+    ) 
+        internal 
+    {
+        _verificationHistory[id].push(VerificationRecord({
+            verifier: verifier,
+            status: status,
+            notes: notes,
+            timestamp: block.timestamp,
+            recordType: recordType
+        }));
+    }
+    
+    /**
+     * @dev Internal function to get the time a credential stops being valid,
+     * i.e. its expiration date plus the issuer's grace period
+     */
+    function _lapseTime(Credential storage credential) 
+        internal 
+        view 
+        returns (uint256) 
+    {
+        if (credential.expirationDate == 0) {
+            return type(uint256).max;
+        }
+        
+        return credential.expirationDate + _issuerGracePeriods[credential.issuer];
+    }
+    
+    /**
+     * @dev Internal function to copy a page of IDs from storage
+     */
+    function _slice(bytes32[] storage ids, uint256 offset, uint256 limit) 
+        internal 
+        view 
+        returns (bytes32[] memory) 
+    {
+        if (offset >= ids.length) {
+            return new bytes32[](0);
+        }
+        
+        // Clamp the limit first so offset + limit cannot overflow
+        if (limit > ids.length - offset) {
+            limit = ids.length - offset;
+        }
+        uint256 end = offset + limit;
+        bytes32[] memory page = new bytes32[](limit);
+        
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = ids[i];
+        }
+        
+        return page;
+    }
+    
     /**
      * @dev Verifies a credential
      * @param id ID of the credential
@@ -237,7 +650,7 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         external 
         whenNotPaused 
     {
-        require(_credentials[id].issuanceDate > 0, "CredentialVerification: credential does not exist");
+        _requireCredentialExists(id);
         require(
             msg.sender == _credentials[id].issuer || hasRole(ADMIN_ROLE, msg.sender),
             "CredentialVerification: caller cannot verify this credential"
@@ -247,21 +660,66 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
             "CredentialVerification: cannot set status to PENDING"
         );
         
-        // Create new verification record
-        VerificationRecord memory record = VerificationRecord({
-            verifier: msg.sender,
-            status: status,
-            notes: notes,
-            timestamp: block.timestamp
-        });
+        _setStatus(id, msg.sender, status, notes);
+    }
+    
+    /**
+     * @dev Adds a record to a credential's verification history from a companion
+     * module (e.g. endorsements). VERIFICATION records also update the status.
+     * @param id ID of the credential
+     * @param verifier Account the record is attributed to
+     * @param recordType Kind of history entry
+     * @param status Status recorded by the entry
+     * @param notes Notes from the verifier
+     */
+    function addVerificationRecordFromModule(
+        bytes32 id,
+        address verifier,
+        RecordType recordType,
+        VerificationStatus status,
+        string memory notes
+    ) 
+        external 
+        whenNotPaused 
+        onlyRole(CREDENTIAL_MODULE_ROLE) 
+    {
+        _requireCredentialExists(id);
         
-        // Add to verification history
-        _verificationHistory[id].push(record);
+        if (recordType == RecordType.VERIFICATION) {
+            _setStatus(id, verifier, status, notes);
+        } else {
+            _addVerificationRecord(id, verifier, recordType, status, notes);
+        }
+    }
+    
+    /**
+     * @dev Moves all credentials of a subject to a new address from a companion
+     * module (e.g. wallet migration) that has checked the migration is authorized
+     * @param oldSubject Address currently holding the credentials
+     * @param newSubject Address to move the credentials to
+     * @return Number of credentials moved
+     */
+    function migrateSubjectFromModule(address oldSubject, address newSubject) 
+        external 
+        whenNotPaused 
+        onlyRole(CREDENTIAL_MODULE_ROLE) 
+        returns (uint256) 
+    {
+        require(newSubject != address(0), "CredentialVerification: subject is zero address");
         
-        // Update credential status
-        _credentials[id].status = status;
+        bytes32[] storage ids = _subjectCredentials[oldSubject];
+        uint256 count = ids.length;
         
-        emit CredentialVerified(id, msg.sender, status);
+        for (uint256 i = 0; i < count; i++) {
+            _credentials[ids[i]].subject = newSubject;
+            _subjectCredentials[newSubject].push(ids[i]);
+            
+            // Moves the credential's token to the new wallet
+            _syncModules(ids[i]);
+        }
+        delete _subjectCredentials[oldSubject];
+        
+        return count;
     }
     
     /**
@@ -273,7 +731,7 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         external 
         whenNotPaused 
     {
-        require(_credentials[id].issuanceDate > 0, "CredentialVerification: credential does not exist");
+        _requireCredentialExists(id);
         require(_credentials[id].revocable, "CredentialVerification: credential is not revocable");
         require(
             msg.sender == _credentials[id].issuer || hasRole(ADMIN_ROLE, msg.sender),
@@ -286,19 +744,62 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         
         // Update credential status
         _credentials[id].status = VerificationStatus.REVOKED;
+        _countStatus(_credentials[id].issuer, VerificationStatus.REVOKED);
         
-        // Create revocation record
-        VerificationRecord memory record = VerificationRecord({
-            verifier: msg.sender,
-            status: VerificationStatus.REVOKED,
-            notes: reason,
-            timestamp: block.timestamp
-        });
-        
-        // Add to verification history
-        _verificationHistory[id].push(record);
+        // Add revocation record to verification history
+        _addVerificationRecord(id, msg.sender, RecordType.VERIFICATION, VerificationStatus.REVOKED, reason);
         
         emit CredentialRevoked(id, msg.sender, reason);
+        
+        _syncModules(id);
+    }
+    
+    /**
+     * @dev Renews a credential by extending its expiration date
+     * @param id ID of the credential
+     * @param newExpirationDate New expiration date (must be later than the current one)
+     * @param notes Notes recorded with the renewal
+     */
+    function renewCredential(bytes32 id, uint256 newExpirationDate, string memory notes) 
+        external 
+        whenNotPaused 
+        onlyIssuer(id) 
+    {
+        Credential storage credential = _credentials[id];
+        
+        require(credential.expirationDate > 0, "CredentialVerification: credential does not expire");
+        require(
+            credential.status != VerificationStatus.REVOKED && credential.status != VerificationStatus.REJECTED,
+            "CredentialVerification: credential cannot be renewed"
+        );
+        require(
+            newExpirationDate > credential.expirationDate && newExpirationDate > block.timestamp,
+            "CredentialVerification: new expiration date must be later"
+        );
+        
+        uint256 previousExpirationDate = credential.expirationDate;
+        credential.expirationDate = newExpirationDate;
+        
+        // Add renewal record to verification history
+        _addVerificationRecord(id, msg.sender, RecordType.RENEWAL, credential.status, notes);
+        
+        emit CredentialRenewed(id, msg.sender, previousExpirationDate, newExpirationDate);
+    }
+    
+    /**
+     * @dev Sets how long the caller's credentials stay valid after they expire
+     * @param gracePeriod Grace period in seconds (0 to disable)
+     */
+    function setGracePeriod(uint256 gracePeriod) 
+        external 
+        whenNotPaused 
+    {
+        require(_roleModule.hasRole(ISSUER_ROLE, msg.sender), "CredentialVerification: caller is not an issuer");
+        require(gracePeriod <= MAX_GRACE_PERIOD, "CredentialVerification: grace period too long");
+        
+        _issuerGracePeriods[msg.sender] = gracePeriod;
+        
+        emit GracePeriodUpdated(msg.sender, gracePeriod);
     }
     
     /**
@@ -318,7 +819,7 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         whenNotPaused 
         onlyIssuer(id) 
     {
-        require(_credentials[id].issuanceDate > 0, "CredentialVerification: credential does not exist");
+        _requireCredentialExists(id);
         require(_credentials[id].status != VerificationStatus.REVOKED, "CredentialVerification: credential is revoked");
         require(bytes(name).length > 0, "CredentialVerification: name cannot be empty");
         
@@ -331,6 +832,63 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         emit CredentialUpdated(id, name, description);
     }
     
+    /**
+     * @dev Accepts a credential issued to the caller, so it counts towards
+     * validity and public listings
+     * @param id ID of the credential
+     */
+    function acceptCredential(bytes32 id) 
+        external 
+        whenNotPaused 
+        onlySubject(id) 
+    {
+        require(_credentials[id].consent != ConsentStatus.ACCEPTED, "CredentialVerification: credential already accepted");
+        
+        _credentials[id].consent = ConsentStatus.ACCEPTED;
+        
+        emit CredentialConsentChanged(id, msg.sender, ConsentStatus.ACCEPTED);
+        
+        _syncModules(id);
+    }
+    
+    /**
+     * @dev Declines a credential issued to the caller.
+     * The issuer's record is kept, but the credential is never valid or listed publicly.
+     * @param id ID of the credential
+     */
+    function declineCredential(bytes32 id) 
+        external 
+        whenNotPaused 
+        onlySubject(id) 
+    {
+        require(_credentials[id].consent != ConsentStatus.DECLINED, "CredentialVerification: credential already declined");
+        
+        _credentials[id].consent = ConsentStatus.DECLINED;
+        _credentials[id].hidden = false;
+        _syncModules(id);
+        
+        emit CredentialConsentChanged(id, msg.sender, ConsentStatus.DECLINED);
+    }
+    
+    /**
+     * @dev Hides or shows an accepted credential in public listings
+     * @param id ID of the credential
+     * @param hidden Whether the credential should be hidden
+     */
+    function setCredentialHidden(bytes32 id, bool hidden) 
+        external 
+        whenNotPaused 
+        onlySubject(id) 
+    {
+        require(_credentials[id].consent == ConsentStatus.ACCEPTED, "CredentialVerification: credential not accepted");
+        require(_credentials[id].hidden != hidden, "CredentialVerification: visibility unchanged");
+        
+        _credentials[id].hidden = hidden;
+        _syncModules(id);
+        
+        emit CredentialVisibilityChanged(id, msg.sender, hidden);
+    }
+    
     /**
      * @dev Gets a credential's data
      * @param id ID of the credential
@@ -349,10 +907,11 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
             uint256 issuanceDate,
             uint256 expirationDate,
             bytes32 evidenceHash,
-            bool revocable
+            bool revocable,
+            bytes32 schemaId
         ) 
     {
-        require(_credentials[id].issuanceDate > 0, "CredentialVerification: credential does not exist");
+        _requireCredentialExists(id);
         
         Credential storage credential = _credentials[id];
         return (
@@ -366,10 +925,24 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
             credential.issuanceDate,
             credential.expirationDate,
             credential.evidenceHash,
-            credential.revocable
+            credential.revocable,
+            credential.schemaId
         );
     }
     
+    /**
+     * @dev Gets a credential as a struct, for use by companion modules
+     * @param id ID of the credential
+     */
+    function getCredentialData(bytes32 id) 
+        external 
+        view 
+        returns (Credential memory) 
+    {
+        _requireCredentialExists(id);
+        return _credentials[id];
+    }
+    
     /**
      * @dev Gets all credentials for a subject
      * @param subject Address of the subject
@@ -382,6 +955,18 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         return _subjectCredentials[subject];
     }
     
+    /**
+     * @dev Gets the grace period an issuer allows after expiration
+     * @param issuer Address of the issuer
+     */
+    function getGracePeriod(address issuer) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _issuerGracePeriods[issuer];
+    }
+    
     /**
      * @dev Gets all credentials issued by an issuer
      * @param issuer Address of the issuer
@@ -394,6 +979,58 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         return _issuerCredentials[issuer];
     }
     
+    /**
+     * @dev Gets the number of credentials held by a subject
+     * @param subject Address of the subject
+     */
+    function getSubjectCredentialCount(address subject) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _subjectCredentials[subject].length;
+    }
+    
+    /**
+     * @dev Gets the number of credentials issued by an issuer
+     * @param issuer Address of the issuer
+     */
+    function getIssuerCredentialCount(address issuer) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _issuerCredentials[issuer].length;
+    }
+    
+    /**
+     * @dev Gets a page of a subject's credential IDs
+     * @param subject Address of the subject
+     * @param offset Index of the first ID to return
+     * @param limit Maximum number of IDs to return
+     */
+    function getSubjectCredentialIds(address subject, uint256 offset, uint256 limit) 
+        external 
+        view 
+        returns (bytes32[] memory) 
+    {
+        return _slice(_subjectCredentials[subject], offset, limit);
+    }
+    
+    /**
+     * @dev Gets a page of an issuer's credential IDs
+     * @param issuer Address of the issuer
+     * @param offset Index of the first ID to return
+     * @param limit Maximum number of IDs to return
+     */
+    function getIssuerCredentialIds(address issuer, uint256 offset, uint256 limit) 
+        external 
+        view 
+        returns (bytes32[] memory) 
+    {
+        return _slice(_issuerCredentials[issuer], offset, limit);
+    }
+    
     /**
      * @dev Gets the verification history for a credential
      * @param id ID of the credential
@@ -403,7 +1040,7 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         view 
         returns (VerificationRecord[] memory) 
     {
-        require(_credentials[id].issuanceDate > 0, "CredentialVerification: credential does not exist");
+        _requireCredentialExists(id);
         return _verificationHistory[id];
     }
     
@@ -425,10 +1062,95 @@ contract CredentialVerificationModule is AccessControl, Pausable, Upgradeable {
         // Check if verified
         bool verified = credential.status == VerificationStatus.VERIFIED;
         
-        // Check if not expired
-        bool notExpired = credential.expirationDate == 0 || credential.expirationDate > block.timestamp;
+        // Check if not expired, allowing for the issuer's grace period
+        bool notExpired = block.timestamp < _lapseTime(credential);
+        
+        // Check if accepted by the subject
+        bool accepted = credential.consent == ConsentStatus.ACCEPTED;
         
-        return verified && notExpired;
+        // Check if not suspended by the issuer
+        bool notSuspended = address(_statusListModule) == address(0) || !_statusListModule.isSuspended(id);
+        
+        return verified && notExpired && accepted && notSuspended;
+    }
+    
+    /**
+     * @dev Gets an issuer's activity counters
+     * @param issuer Address of the issuer
+     */
+    function getIssuerStats(address issuer) 
+        external 
+        view 
+        returns (IssuerStats memory) 
+    {
+        return _issuerStats[issuer];
+    }
+    
+    /**
+     * @dev Gets the number of accounts in the issuer directory, including removed issuers
+     */
+    function getIssuerCount() 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _issuers.length;
+    }
+    
+    /**
+     * @dev Gets an account from the issuer directory
+     * @param index Position in the directory
+     */
+    function getIssuerAt(uint256 index) 
+        external 
+        view 
+        returns (address) 
+    {
+        return _issuers[index];
+    }
+    
+    /**
+     * @dev Gets the address of the schema module
+     */
+    function getSchemaModule() 
+        external 
+        view 
+        returns (address) 
+    {
+        return address(_schemaModule);
+    }
+    
+    /**
+     * @dev Gets the address of the accreditation module
+     */
+    function getAccreditationModule() 
+        external 
+        view 
+        returns (address) 
+    {
+        return address(_accreditationModule);
+    }
+    
+    /**
+     * @dev Gets the address of the status list module
+     */
+    function getStatusListModule() 
+        external 
+        view 
+        returns (address) 
+    {
+        return address(_statusListModule);
+    }
+    
+    /**
+     * @dev Gets the token module address (zero if unset)
+     */
+    function getTokenModule() 
+        external 
+        view 
+        returns (address) 
+    {
+        return address(_tokenModule);
     }
     
     /**
@@ -0,0 +1,357 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./RoleModule.sol";
+import "./CredentialVerificationModule.sol";
+
+/**
+ * @title IssuerAccreditationModule
+ * @dev Contract module for scoped issuer accreditation in the PropellantBD ecosystem.
+ * Admins accredit issuers per credential type (and optionally schema) with an expiry date,
+ * and accredited issuers can delegate their scope to sub-issuers. Delegations are tied to the
+ * parent accreditation they were made under and do not return if the parent is accredited again.
+ */
+contract IssuerAccreditationModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant ISSUER_ROLE = keccak256("ISSUER_ROLE");
+    
+    // Reference to RoleModule for role checks
+    RoleModule private _roleModule;
+    
+    // Accreditation structure
+    struct Accreditation {
+        address issuer;              // Accredited issuer or delegate
+        address parent;              // Accredited issuer that delegated the scope (zero for direct accreditation)
+        CredentialVerificationModule.CredentialType credentialType; // Type of credential covered
+        bytes32 schemaId;            // Schema covered (0 for any schema of the type)
+        uint256 expiresAt;           // When the accreditation expires (0 for no expiration)
+        uint256 grantedAt;           // When the accreditation was granted
+        bool revoked;                // Whether the accreditation was revoked
+        uint256 grantId;             // Direct accreditation this is, or was delegated under
+    }
+    
+    // Mappings for accreditation data
+    mapping(bytes32 => Accreditation) private _accreditations; // Maps scope key to accreditation
+    mapping(address => bytes32[]) private _issuerScopes;       // Scope keys ever granted to an issuer
+    mapping(address => address[]) private _delegates;          // Sub-issuers ever delegated to by a parent
+    uint256 private _grantCount;                               // Number of direct accreditations granted
+    
+    // Events
+    event IssuerAccredited(
+        address indexed issuer,
+        address indexed parent,
+        CredentialVerificationModule.CredentialType credentialType,
+        bytes32 indexed schemaId,
+        uint256 expiresAt
+    );
+    event AccreditationRevoked(
+        address indexed issuer,
+        CredentialVerificationModule.CredentialType credentialType,
+        bytes32 indexed schemaId,
+        address indexed revokedBy
+    );
+    
+    /**
+     * @dev Constructor that sets the role module address
+     */
+    constructor(address payable roleModuleAddress) {
+        require(roleModuleAddress != address(0), "IssuerAccreditation: role module address is zero");
+        _roleModule = RoleModule(roleModuleAddress);
+    }
+    
+    /**
+     * @dev Accredits an issuer for a credential type, optionally limited to one schema
+     * @param issuer Address of the issuer (must hold ISSUER_ROLE)
+     * @param credentialType Type of credential covered
+     * @param schemaId Schema covered (0 for any schema of the type)
+     * @param expiresAt When the accreditation expires (0 for no expiration)
+     */
+    function accredit(
+        address issuer,
+        CredentialVerificationModule.CredentialType credentialType,
+        bytes32 schemaId,
+        uint256 expiresAt
+    ) 
+        external 
+        whenNotPaused 
+        onlyRole(ADMIN_ROLE) 
+    {
+        require(_roleModule.hasRole(ISSUER_ROLE, issuer), "IssuerAccreditation: account is not an issuer");
+        
+        // Renewing an active accreditation keeps its delegations, granting it afresh ends them
+        Accreditation storage existing = _accreditations[scopeKey(issuer, credentialType, schemaId)];
+        uint256 grantId = existing.parent == address(0) && _isActive(existing) ? existing.grantId : ++_grantCount;
+        
+        _grant(issuer, address(0), credentialType, schemaId, expiresAt, grantId);
+    }
+    
+    /**
+     * @dev Delegates part of the caller's accredited scope to a sub-issuer.
+     * Delegations end when the caller's own accreditation ends, and must be granted again
+     * after the caller is accredited again.
+     * @param subIssuer Address of the sub-issuer
+     * @param credentialType Type of credential covered
+     * @param schemaId Schema covered (0 for any schema of the type)
+     * @param expiresAt When the delegation expires (0 for no expiration)
+     */
+    function delegate(
+        address subIssuer,
+        CredentialVerificationModule.CredentialType credentialType,
+        bytes32 schemaId,
+        uint256 expiresAt
+    ) 
+        external 
+        whenNotPaused 
+    {
+        require(subIssuer != address(0) && subIssuer != msg.sender, "IssuerAccreditation: invalid delegate");
+        uint256 grantId = _directGrantId(msg.sender, credentialType, schemaId);
+        require(grantId > 0, "IssuerAccreditation: caller is not accredited for this scope");
+        
+        Accreditation storage existing = _accreditations[scopeKey(subIssuer, credentialType, schemaId)];
+        require(
+            existing.grantedAt == 0 || existing.parent == msg.sender || !_isActive(existing),
+            "IssuerAccreditation: scope is held by another parent"
+        );
+        
+        _grant(subIssuer, msg.sender, credentialType, schemaId, expiresAt, grantId);
+    }
+    
+    /**
+     * @dev Revokes an accreditation. Admins can revoke any accreditation, parents their delegations.
+     * Revoking an accreditation also ends every delegation made under it.
+     * @param issuer Address of the accredited issuer or delegate
+     * @param credentialType Type of credential covered
+     * @param schemaId Schema covered (0 for any schema of the type)
+     */
+    function revokeAccreditation(
+        address issuer,
+        CredentialVerificationModule.CredentialType credentialType,
+        bytes32 schemaId
+    ) 
+        external 
+        whenNotPaused 
+    {
+        Accreditation storage accreditation = _accreditations[scopeKey(issuer, credentialType, schemaId)];
+        
+        require(accreditation.grantedAt > 0, "IssuerAccreditation: accreditation does not exist");
+        require(!accreditation.revoked, "IssuerAccreditation: accreditation already revoked");
+        require(
+            hasRole(ADMIN_ROLE, msg.sender) ||
+            (accreditation.parent != address(0) && accreditation.parent == msg.sender),
+            "IssuerAccreditation: caller cannot revoke this accreditation"
+        );
+        
+        accreditation.revoked = true;
+        
+        emit AccreditationRevoked(issuer, credentialType, schemaId, msg.sender);
+    }
+    
+    /**
+     * @dev Checks if an issuer may issue a credential of a type and schema,
+     * either through an accreditation for the schema or for the whole type
+     * @param issuer Address of the issuer
+     * @param credentialType Type of the credential
+     * @param schemaId Schema of the credential (0 for none)
+     */
+    function isAccredited(
+        address issuer,
+        CredentialVerificationModule.CredentialType credentialType,
+        bytes32 schemaId
+    ) 
+        public 
+        view 
+        returns (bool) 
+    {
+        if (schemaId != bytes32(0) && _isValid(_accreditations[scopeKey(issuer, credentialType, schemaId)], schemaId)) {
+            return true;
+        }
+        return _isValid(_accreditations[scopeKey(issuer, credentialType, bytes32(0))], schemaId);
+    }
+    
+    /**
+     * @dev Gets an accreditation
+     * @param issuer Address of the accredited issuer or delegate
+     * @param credentialType Type of credential covered
+     * @param schemaId Schema covered (0 for any schema of the type)
+     */
+    function getAccreditation(
+        address issuer,
+        CredentialVerificationModule.CredentialType credentialType,
+        bytes32 schemaId
+    ) 
+        external 
+        view 
+        returns (Accreditation memory) 
+    {
+        return _accreditations[scopeKey(issuer, credentialType, schemaId)];
+    }
+    
+    /**
+     * @dev Gets all accreditations ever granted to an issuer, including expired and revoked ones
+     * @param issuer Address of the issuer
+     */
+    function getIssuerAccreditations(address issuer) 
+        external 
+        view 
+        returns (Accreditation[] memory) 
+    {
+        bytes32[] storage keys = _issuerScopes[issuer];
+        Accreditation[] memory accreditations = new Accreditation[](keys.length);
+        
+        for (uint256 i = 0; i < keys.length; i++) {
+            accreditations[i] = _accreditations[keys[i]];
+        }
+        
+        return accreditations;
+    }
+    
+    /**
+     * @dev Gets all sub-issuers a parent has delegated to
+     * @param parent Address of the accredited issuer
+     */
+    function getDelegates(address parent) 
+        external 
+        view 
+        returns (address[] memory) 
+    {
+        return _delegates[parent];
+    }
+    
+    /**
+     * @dev Computes the key of an accreditation scope
+     * @param issuer Address of the issuer
+     * @param credentialType Type of credential covered
+     * @param schemaId Schema covered (0 for any schema of the type)
+     */
+    function scopeKey(
+        address issuer,
+        CredentialVerificationModule.CredentialType credentialType,
+        bytes32 schemaId
+    ) 
+        public 
+        pure 
+        returns (bytes32) 
+    {
+        return keccak256(abi.encode(issuer, credentialType, schemaId));
+    }
+    
+    /**
+     * @dev Internal function to record an accreditation
+     */
+    function _grant(
+        address issuer,
+        address parent,
+        CredentialVerificationModule.CredentialType credentialType,
+        bytes32 schemaId,
+        uint256 expiresAt,
+        uint256 grantId
+    ) 
+        internal 
+    {
+        // If expiration date is set, it must be in the future
+        if (expiresAt > 0) {
+            require(expiresAt > block.timestamp, "IssuerAccreditation: expiration date must be in the future");
+        }
+        
+        bytes32 key = scopeKey(issuer, credentialType, schemaId);
+        
+        if (_accreditations[key].grantedAt == 0) {
+            _issuerScopes[issuer].push(key);
+        }
+        if (parent != address(0) && _accreditations[key].parent != parent) {
+            _delegates[parent].push(issuer);
+        }
+        
+        _accreditations[key] = Accreditation({
+            issuer: issuer,
+            parent: parent,
+            credentialType: credentialType,
+            schemaId: schemaId,
+            expiresAt: expiresAt,
+            grantedAt: block.timestamp,
+            revoked: false,
+            grantId: grantId
+        });
+        
+        emit IssuerAccredited(issuer, parent, credentialType, schemaId, expiresAt);
+    }
+    
+    /**
+     * @dev Internal function to get the grant ID of a valid direct (non-delegated) accreditation
+     * of an issuer covering a type and schema, or zero if there is none
+     */
+    function _directGrantId(
+        address issuer,
+        CredentialVerificationModule.CredentialType credentialType,
+        bytes32 schemaId
+    ) 
+        internal 
+        view 
+        returns (uint256) 
+    {
+        Accreditation storage exact = _accreditations[scopeKey(issuer, credentialType, schemaId)];
+        if (exact.parent == address(0) && _isValid(exact, schemaId)) {
+            return exact.grantId;
+        }
+        
+        Accreditation storage wildcard = _accreditations[scopeKey(issuer, credentialType, bytes32(0))];
+        if (wildcard.parent == address(0) && _isValid(wildcard, schemaId)) {
+            return wildcard.grantId;
+        }
+        return 0;
+    }
+    
+    /**
+     * @dev Internal function to check if a parent still holds the direct accreditation a delegation
+     * was made under
+     */
+    function _holdsGrant(Accreditation storage delegation, bytes32 schemaId) 
+        internal 
+        view 
+        returns (bool) 
+    {
+        Accreditation storage exact = _accreditations[scopeKey(delegation.parent, delegation.credentialType, schemaId)];
+        Accreditation storage wildcard = _accreditations[scopeKey(delegation.parent, delegation.credentialType, bytes32(0))];
+        
+        return (exact.parent == address(0) && exact.grantId == delegation.grantId && _isValid(exact, schemaId)) ||
+            (wildcard.parent == address(0) && wildcard.grantId == delegation.grantId && _isValid(wildcard, schemaId));
+    }
+    
+    /**
+     * @dev Internal function to check if an accreditation is valid, including the parent it was delegated from
+     */
+    function _isValid(Accreditation storage accreditation, bytes32 schemaId) 
+        internal 
+        view 
+        returns (bool) 
+    {
+        if (!_isActive(accreditation)) {
+            return false;
+        }
+        
+        // Direct accreditations also require the issuer to still hold ISSUER_ROLE
+        if (accreditation.parent == address(0)) {
+            return _roleModule.hasRole(ISSUER_ROLE, accreditation.issuer);
+        }
+        
+        // Delegations cascade: they end when the parent loses the accreditation they were made under
+        return _holdsGrant(accreditation, schemaId);
+    }
+    
+    /**
+     * @dev Internal function to check if an accreditation exists, is not revoked and has not expired
+     */
+    function _isActive(Accreditation storage accreditation) 
+        internal 
+        view 
+        returns (bool) 
+    {
+        return accreditation.grantedAt > 0 &&
+            !accreditation.revoked &&
+            (accreditation.expiresAt == 0 || accreditation.expiresAt > block.timestamp);
+    }
+}
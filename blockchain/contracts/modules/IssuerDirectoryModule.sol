@@ -0,0 +1,189 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./UserProfileModule.sol";
+import "./CredentialVerificationModule.sol";
+
+/**
+ * @title IssuerDirectoryModule
+ * @dev Contract module for the public issuer directory of the PropellantBD ecosystem.
+ * Lists every issuer with its display metadata, its profile and its activity counters,
+ * so verifiers can judge whether an issuer is established and active.
+ */
+contract IssuerDirectoryModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    
+    // Reference to UserProfileModule for issuer profiles
+    UserProfileModule private _userProfileModule;
+    
+    // Reference to CredentialVerificationModule for the issuer list and stats
+    CredentialVerificationModule private _credentialModule;
+    
+    // Display metadata set by the issuer
+    struct IssuerMetadata {
+        string displayName;          // Name shown to verifiers (falls back to the profile name)
+        string website;              // Issuer's website
+        string logoURI;              // IPFS URI of the issuer's logo
+        string description;          // Short description of the issuer
+        uint256 updatedAt;           // When the metadata was last updated
+    }
+    
+    // Directory listing of an issuer
+    struct IssuerEntry {
+        address issuer;              // Address of the issuer
+        bool active;                 // Whether the account currently holds ISSUER_ROLE
+        bool hasProfile;             // Whether the issuer has a UserProfileModule profile that is not erased
+        string displayName;          // Metadata display name, or the profile name if unset
+        IssuerMetadata metadata;     // Display metadata set by the issuer
+        CredentialVerificationModule.IssuerStats stats; // Issuance and verification counters
+    }
+    
+    // Maps issuer to its display metadata
+    mapping(address => IssuerMetadata) private _metadata;
+    
+    // Events
+    event IssuerMetadataUpdated(address indexed issuer, string displayName);
+    event IssuerMetadataCleared(address indexed issuer, address indexed clearedBy);
+    
+    /**
+     * @dev Constructor that sets the user profile module and credential module addresses
+     */
+    constructor(address payable userProfileModuleAddress, address payable credentialModuleAddress) {
+        require(userProfileModuleAddress != address(0), "IssuerDirectory: user profile module address is zero");
+        require(credentialModuleAddress != address(0), "IssuerDirectory: credential module address is zero");
+        
+        _userProfileModule = UserProfileModule(userProfileModuleAddress);
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+    }
+    
+    /**
+     * @dev Sets the caller's display metadata in the directory
+     * @param displayName Name shown to verifiers (empty to use the profile name)
+     * @param website Issuer's website
+     * @param logoURI IPFS URI of the issuer's logo
+     * @param description Short description of the issuer
+     */
+    function setIssuerMetadata(
+        string memory displayName,
+        string memory website,
+        string memory logoURI,
+        string memory description
+    ) 
+        external 
+        whenNotPaused 
+    {
+        require(_credentialModule.isIssuer(msg.sender), "IssuerDirectory: caller is not an issuer");
+        
+        _metadata[msg.sender] = IssuerMetadata({
+            displayName: displayName,
+            website: website,
+            logoURI: logoURI,
+            description: description,
+            updatedAt: block.timestamp
+        });
+        
+        emit IssuerMetadataUpdated(msg.sender, displayName);
+    }
+    
+    /**
+     * @dev Clears an issuer's display metadata, e.g. if it is misleading
+     * @param issuer Address of the issuer
+     */
+    function clearIssuerMetadata(address issuer) 
+        external 
+        onlyRole(ADMIN_ROLE) 
+    {
+        require(_metadata[issuer].updatedAt > 0, "IssuerDirectory: metadata not set");
+        
+        delete _metadata[issuer];
+        
+        emit IssuerMetadataCleared(issuer, msg.sender);
+    }
+    
+    /**
+     * @dev Gets the directory listing of an issuer, including its stats
+     * @param issuer Address of the issuer
+     */
+    function getIssuer(address issuer) 
+        public 
+        view 
+        returns (IssuerEntry memory entry) 
+    {
+        entry.issuer = issuer;
+        entry.active = _credentialModule.isIssuer(issuer);
+        entry.hasProfile = _userProfileModule.profileExists(issuer) && !_userProfileModule.isProfileErased(issuer);
+        entry.metadata = _metadata[issuer];
+        entry.stats = _credentialModule.getIssuerStats(issuer);
+        
+        entry.displayName = entry.metadata.displayName;
+        if (bytes(entry.displayName).length == 0 && entry.hasProfile) {
+            (entry.displayName, , , , , , , ) = _userProfileModule.getProfile(issuer);
+        }
+    }
+    
+    /**
+     * @dev Gets a page of the issuer directory, in the order issuers were added.
+     * Scans `limit` directory positions from `offset`, so an active-only page may hold fewer than `limit` issuers;
+     * keep requesting from `nextOffset` until it reaches the directory size.
+     * @param offset Position of the first issuer
+     * @param limit Number of directory positions to scan
+     * @param activeOnly Whether to skip accounts that no longer hold ISSUER_ROLE
+     * @return entries Issuers in the page
+     * @return nextOffset Position to continue from (the directory size once exhausted)
+     */
+    function getIssuers(uint256 offset, uint256 limit, bool activeOnly) 
+        external 
+        view 
+        returns (IssuerEntry[] memory entries, uint256 nextOffset) 
+    {
+        uint256 total = _credentialModule.getIssuerCount();
+        uint256 size = offset < total ? total - offset : 0;
+        if (limit < size) {
+            size = limit;
+        }
+        
+        IssuerEntry[] memory page = new IssuerEntry[](size);
+        uint256 count = 0;
+        
+        for (uint256 i = 0; i < size; i++) {
+            address issuer = _credentialModule.getIssuerAt(offset + i);
+            if (!activeOnly || _credentialModule.isIssuer(issuer)) {
+                page[count++] = getIssuer(issuer);
+            }
+        }
+        nextOffset = offset + size;
+        
+        // Trim the page to the issuers found
+        entries = new IssuerEntry[](count);
+        for (uint256 i = 0; i < count; i++) {
+            entries[i] = page[i];
+        }
+    }
+    
+    /**
+     * @dev Gets the number of accounts in the issuer directory, including removed issuers
+     */
+    function getIssuerCount() 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _credentialModule.getIssuerCount();
+    }
+    
+    /**
+     * @dev Gets an issuer's display metadata
+     * @param issuer Address of the issuer
+     */
+    function getIssuerMetadata(address issuer) 
+        external 
+        view 
+        returns (IssuerMetadata memory) 
+    {
+        return _metadata[issuer];
+    }
+}
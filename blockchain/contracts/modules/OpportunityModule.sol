@@ -0,0 +1,416 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./RoleModule.sol";
+import "./UserProfileModule.sol";
+import "./CredentialVerificationModule.sol";
+import "./OrganizationModule.sol";
+
+/**
+ * @title OpportunityModule
+ * @dev Contract module for opportunities (job postings) in the PropellantBD ecosystem.
+ * Organizations publish opportunities that may require credentials of given types or schemas.
+ * Talents apply with credentials meeting the requirements, and the organization moves
+ * applications through the shortlisted, rejected and hired states.
+ */
+contract OpportunityModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant ORGANIZATION_ROLE = keccak256("ORGANIZATION_ROLE");
+    
+    // Maximum number of credential requirements on an opportunity
+    uint256 public constant MAX_REQUIREMENTS = 10;
+    
+    // Reference to RoleModule for role checks
+    RoleModule private _roleModule;
+    
+    // Reference to UserProfileModule for profile checks
+    UserProfileModule private _userProfileModule;
+    
+    // Reference to CredentialVerificationModule for checking applicants' credentials
+    CredentialVerificationModule private _credentialModule;
+    
+    // Reference to OrganizationModule for members posting on behalf of an organization
+    OrganizationModule private _organizationModule;
+    
+    // Application lifecycle
+    enum ApplicationStatus {
+        NONE,            // No application
+        SUBMITTED,       // Awaiting review
+        SHORTLISTED,     // Shortlisted by the organization
+        REJECTED,        // Rejected by the organization
+        HIRED,           // Hired by the organization
+        WITHDRAWN        // Withdrawn by the applicant
+    }
+    
+    // Opportunity structure
+    struct Opportunity {
+        bytes32 id;                  // Unique identifier
+        address organization;        // Organization offering the opportunity
+        address poster;              // Who published the opportunity
+        string metadataURI;          // IPFS URI of the opportunity details
+        uint256 deadline;            // Last time applications are accepted
+        CredentialVerificationModule.CredentialType[] requiredTypes; // Credential types applicants must hold
+        bytes32[] requiredSchemas;   // Credential schemas applicants must hold
+        uint256 creationTime;        // When the opportunity was published
+        uint256 applicationCount;    // Number of applications received
+        bool open;                   // Whether applications are accepted
+    }
+    
+    // Application structure
+    struct Application {
+        bytes32 opportunityId;       // Opportunity applied to
+        address applicant;           // Who applied
+        bytes32[] credentialIds;     // Credentials submitted to meet the requirements
+        ApplicationStatus status;    // Current status
+        uint256 applicationTime;     // When the application was submitted
+        uint256 lastUpdateTime;      // When the status last changed
+    }
+    
+    // Mappings for opportunity data
+    mapping(bytes32 => Opportunity) private _opportunities;
+    mapping(address => bytes32[]) private _organizationOpportunities;
+    
+    // Mappings for application data
+    mapping(bytes32 => mapping(address => Application)) private _applications;
+    mapping(bytes32 => address[]) private _applicants;
+    mapping(address => bytes32[]) private _talentApplications; // Maps talent to the opportunities applied to
+    
+    // Events
+    event OpportunityPublished(bytes32 indexed id, address indexed organization, address indexed poster, uint256 deadline);
+    event OpportunityClosed(bytes32 indexed id, address indexed closedBy);
+    event ApplicationSubmitted(bytes32 indexed opportunityId, address indexed applicant);
+    event ApplicationStatusChanged(
+        bytes32 indexed opportunityId,
+        address indexed applicant,
+        ApplicationStatus status,
+        address changedBy
+    );
+    
+    /**
+     * @dev Modifier to ensure the opportunity exists
+     */
+    modifier opportunityMustExist(bytes32 id) {
+        require(_opportunities[id].creationTime > 0, "Opportunity: opportunity does not exist");
+        _;
+    }
+    
+    /**
+     * @dev Constructor that sets the role, user profile, credential and organization module addresses
+     */
+    constructor(
+        address payable roleModuleAddress,
+        address payable userProfileModuleAddress,
+        address payable credentialModuleAddress,
+        address payable organizationModuleAddress
+    ) {
+        require(roleModuleAddress != address(0), "Opportunity: role module address is zero");
+        require(userProfileModuleAddress != address(0), "Opportunity: user profile module address is zero");
+        require(credentialModuleAddress != address(0), "Opportunity: credential module address is zero");
+        require(organizationModuleAddress != address(0), "Opportunity: organization module address is zero");
+        
+        _roleModule = RoleModule(roleModuleAddress);
+        _userProfileModule = UserProfileModule(userProfileModuleAddress);
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+        _organizationModule = OrganizationModule(organizationModuleAddress);
+    }
+    
+    /**
+     * @dev Publishes an opportunity for an organization. The caller must be the organization
+     * account or a member allowed to post for it.
+     * @param organization Account holding ORGANIZATION_ROLE that offers the opportunity
+     * @param metadataURI IPFS URI of the opportunity details
+     * @param deadline Last time applications are accepted
+     * @param requiredTypes Credential types applicants must hold
+     * @param requiredSchemas Credential schemas applicants must hold
+     * @return id ID of the new opportunity
+     */
+    function publishOpportunity(
+        address organization,
+        string memory metadataURI,
+        uint256 deadline,
+        CredentialVerificationModule.CredentialType[] memory requiredTypes,
+        bytes32[] memory requiredSchemas
+    ) 
+        external 
+        whenNotPaused 
+        returns (bytes32 id) 
+    {
+        require(_roleModule.hasRole(ORGANIZATION_ROLE, organization), "Opportunity: not an organization");
+        _checkCanManage(organization);
+        require(bytes(metadataURI).length > 0, "Opportunity: metadata URI cannot be empty");
+        require(deadline > block.timestamp, "Opportunity: deadline must be in the future");
+        require(
+            requiredTypes.length + requiredSchemas.length <= MAX_REQUIREMENTS,
+            "Opportunity: too many requirements"
+        );
+        
+        // Generate a unique ID for the opportunity
+        id = keccak256(abi.encodePacked(
+            organization,
+            metadataURI,
+            block.timestamp,
+            _organizationOpportunities[organization].length
+        ));
+        
+        Opportunity storage opportunity = _opportunities[id];
+        opportunity.id = id;
+        opportunity.organization = organization;
+        opportunity.poster = msg.sender;
+        opportunity.metadataURI = metadataURI;
+        opportunity.deadline = deadline;
+        opportunity.requiredTypes = requiredTypes;
+        opportunity.requiredSchemas = requiredSchemas;
+        opportunity.creationTime = block.timestamp;
+        opportunity.open = true;
+        
+        _organizationOpportunities[organization].push(id);
+        
+        emit OpportunityPublished(id, organization, msg.sender, deadline);
+    }
+    
+    /**
+     * @dev Closes an opportunity to new applications. Existing applications can still be reviewed.
+     * @param id ID of the opportunity
+     */
+    function closeOpportunity(bytes32 id) 
+        external 
+        whenNotPaused 
+        opportunityMustExist(id) 
+    {
+        _checkCanManage(_opportunities[id].organization);
+        require(_opportunities[id].open, "Opportunity: opportunity already closed");
+        
+        _opportunities[id].open = false;
+        
+        emit OpportunityClosed(id, msg.sender);
+    }
+    
+    /**
+     * @dev Applies to an opportunity with credentials meeting its requirements
+     * @param id ID of the opportunity
+     * @param credentialIds Valid credentials held by the caller covering each required type and schema
+     */
+    function applyToOpportunity(bytes32 id, bytes32[] memory credentialIds) 
+        external 
+        whenNotPaused 
+        opportunityMustExist(id) 
+    {
+        Opportunity storage opportunity = _opportunities[id];
+        require(opportunity.open && block.timestamp <= opportunity.deadline, "Opportunity: opportunity is not accepting applications");
+        require(_userProfileModule.isProfileActive(msg.sender), "Opportunity: profile is not active");
+        require(_applications[id][msg.sender].status == ApplicationStatus.NONE, "Opportunity: already applied");
+        require(meetsRequirements(id, msg.sender, credentialIds), "Opportunity: credential requirements not met");
+        
+        _applications[id][msg.sender] = Application({
+            opportunityId: id,
+            applicant: msg.sender,
+            credentialIds: credentialIds,
+            status: ApplicationStatus.SUBMITTED,
+            applicationTime: block.timestamp,
+            lastUpdateTime: block.timestamp
+        });
+        _applicants[id].push(msg.sender);
+        _talentApplications[msg.sender].push(id);
+        opportunity.applicationCount++;
+        
+        emit ApplicationSubmitted(id, msg.sender);
+    }
+    
+    /**
+     * @dev Moves an application to a new state. Submitted applications can be shortlisted or
+     * rejected, and shortlisted applications can be hired or rejected.
+     * @param id ID of the opportunity
+     * @param applicant Address of the applicant
+     * @param status New status (SHORTLISTED, REJECTED or HIRED)
+     */
+    function updateApplicationStatus(bytes32 id, address applicant, ApplicationStatus status) 
+        external 
+        whenNotPaused 
+        opportunityMustExist(id) 
+    {
+        _checkCanManage(_opportunities[id].organization);
+        
+        Application storage application = _applications[id][applicant];
+        ApplicationStatus current = application.status;
+        require(
+            (current == ApplicationStatus.SUBMITTED &&
+                (status == ApplicationStatus.SHORTLISTED || status == ApplicationStatus.REJECTED)) ||
+            (current == ApplicationStatus.SHORTLISTED &&
+                (status == ApplicationStatus.HIRED || status == ApplicationStatus.REJECTED)),
+            "Opportunity: invalid status transition"
+        );
+        
+        _setStatus(application, status);
+    }
+    
+    /**
+     * @dev Withdraws the caller's application while it is under review
+     * @param id ID of the opportunity
+     */
+    function withdrawApplication(bytes32 id) 
+        external 
+        whenNotPaused 
+    {
+        Application storage application = _applications[id][msg.sender];
+        require(
+            application.status == ApplicationStatus.SUBMITTED || application.status == ApplicationStatus.SHORTLISTED,
+            "Opportunity: application cannot be withdrawn"
+        );
+        
+        _setStatus(application, ApplicationStatus.WITHDRAWN);
+    }
+    
+    /**
+     * @dev Internal function to change an application's status
+     */
+    function _setStatus(Application storage application, ApplicationStatus status) 
+        internal 
+    {
+        application.status = status;
+        application.lastUpdateTime = block.timestamp;
+        
+        emit ApplicationStatusChanged(application.opportunityId, application.applicant, status, msg.sender);
+    }
+    
+    /**
+     * @dev Internal function to revert unless the caller can act for an organization
+     */
+    function _checkCanManage(address organization) 
+        internal 
+        view 
+    {
+        require(
+            msg.sender == organization ||
+                _organizationModule.hasPermission(organization, msg.sender, _organizationModule.PERMISSION_POST()),
+            "Opportunity: caller cannot post for organization"
+        );
+    }
+    
+    /**
+     * @dev Checks if a set of credentials meets an opportunity's requirements. Each required type
+     * and schema must be covered by a valid credential held by the applicant.
+     * @param id ID of the opportunity
+     * @param applicant Address of the applicant
+     * @param credentialIds Credentials to check
+     */
+    function meetsRequirements(bytes32 id, address applicant, bytes32[] memory credentialIds) 
+        public 
+        view 
+        opportunityMustExist(id) 
+        returns (bool) 
+    {
+        Opportunity storage opportunity = _opportunities[id];
+        
+        // Load the usable credentials once
+        CredentialVerificationModule.Credential[] memory credentials =
+            new CredentialVerificationModule.Credential[](credentialIds.length);
+        bool[] memory usable = new bool[](credentialIds.length);
+        for (uint256 i = 0; i < credentialIds.length; i++) {
+            if (_credentialModule.isCredentialValid(credentialIds[i])) {
+                credentials[i] = _credentialModule.getCredentialData(credentialIds[i]);
+                usable[i] = credentials[i].subject == applicant;
+            }
+        }
+        
+        for (uint256 r = 0; r < opportunity.requiredTypes.length; r++) {
+            bool found = false;
+            for (uint256 i = 0; i < credentials.length && !found; i++) {
+                found = usable[i] && credentials[i].credentialType == opportunity.requiredTypes[r];
+            }
+            if (!found) {
+                return false;
+            }
+        }
+        
+        for (uint256 r = 0; r < opportunity.requiredSchemas.length; r++) {
+            bool found = false;
+            for (uint256 i = 0; i < credentials.length && !found; i++) {
+                found = usable[i] && credentials[i].schemaId == opportunity.requiredSchemas[r];
+            }
+            if (!found) {
+                return false;
+            }
+        }
+        
+        return true;
+    }
+    
+    /**
+     * @dev Gets an opportunity's data
+     * @param id ID of the opportunity
+     */
+    function getOpportunity(bytes32 id) 
+        external 
+        view 
+        opportunityMustExist(id) 
+        returns (Opportunity memory) 
+    {
+        return _opportunities[id];
+    }
+    
+    /**
+     * @dev Checks if an opportunity is accepting applications
+     * @param id ID of the opportunity
+     */
+    function isAcceptingApplications(bytes32 id) 
+        external 
+        view 
+        returns (bool) 
+    {
+        return _opportunities[id].open && block.timestamp <= _opportunities[id].deadline;
+    }
+    
+    /**
+     * @dev Gets all opportunities published for an organization
+     * @param organization Address of the organization
+     */
+    function getOrganizationOpportunities(address organization) 
+        external 
+        view 
+        returns (bytes32[] memory) 
+    {
+        return _organizationOpportunities[organization];
+    }
+    
+    /**
+     * @dev Gets an application
+     * @param id ID of the opportunity
+     * @param applicant Address of the applicant
+     */
+    function getApplication(bytes32 id, address applicant) 
+        external 
+        view 
+        returns (Application memory) 
+    {
+        require(_applications[id][applicant].status != ApplicationStatus.NONE, "Opportunity: application does not exist");
+        return _applications[id][applicant];
+    }
+    
+    /**
+     * @dev Gets all applicants to an opportunity, in the order they applied
+     * @param id ID of the opportunity
+     */
+    function getApplicants(bytes32 id) 
+        external 
+        view 
+        returns (address[] memory) 
+    {
+        return _applicants[id];
+    }
+    
+    /**
+     * @dev Gets all opportunities a talent has applied to
+     * @param talent Address of the talent
+     */
+    function getTalentApplications(address talent) 
+        external 
+        view 
+        returns (bytes32[] memory) 
+    {
+        return _talentApplications[talent];
+    }
+}
@@ -0,0 +1,540 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./RoleModule.sol";
+import "./CredentialVerificationModule.sol";
+
+/**
+ * @title OrganizationModule
+ * @dev Contract module for organization entities in the PropellantBD ecosystem.
+ * An organization is registered by the account holding ORGANIZATION_ROLE, which becomes its
+ * first owner. Owners add members with per-member permissions, and members issue and verify
+ * credentials on the organization's behalf. Credentials issued this way have the organization
+ * account as issuer; the acting member is recorded here and in the verification history.
+ */
+contract OrganizationModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant ORGANIZATION_ROLE = keccak256("ORGANIZATION_ROLE");
+    
+    // Member permissions, combined as bit flags. Owners hold all permissions.
+    uint256 public constant PERMISSION_ISSUE = 1;    // Issue credentials
+    uint256 public constant PERMISSION_VERIFY = 2;   // Verify or reject the organization's credentials
+    uint256 public constant PERMISSION_POST = 4;     // Post opportunities
+    uint256 public constant PERMISSION_MANAGE = 8;   // Manage the profile and non-owner members (granted by owners only)
+    uint256 public constant ALL_PERMISSIONS = 15;
+    
+    // Reference to RoleModule for role checks
+    RoleModule private _roleModule;
+    
+    // Reference to CredentialVerificationModule for issuing and verifying credentials
+    CredentialVerificationModule private _credentialModule;
+    
+    // Organization profile, keyed by the organization account
+    struct Organization {
+        address account;             // Organization account, the issuer of its credentials
+        string name;                 // Display name
+        string description;          // Description of the organization
+        string website;              // Website URL
+        string logoURI;              // IPFS URI of the logo
+        uint256 creationTime;        // When the organization was registered
+        bool active;                 // Whether members can act for the organization
+    }
+    
+    // Membership of an account in an organization
+    struct Member {
+        address account;             // Address of the member
+        uint256 permissions;         // Permission flags (all for owners)
+        bool owner;                  // Whether the member is an owner
+        uint256 joinedAt;            // When the member was added
+    }
+    
+    // Mappings for organization data
+    mapping(address => Organization) private _organizations;
+    address[] private _organizationAccounts;
+    
+    // Mappings for memberships. Index mappings are 1-based, 0 meaning absent.
+    mapping(address => mapping(address => Member)) private _members;
+    mapping(address => address[]) private _memberAccounts;
+    mapping(address => mapping(address => uint256)) private _memberIndex;
+    mapping(address => address[]) private _accountOrganizations;
+    mapping(address => mapping(address => uint256)) private _accountOrganizationIndex;
+    mapping(address => uint256) private _ownerCounts;
+    
+    // Maps credential ID to the member who issued it for an organization
+    mapping(bytes32 => address) private _credentialActors;
+    
+    // Events
+    event OrganizationRegistered(address indexed organization, string name);
+    event OrganizationUpdated(address indexed organization, string name);
+    event OrganizationStatusUpdated(address indexed organization, bool active);
+    event MemberAdded(address indexed organization, address indexed member, uint256 permissions);
+    event MemberPermissionsUpdated(address indexed organization, address indexed member, uint256 permissions);
+    event MemberRemoved(address indexed organization, address indexed member);
+    event OwnershipUpdated(address indexed organization, address indexed member, bool owner);
+    event OrganizationCredentialIssued(address indexed organization, bytes32 indexed credentialId, address indexed member);
+    event OrganizationCredentialVerified(
+        address indexed organization,
+        bytes32 indexed credentialId,
+        address indexed member,
+        CredentialVerificationModule.VerificationStatus status
+    );
+    
+    /**
+     * @dev Modifier to ensure the organization exists
+     */
+    modifier organizationMustExist(address organization) {
+        require(_organizations[organization].creationTime > 0, "Organization: organization does not exist");
+        _;
+    }
+    
+    /**
+     * @dev Constructor that sets the role module and credential module addresses
+     */
+    constructor(address payable roleModuleAddress, address payable credentialModuleAddress) {
+        require(roleModuleAddress != address(0), "Organization: role module address is zero");
+        require(credentialModuleAddress != address(0), "Organization: credential module address is zero");
+        
+        _roleModule = RoleModule(roleModuleAddress);
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+    }
+    
+    /**
+     * @dev Registers the caller's account as an organization, with the caller as its first owner
+     * @param name Display name
+     * @param description Description of the organization
+     * @param website Website URL
+     * @param logoURI IPFS URI of the logo
+     */
+    function registerOrganization(
+        string memory name,
+        string memory description,
+        string memory website,
+        string memory logoURI
+    ) 
+        external 
+        whenNotPaused 
+    {
+        require(_roleModule.hasRole(ORGANIZATION_ROLE, msg.sender), "Organization: caller does not have organization role");
+        require(_organizations[msg.sender].creationTime == 0, "Organization: organization already registered");
+        require(bytes(name).length > 0, "Organization: name cannot be empty");
+        
+        _organizations[msg.sender] = Organization({
+            account: msg.sender,
+            name: name,
+            description: description,
+            website: website,
+            logoURI: logoURI,
+            creationTime: block.timestamp,
+            active: true
+        });
+        _organizationAccounts.push(msg.sender);
+        
+        emit OrganizationRegistered(msg.sender, name);
+        
+        _addMember(msg.sender, msg.sender, ALL_PERMISSIONS);
+        _members[msg.sender][msg.sender].owner = true;
+        _ownerCounts[msg.sender] = 1;
+        
+        emit OwnershipUpdated(msg.sender, msg.sender, true);
+    }
+    
+    /**
+     * @dev Updates an organization's profile
+     * @param organization Organization account
+     * @param name Display name
+     * @param description Description of the organization
+     * @param website Website URL
+     * @param logoURI IPFS URI of the logo
+     */
+    function updateOrganization(
+        address organization,
+        string memory name,
+        string memory description,
+        string memory website,
+        string memory logoURI
+    ) 
+        external 
+        whenNotPaused 
+        organizationMustExist(organization) 
+    {
+        require(_isMember(organization, msg.sender, PERMISSION_MANAGE), "Organization: caller cannot manage organization");
+        require(bytes(name).length > 0, "Organization: name cannot be empty");
+        
+        Organization storage org = _organizations[organization];
+        org.name = name;
+        org.description = description;
+        org.website = website;
+        org.logoURI = logoURI;
+        
+        emit OrganizationUpdated(organization, name);
+    }
+    
+    /**
+     * @dev Suspends or reinstates an organization. Members of a suspended organization cannot act for it.
+     * @param organization Organization account
+     * @param active Whether members can act for the organization
+     */
+    function setOrganizationActive(address organization, bool active) 
+        external 
+        whenNotPaused 
+        onlyRole(ADMIN_ROLE) 
+        organizationMustExist(organization) 
+    {
+        require(_organizations[organization].active != active, "Organization: status unchanged");
+        
+        _organizations[organization].active = active;
+        
+        emit OrganizationStatusUpdated(organization, active);
+    }
+    
+    /**
+     * @dev Adds a member to an organization
+     * @param organization Organization account
+     * @param account Address of the new member
+     * @param permissions Permission flags to grant
+     */
+    function addMember(address organization, address account, uint256 permissions) 
+        external 
+        whenNotPaused 
+        organizationMustExist(organization) 
+    {
+        require(_isMember(organization, msg.sender, PERMISSION_MANAGE), "Organization: caller cannot manage members");
+        require(account != address(0), "Organization: member is zero address");
+        require(_memberIndex[organization][account] == 0, "Organization: account is already a member");
+        _validatePermissions(organization, permissions);
+        
+        _addMember(organization, account, permissions);
+    }
+    
+    /**
+     * @dev Changes a member's permissions. Only owners can change the permissions of managers.
+     * @param organization Organization account
+     * @param account Address of the member
+     * @param permissions New permission flags
+     */
+    function updateMemberPermissions(address organization, address account, uint256 permissions) 
+        external 
+        whenNotPaused 
+        organizationMustExist(organization) 
+    {
+        _checkCanManage(organization, account);
+        require(_memberIndex[organization][account] > 0, "Organization: account is not a member");
+        _validatePermissions(organization, permissions);
+        require(!_members[organization][account].owner, "Organization: owners hold all permissions");
+        
+        _members[organization][account].permissions = permissions;
+        
+        emit MemberPermissionsUpdated(organization, account, permissions);
+    }
+    
+    /**
+     * @dev Removes a member from an organization. Members can also remove themselves.
+     * @param organization Organization account
+     * @param account Address of the member
+     */
+    function removeMember(address organization, address account) 
+        external 
+        whenNotPaused 
+        organizationMustExist(organization) 
+    {
+        if (msg.sender != account) {
+            _checkCanManage(organization, account);
+        }
+        require(_memberIndex[organization][account] > 0, "Organization: account is not a member");
+        
+        if (_members[organization][account].owner) {
+            require(_ownerCounts[organization] > 1, "Organization: cannot remove the last owner");
+            _ownerCounts[organization]--;
+        }
+        
+        // Move the last member into the removed member's slot
+        address[] storage accounts = _memberAccounts[organization];
+        uint256 index = _memberIndex[organization][account] - 1;
+        address lastAccount = accounts[accounts.length - 1];
+        accounts[index] = lastAccount;
+        _memberIndex[organization][lastAccount] = index + 1;
+        accounts.pop();
+        delete _memberIndex[organization][account];
+        
+        // Same for the account's organization list
+        address[] storage organizations = _accountOrganizations[account];
+        uint256 orgIndex = _accountOrganizationIndex[account][organization] - 1;
+        address lastOrganization = organizations[organizations.length - 1];
+        organizations[orgIndex] = lastOrganization;
+        _accountOrganizationIndex[account][lastOrganization] = orgIndex + 1;
+        organizations.pop();
+        delete _accountOrganizationIndex[account][organization];
+        
+        delete _members[organization][account];
+        
+        emit MemberRemoved(organization, account);
+    }
+    
+    /**
+     * @dev Makes a member an owner or demotes an owner to a member with all permissions
+     * @param organization Organization account
+     * @param account Address of the member
+     * @param owner Whether the member is an owner
+     */
+    function setOwner(address organization, address account, bool owner) 
+        external 
+        whenNotPaused 
+        organizationMustExist(organization) 
+    {
+        require(_members[organization][msg.sender].owner, "Organization: caller is not an owner");
+        require(_memberIndex[organization][account] > 0, "Organization: account is not a member");
+        
+        Member storage member = _members[organization][account];
+        require(member.owner != owner, "Organization: ownership unchanged");
+        
+        if (owner) {
+            _ownerCounts[organization]++;
+        } else {
+            require(_ownerCounts[organization] > 1, "Organization: cannot remove the last owner");
+            _ownerCounts[organization]--;
+        }
+        member.owner = owner;
+        member.permissions = ALL_PERMISSIONS;
+        
+        emit OwnershipUpdated(organization, account, owner);
+    }
+    
+    /**
+     * @dev Issues a credential on behalf of an organization. The organization account
+     * must be an issuer in the credential module. The acting member is recorded in the
+     * credential's history as the first entry.
+     * @param organization Organization account
+     * @param request Credential data
+     * @return credentialId ID of the new credential
+     */
+    function issueCredential(address organization, CredentialVerificationModule.CredentialRequest memory request) 
+        external 
+        whenNotPaused 
+        organizationMustExist(organization) 
+        returns (bytes32 credentialId) 
+    {
+        require(hasPermission(organization, msg.sender, PERMISSION_ISSUE), "Organization: caller cannot issue for organization");
+        
+        credentialId = _credentialModule.issueCredentialFromModule(organization, request);
+        _credentialActors[credentialId] = msg.sender;
+        
+        _credentialModule.addVerificationRecordFromModule(
+            credentialId,
+            msg.sender,
+            CredentialVerificationModule.RecordType.ISSUANCE,
+            CredentialVerificationModule.VerificationStatus.PENDING,
+            ""
+        );
+        
+        emit OrganizationCredentialIssued(organization, credentialId, msg.sender);
+    }
+    
+    /**
+     * @dev Verifies or rejects a credential issued by an organization. The acting member
+     * is recorded as the verifier in the credential's history.
+     * @param id ID of the credential
+     * @param status New verification status (VERIFIED or REJECTED)
+     * @param notes Notes from the verifier
+     */
+    function verifyCredential(
+        bytes32 id,
+        CredentialVerificationModule.VerificationStatus status,
+        string memory notes
+    ) 
+        external 
+        whenNotPaused 
+    {
+        address organization = _credentialModule.getCredentialData(id).issuer;
+        require(hasPermission(organization, msg.sender, PERMISSION_VERIFY), "Organization: caller cannot verify for organization");
+        require(
+            status == CredentialVerificationModule.VerificationStatus.VERIFIED ||
+                status == CredentialVerificationModule.VerificationStatus.REJECTED,
+            "Organization: status must be VERIFIED or REJECTED"
+        );
+        
+        _credentialModule.addVerificationRecordFromModule(
+            id,
+            msg.sender,
+            CredentialVerificationModule.RecordType.VERIFICATION,
+            status,
+            notes
+        );
+        
+        emit OrganizationCredentialVerified(organization, id, msg.sender, status);
+    }
+    
+    /**
+     * @dev Internal function to add a member and index the membership
+     */
+    function _addMember(address organization, address account, uint256 permissions) 
+        internal 
+    {
+        _members[organization][account] = Member({
+            account: account,
+            permissions: permissions,
+            owner: false,
+            joinedAt: block.timestamp
+        });
+        _memberAccounts[organization].push(account);
+        _memberIndex[organization][account] = _memberAccounts[organization].length;
+        _accountOrganizations[account].push(organization);
+        _accountOrganizationIndex[account][organization] = _accountOrganizations[account].length;
+        
+        emit MemberAdded(organization, account, permissions);
+    }
+    
+    /**
+     * @dev Internal function to check if an account is a member holding a permission, regardless of status
+     */
+    function _isMember(address organization, address account, uint256 permission) 
+        internal 
+        view 
+        returns (bool) 
+    {
+        Member storage member = _members[organization][account];
+        return member.owner || (member.permissions & permission) != 0;
+    }
+    
+    /**
+     * @dev Internal function to revert unless the caller can manage a member.
+     * Owners manage everyone; managers cannot manage owners or other managers.
+     */
+    function _checkCanManage(address organization, address account) 
+        internal 
+        view 
+    {
+        Member storage target = _members[organization][account];
+        if (!_members[organization][msg.sender].owner) {
+            require(_isMember(organization, msg.sender, PERMISSION_MANAGE), "Organization: caller cannot manage members");
+            require(
+                !target.owner && (target.permissions & PERMISSION_MANAGE) == 0,
+                "Organization: only owners can manage managers"
+            );
+        }
+    }
+    
+    /**
+     * @dev Internal function to revert on empty or unknown permission flags, or when
+     * a caller other than an owner grants PERMISSION_MANAGE
+     */
+    function _validatePermissions(address organization, uint256 permissions) 
+        internal 
+        view 
+    {
+        require(permissions != 0 && (permissions & ~ALL_PERMISSIONS) == 0, "Organization: invalid permissions");
+        require(
+            (permissions & PERMISSION_MANAGE) == 0 || _members[organization][msg.sender].owner,
+            "Organization: only owners can grant manage permission"
+        );
+    }
+    
+    /**
+     * @dev Checks if an account can act for an active organization with a permission
+     * @param organization Organization account
+     * @param account Address to check
+     * @param permission Permission flag
+     */
+    function hasPermission(address organization, address account, uint256 permission) 
+        public 
+        view 
+        returns (bool) 
+    {
+        return _organizations[organization].active && _isMember(organization, account, permission);
+    }
+    
+    /**
+     * @dev Gets an organization's profile
+     * @param organization Organization account
+     */
+    function getOrganization(address organization) 
+        external 
+        view 
+        organizationMustExist(organization) 
+        returns (Organization memory) 
+    {
+        return _organizations[organization];
+    }
+    
+    /**
+     * @dev Checks if an account is a registered organization
+     * @param organization Address to check
+     */
+    function isOrganization(address organization) 
+        external 
+        view 
+        returns (bool) 
+    {
+        return _organizations[organization].creationTime > 0;
+    }
+    
+    /**
+     * @dev Gets all registered organization accounts
+     */
+    function getOrganizations() 
+        external 
+        view 
+        returns (address[] memory) 
+    {
+        return _organizationAccounts;
+    }
+    
+    /**
+     * @dev Gets a member of an organization
+     * @param organization Organization account
+     * @param account Address of the member
+     */
+    function getMember(address organization, address account) 
+        external 
+        view 
+        returns (Member memory) 
+    {
+        require(_memberIndex[organization][account] > 0, "Organization: account is not a member");
+        return _members[organization][account];
+    }
+    
+    /**
+     * @dev Gets all members of an organization
+     * @param organization Organization account
+     */
+    function getMembers(address organization) 
+        external 
+        view 
+        returns (Member[] memory members) 
+    {
+        address[] storage accounts = _memberAccounts[organization];
+        members = new Member[](accounts.length);
+        
+        for (uint256 i = 0; i < accounts.length; i++) {
+            members[i] = _members[organization][accounts[i]];
+        }
+    }
+    
+    /**
+     * @dev Gets the organizations an account is a member of
+     * @param account Address of the member
+     */
+    function getAccountOrganizations(address account) 
+        external 
+        view 
+        returns (address[] memory) 
+    {
+        return _accountOrganizations[account];
+    }
+    
+    /**
+     * @dev Gets the member who issued a credential on behalf of an organization
+     * @param id ID of the credential
+     * @return Address of the member (zero if not issued through this module)
+     */
+    function getCredentialActor(bytes32 id) 
+        external 
+        view 
+        returns (address) 
+    {
+        return _credentialActors[id];
+    }
+}
@@ -0,0 +1,341 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./UserProfileModule.sol";
+import "./SkillRegistryModule.sol";
+
+/**
+ * @title PeerEndorsementModule
+ * @dev Contract module for peer endorsements and recommendations between profiles in the PropellantBD ecosystem.
+ * Users write endorsements for other profiles, optionally for a skill tag. Recipients approve
+ * endorsements before they are shown on their profile or hide them, and authors can withdraw them.
+ */
+contract PeerEndorsementModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    
+    // Minimum time between endorsements from the same author to the same recipient
+    uint256 public constant ENDORSEMENT_COOLDOWN = 30 days;
+    
+    // Reference to UserProfileModule for profile checks
+    UserProfileModule private _userProfileModule;
+    
+    // Reference to SkillRegistryModule for skill tags
+    SkillRegistryModule private _skillRegistryModule;
+    
+    // How the author knows the recipient
+    enum Relationship {
+        COLLEAGUE,       // Worked together as peers
+        MANAGER,         // Author managed the recipient
+        REPORT,          // Author reported to the recipient
+        CLIENT,          // Author was a client of the recipient
+        MENTOR,          // Author mentored or taught the recipient
+        CLASSMATE,       // Studied together
+        OTHER            // Any other relationship
+    }
+    
+    // Endorsement lifecycle
+    enum EndorsementStatus {
+        PENDING,         // Awaiting the recipient's approval
+        APPROVED,        // Shown on the recipient's profile
+        HIDDEN,          // Hidden by the recipient
+        WITHDRAWN        // Withdrawn by the author
+    }
+    
+    // Endorsement structure
+    struct Endorsement {
+        bytes32 id;                  // Unique identifier
+        address author;              // Who wrote the endorsement
+        address recipient;           // Who the endorsement is about
+        bytes32 skillId;             // Skill tag endorsed (0 for a general recommendation)
+        string textURI;              // IPFS URI of the endorsement text
+        Relationship relationship;   // How the author knows the recipient
+        EndorsementStatus status;    // Current status
+        uint256 creationTime;        // When the endorsement was written
+        uint256 lastUpdateTime;      // When the status last changed
+    }
+    
+    // Mappings for endorsement data
+    mapping(bytes32 => Endorsement) private _endorsements;
+    mapping(address => bytes32[]) private _recipientEndorsements;
+    mapping(address => bytes32[]) private _authorEndorsements;
+    mapping(address => mapping(address => uint256)) private _lastEndorsementTimes; // Maps author and recipient to the last endorsement time
+    
+    // Events
+    event EndorsementWritten(
+        bytes32 indexed id,
+        address indexed author,
+        address indexed recipient,
+        bytes32 skillId,
+        Relationship relationship
+    );
+    event EndorsementStatusChanged(bytes32 indexed id, address indexed changedBy, EndorsementStatus status);
+    
+    /**
+     * @dev Modifier to ensure the endorsement exists
+     */
+    modifier endorsementMustExist(bytes32 id) {
+        require(_endorsements[id].creationTime > 0, "PeerEndorsement: endorsement does not exist");
+        _;
+    }
+    
+    /**
+     * @dev Constructor that sets the user profile module and skill registry module addresses
+     */
+    constructor(address payable userProfileModuleAddress, address payable skillRegistryModuleAddress) {
+        require(userProfileModuleAddress != address(0), "PeerEndorsement: user profile module address is zero");
+        require(skillRegistryModuleAddress != address(0), "PeerEndorsement: skill registry module address is zero");
+        
+        _userProfileModule = UserProfileModule(userProfileModuleAddress);
+        _skillRegistryModule = SkillRegistryModule(skillRegistryModuleAddress);
+    }
+    
+    /**
+     * @dev Writes an endorsement for another profile. It is shown once the recipient approves it.
+     * @param recipient Address of the profile to endorse
+     * @param skillId Active skill tag to endorse (0 for a general recommendation)
+     * @param textURI IPFS URI of the endorsement text
+     * @param relationship How the caller knows the recipient
+     * @return id ID of the new endorsement
+     */
+    function writeEndorsement(
+        address recipient,
+        bytes32 skillId,
+        string memory textURI,
+        Relationship relationship
+    ) 
+        external 
+        whenNotPaused 
+        returns (bytes32 id) 
+    {
+        require(recipient != msg.sender, "PeerEndorsement: cannot endorse yourself");
+        require(_userProfileModule.isProfileActive(msg.sender), "PeerEndorsement: author profile is not active");
+        require(_userProfileModule.isProfileActive(recipient), "PeerEndorsement: recipient profile is not active");
+        require(bytes(textURI).length > 0, "PeerEndorsement: text URI cannot be empty");
+        if (skillId != bytes32(0)) {
+            require(_skillRegistryModule.getSkillTag(skillId).active, "PeerEndorsement: skill tag is not active");
+        }
+        
+        // Rate limit endorsements per author and recipient
+        uint256 lastTime = _lastEndorsementTimes[msg.sender][recipient];
+        require(
+            lastTime == 0 || block.timestamp >= lastTime + ENDORSEMENT_COOLDOWN,
+            "PeerEndorsement: endorsement cooldown active"
+        );
+        
+        // Generate a unique ID for the endorsement
+        id = keccak256(abi.encodePacked(
+            msg.sender,
+            recipient,
+            block.timestamp,
+            _authorEndorsements[msg.sender].length
+        ));
+        
+        _endorsements[id] = Endorsement({
+            id: id,
+            author: msg.sender,
+            recipient: recipient,
+            skillId: skillId,
+            textURI: textURI,
+            relationship: relationship,
+            status: EndorsementStatus.PENDING,
+            creationTime: block.timestamp,
+            lastUpdateTime: block.timestamp
+        });
+        
+        _recipientEndorsements[recipient].push(id);
+        _authorEndorsements[msg.sender].push(id);
+        _lastEndorsementTimes[msg.sender][recipient] = block.timestamp;
+        
+        emit EndorsementWritten(id, msg.sender, recipient, skillId, relationship);
+    }
+    
+    /**
+     * @dev Approves an endorsement so it is shown on the caller's profile. Hidden endorsements can be approved again.
+     * @param id ID of the endorsement
+     */
+    function approveEndorsement(bytes32 id) 
+        external 
+        whenNotPaused 
+        endorsementMustExist(id) 
+    {
+        Endorsement storage endorsement = _endorsements[id];
+        require(endorsement.recipient == msg.sender, "PeerEndorsement: caller is not the recipient");
+        require(
+            endorsement.status == EndorsementStatus.PENDING || endorsement.status == EndorsementStatus.HIDDEN,
+            "PeerEndorsement: endorsement cannot be approved"
+        );
+        
+        _setStatus(endorsement, EndorsementStatus.APPROVED);
+    }
+    
+    /**
+     * @dev Hides an endorsement from the caller's profile
+     * @param id ID of the endorsement
+     */
+    function hideEndorsement(bytes32 id) 
+        external 
+        whenNotPaused 
+        endorsementMustExist(id) 
+    {
+        Endorsement storage endorsement = _endorsements[id];
+        require(endorsement.recipient == msg.sender, "PeerEndorsement: caller is not the recipient");
+        require(
+            endorsement.status == EndorsementStatus.PENDING || endorsement.status == EndorsementStatus.APPROVED,
+            "PeerEndorsement: endorsement cannot be hidden"
+        );
+        
+        _setStatus(endorsement, EndorsementStatus.HIDDEN);
+    }
+    
+    /**
+     * @dev Withdraws an endorsement written by the caller. Withdrawn endorsements cannot be restored.
+     * @param id ID of the endorsement
+     */
+    function withdrawEndorsement(bytes32 id) 
+        external 
+        whenNotPaused 
+        endorsementMustExist(id) 
+    {
+        Endorsement storage endorsement = _endorsements[id];
+        require(endorsement.author == msg.sender, "PeerEndorsement: caller is not the author");
+        require(endorsement.status != EndorsementStatus.WITHDRAWN, "PeerEndorsement: endorsement already withdrawn");
+        
+        _setStatus(endorsement, EndorsementStatus.WITHDRAWN);
+    }
+    
+    /**
+     * @dev Internal function to change an endorsement's status
+     */
+    function _setStatus(Endorsement storage endorsement, EndorsementStatus status) 
+        internal 
+    {
+        endorsement.status = status;
+        endorsement.lastUpdateTime = block.timestamp;
+        
+        emit EndorsementStatusChanged(endorsement.id, msg.sender, status);
+    }
+    
+    /**
+     * @dev Internal function to get a page of endorsements from a list
+     */
+    function _page(bytes32[] storage ids, uint256 offset, uint256 limit, bool approvedOnly) 
+        internal 
+        view 
+        returns (Endorsement[] memory endorsements, uint256 nextOffset) 
+    {
+        uint256 total = ids.length;
+        uint256 size = offset < total ? total - offset : 0;
+        if (limit < size) {
+            size = limit;
+        }
+        
+        Endorsement[] memory page = new Endorsement[](size);
+        uint256 count = 0;
+        
+        nextOffset = offset;
+        while (nextOffset < total && count < size) {
+            Endorsement storage endorsement = _endorsements[ids[nextOffset]];
+            nextOffset++;
+            
+            if (approvedOnly && endorsement.status != EndorsementStatus.APPROVED) {
+                continue;
+            }
+            page[count++] = endorsement;
+        }
+        
+        // Trim the page to the endorsements found
+        endorsements = new Endorsement[](count);
+        for (uint256 i = 0; i < count; i++) {
+            endorsements[i] = page[i];
+        }
+    }
+    
+    /**
+     * @dev Gets an endorsement's data
+     * @param id ID of the endorsement
+     */
+    function getEndorsement(bytes32 id) 
+        external 
+        view 
+        endorsementMustExist(id) 
+        returns (Endorsement memory) 
+    {
+        return _endorsements[id];
+    }
+    
+    /**
+     * @dev Gets a page of the endorsements received by a profile, oldest first
+     * @param recipient Address of the recipient
+     * @param offset Position of the first endorsement
+     * @param limit Maximum number of endorsements to return
+     * @param approvedOnly Whether to skip endorsements the recipient has not approved
+     * @return endorsements Endorsements in the page
+     * @return nextOffset Position to continue from (the endorsement count once exhausted)
+     */
+    function getEndorsementsByRecipient(address recipient, uint256 offset, uint256 limit, bool approvedOnly) 
+        external 
+        view 
+        returns (Endorsement[] memory endorsements, uint256 nextOffset) 
+    {
+        return _page(_recipientEndorsements[recipient], offset, limit, approvedOnly);
+    }
+    
+    /**
+     * @dev Gets a page of the endorsements written by an author, oldest first
+     * @param author Address of the author
+     * @param offset Position of the first endorsement
+     * @param limit Maximum number of endorsements to return
+     * @return endorsements Endorsements in the page
+     * @return nextOffset Position to continue from (the endorsement count once exhausted)
+     */
+    function getEndorsementsByAuthor(address author, uint256 offset, uint256 limit) 
+        external 
+        view 
+        returns (Endorsement[] memory endorsements, uint256 nextOffset) 
+    {
+        return _page(_authorEndorsements[author], offset, limit, false);
+    }
+    
+    /**
+     * @dev Gets the number of endorsements received by a profile, in any status
+     * @param recipient Address of the recipient
+     */
+    function getRecipientEndorsementCount(address recipient) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _recipientEndorsements[recipient].length;
+    }
+    
+    /**
+     * @dev Gets the number of endorsements written by an author, in any status
+     * @param author Address of the author
+     */
+    function getAuthorEndorsementCount(address author) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _authorEndorsements[author].length;
+    }
+    
+    /**
+     * @dev Gets the earliest time an author can endorse a recipient again
+     * @param author Address of the author
+     * @param recipient Address of the recipient
+     * @return Timestamp of the next allowed endorsement (0 if the author never endorsed the recipient)
+     */
+    function getNextEndorsementTime(address author, address recipient) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        uint256 lastTime = _lastEndorsementTimes[author][recipient];
+        return lastTime == 0 ? 0 : lastTime + ENDORSEMENT_COOLDOWN;
+    }
+}
@@ -0,0 +1,327 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./CredentialVerificationModule.sol";
+
+/**
+ * @title RequirementSetModule
+ * @dev Contract module for reusable credential requirement sets in the PropellantBD ecosystem.
+ * A set combines groups of rules with AND/OR operators, where each rule asks for a number of
+ * valid credentials of a type, optionally from accepted issuers, of a schema or issued recently.
+ * Other contracts call meetsRequirements with the credentials a subject presents to gate access.
+ */
+contract RequirementSetModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    
+    // Limits keeping evaluation gas bounded
+    uint256 public constant MAX_RULES = 10;       // Rules across all groups of a set
+    uint256 public constant MAX_ISSUERS = 20;     // Accepted issuers per rule
+    uint256 public constant MAX_CREDENTIALS = 50; // Credentials presented per check
+    
+    // Reference to CredentialVerificationModule for evaluating credentials
+    CredentialVerificationModule private _credentialModule;
+    
+    // How conditions are combined
+    enum Operator {
+        AND,             // All conditions must be met
+        OR               // Any condition must be met
+    }
+    
+    // Rule structure
+    struct Rule {
+        CredentialVerificationModule.CredentialType credentialType; // Type of credential required
+        bytes32 schemaId;            // Schema required (0 for any)
+        address[] issuers;           // Accepted issuers (empty for any)
+        uint256 minIssuanceDate;     // Earliest accepted issuance date (0 for any)
+        uint256 maxAge;              // Maximum credential age in seconds at evaluation time (0 for any)
+        uint256 minCount;            // Number of matching credentials required
+    }
+    
+    // Group structure
+    struct Group {
+        Operator operator;           // How the group's rules are combined
+        Rule[] rules;                // Rules in the group
+    }
+    
+    // Requirement set structure
+    struct RequirementSet {
+        bytes32 id;                  // Unique identifier
+        address creator;             // Who created the set
+        string name;                 // Human readable name
+        Operator operator;           // How the set's groups are combined
+        Group[] groups;              // Groups in the set
+        uint256 creationTime;        // When the set was created
+        bool active;                 // Whether the set can be met
+    }
+    
+    // Mappings for requirement set data
+    mapping(bytes32 => RequirementSet) private _requirementSets;
+    mapping(address => bytes32[]) private _creatorRequirementSets;
+    
+    // Events
+    event RequirementSetCreated(bytes32 indexed id, address indexed creator, string name);
+    event RequirementSetStatusChanged(bytes32 indexed id, bool active);
+    
+    /**
+     * @dev Modifier to ensure the requirement set exists
+     */
+    modifier requirementSetMustExist(bytes32 id) {
+        require(_requirementSets[id].creationTime > 0, "RequirementSet: requirement set does not exist");
+        _;
+    }
+    
+    /**
+     * @dev Constructor that sets the credential verification module address
+     */
+    constructor(address payable credentialModuleAddress) {
+        require(credentialModuleAddress != address(0), "RequirementSet: credential module address is zero");
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+    }
+    
+    /**
+     * @dev Creates a requirement set. Sets cannot be edited once created, so integrators can
+     * rely on a set ID meaning the same thing; publish a new set to change the requirements.
+     * @param name Human readable name
+     * @param operator How the groups are combined
+     * @param groups Groups of rules
+     * @return id ID of the new requirement set
+     */
+    function createRequirementSet(string memory name, Operator operator, Group[] memory groups) 
+        external 
+        whenNotPaused 
+        returns (bytes32 id) 
+    {
+        require(bytes(name).length > 0, "RequirementSet: name cannot be empty");
+        require(groups.length > 0, "RequirementSet: no groups");
+        
+        // Generate a unique ID for the requirement set
+        id = keccak256(abi.encodePacked(
+            msg.sender,
+            name,
+            block.timestamp,
+            _creatorRequirementSets[msg.sender].length
+        ));
+        
+        RequirementSet storage set = _requirementSets[id];
+        set.id = id;
+        set.creator = msg.sender;
+        set.name = name;
+        set.operator = operator;
+        set.creationTime = block.timestamp;
+        set.active = true;
+        
+        // Copy the groups one rule at a time, as nested struct arrays cannot be assigned to storage
+        uint256 ruleCount = 0;
+        for (uint256 g = 0; g < groups.length; g++) {
+            require(groups[g].rules.length > 0, "RequirementSet: empty group");
+            
+            Group storage group = set.groups.push();
+            group.operator = groups[g].operator;
+            
+            for (uint256 r = 0; r < groups[g].rules.length; r++) {
+                Rule memory rule = groups[g].rules[r];
+                require(rule.minCount > 0, "RequirementSet: minimum count must be positive");
+                require(rule.issuers.length <= MAX_ISSUERS, "RequirementSet: too many issuers");
+                group.rules.push(rule);
+            }
+            ruleCount += groups[g].rules.length;
+        }
+        require(ruleCount <= MAX_RULES, "RequirementSet: too many rules");
+        
+        _creatorRequirementSets[msg.sender].push(id);
+        
+        emit RequirementSetCreated(id, msg.sender, name);
+    }
+    
+    /**
+     * @dev Activates or deactivates a requirement set. Inactive sets are never met.
+     * @param id ID of the requirement set
+     * @param active Whether the set should be active
+     */
+    function setRequirementSetActive(bytes32 id, bool active) 
+        external 
+        whenNotPaused 
+        requirementSetMustExist(id) 
+    {
+        require(
+            _requirementSets[id].creator == msg.sender || hasRole(ADMIN_ROLE, msg.sender),
+            "RequirementSet: caller is not the creator or admin"
+        );
+        require(_requirementSets[id].active != active, "RequirementSet: status unchanged");
+        
+        _requirementSets[id].active = active;
+        
+        emit RequirementSetStatusChanged(id, active);
+    }
+    
+    /**
+     * @dev Checks if credentials presented for a subject meet a requirement set. Only valid
+     * credentials held by the subject count, and each credential counts once.
+     * @param subject Address of the credential subject
+     * @param id ID of the requirement set
+     * @param credentialIds IDs of the credentials to evaluate (at most MAX_CREDENTIALS)
+     * @return Whether the requirements are met (always false for inactive sets)
+     */
+    function meetsRequirements(address subject, bytes32 id, bytes32[] memory credentialIds) 
+        external 
+        view 
+        requirementSetMustExist(id) 
+        returns (bool) 
+    {
+        require(credentialIds.length <= MAX_CREDENTIALS, "RequirementSet: too many credentials");
+        
+        RequirementSet storage set = _requirementSets[id];
+        if (!set.active) {
+            return false;
+        }
+        
+        CredentialVerificationModule.Credential[] memory credentials = _validCredentials(subject, credentialIds);
+        
+        for (uint256 g = 0; g < set.groups.length; g++) {
+            bool met = _meetsGroup(set.groups[g], credentials);
+            if (met != (set.operator == Operator.AND)) {
+                // A failed group decides an AND set, a met group decides an OR set
+                return met;
+            }
+        }
+        return set.operator == Operator.AND;
+    }
+    
+    /**
+     * @dev Internal function to check if credentials meet a group
+     */
+    function _meetsGroup(Group storage group, CredentialVerificationModule.Credential[] memory credentials) 
+        internal 
+        view 
+        returns (bool) 
+    {
+        for (uint256 r = 0; r < group.rules.length; r++) {
+            bool met = _meetsRule(group.rules[r], credentials);
+            if (met != (group.operator == Operator.AND)) {
+                return met;
+            }
+        }
+        return group.operator == Operator.AND;
+    }
+    
+    /**
+     * @dev Internal function to check if credentials meet a rule
+     */
+    function _meetsRule(Rule storage rule, CredentialVerificationModule.Credential[] memory credentials) 
+        internal 
+        view 
+        returns (bool) 
+    {
+        // The stricter of the fixed and relative issuance bounds applies
+        uint256 minIssuanceDate = rule.minIssuanceDate;
+        if (rule.maxAge > 0 && block.timestamp > rule.maxAge && block.timestamp - rule.maxAge > minIssuanceDate) {
+            minIssuanceDate = block.timestamp - rule.maxAge;
+        }
+        
+        uint256 count = 0;
+        for (uint256 i = 0; i < credentials.length && count < rule.minCount; i++) {
+            CredentialVerificationModule.Credential memory credential = credentials[i];
+            if (
+                credential.credentialType == rule.credentialType &&
+                (rule.schemaId == bytes32(0) || credential.schemaId == rule.schemaId) &&
+                credential.issuanceDate >= minIssuanceDate &&
+                _isAcceptedIssuer(rule.issuers, credential.issuer)
+            ) {
+                count++;
+            }
+        }
+        return count >= rule.minCount;
+    }
+    
+    /**
+     * @dev Internal function to check if an issuer is accepted by a rule
+     */
+    function _isAcceptedIssuer(address[] storage issuers, address issuer) 
+        internal 
+        view 
+        returns (bool) 
+    {
+        if (issuers.length == 0) {
+            return true;
+        }
+        for (uint256 i = 0; i < issuers.length; i++) {
+            if (issuers[i] == issuer) {
+                return true;
+            }
+        }
+        return false;
+    }
+    
+    /**
+     * @dev Internal function to load the valid credentials a subject holds among the given IDs
+     */
+    function _validCredentials(address subject, bytes32[] memory ids) 
+        internal 
+        view 
+        returns (CredentialVerificationModule.Credential[] memory credentials) 
+    {
+        CredentialVerificationModule.Credential[] memory found = new CredentialVerificationModule.Credential[](ids.length);
+        uint256 count = 0;
+        
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (_isRepeated(ids, i) || !_credentialModule.isCredentialValid(ids[i])) {
+                continue;
+            }
+            CredentialVerificationModule.Credential memory credential = _credentialModule.getCredentialData(ids[i]);
+            if (credential.subject == subject) {
+                found[count++] = credential;
+            }
+        }
+        
+        // Trim the list to the valid credentials
+        credentials = new CredentialVerificationModule.Credential[](count);
+        for (uint256 i = 0; i < count; i++) {
+            credentials[i] = found[i];
+        }
+    }
+    
+    /**
+     * @dev Internal function to check if an ID appears earlier in a list
+     */
+    function _isRepeated(bytes32[] memory ids, uint256 index) 
+        internal 
+        pure 
+        returns (bool) 
+    {
+        for (uint256 i = 0; i < index; i++) {
+            if (ids[i] == ids[index]) {
+                return true;
+            }
+        }
+        return false;
+    }
+    
+    /**
+     * @dev Gets a requirement set's data
+     * @param id ID of the requirement set
+     */
+    function getRequirementSet(bytes32 id) 
+        external 
+        view 
+        requirementSetMustExist(id) 
+        returns (RequirementSet memory) 
+    {
+        return _requirementSets[id];
+    }
+    
+    /**
+     * @dev Gets all requirement sets created by an account
+     * @param creator Address of the creator
+     */
+    function getCreatorRequirementSets(address creator) 
+        external 
+        view 
+        returns (bytes32[] memory) 
+    {
+        return _creatorRequirementSets[creator];
+    }
+}
@@ -0,0 +1,352 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./UserProfileModule.sol";
+import "./CredentialVerificationModule.sol";
+
+/**
+ * @title SkillRegistryModule
+ * @dev Contract module for skill tags on talent profiles in the PropellantBD ecosystem.
+ * Admins curate a taxonomy of skill tags; talents tag their profiles with a self-reported
+ * proficiency and optionally a supporting credential, and organizations find talents by skill.
+ */
+contract SkillRegistryModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    
+    // Maximum number of skills on a profile
+    uint256 public constant MAX_SKILLS_PER_PROFILE = 50;
+    
+    // Reference to UserProfileModule for profile checks
+    UserProfileModule private _userProfileModule;
+    
+    // Reference to CredentialVerificationModule for supporting credentials
+    CredentialVerificationModule private _credentialModule;
+    
+    // Self-reported proficiency in a skill
+    enum Proficiency {
+        BEGINNER,        // Learning the skill
+        INTERMEDIATE,    // Can work with the skill unassisted
+        ADVANCED,        // Deep working knowledge
+        EXPERT           // Recognized expertise
+    }
+    
+    // Skill tag in the admin-curated taxonomy
+    struct SkillTag {
+        bytes32 id;                  // Hash of the tag name
+        string name;                 // Display name of the skill
+        string category;             // Category the skill belongs to
+        bool active;                 // Whether talents can add the tag
+    }
+    
+    // Skill on a talent's profile
+    struct TalentSkill {
+        Proficiency proficiency;     // Self-reported proficiency
+        bytes32 credentialId;        // Supporting credential (0 for none)
+        uint256 updatedAt;           // When the skill was last set
+    }
+    
+    // Skill on a talent's profile, as returned by views
+    struct SkillEntry {
+        bytes32 tagId;               // ID of the skill tag
+        string name;                 // Display name of the skill
+        Proficiency proficiency;     // Self-reported proficiency
+        bytes32 credentialId;        // Supporting credential (0 for none)
+        bool verified;               // Whether the supporting credential is valid and held by the talent
+        uint256 updatedAt;           // When the skill was last set
+    }
+    
+    // Talent found by a skill search
+    struct TalentMatch {
+        address talent;              // Address of the talent
+        Proficiency proficiency;     // Self-reported proficiency
+        bytes32 credentialId;        // Supporting credential (0 for none)
+        bool verified;               // Whether the supporting credential is valid and held by the talent
+    }
+    
+    // Mappings for the taxonomy
+    mapping(bytes32 => SkillTag) private _tags;
+    bytes32[] private _tagIds;
+    
+    // Mappings for talent skills. Index mappings are 1-based, 0 meaning absent.
+    mapping(address => mapping(bytes32 => TalentSkill)) private _talentSkills;
+    mapping(address => bytes32[]) private _talentTags;
+    mapping(address => mapping(bytes32 => uint256)) private _talentTagIndex;
+    mapping(bytes32 => address[]) private _tagTalents;
+    mapping(bytes32 => mapping(address => uint256)) private _tagTalentIndex;
+    
+    // Events
+    event SkillTagAdded(bytes32 indexed tagId, string name, string category);
+    event SkillTagStatusUpdated(bytes32 indexed tagId, bool active);
+    event SkillSet(address indexed talent, bytes32 indexed tagId, Proficiency proficiency, bytes32 credentialId);
+    event SkillRemoved(address indexed talent, bytes32 indexed tagId);
+    
+    /**
+     * @dev Constructor that sets the user profile module and credential module addresses
+     */
+    constructor(address payable userProfileModuleAddress, address payable credentialModuleAddress) {
+        require(userProfileModuleAddress != address(0), "SkillRegistry: user profile module address is zero");
+        require(credentialModuleAddress != address(0), "SkillRegistry: credential module address is zero");
+        
+        _userProfileModule = UserProfileModule(userProfileModuleAddress);
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+    }
+    
+    /**
+     * @dev Adds a skill tag to the taxonomy
+     * @param name Display name of the skill
+     * @param category Category the skill belongs to
+     * @return tagId ID of the new tag
+     */
+    function addSkillTag(string memory name, string memory category) 
+        external 
+        whenNotPaused 
+        onlyRole(ADMIN_ROLE) 
+        returns (bytes32 tagId) 
+    {
+        require(bytes(name).length > 0, "SkillRegistry: name cannot be empty");
+        
+        tagId = keccak256(bytes(name));
+        require(_tags[tagId].id == bytes32(0), "SkillRegistry: skill tag already exists");
+        
+        _tags[tagId] = SkillTag({
+            id: tagId,
+            name: name,
+            category: category,
+            active: true
+        });
+        _tagIds.push(tagId);
+        
+        emit SkillTagAdded(tagId, name, category);
+    }
+    
+    /**
+     * @dev Enables or retires a skill tag. Talents keep retired tags but cannot add them.
+     * @param tagId ID of the tag
+     * @param active Whether talents can add the tag
+     */
+    function setSkillTagActive(bytes32 tagId, bool active) 
+        external 
+        whenNotPaused 
+        onlyRole(ADMIN_ROLE) 
+    {
+        require(_tags[tagId].id != bytes32(0), "SkillRegistry: skill tag does not exist");
+        require(_tags[tagId].active != active, "SkillRegistry: status unchanged");
+        
+        _tags[tagId].active = active;
+        
+        emit SkillTagStatusUpdated(tagId, active);
+    }
+    
+    /**
+     * @dev Adds or updates a skill on the caller's profile
+     * @param tagId ID of the skill tag
+     * @param proficiency Self-reported proficiency
+     * @param credentialId Credential held by the caller supporting the skill (0 for none)
+     */
+    function setSkill(bytes32 tagId, Proficiency proficiency, bytes32 credentialId) 
+        external 
+        whenNotPaused 
+    {
+        require(_userProfileModule.isProfileActive(msg.sender), "SkillRegistry: profile is not active");
+        require(_tags[tagId].active, "SkillRegistry: skill tag is not active");
+        if (credentialId != bytes32(0)) {
+            require(
+                _credentialModule.getCredentialData(credentialId).subject == msg.sender,
+                "SkillRegistry: caller is not the credential subject"
+            );
+        }
+        
+        if (_talentTagIndex[msg.sender][tagId] == 0) {
+            require(_talentTags[msg.sender].length < MAX_SKILLS_PER_PROFILE, "SkillRegistry: too many skills");
+            
+            _talentTags[msg.sender].push(tagId);
+            _talentTagIndex[msg.sender][tagId] = _talentTags[msg.sender].length;
+            _tagTalents[tagId].push(msg.sender);
+            _tagTalentIndex[tagId][msg.sender] = _tagTalents[tagId].length;
+        }
+        
+        _talentSkills[msg.sender][tagId] = TalentSkill({
+            proficiency: proficiency,
+            credentialId: credentialId,
+            updatedAt: block.timestamp
+        });
+        
+        emit SkillSet(msg.sender, tagId, proficiency, credentialId);
+    }
+    
+    /**
+     * @dev Removes a skill from the caller's profile
+     * @param tagId ID of the skill tag
+     */
+    function removeSkill(bytes32 tagId) 
+        external 
+        whenNotPaused 
+    {
+        require(_talentTagIndex[msg.sender][tagId] > 0, "SkillRegistry: skill not set");
+        
+        // Move the last tag into the removed tag's slot
+        bytes32[] storage tagIds = _talentTags[msg.sender];
+        uint256 tagIndex = _talentTagIndex[msg.sender][tagId] - 1;
+        bytes32 lastTag = tagIds[tagIds.length - 1];
+        tagIds[tagIndex] = lastTag;
+        _talentTagIndex[msg.sender][lastTag] = tagIndex + 1;
+        tagIds.pop();
+        delete _talentTagIndex[msg.sender][tagId];
+        
+        // Same for the tag's talent list
+        address[] storage talents = _tagTalents[tagId];
+        uint256 talentIndex = _tagTalentIndex[tagId][msg.sender] - 1;
+        address lastTalent = talents[talents.length - 1];
+        talents[talentIndex] = lastTalent;
+        _tagTalentIndex[tagId][lastTalent] = talentIndex + 1;
+        talents.pop();
+        delete _tagTalentIndex[tagId][msg.sender];
+        
+        delete _talentSkills[msg.sender][tagId];
+        
+        emit SkillRemoved(msg.sender, tagId);
+    }
+    
+    /**
+     * @dev Internal function to check if a skill is backed by a valid credential held by the talent
+     */
+    function _isVerified(address talent, bytes32 credentialId) 
+        internal 
+        view 
+        returns (bool) 
+    {
+        if (credentialId == bytes32(0) || !_credentialModule.isCredentialValid(credentialId)) {
+            return false;
+        }
+        
+        return _credentialModule.getCredentialData(credentialId).subject == talent;
+    }
+    
+    /**
+     * @dev Gets the skills on a talent's profile
+     * @param talent Address of the talent
+     */
+    function getSkills(address talent) 
+        external 
+        view 
+        returns (SkillEntry[] memory entries) 
+    {
+        bytes32[] storage tagIds = _talentTags[talent];
+        entries = new SkillEntry[](tagIds.length);
+        
+        for (uint256 i = 0; i < tagIds.length; i++) {
+            TalentSkill storage skill = _talentSkills[talent][tagIds[i]];
+            entries[i] = SkillEntry({
+                tagId: tagIds[i],
+                name: _tags[tagIds[i]].name,
+                proficiency: skill.proficiency,
+                credentialId: skill.credentialId,
+                verified: _isVerified(talent, skill.credentialId),
+                updatedAt: skill.updatedAt
+            });
+        }
+    }
+    
+    /**
+     * @dev Checks if a talent's skill is backed by a valid credential
+     * @param talent Address of the talent
+     * @param tagId ID of the skill tag
+     */
+    function isSkillVerified(address talent, bytes32 tagId) 
+        external 
+        view 
+        returns (bool) 
+    {
+        return _isVerified(talent, _talentSkills[talent][tagId].credentialId);
+    }
+    
+    /**
+     * @dev Gets a page of the talents with a skill. Deactivated profiles are skipped.
+     * @param tagId ID of the skill tag
+     * @param offset Position of the first talent
+     * @param limit Maximum number of talents to return
+     * @param verifiedOnly Whether to skip talents whose skill is not backed by a valid credential
+     * @return matches Talents in the page
+     * @return nextOffset Position to continue from (the talent count once exhausted)
+     */
+    function getTalentsBySkill(bytes32 tagId, uint256 offset, uint256 limit, bool verifiedOnly) 
+        external 
+        view 
+        returns (TalentMatch[] memory matches, uint256 nextOffset) 
+    {
+        address[] storage talents = _tagTalents[tagId];
+        uint256 total = talents.length;
+        uint256 size = offset < total ? total - offset : 0;
+        if (limit < size) {
+            size = limit;
+        }
+        
+        TalentMatch[] memory page = new TalentMatch[](size);
+        uint256 count = 0;
+        
+        nextOffset = offset;
+        while (nextOffset < total && count < size) {
+            address talent = talents[nextOffset];
+            nextOffset++;
+            
+            TalentSkill storage skill = _talentSkills[talent][tagId];
+            bool verified = _isVerified(talent, skill.credentialId);
+            if ((verifiedOnly && !verified) || !_userProfileModule.isProfileActive(talent)) {
+                continue;
+            }
+            
+            page[count++] = TalentMatch({
+                talent: talent,
+                proficiency: skill.proficiency,
+                credentialId: skill.credentialId,
+                verified: verified
+            });
+        }
+        
+        // Trim the page to the talents found
+        matches = new TalentMatch[](count);
+        for (uint256 i = 0; i < count; i++) {
+            matches[i] = page[i];
+        }
+    }
+    
+    /**
+     * @dev Gets the number of talents with a skill, including deactivated profiles
+     * @param tagId ID of the skill tag
+     */
+    function getTalentCountBySkill(bytes32 tagId) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        return _tagTalents[tagId].length;
+    }
+    
+    /**
+     * @dev Gets a skill tag
+     * @param tagId ID of the tag
+     */
+    function getSkillTag(bytes32 tagId) 
+        external 
+        view 
+        returns (SkillTag memory) 
+    {
+        require(_tags[tagId].id != bytes32(0), "SkillRegistry: skill tag does not exist");
+        return _tags[tagId];
+    }
+    
+    /**
+     * @dev Gets all skill tag IDs in the taxonomy, including retired tags
+     */
+    function getSkillTagIds() 
+        external 
+        view 
+        returns (bytes32[] memory) 
+    {
+        return _tagIds;
+    }
+}
@@ -5,18 +5,38 @@ import "../base/AccessControl.sol";
 import "../base/Pausable.sol";
 import "../base/Upgradeable.sol";
 import "./RoleModule.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
 
 /**
  * @title UserProfileModule
  * @dev Contract module for managing user profiles in the PropellantBD ecosystem.
  * Handles profile storage, social handles, and verification.
+ * Social handles can be verified by admins or with EIP-712 attestations from verifier oracles.
  */
-contract UserProfileModule is AccessControl, Pausable, Upgradeable {
+contract UserProfileModule is AccessControl, Pausable, Upgradeable, EIP712 {
     // Role constants (imported from RoleModule)
     bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
     bytes32 public constant TALENT_ROLE = keccak256("TALENT_ROLE");
     bytes32 public constant ORGANIZATION_ROLE = keccak256("ORGANIZATION_ROLE");
     
+    // Role for companion modules that manage profiles on behalf of users (e.g. wallet migration)
+    bytes32 public constant PROFILE_MODULE_ROLE = keccak256("PROFILE_MODULE_ROLE");
+    
+    // Role for off-chain oracles that check social handles and sign attestations
+    bytes32 public constant VERIFIER_ORACLE_ROLE = keccak256("VERIFIER_ORACLE_ROLE");
+    
+    // EIP-712 typehash for an oracle's attestation that a user controls a handle
+    bytes32 public constant SOCIAL_HANDLE_ATTESTATION_TYPEHASH = keccak256(
+        "SocialHandleAttestation(address user,string platform,string handle,uint256 nonce,uint256 expiry)"
+    );
+    
+    // Username rules
+    uint256 public constant MIN_USERNAME_LENGTH = 3;
+    uint256 public constant MAX_USERNAME_LENGTH = 32;
+    uint256 public constant USERNAME_CHANGE_COOLDOWN = 30 days; // Minimum time between username claims
+    uint256 public constant USERNAME_RELEASE_DELAY = 90 days;   // Time before a released username can be claimed again
+    
     // Reference to RoleModule for role checks
     RoleModule private _roleModule;
     
@@ -25,7 +45,6 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         address owner;
         string name;
         string bio;
-        string email;
         string avatar;
         uint256 creationTime;
         uint256 lastUpdateTime;
@@ -41,20 +60,60 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         bytes32 verificationHash;
     }
     
+    // Profile fields as of a change, recorded so past states can be looked up.
+    // The revision at index i is version i + 1 of the profile.
+    struct ProfileRevision {
+        string name;
+        string bio;
+        string avatar;
+        string platform;             // Platform of the social handle changed (empty for profile edits)
+        string handle;               // New handle (empty when the handle was removed)
+        bytes32 emailHash;           // Email lookup hash
+        bool active;                 // Whether the profile was active
+        uint256 timestamp;           // When the change was made
+    }
+    
     // Mappings for profile data
     mapping(address => Profile) private _profiles;
+    mapping(address => uint256) private _historyIds; // Maps a profile to its revision history, which moves with it on migration
+    mapping(uint256 => ProfileRevision[]) private _profileRevisions;
+    uint256 private _historyCount;
+    mapping(address => uint256) private _erasureTimes; // When an erased profile was wiped, leaving a tombstone
     mapping(address => SocialHandle[]) private _socialHandles;
     mapping(address => mapping(string => uint256)) private _platformHandleIndex; // Maps platform to index in array
-    mapping(string => address) private _emailToAddress;
+    mapping(address => mapping(uint256 => bool)) private _usedVerificationNonces;
+    
+    // Mappings for hashed emails. Emails never reach the chain: the lookup hash, keyed with the platform's
+    // secret lookup key off-chain so it cannot be matched against guessed emails, is used for lookups and
+    // duplicate checks, and the salted commitment lets a user prove ownership by revealing the email and salt.
+    mapping(bytes32 => address) private _emailHashToAddress;
+    mapping(address => bytes32) private _emailHashes;
+    mapping(address => bytes32) private _emailCommitments;
+    
+    // Mappings for usernames, keyed by the hash of the normalized username
+    mapping(bytes32 => address) private _usernameToAddress;
+    mapping(address => string) private _usernames;
+    mapping(address => uint256) private _usernameClaimTimes;   // When the user last claimed a username
+    mapping(bytes32 => uint256) private _usernameReleaseTimes; // When the username was last released
+    mapping(bytes32 => bool) private _reservedUsernames;       // Names only admins can assign
     
     // Events
-    event ProfileCreated(address indexed user, string name, string email);
+    event ProfileCreated(address indexed user, string name, bytes32 indexed emailHash);
+    event EmailUpdated(address indexed user, bytes32 indexed emailHash);
     event ProfileUpdated(address indexed user, string name, string bio);
     event ProfileDeactivated(address indexed user);
     event ProfileReactivated(address indexed user);
+    event ProfileErased(address indexed user, address indexed erasedBy);
     event SocialHandleAdded(address indexed user, string platform, string handle);
     event SocialHandleVerified(address indexed user, string platform, string handle);
     event SocialHandleRemoved(address indexed user, string platform);
+    event SocialHandleAttested(address indexed user, string platform, address indexed oracle, uint256 nonce);
+    event VerifierOracleAdded(address indexed oracle);
+    event VerifierOracleRemoved(address indexed oracle);
+    event ProfileMigrated(address indexed oldAddress, address indexed newAddress);
+    event UsernameClaimed(address indexed user, string username);
+    event UsernameReleased(address indexed user, string username);
+    event UsernameReservationUpdated(string username, bool reserved);
     
     /**
      * @dev Modifier to ensure the caller is the profile owner or an admin
@@ -70,44 +129,51 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
     /**
      * @dev Constructor that sets the role module address
      */
-    constructor(address payable roleModuleAddress) {
+    constructor(address payable roleModuleAddress) 
+        EIP712("PropellantBD Profiles", "1") 
+    {
         require(roleModuleAddress != address(0), "UserProfileModule: role module address is zero");
         _roleModule = RoleModule(roleModuleAddress);
     }
     
     /**
-     * @dev Creates a new user profile
+     * @dev Creates a new user profile, optionally claiming a username for it.
+     * The email is only given as its lookup hash and a commitment, so it never appears on-chain.
      * @param name User's full name
      * @param bio Short biography or description
-     * @param email User's email address
+     * @param emailHash Lookup hash of the email, keyed with the platform's lookup key off-chain
+     * @param emailCommitment Salted commitment to the email (see computeEmailCommitment)
      * @param avatar IPFS hash of user's avatar
+     * @param username Username to claim (case-insensitive), or empty to claim none
      */
     function createProfile(
         string memory name,
         string memory bio,
-        string memory email,
-        string memory avatar
+        bytes32 emailHash,
+        bytes32 emailCommitment,
+        string memory avatar,
+        string memory username
     ) 
         external 
         whenNotPaused 
     {
         require(_profiles[msg.sender].creationTime == 0, "UserProfileModule: profile already exists");
         require(bytes(name).length > 0, "UserProfileModule: name cannot be empty");
-        require(bytes(email).length > 0, "UserProfileModule: email cannot be empty");
-        require(_emailToAddress[email] == address(0), "UserProfileModule: email already registered");
         
         _profiles[msg.sender] = Profile({
             owner: msg.sender,
             name: name,
             bio: bio,
-            email: email,
             avatar: avatar,
             creationTime: block.timestamp,
             lastUpdateTime: block.timestamp,
             active: true
         });
         
-        _emailToAddress[email] = msg.sender;
+        _setEmail(msg.sender, emailHash, emailCommitment);
+        
+        _historyIds[msg.sender] = ++_historyCount;
+        _recordRevision(msg.sender, "", "");
         
         // Give the user a TALENT role by default
         if (!_roleModule.hasRole(TALENT_ROLE, msg.sender)) {
@@ -116,7 +182,104 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
             }
         }
         
-        emit ProfileCreated(msg.sender, name, email);
+        emit ProfileCreated(msg.sender, name, emailHash);
+        
+        if (bytes(username).length > 0) {
+            _claimUsername(msg.sender, username, false);
+        }
+    }
+    
+    /**
+     * @dev Internal function to record the current profile fields as a new revision
+     * @param platform Platform of the social handle changed (empty for profile edits)
+     * @param handle New handle (empty when the handle was removed)
+     */
+    function _recordRevision(address user, string memory platform, string memory handle) 
+        internal 
+    {
+        Profile storage profile = _profiles[user];
+        profile.lastUpdateTime = block.timestamp;
+        
+        _revisions(user).push(ProfileRevision({
+            name: profile.name,
+            bio: profile.bio,
+            avatar: profile.avatar,
+            platform: platform,
+            handle: handle,
+            emailHash: _emailHashes[user],
+            active: profile.active,
+            timestamp: block.timestamp
+        }));
+    }
+    
+    /**
+     * @dev Internal function to get a profile's revision history
+     */
+    function _revisions(address user) 
+        internal 
+        view 
+        returns (ProfileRevision[] storage) 
+    {
+        return _profileRevisions[_historyIds[user]];
+    }
+    
+    /**
+     * @dev Internal function to revert if a user has no profile
+     */
+    function _requireProfileExists(address user) 
+        internal 
+        view 
+    {
+        require(_profiles[user].creationTime > 0, "UserProfileModule: profile does not exist");
+        require(_erasureTimes[user] == 0, "UserProfileModule: profile is erased");
+    }
+    
+    /**
+     * @dev Internal function to revert if a user has no profile or it is deactivated
+     */
+    function _requireActiveProfile(address user) 
+        internal 
+        view 
+    {
+        _requireProfileExists(user);
+        require(_profiles[user].active, "UserProfileModule: profile is not active");
+    }
+    
+    /**
+     * @dev Internal function to get the position of a user's handle for a platform,
+     * reverting if the user has no profile or no handle on that platform
+     */
+    function _handleIndex(address user, string memory platform) 
+        internal 
+        view 
+        returns (uint256) 
+    {
+        _requireProfileExists(user);
+        require(_platformHandleIndex[user][platform] > 0, "UserProfileModule: platform not found");
+        return _platformHandleIndex[user][platform] - 1;
+    }
+    
+    /**
+     * @dev Internal function to set a profile's email hash and commitment, replacing its previous email
+     */
+    function _setEmail(address user, bytes32 emailHash, bytes32 emailCommitment) 
+        internal 
+    {
+        require(emailHash != bytes32(0), "UserProfileModule: email cannot be empty");
+        require(emailCommitment != bytes32(0), "UserProfileModule: email commitment cannot be empty");
+        address holder = _emailHashToAddress[emailHash];
+        require(holder == address(0) || holder == user, "UserProfileModule: email already registered");
+        
+        bytes32 previousHash = _emailHashes[user];
+        if (previousHash != bytes32(0) && previousHash != emailHash) {
+            delete _emailHashToAddress[previousHash];
+        }
+        
+        _emailHashToAddress[emailHash] = user;
+        _emailHashes[user] = emailHash;
+        _emailCommitments[user] = emailCommitment;
+        
+        emit EmailUpdated(user, emailHash);
     }
     
     /**
@@ -133,8 +296,7 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         external 
         whenNotPaused 
     {
-        require(_profiles[msg.sender].creationTime > 0, "UserProfileModule: profile does not exist");
-        require(_profiles[msg.sender].active, "UserProfileModule: profile is not active");
+        _requireActiveProfile(msg.sender);
         
         Profile storage profile = _profiles[msg.sender];
         
@@ -144,7 +306,7 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         
         profile.bio = bio;
         profile.avatar = avatar;
-        profile.lastUpdateTime = block.timestamp;
+        _recordRevision(msg.sender, "", "");
         
         emit ProfileUpdated(msg.sender, name, bio);
     }
@@ -158,11 +320,11 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         whenNotPaused 
         onlyProfileOwnerOrAdmin(user) 
     {
-        require(_profiles[user].creationTime > 0, "UserProfileModule: profile does not exist");
+        _requireProfileExists(user);
         require(_profiles[user].active, "UserProfileModule: profile already deactivated");
         
         _profiles[user].active = false;
-        _profiles[user].lastUpdateTime = block.timestamp;
+        _recordRevision(user, "", "");
         
         emit ProfileDeactivated(user);
     }
@@ -176,15 +338,77 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         whenNotPaused 
         onlyProfileOwnerOrAdmin(user) 
     {
-        require(_profiles[user].creationTime > 0, "UserProfileModule: profile does not exist");
+        _requireProfileExists(user);
         require(!_profiles[user].active, "UserProfileModule: profile already active");
         
         _profiles[user].active = true;
-        _profiles[user].lastUpdateTime = block.timestamp;
+        _recordRevision(user, "", "");
         
         emit ProfileReactivated(user);
     }
     
+    /**
+     * @dev Erases a user profile, wiping its personal data and revision history and releasing
+     * its email, username and social handles. A tombstone remains so credentials linked to the
+     * address resolve to an erased subject, and the address cannot create a new profile.
+     * Data in past transactions and events cannot be erased.
+     * @param user Address of the profile to erase
+     */
+    function eraseProfile(address user) 
+        external 
+        whenNotPaused 
+        onlyProfileOwnerOrAdmin(user) 
+    {
+        _requireProfileExists(user);
+        
+        Profile storage profile = _profiles[user];
+        
+        // Release the email
+        delete _emailHashToAddress[_emailHashes[user]];
+        delete _emailHashes[user];
+        delete _emailCommitments[user];
+        
+        // Release the username and social handles
+        if (bytes(_usernames[user]).length > 0) {
+            _releaseUsername(user);
+        }
+        delete _usernameClaimTimes[user];
+        
+        SocialHandle[] storage handles = _socialHandles[user];
+        for (uint256 i = 0; i < handles.length; i++) {
+            delete _platformHandleIndex[user][handles[i].platform];
+        }
+        delete _socialHandles[user];
+        
+        // Wipe the history and personal fields, keeping the owner and creation time as the tombstone
+        delete _profileRevisions[_historyIds[user]];
+        delete _historyIds[user];
+        
+        delete profile.name;
+        delete profile.bio;
+        delete profile.avatar;
+        profile.active = false;
+        profile.lastUpdateTime = block.timestamp;
+        _erasureTimes[user] = block.timestamp;
+        
+        emit ProfileErased(user, msg.sender);
+    }
+    
+    /**
+     * @dev Replaces the caller's email, or its commitment with one under a new salt
+     * @param emailHash Lookup hash of the email, keyed with the platform's lookup key off-chain
+     * @param emailCommitment Salted commitment to the email (see computeEmailCommitment)
+     */
+    function updateEmail(bytes32 emailHash, bytes32 emailCommitment) 
+        external 
+        whenNotPaused 
+    {
+        _requireActiveProfile(msg.sender);
+        
+        _setEmail(msg.sender, emailHash, emailCommitment);
+        _recordRevision(msg.sender, "", "");
+    }
+    
     /**
      * @dev Adds a social handle for a user
      * @param platform Social media platform name (e.g., "twitter", "github")
@@ -194,19 +418,21 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         external 
         whenNotPaused 
     {
-        require(_profiles[msg.sender].creationTime > 0, "UserProfileModule: profile does not exist");
-        require(_profiles[msg.sender].active, "UserProfileModule: profile is not active");
+        _requireActiveProfile(msg.sender);
         require(bytes(platform).length > 0, "UserProfileModule: platform cannot be empty");
         require(bytes(handle).length > 0, "UserProfileModule: handle cannot be empty");
         
         // Check if platform already exists
         if (_platformHandleIndex[msg.sender][platform] > 0) {
-            // Update existing handle
-            uint256 index = _platformHandleIndex[msg.sender][platform] - 1;
-            _socialHandles[msg.sender][index].handle = handle;
-            _socialHandles[msg.sender][index].verified = false;
-            _socialHandles[msg.sender][index].verificationTime = 0;
-            _socialHandles[msg.sender][index].verificationHash = bytes32(0);
+            // Update existing handle, resetting its verification if the handle changed
+            SocialHandle storage existing = _socialHandles[msg.sender][_platformHandleIndex[msg.sender][platform] - 1];
+            if (keccak256(bytes(existing.handle)) != keccak256(bytes(handle))) {
+                existing.handle = handle;
+                existing.verified = false;
+                existing.verificationTime = 0;
+                existing.verificationHash = bytes32(0);
+                _recordRevision(msg.sender, platform, handle);
+            }
         } else {
             // Add new handle
             SocialHandle memory newHandle = SocialHandle({
@@ -219,11 +445,151 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
             
             _socialHandles[msg.sender].push(newHandle);
             _platformHandleIndex[msg.sender][platform] = _socialHandles[msg.sender].length;
+            _recordRevision(msg.sender, platform, handle);
         }
         
         emit SocialHandleAdded(msg.sender, platform, handle);
     }
     
+    /**
+     * @dev Claims a username for the caller's profile, releasing any previous one.
+     * Usernames are lowercased, and can be changed once per cooldown period.
+     * @param username Username to claim (3-32 letters, digits or underscores)
+     */
+    function claimUsername(string memory username) 
+        external 
+        whenNotPaused 
+    {
+        _requireActiveProfile(msg.sender);
+        require(
+            _usernameClaimTimes[msg.sender] == 0 ||
+                block.timestamp >= _usernameClaimTimes[msg.sender] + USERNAME_CHANGE_COOLDOWN,
+            "UserProfileModule: username change cooldown active"
+        );
+        
+        _claimUsername(msg.sender, username, false);
+    }
+    
+    /**
+     * @dev Releases the caller's username. It can be claimed again after the release delay.
+     */
+    function releaseUsername() 
+        external 
+        whenNotPaused 
+    {
+        require(bytes(_usernames[msg.sender]).length > 0, "UserProfileModule: no username claimed");
+        _releaseUsername(msg.sender);
+    }
+    
+    /**
+     * @dev Reserves or unreserves a username. Reserved names can only be assigned by admins.
+     * @param username Username to update
+     * @param reserved Whether the username should be reserved
+     */
+    function setUsernameReserved(string memory username, bool reserved) 
+        external 
+        onlyRole(ADMIN_ROLE) 
+    {
+        (string memory normalized, bool valid) = _normalizeUsername(username);
+        require(valid, "UserProfileModule: invalid username");
+        
+        _reservedUsernames[keccak256(bytes(normalized))] = reserved;
+        
+        emit UsernameReservationUpdated(normalized, reserved);
+    }
+    
+    /**
+     * @dev Assigns a username to a profile, including reserved or recently released names
+     * @param user Address of the profile
+     * @param username Username to assign
+     */
+    function assignUsername(address user, string memory username) 
+        external 
+        whenNotPaused 
+        onlyRole(ADMIN_ROLE) 
+    {
+        _requireProfileExists(user);
+        _claimUsername(user, username, true);
+    }
+    
+    /**
+     * @dev Internal function to claim a username for a profile
+     * @param user Address of the profile
+     * @param username Username to claim
+     * @param byAdmin Whether to skip the reservation and release delay checks
+     */
+    function _claimUsername(address user, string memory username, bool byAdmin) 
+        internal 
+    {
+        (string memory normalized, bool valid) = _normalizeUsername(username);
+        require(valid, "UserProfileModule: invalid username");
+        
+        bytes32 key = keccak256(bytes(normalized));
+        require(_usernameToAddress[key] == address(0), "UserProfileModule: username already taken");
+        if (!byAdmin) {
+            require(!_reservedUsernames[key], "UserProfileModule: username is reserved");
+            require(
+                _usernameReleaseTimes[key] == 0 || block.timestamp >= _usernameReleaseTimes[key] + USERNAME_RELEASE_DELAY,
+                "UserProfileModule: username recently released"
+            );
+        }
+        
+        if (bytes(_usernames[user]).length > 0) {
+            _releaseUsername(user);
+        }
+        
+        _usernameToAddress[key] = user;
+        _usernames[user] = normalized;
+        _usernameClaimTimes[user] = block.timestamp;
+        
+        emit UsernameClaimed(user, normalized);
+    }
+    
+    /**
+     * @dev Internal function to release a profile's username
+     */
+    function _releaseUsername(address user) 
+        internal 
+    {
+        string memory username = _usernames[user];
+        bytes32 key = keccak256(bytes(username));
+        
+        delete _usernameToAddress[key];
+        delete _usernames[user];
+        _usernameReleaseTimes[key] = block.timestamp;
+        
+        emit UsernameReleased(user, username);
+    }
+    
+    /**
+     * @dev Internal function to lowercase a username and check its characters
+     * @return normalized Lowercased username
+     * @return valid Whether the username has a valid length and only letters, digits or underscores
+     */
+    function _normalizeUsername(string memory username) 
+        internal 
+        pure 
+        returns (string memory normalized, bool valid) 
+    {
+        bytes memory name = bytes(username);
+        if (name.length < MIN_USERNAME_LENGTH || name.length > MAX_USERNAME_LENGTH) {
+            return ("", false);
+        }
+        
+        bytes memory result = new bytes(name.length);
+        for (uint256 i = 0; i < name.length; i++) {
+            bytes1 char = name[i];
+            if (char >= "A" && char <= "Z") {
+                char = bytes1(uint8(char) + 32);
+            } else if (!((char >= "a" && char <= "z") || (char >= "0" && char <= "9") || char == "_")) {
+                return ("", false);
+            }
+            result[i] = char;
+        }
+        
+        return (string(result), true);
+    }
+    
     /**
      * @dev Removes a social handle for a user
      * @param platform Social media platform name to remove
@@ -232,10 +598,7 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         external 
         whenNotPaused 
     {
-        require(_profiles[msg.sender].creationTime > 0, "UserProfileModule: profile does not exist");
-        require(_platformHandleIndex[msg.sender][platform] > 0, "UserProfileModule: platform not found");
-        
-        uint256 index = _platformHandleIndex[msg.sender][platform] - 1;
+        uint256 index = _handleIndex(msg.sender, platform);
         uint256 lastIndex = _socialHandles[msg.sender].length - 1;
         
         // If it's not the last element, move the last element to the removed position
@@ -248,10 +611,76 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         // Remove the last element
         _socialHandles[msg.sender].pop();
         delete _platformHandleIndex[msg.sender][platform];
+        _recordRevision(msg.sender, platform, "");
         
         emit SocialHandleRemoved(msg.sender, platform);
     }
     
+    /**
+     * @dev Moves a profile, its social handles and its email to a new address.
+     * Erased profiles move as tombstones, so the credentials linked to them can follow.
+     * Only callable by a profile module that has checked the migration is authorized.
+     * @param oldAddress Address currently holding the profile
+     * @param newAddress Address to move the profile to (must not have a profile)
+     */
+    function migrateProfileFromModule(address oldAddress, address newAddress) 
+        external 
+        whenNotPaused 
+        onlyRole(PROFILE_MODULE_ROLE) 
+    {
+        require(_profiles[oldAddress].creationTime > 0, "UserProfileModule: profile does not exist");
+        require(newAddress != address(0), "UserProfileModule: new address is zero");
+        require(_profiles[newAddress].creationTime == 0, "UserProfileModule: profile already exists");
+        
+        Profile memory profile = _profiles[oldAddress];
+        profile.owner = newAddress;
+        profile.lastUpdateTime = block.timestamp;
+        _profiles[newAddress] = profile;
+        delete _profiles[oldAddress];
+        
+        _erasureTimes[newAddress] = _erasureTimes[oldAddress];
+        delete _erasureTimes[oldAddress];
+        
+        // Move the email hash and commitment
+        if (_emailHashes[oldAddress] != bytes32(0)) {
+            _emailHashToAddress[_emailHashes[oldAddress]] = newAddress;
+            _emailHashes[newAddress] = _emailHashes[oldAddress];
+            _emailCommitments[newAddress] = _emailCommitments[oldAddress];
+            delete _emailHashes[oldAddress];
+            delete _emailCommitments[oldAddress];
+        }
+        
+        // Move social handles, keeping their verification
+        SocialHandle[] storage handles = _socialHandles[oldAddress];
+        for (uint256 i = 0; i < handles.length; i++) {
+            _socialHandles[newAddress].push(handles[i]);
+            _platformHandleIndex[newAddress][handles[i].platform] = i + 1;
+            delete _platformHandleIndex[oldAddress][handles[i].platform];
+        }
+        delete _socialHandles[oldAddress];
+        
+        // Move the revision history, so past states stay traceable
+        _historyIds[newAddress] = _historyIds[oldAddress];
+        delete _historyIds[oldAddress];
+        
+        // Move the username without starting a new cooldown
+        if (bytes(_usernames[oldAddress]).length > 0) {
+            _usernameToAddress[keccak256(bytes(_usernames[oldAddress]))] = newAddress;
+            _usernames[newAddress] = _usernames[oldAddress];
+            _usernameClaimTimes[newAddress] = _usernameClaimTimes[oldAddress];
+            delete _usernames[oldAddress];
+        }
+        
+        // Give the new address the TALENT role held by profile owners
+        if (!_roleModule.hasRole(TALENT_ROLE, newAddress)) {
+            if (_roleModule.hasRole(ADMIN_ROLE, address(this))) {
+                _roleModule.grantRoleSafe(TALENT_ROLE, newAddress);
+            }
+        }
+        
+        emit ProfileMigrated(oldAddress, newAddress);
+    }
+    
     /**
      * @dev Generates a verification hash for social handle verification
      * @param user Address of the user
@@ -263,10 +692,9 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         view 
         returns (bytes32) 
     {
-        require(_profiles[user].creationTime > 0, "UserProfileModule: profile does not exist");
-        require(_platformHandleIndex[user][platform] > 0, "UserProfileModule: platform not found");
+        uint256 index = _handleIndex(user, platform);
+        require(!_usedVerificationNonces[user][nonce], "UserProfileModule: nonce already used");
         
-        uint256 index = _platformHandleIndex[user][platform] - 1;
         string memory handle = _socialHandles[user][index].handle;
         
         return keccak256(abi.encodePacked(user, platform, handle, nonce));
@@ -283,10 +711,7 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         whenNotPaused 
         onlyRole(ADMIN_ROLE) 
     {
-        require(_profiles[user].creationTime > 0, "UserProfileModule: profile does not exist");
-        require(_platformHandleIndex[user][platform] > 0, "UserProfileModule: platform not found");
-        
-        uint256 index = _platformHandleIndex[user][platform] - 1;
+        uint256 index = _handleIndex(user, platform);
         _socialHandles[user][index].verified = true;
         _socialHandles[user][index].verificationTime = block.timestamp;
         _socialHandles[user][index].verificationHash = verificationHash;
@@ -295,7 +720,99 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
     }
     
     /**
-     * @dev Gets a user's profile data
+     * @dev Verifies one of the caller's social handles with an oracle attestation.
+     * The attestation must cover the handle currently stored for the platform.
+     * @param platform Social media platform name
+     * @param oracle Address of the verifier oracle that signed the attestation
+     * @param nonce Nonce of the attestation, consumed once used
+     * @param expiry Time after which the attestation can no longer be used
+     * @param signature Oracle's EIP-712 signature of the attestation
+     */
+    function verifySocialHandleWithAttestation(
+        string memory platform,
+        address oracle,
+        uint256 nonce,
+        uint256 expiry,
+        bytes memory signature
+    ) 
+        external 
+        whenNotPaused 
+    {
+        uint256 index = _handleIndex(msg.sender, platform);
+        require(block.timestamp <= expiry, "UserProfileModule: attestation expired");
+        require(hasRole(VERIFIER_ORACLE_ROLE, oracle), "UserProfileModule: signer is not a verifier oracle");
+        require(!_usedVerificationNonces[msg.sender][nonce], "UserProfileModule: nonce already used");
+        
+        SocialHandle storage socialHandle = _socialHandles[msg.sender][index];
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            SOCIAL_HANDLE_ATTESTATION_TYPEHASH,
+            msg.sender,
+            keccak256(bytes(platform)),
+            keccak256(bytes(socialHandle.handle)),
+            nonce,
+            expiry
+        )));
+        
+        require(
+            SignatureChecker.isValidSignatureNow(oracle, digest, signature),
+            "UserProfileModule: invalid attestation signature"
+        );
+        
+        _usedVerificationNonces[msg.sender][nonce] = true;
+        socialHandle.verified = true;
+        socialHandle.verificationTime = block.timestamp;
+        socialHandle.verificationHash = digest;
+        
+        emit SocialHandleVerified(msg.sender, platform, socialHandle.handle);
+        emit SocialHandleAttested(msg.sender, platform, oracle, nonce);
+    }
+    
+    /**
+     * @dev Registers an oracle allowed to attest social handles
+     * @param oracle Address of the oracle
+     */
+    function addVerifierOracle(address oracle) 
+        external 
+        onlyRole(ADMIN_ROLE) 
+    {
+        require(oracle != address(0), "UserProfileModule: oracle is zero address");
+        require(!hasRole(VERIFIER_ORACLE_ROLE, oracle), "UserProfileModule: oracle already registered");
+        
+        _grantRole(VERIFIER_ORACLE_ROLE, oracle);
+        
+        emit VerifierOracleAdded(oracle);
+    }
+    
+    /**
+     * @dev Removes a verifier oracle. Handles it already verified stay verified.
+     * @param oracle Address of the oracle
+     */
+    function removeVerifierOracle(address oracle) 
+        external 
+        onlyRole(ADMIN_ROLE) 
+    {
+        require(hasRole(VERIFIER_ORACLE_ROLE, oracle), "UserProfileModule: oracle not registered");
+        
+        _revokeRole(VERIFIER_ORACLE_ROLE, oracle);
+        
+        emit VerifierOracleRemoved(oracle);
+    }
+    
+    /**
+     * @dev Checks if a verification nonce has been used by a user
+     * @param user Address of the user
+     * @param nonce Nonce to check
+     */
+    function isVerificationNonceUsed(address user, uint256 nonce) 
+        external 
+        view 
+        returns (bool) 
+    {
+        return _usedVerificationNonces[user][nonce];
+    }
+    
+    /**
+     * @dev Gets a user's profile data, including its version, i.e. its number of revisions
      * @param user Address of the user
      */
     function getProfile(address user) 
@@ -304,25 +821,108 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         returns (
             string memory name,
             string memory bio,
-            string memory email,
+            bytes32 emailHash,
             string memory avatar,
             uint256 creationTime,
             uint256 lastUpdateTime,
-            bool active
+            bool active,
+            uint256 version
         ) 
     {
-        require(_profiles[user].creationTime > 0, "UserProfileModule: profile does not exist");
+        _requireProfileExists(user);
         
         Profile storage profile = _profiles[user];
-        return (
-            profile.name,
-            profile.bio,
-            profile.email,
-            profile.avatar,
-            profile.creationTime,
-            profile.lastUpdateTime,
-            profile.active
-        );
+        name = profile.name;
+        bio = profile.bio;
+        emailHash = _emailHashes[user];
+        avatar = profile.avatar;
+        creationTime = profile.creationTime;
+        lastUpdateTime = profile.lastUpdateTime;
+        active = profile.active;
+        version = _revisions(user).length;
+    }
+    
+    /**
+     * @dev Gets a revision of a user's profile
+     * @param user Address of the user
+     * @param index Index of the revision (the version minus one)
+     */
+    function getProfileRevision(address user, uint256 index) 
+        public 
+        view 
+        returns (
+            string memory name,
+            string memory bio,
+            string memory avatar,
+            string memory platform,
+            string memory handle,
+            bytes32 emailHash,
+            bool active,
+            uint256 timestamp
+        ) 
+    {
+        ProfileRevision[] storage revisions = _revisions(user);
+        require(index < revisions.length, "UserProfileModule: revision does not exist");
+        
+        ProfileRevision storage revision = revisions[index];
+        name = revision.name;
+        bio = revision.bio;
+        avatar = revision.avatar;
+        platform = revision.platform;
+        handle = revision.handle;
+        emailHash = revision.emailHash;
+        active = revision.active;
+        timestamp = revision.timestamp;
+    }
+    
+    /**
+     * @dev Gets the index of the revision of a user's profile that was current at a point in time
+     * @param user Address of the user
+     * @param timestamp Point in time to look up
+     */
+    function getProfileRevisionIndexAt(address user, uint256 timestamp) 
+        public 
+        view 
+        returns (uint256) 
+    {
+        ProfileRevision[] storage revisions = _revisions(user);
+        require(revisions.length > 0 && revisions[0].timestamp <= timestamp, "UserProfileModule: no revision at timestamp");
+        
+        // Find the last revision made at or before the timestamp
+        uint256 low = 0;
+        uint256 high = revisions.length - 1;
+        while (low < high) {
+            uint256 mid = (low + high + 1) / 2;
+            if (revisions[mid].timestamp <= timestamp) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        
+        return low;
+    }
+    
+    /**
+     * @dev Gets the revision of a user's profile that was current at a point in time
+     * @param user Address of the user
+     * @param timestamp Point in time to look up
+     */
+    function getProfileRevisionAt(address user, uint256 timestamp) 
+        external 
+        view 
+        returns (
+            string memory name,
+            string memory bio,
+            string memory avatar,
+            string memory platform,
+            string memory handle,
+            bytes32 emailHash,
+            bool active,
+            uint256 revisionTimestamp
+        ) 
+    {
+        return getProfileRevision(user, getProfileRevisionIndexAt(user, timestamp));
     }
     
     /**
@@ -334,7 +934,7 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         view 
         returns (SocialHandle[] memory) 
     {
-        require(_profiles[user].creationTime > 0, "UserProfileModule: profile does not exist");
+        _requireProfileExists(user);
         return _socialHandles[user];
     }
     
@@ -357,19 +957,151 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
     }
     
     /**
-     * @dev Gets the address associated with an email
-     * @param email Email to look up
+     * @dev Gets the address associated with an email lookup hash
+     * @param emailHash Lookup hash of the email, keyed with the platform's lookup key off-chain
      */
-    function getAddressByEmail(string memory email) 
+    function getAddressByEmailHash(bytes32 emailHash) 
         external 
         view 
         returns (address) 
     {
-        return _emailToAddress[email];
+        return _emailHashToAddress[emailHash];
+    }
+    
+    /**
+     * @dev Gets a user's email lookup hash and commitment
+     * @param user Address of the user
+     */
+    function getEmailCommitment(address user) 
+        external 
+        view 
+        returns (bytes32 emailHash, bytes32 emailCommitment) 
+    {
+        return (_emailHashes[user], _emailCommitments[user]);
+    }
+    
+    /**
+     * @dev Checks an email and salt revealed by a user against their commitment
+     * @param user Address of the user
+     * @param email Email revealed by the user
+     * @param salt Salt revealed by the user
+     */
+    function verifyEmail(address user, string memory email, bytes32 salt) 
+        external 
+        view 
+        returns (bool) 
+    {
+        bytes32 commitment = _emailCommitments[user];
+        return commitment != bytes32(0) && commitment == computeEmailCommitment(hashEmail(email), salt);
     }
     
     /**
-     * @dev Checks if a profile exists
+     * @dev Hashes an email, lowercasing ASCII letters first. Used inside commitments;
+     * anyone can hash a guessed email, so it is not a private lookup key.
+     * @param email Email to hash
+     */
+    function hashEmail(string memory email) 
+        public 
+        pure 
+        returns (bytes32) 
+    {
+        bytes memory raw = bytes(email);
+        bytes memory result = new bytes(raw.length);
+        for (uint256 i = 0; i < raw.length; i++) {
+            bytes1 char = raw[i];
+            if (char >= "A" && char <= "Z") {
+                char = bytes1(uint8(char) + 32);
+            }
+            result[i] = char;
+        }
+        
+        return keccak256(result);
+    }
+    
+    /**
+     * @dev Computes the salted commitment to an email
+     * @param emailHash Plain hash of the email (see hashEmail)
+     * @param salt Random salt kept by the user
+     */
+    function computeEmailCommitment(bytes32 emailHash, bytes32 salt) 
+        public 
+        pure 
+        returns (bytes32) 
+    {
+        return keccak256(abi.encodePacked(emailHash, salt));
+    }
+    
+    /**
+     * @dev Gets the address that holds a username
+     * @param username Username to look up (case-insensitive)
+     * @return Address holding the username, or zero if unclaimed
+     */
+    function resolveUsername(string memory username) 
+        external 
+        view 
+        returns (address) 
+    {
+        (string memory normalized, bool valid) = _normalizeUsername(username);
+        if (!valid) {
+            return address(0);
+        }
+        
+        return _usernameToAddress[keccak256(bytes(normalized))];
+    }
+    
+    /**
+     * @dev Gets a user's username
+     * @param user Address of the user
+     * @return Normalized username, or an empty string if none is claimed
+     */
+    function getUsername(address user) 
+        external 
+        view 
+        returns (string memory) 
+    {
+        return _usernames[user];
+    }
+    
+    /**
+     * @dev Checks if a username can currently be claimed by a user
+     * @param username Username to check
+     */
+    function isUsernameAvailable(string memory username) 
+        external 
+        view 
+        returns (bool) 
+    {
+        (string memory normalized, bool valid) = _normalizeUsername(username);
+        if (!valid) {
+            return false;
+        }
+        
+        bytes32 key = keccak256(bytes(normalized));
+        return _usernameToAddress[key] == address(0) &&
+            !_reservedUsernames[key] &&
+            (_usernameReleaseTimes[key] == 0 || block.timestamp >= _usernameReleaseTimes[key] + USERNAME_RELEASE_DELAY);
+    }
+    
+    /**
+     * @dev Gets when a user can next claim a username
+     * @param user Address of the user
+     * @return Timestamp of the next allowed claim (0 if the user never claimed one)
+     */
+    function getNextUsernameChangeTime(address user) 
+        external 
+        view 
+        returns (uint256) 
+    {
+        if (_usernameClaimTimes[user] == 0) {
+            return 0;
+        }
+        
+        return _usernameClaimTimes[user] + USERNAME_CHANGE_COOLDOWN;
+    }
+    
+    /**
+     * @dev Checks if a profile exists. Erased profiles still exist as tombstones, so credentials
+     * linked to them can be renewed and migrated; use isProfileErased to tell them apart.
      * @param user Address to check
      */
     function profileExists(address user) 
@@ -380,6 +1112,18 @@ contract UserProfileModule is AccessControl, Pausable, Upgradeable {
         return _profiles[user].creationTime > 0;
     }
     
+    /**
+     * @dev Checks if an address held a profile that has been erased
+     * @param user Address to check
+     */
+    function isProfileErased(address user) 
+        external 
+        view 
+        returns (bool) 
+    {
+        return _erasureTimes[user] > 0;
+    }
+    
     /**
      * @dev Checks if a profile is active
      * @param user Address to check
@@ -0,0 +1,219 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "../base/AccessControl.sol";
+import "../base/Pausable.sol";
+import "../base/Upgradeable.sol";
+import "./UserProfileModule.sol";
+import "./CredentialVerificationModule.sol";
+
+/**
+ * @title WalletMigrationModule
+ * @dev Contract module for moving a talent's profile and credentials to a new wallet in the PropellantBD ecosystem.
+ * A migration runs once both the old and the new address consent, or once an admin approves
+ * a recovery requested by the new address after the old key was lost.
+ */
+contract WalletMigrationModule is AccessControl, Pausable, Upgradeable {
+    // Role constants (imported from RoleModule)
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    
+    // Reference to UserProfileModule for profile data
+    UserProfileModule private _userProfileModule;
+    
+    // Reference to CredentialVerificationModule for credential subjects
+    CredentialVerificationModule private _credentialModule;
+    
+    // Pending migration structure
+    struct MigrationRequest {
+        address newAddress;          // Address the profile and credentials move to
+        bool recovery;               // Whether the request needs admin approval instead of the old address
+        uint256 requestedAt;         // When the migration was requested
+    }
+    
+    // Mappings for migration data
+    mapping(address => MigrationRequest) private _requests; // Maps old address to its pending migration
+    mapping(address => address) private _migratedTo;        // Maps old address to the address it migrated to
+    
+    // Events
+    event MigrationRequested(address indexed oldAddress, address indexed newAddress, bool recovery);
+    event MigrationCancelled(address indexed oldAddress, address indexed newAddress, address indexed cancelledBy);
+    event MigrationCompleted(
+        address indexed oldAddress,
+        address indexed newAddress,
+        address indexed approvedBy,
+        bool recovery,
+        uint256 credentialCount
+    );
+    
+    /**
+     * @dev Constructor that sets the user profile module and credential module addresses
+     */
+    constructor(address payable userProfileModuleAddress, address payable credentialModuleAddress) {
+        require(userProfileModuleAddress != address(0), "WalletMigration: user profile module address is zero");
+        require(credentialModuleAddress != address(0), "WalletMigration: credential module address is zero");
+        
+        _userProfileModule = UserProfileModule(userProfileModuleAddress);
+        _credentialModule = CredentialVerificationModule(credentialModuleAddress);
+    }
+    
+    /**
+     * @dev Requests moving the caller's profile and credentials to a new address.
+     * Replaces any pending request for the caller, including recovery requests.
+     * @param newAddress Address to move to (must confirm the migration)
+     */
+    function requestMigration(address newAddress) 
+        external 
+        whenNotPaused 
+    {
+        _checkAddresses(msg.sender, newAddress);
+        
+        _requests[msg.sender] = MigrationRequest({
+            newAddress: newAddress,
+            recovery: false,
+            requestedAt: block.timestamp
+        });
+        
+        emit MigrationRequested(msg.sender, newAddress, false);
+    }
+    
+    /**
+     * @dev Confirms a migration requested by the old address, moving the profile and credentials to the caller
+     * @param oldAddress Address that requested the migration
+     */
+    function confirmMigration(address oldAddress) 
+        external 
+        whenNotPaused 
+    {
+        MigrationRequest storage request = _requests[oldAddress];
+        
+        require(request.requestedAt > 0 && !request.recovery, "WalletMigration: no pending migration");
+        require(request.newAddress == msg.sender, "WalletMigration: caller is not the new address");
+        
+        _migrate(oldAddress, msg.sender, false);
+    }
+    
+    /**
+     * @dev Requests recovery of a profile whose key was lost, moving it to the caller once an admin approves
+     * @param oldAddress Address holding the profile to recover
+     */
+    function requestRecovery(address oldAddress) 
+        external 
+        whenNotPaused 
+    {
+        _checkAddresses(oldAddress, msg.sender);
+        require(_requests[oldAddress].requestedAt == 0, "WalletMigration: migration already pending");
+        
+        _requests[oldAddress] = MigrationRequest({
+            newAddress: msg.sender,
+            recovery: true,
+            requestedAt: block.timestamp
+        });
+        
+        emit MigrationRequested(oldAddress, msg.sender, true);
+    }
+    
+    /**
+     * @dev Approves a pending recovery, moving the profile and credentials to the requesting address
+     * @param oldAddress Address holding the profile to recover
+     */
+    function approveRecovery(address oldAddress) 
+        external 
+        whenNotPaused 
+        onlyRole(ADMIN_ROLE) 
+    {
+        MigrationRequest storage request = _requests[oldAddress];
+        
+        require(request.requestedAt > 0 && request.recovery, "WalletMigration: no pending recovery");
+        
+        _migrate(oldAddress, request.newAddress, true);
+    }
+    
+    /**
+     * @dev Cancels a pending migration or recovery. Callable by either address or an admin.
+     * @param oldAddress Address the migration moves away from
+     */
+    function cancelMigration(address oldAddress) 
+        external 
+        whenNotPaused 
+    {
+        MigrationRequest memory request = _requests[oldAddress];
+        
+        require(request.requestedAt > 0, "WalletMigration: no pending migration");
+        require(
+            msg.sender == oldAddress || msg.sender == request.newAddress || hasRole(ADMIN_ROLE, msg.sender),
+            "WalletMigration: caller cannot cancel this migration"
+        );
+        
+        delete _requests[oldAddress];
+        
+        emit MigrationCancelled(oldAddress, request.newAddress, msg.sender);
+    }
+    
+    /**
+     * @dev Gets the pending migration of an address
+     * @param oldAddress Address the migration moves away from
+     */
+    function getMigrationRequest(address oldAddress) 
+        external 
+        view 
+        returns (MigrationRequest memory) 
+    {
+        return _requests[oldAddress];
+    }
+    
+    /**
+     * @dev Gets the address a profile was migrated to, following chained migrations
+     * @param account Address to look up
+     * @return Current address of the profile (the account itself if it never migrated)
+     */
+    function getCurrentAddress(address account) 
+        external 
+        view 
+        returns (address) 
+    {
+        while (_migratedTo[account] != address(0)) {
+            account = _migratedTo[account];
+        }
+        return account;
+    }
+    
+    /**
+     * @dev Gets the address an account migrated to directly (zero if it never migrated)
+     * @param oldAddress Address to look up
+     */
+    function getMigratedTo(address oldAddress) 
+        external 
+        view 
+        returns (address) 
+    {
+        return _migratedTo[oldAddress];
+    }
+    
+    /**
+     * @dev Internal function to check both sides of a migration
+     */
+    function _checkAddresses(address oldAddress, address newAddress) 
+        internal 
+        view 
+    {
+        require(newAddress != address(0) && newAddress != oldAddress, "WalletMigration: invalid new address");
+        require(_userProfileModule.profileExists(oldAddress), "WalletMigration: profile does not exist");
+        require(!_userProfileModule.profileExists(newAddress), "WalletMigration: new address already has a profile");
+    }
+    
+    /**
+     * @dev Internal function to move the profile and credentials and record the migration
+     */
+    function _migrate(address oldAddress, address newAddress, bool recovery) 
+        internal 
+    {
+        delete _requests[oldAddress];
+        _migratedTo[oldAddress] = newAddress;
+        delete _migratedTo[newAddress]; // The new address may be returning to a profile it migrated away from
+        
+        _userProfileModule.migrateProfileFromModule(oldAddress, newAddress);
+        uint256 credentialCount = _credentialModule.migrateSubjectFromModule(oldAddress, newAddress);
+        
+        emit MigrationCompleted(oldAddress, newAddress, msg.sender, recovery, credentialCount);
+    }
+}
@@ -9,7 +9,34 @@ const WALLET_KEY = process.env.WALLET_KEY || "0x00000000000000000000000000000000
 const ETHERSCAN_API_KEY = process.env.ETHERSCAN_API_KEY || "";
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.28",
+  solidity: {
+    compilers: [
+      {
+        version: "0.8.28",
+        settings: {
+          // Keep the larger modules under the 24KB contract size limit
+          optimizer: {
+            enabled: true,
+            runs: 200,
+          },
+        },
+      },
+    ],
+    overrides: {
+      // The profile module only fits under the size limit with the IR pipeline,
+      // optimized for size over call cost
+      "contracts/modules/UserProfileModule.sol": {
+        version: "0.8.28",
+        settings: {
+          viaIR: true,
+          optimizer: {
+            enabled: true,
+            runs: 50,
+          },
+        },
+      },
+    },
+  },
   networks: {
     // Local development network
     hardhat: {
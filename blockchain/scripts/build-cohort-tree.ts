@@ -0,0 +1,27 @@
+import * as fs from "fs";
+import { buildCohortTree, parseAddressCsv } from "../utils/cohortTree";
+
+// Builds a cohort Merkle tree from a CSV of graduate addresses.
+// Usage: npx ts-node scripts/build-cohort-tree.ts graduates.csv [proofs.json]
+async function main() {
+  const [csvPath, outputPath = "cohort-proofs.json"] = process.argv.slice(2);
+  if (!csvPath) {
+    throw new Error("Usage: npx ts-node scripts/build-cohort-tree.ts <addresses.csv> [output.json]");
+  }
+
+  const members = parseAddressCsv(fs.readFileSync(csvPath, "utf8"));
+  console.log(`Building cohort tree for ${members.length} members...`);
+
+  const cohortTree = buildCohortTree(members);
+  fs.writeFileSync(outputPath, JSON.stringify(cohortTree, null, 2));
+
+  console.log(`Merkle root: ${cohortTree.merkleRoot}`);
+  console.log(`Proofs written to: ${outputPath}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
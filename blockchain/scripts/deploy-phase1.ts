@@ -41,6 +41,184 @@ async function main() {
   const credentialVerificationModuleAddress = await credentialVerificationModule.getAddress();
   console.log(`CredentialVerificationModule deployed to: ${credentialVerificationModuleAddress}`);
 
+  // Deploy CredentialSchemaModule (depends on RoleModule)
+  console.log("Deploying CredentialSchemaModule...");
+  const CredentialSchemaModule = await ethers.getContractFactory("CredentialSchemaModule");
+  const credentialSchemaModule = await CredentialSchemaModule.deploy(roleModuleAddress as unknown as string);
+  await credentialSchemaModule.waitForDeployment();
+  const credentialSchemaModuleAddress = await credentialSchemaModule.getAddress();
+  console.log(`CredentialSchemaModule deployed to: ${credentialSchemaModuleAddress}`);
+
+  // Deploy CohortCredentialModule (depends on RoleModule and CredentialVerificationModule)
+  console.log("Deploying CohortCredentialModule...");
+  const CohortCredentialModule = await ethers.getContractFactory("CohortCredentialModule");
+  const cohortCredentialModule = await CohortCredentialModule.deploy(
+    roleModuleAddress as unknown as string,
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await cohortCredentialModule.waitForDeployment();
+  const cohortCredentialModuleAddress = await cohortCredentialModule.getAddress();
+  console.log(`CohortCredentialModule deployed to: ${cohortCredentialModuleAddress}`);
+
+  // Deploy CredentialEndorsementModule (depends on RoleModule and CredentialVerificationModule)
+  console.log("Deploying CredentialEndorsementModule...");
+  const CredentialEndorsementModule = await ethers.getContractFactory("CredentialEndorsementModule");
+  const credentialEndorsementModule = await CredentialEndorsementModule.deploy(
+    roleModuleAddress as unknown as string,
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await credentialEndorsementModule.waitForDeployment();
+  const credentialEndorsementModuleAddress = await credentialEndorsementModule.getAddress();
+  console.log(`CredentialEndorsementModule deployed to: ${credentialEndorsementModuleAddress}`);
+
+  // Deploy CredentialQueryModule (depends on CredentialVerificationModule)
+  console.log("Deploying CredentialQueryModule...");
+  const CredentialQueryModule = await ethers.getContractFactory("CredentialQueryModule");
+  const credentialQueryModule = await CredentialQueryModule.deploy(
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await credentialQueryModule.waitForDeployment();
+  const credentialQueryModuleAddress = await credentialQueryModule.getAddress();
+  console.log(`CredentialQueryModule deployed to: ${credentialQueryModuleAddress}`);
+
+  // Deploy CredentialClaimsModule (depends on CredentialVerificationModule)
+  console.log("Deploying CredentialClaimsModule...");
+  const CredentialClaimsModule = await ethers.getContractFactory("CredentialClaimsModule");
+  const credentialClaimsModule = await CredentialClaimsModule.deploy(
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await credentialClaimsModule.waitForDeployment();
+  const credentialClaimsModuleAddress = await credentialClaimsModule.getAddress();
+  console.log(`CredentialClaimsModule deployed to: ${credentialClaimsModuleAddress}`);
+
+  // Deploy IssuerAccreditationModule (depends on RoleModule)
+  console.log("Deploying IssuerAccreditationModule...");
+  const IssuerAccreditationModule = await ethers.getContractFactory("IssuerAccreditationModule");
+  const issuerAccreditationModule = await IssuerAccreditationModule.deploy(
+    roleModuleAddress as unknown as string
+  );
+  await issuerAccreditationModule.waitForDeployment();
+  const issuerAccreditationModuleAddress = await issuerAccreditationModule.getAddress();
+  console.log(`IssuerAccreditationModule deployed to: ${issuerAccreditationModuleAddress}`);
+
+  // Deploy CredentialStatusListModule (depends on CredentialVerificationModule)
+  console.log("Deploying CredentialStatusListModule...");
+  const CredentialStatusListModule = await ethers.getContractFactory("CredentialStatusListModule");
+  const credentialStatusListModule = await CredentialStatusListModule.deploy(
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await credentialStatusListModule.waitForDeployment();
+  const credentialStatusListModuleAddress = await credentialStatusListModule.getAddress();
+  console.log(`CredentialStatusListModule deployed to: ${credentialStatusListModuleAddress}`);
+
+  // Deploy WalletMigrationModule (depends on UserProfileModule and CredentialVerificationModule)
+  console.log("Deploying WalletMigrationModule...");
+  const WalletMigrationModule = await ethers.getContractFactory("WalletMigrationModule");
+  const walletMigrationModule = await WalletMigrationModule.deploy(
+    userProfileModuleAddress as unknown as string,
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await walletMigrationModule.waitForDeployment();
+  const walletMigrationModuleAddress = await walletMigrationModule.getAddress();
+  console.log(`WalletMigrationModule deployed to: ${walletMigrationModuleAddress}`);
+
+  // Deploy IssuerDirectoryModule (depends on UserProfileModule and CredentialVerificationModule)
+  console.log("Deploying IssuerDirectoryModule...");
+  const IssuerDirectoryModule = await ethers.getContractFactory("IssuerDirectoryModule");
+  const issuerDirectoryModule = await IssuerDirectoryModule.deploy(
+    userProfileModuleAddress as unknown as string,
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await issuerDirectoryModule.waitForDeployment();
+  const issuerDirectoryModuleAddress = await issuerDirectoryModule.getAddress();
+  console.log(`IssuerDirectoryModule deployed to: ${issuerDirectoryModuleAddress}`);
+
+  // Deploy CredentialDisputeModule (depends on CredentialVerificationModule)
+  console.log("Deploying CredentialDisputeModule...");
+  const CredentialDisputeModule = await ethers.getContractFactory("CredentialDisputeModule");
+  const credentialDisputeModule = await CredentialDisputeModule.deploy(
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await credentialDisputeModule.waitForDeployment();
+  const credentialDisputeModuleAddress = await credentialDisputeModule.getAddress();
+  console.log(`CredentialDisputeModule deployed to: ${credentialDisputeModuleAddress}`);
+
+  // Deploy CredentialTokenModule (depends on CredentialVerificationModule)
+  console.log("Deploying CredentialTokenModule...");
+  const CredentialTokenModule = await ethers.getContractFactory("CredentialTokenModule");
+  const credentialTokenModule = await CredentialTokenModule.deploy(
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await credentialTokenModule.waitForDeployment();
+  const credentialTokenModuleAddress = await credentialTokenModule.getAddress();
+  console.log(`CredentialTokenModule deployed to: ${credentialTokenModuleAddress}`);
+
+  // Deploy SkillRegistryModule (depends on UserProfileModule and CredentialVerificationModule)
+  console.log("Deploying SkillRegistryModule...");
+  const SkillRegistryModule = await ethers.getContractFactory("SkillRegistryModule");
+  const skillRegistryModule = await SkillRegistryModule.deploy(
+    userProfileModuleAddress as unknown as string,
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await skillRegistryModule.waitForDeployment();
+  const skillRegistryModuleAddress = await skillRegistryModule.getAddress();
+  console.log(`SkillRegistryModule deployed to: ${skillRegistryModuleAddress}`);
+
+  // Deploy OrganizationModule (depends on RoleModule and CredentialVerificationModule)
+  console.log("Deploying OrganizationModule...");
+  const OrganizationModule = await ethers.getContractFactory("OrganizationModule");
+  const organizationModule = await OrganizationModule.deploy(
+    roleModuleAddress as unknown as string,
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await organizationModule.waitForDeployment();
+  const organizationModuleAddress = await organizationModule.getAddress();
+  console.log(`OrganizationModule deployed to: ${organizationModuleAddress}`);
+
+  // Deploy PeerEndorsementModule (depends on UserProfileModule and SkillRegistryModule)
+  console.log("Deploying PeerEndorsementModule...");
+  const PeerEndorsementModule = await ethers.getContractFactory("PeerEndorsementModule");
+  const peerEndorsementModule = await PeerEndorsementModule.deploy(
+    userProfileModuleAddress as unknown as string,
+    skillRegistryModuleAddress as unknown as string
+  );
+  await peerEndorsementModule.waitForDeployment();
+  const peerEndorsementModuleAddress = await peerEndorsementModule.getAddress();
+  console.log(`PeerEndorsementModule deployed to: ${peerEndorsementModuleAddress}`);
+
+  // Deploy OpportunityModule (depends on RoleModule, UserProfileModule, CredentialVerificationModule and OrganizationModule)
+  console.log("Deploying OpportunityModule...");
+  const OpportunityModule = await ethers.getContractFactory("OpportunityModule");
+  const opportunityModule = await OpportunityModule.deploy(
+    roleModuleAddress as unknown as string,
+    userProfileModuleAddress as unknown as string,
+    credentialVerificationModuleAddress as unknown as string,
+    organizationModuleAddress as unknown as string
+  );
+  await opportunityModule.waitForDeployment();
+  const opportunityModuleAddress = await opportunityModule.getAddress();
+  console.log(`OpportunityModule deployed to: ${opportunityModuleAddress}`);
+
+  // Deploy RequirementSetModule (depends on CredentialVerificationModule)
+  console.log("Deploying RequirementSetModule...");
+  const RequirementSetModule = await ethers.getContractFactory("RequirementSetModule");
+  const requirementSetModule = await RequirementSetModule.deploy(
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await requirementSetModule.waitForDeployment();
+  const requirementSetModuleAddress = await requirementSetModule.getAddress();
+  console.log(`RequirementSetModule deployed to: ${requirementSetModuleAddress}`);
+
+  // Deploy CredentialSigningModule (depends on CredentialVerificationModule)
+  console.log("Deploying CredentialSigningModule...");
+  const CredentialSigningModule = await ethers.getContractFactory("CredentialSigningModule");
+  const credentialSigningModule = await CredentialSigningModule.deploy(
+    credentialVerificationModuleAddress as unknown as string
+  );
+  await credentialSigningModule.waitForDeployment();
+  const credentialSigningModuleAddress = await credentialSigningModule.getAddress();
+  console.log(`CredentialSigningModule deployed to: ${credentialSigningModuleAddress}`);
+
   // Setup initial configuration
   console.log("Setting up initial configuration...");
 
@@ -51,6 +229,48 @@ async function main() {
   await roleModule.grantRole(ADMIN_ROLE, userProfileModuleAddress);
   await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModuleAddress);
   
+  // Link the schema registry to the credential module
+  await credentialVerificationModule.grantRole(ADMIN_ROLE, deployer.address);
+  await credentialVerificationModule.setSchemaModule(credentialSchemaModuleAddress);
+  
+  // Allow companion modules to issue credentials and record verification history
+  const CREDENTIAL_MODULE_ROLE = await credentialVerificationModule.CREDENTIAL_MODULE_ROLE();
+  await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, cohortCredentialModuleAddress);
+  await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, credentialEndorsementModuleAddress);
+  await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, credentialClaimsModuleAddress);
+  
+  // Scoped issuance is enforced only once issuers are accredited and
+  // setAccreditationModule is called on the credential module
+  await issuerAccreditationModule.grantRole(ADMIN_ROLE, deployer.address);
+  
+  // Mirror credential statuses into per-issuer status lists
+  await credentialVerificationModule.setStatusListModule(credentialStatusListModuleAddress);
+  
+  // Allow wallet migrations to move profiles and credential subjects
+  const PROFILE_MODULE_ROLE = await userProfileModule.PROFILE_MODULE_ROLE();
+  await userProfileModule.grantRole(PROFILE_MODULE_ROLE, walletMigrationModuleAddress);
+  await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, walletMigrationModuleAddress);
+  await walletMigrationModule.grantRole(ADMIN_ROLE, deployer.address);
+  await issuerDirectoryModule.grantRole(ADMIN_ROLE, deployer.address);
+  
+  // Allow dispute resolutions to restore credentials; arbitrators are granted separately
+  await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, credentialDisputeModuleAddress);
+  await credentialDisputeModule.grantRole(ADMIN_ROLE, deployer.address);
+  
+  // Mint soulbound tokens for verified credentials
+  await credentialVerificationModule.setTokenModule(credentialTokenModuleAddress);
+  
+  // Skill tags are curated by the admin
+  await skillRegistryModule.grantRole(ADMIN_ROLE, deployer.address);
+  
+  // Allow organization members to issue and verify on behalf of their organization
+  await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, organizationModuleAddress);
+  await organizationModule.grantRole(ADMIN_ROLE, deployer.address);
+  
+  await requirementSetModule.grantRole(ADMIN_ROLE, deployer.address);
+  
+  await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, credentialSigningModuleAddress);
+  
   console.log("Initial configuration completed!");
   
   // Log all deployment addresses for reference
@@ -60,6 +280,23 @@ async function main() {
   console.log(`UserProfileModule: ${userProfileModuleAddress}`);
   console.log(`StorageModule: ${storageModuleAddress}`);
   console.log(`CredentialVerificationModule: ${credentialVerificationModuleAddress}`);
+  console.log(`CredentialSchemaModule: ${credentialSchemaModuleAddress}`);
+  console.log(`CohortCredentialModule: ${cohortCredentialModuleAddress}`);
+  console.log(`CredentialEndorsementModule: ${credentialEndorsementModuleAddress}`);
+  console.log(`CredentialQueryModule: ${credentialQueryModuleAddress}`);
+  console.log(`CredentialClaimsModule: ${credentialClaimsModuleAddress}`);
+  console.log(`IssuerAccreditationModule: ${issuerAccreditationModuleAddress}`);
+  console.log(`CredentialStatusListModule: ${credentialStatusListModuleAddress}`);
+  console.log(`WalletMigrationModule: ${walletMigrationModuleAddress}`);
+  console.log(`IssuerDirectoryModule: ${issuerDirectoryModuleAddress}`);
+  console.log(`CredentialDisputeModule: ${credentialDisputeModuleAddress}`);
+  console.log(`CredentialTokenModule: ${credentialTokenModuleAddress}`);
+  console.log(`SkillRegistryModule: ${skillRegistryModuleAddress}`);
+  console.log(`OrganizationModule: ${organizationModuleAddress}`);
+  console.log(`PeerEndorsementModule: ${peerEndorsementModuleAddress}`);
+  console.log(`OpportunityModule: ${opportunityModuleAddress}`);
+  console.log(`RequirementSetModule: ${requirementSetModuleAddress}`);
+  console.log(`CredentialSigningModule: ${credentialSigningModuleAddress}`);
 
   // Optional: Verify contracts on Etherscan/block explorer
   if (process.env.VERIFY_CONTRACTS === 'true') {
@@ -79,6 +316,57 @@ async function main() {
     // Verify CredentialVerificationModule
     await verify(credentialVerificationModuleAddress, [roleModuleAddress, userProfileModuleAddress]);
     
+    // Verify CredentialSchemaModule
+    await verify(credentialSchemaModuleAddress, [roleModuleAddress]);
+    
+    // Verify CohortCredentialModule
+    await verify(cohortCredentialModuleAddress, [roleModuleAddress, credentialVerificationModuleAddress]);
+    
+    // Verify CredentialEndorsementModule
+    await verify(credentialEndorsementModuleAddress, [roleModuleAddress, credentialVerificationModuleAddress]);
+    
+    // Verify CredentialQueryModule
+    await verify(credentialQueryModuleAddress, [credentialVerificationModuleAddress]);
+    
+    // Verify CredentialClaimsModule
+    await verify(credentialClaimsModuleAddress, [credentialVerificationModuleAddress]);
+    
+    // Verify IssuerAccreditationModule
+    await verify(issuerAccreditationModuleAddress, [roleModuleAddress]);
+    
+    // Verify CredentialStatusListModule
+    await verify(credentialStatusListModuleAddress, [credentialVerificationModuleAddress]);
+    
+    // Verify WalletMigrationModule
+    await verify(walletMigrationModuleAddress, [userProfileModuleAddress, credentialVerificationModuleAddress]);
+    
+    // Verify IssuerDirectoryModule
+    await verify(issuerDirectoryModuleAddress, [userProfileModuleAddress, credentialVerificationModuleAddress]);
+    
+    // Verify CredentialDisputeModule
+    await verify(credentialDisputeModuleAddress, [credentialVerificationModuleAddress]);
+    
+    // Verify CredentialTokenModule
+    await verify(credentialTokenModuleAddress, [credentialVerificationModuleAddress]);
+    
+    // Verify SkillRegistryModule
+    await verify(skillRegistryModuleAddress, [userProfileModuleAddress, credentialVerificationModuleAddress]);
+    
+    // Verify OrganizationModule
+    await verify(organizationModuleAddress, [roleModuleAddress, credentialVerificationModuleAddress]);
+    
+    // Verify PeerEndorsementModule
+    await verify(peerEndorsementModuleAddress, [userProfileModuleAddress, skillRegistryModuleAddress]);
+    
+    // Verify OpportunityModule
+    await verify(opportunityModuleAddress, [roleModuleAddress, userProfileModuleAddress, credentialVerificationModuleAddress, organizationModuleAddress]);
+    
+    // Verify RequirementSetModule
+    await verify(requirementSetModuleAddress, [credentialVerificationModuleAddress]);
+    
+    // Verify CredentialSigningModule
+    await verify(credentialSigningModuleAddress, [credentialVerificationModuleAddress]);
+    
     console.log("Contract verification completed!");
   }
 }
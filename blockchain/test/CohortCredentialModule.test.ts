@@ -0,0 +1,263 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CohortCredentialModule } from "../typechain-types";
+import { buildCohortTree, cohortLeaf, parseAddressCsv } from "../utils/cohortTree";
+import { MerkleTree } from "../utils/merkleTree";
+import { emailArgs, findEvent } from "./helpers";
+
+describe("CohortCredentialModule", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0,
+    CERTIFICATION: 1
+  };
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployCohortCredentialModuleFixture() {
+    const [admin, issuer, graduate1, graduate2, graduate3, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy CohortCredentialModule
+    const CohortCredentialModuleFactory = await hre.ethers.getContractFactory("CohortCredentialModule");
+    const cohortCredentialModule = await CohortCredentialModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    const CREDENTIAL_MODULE_ROLE = await credentialVerificationModule.CREDENTIAL_MODULE_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Allow the cohort module to issue claimed credentials
+    await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, cohortCredentialModule.target);
+    
+    // Register the issuer
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    
+    // Create graduate profiles
+    const graduates = [graduate1, graduate2, graduate3];
+    for (const [index, graduate] of graduates.entries()) {
+      await userProfileModule.connect(graduate).createProfile(`Graduate ${index}`, "Bootcamp graduate", ...emailArgs(`grad${index}@example.com`), "avatar", "");
+    }
+    await userProfileModule.connect(outsider).createProfile("Outsider", "Not a graduate", ...emailArgs("outsider@example.com"), "avatar", "");
+    
+    const cohortTree = buildCohortTree(graduates.map(graduate => graduate.address));
+    
+    return {
+      cohortCredentialModule,
+      credentialVerificationModule,
+      roleModule,
+      admin,
+      issuer,
+      graduate1,
+      graduate2,
+      graduate3,
+      outsider,
+      cohortTree,
+      CREDENTIAL_MODULE_ROLE
+    };
+  }
+  
+  async function publishCohort(
+    cohortCredentialModule: CohortCredentialModule,
+    issuer: HardhatEthersSigner,
+    merkleRoot: string
+  ) {
+    const tx = await cohortCredentialModule.connect(issuer).publishCohort(
+      "Full-Stack Bootcamp",
+      "Completed the 12-week full-stack program",
+      "ipfs://QmCohort",
+      CredentialType.CERTIFICATION,
+      0,
+      true,
+      merkleRoot
+    );
+    const event = await findEvent(tx, cohortCredentialModule, "CohortPublished");
+    return event.args[0];
+  }
+  
+  describe("Cohort Tree Tool", function () {
+    it("Should parse addresses from CSV with a header row", async function () {
+      const [, , graduate1, graduate2] = await hre.ethers.getSigners();
+      
+      const csv = `address,name\n${graduate1.address.toLowerCase()},Alice\n\n${graduate2.address},Bob\n${graduate2.address},Bob\n`;
+      
+      expect(parseAddressCsv(csv)).to.deep.equal([graduate1.address, graduate2.address]);
+    });
+    
+    it("Should reject invalid addresses in CSV", async function () {
+      expect(() => parseAddressCsv("address\n0x1234\n")).to.throw("Invalid address on line 2");
+    });
+    
+    it("Should emit a verifiable proof for every member", async function () {
+      const signers = await hre.ethers.getSigners();
+      const members = signers.slice(0, 7).map(signer => signer.address);
+      
+      const { merkleRoot, proofs } = buildCohortTree(members);
+      
+      for (const member of members) {
+        expect(MerkleTree.verify(cohortLeaf(member), proofs[member], merkleRoot)).to.be.true;
+      }
+      expect(MerkleTree.verify(cohortLeaf(signers[8].address), proofs[members[0]], merkleRoot)).to.be.false;
+    });
+    
+    it("Should compute the same leaf as the contract", async function () {
+      const { cohortCredentialModule, graduate1 } = await loadFixture(deployCohortCredentialModuleFixture);
+      
+      expect(await cohortCredentialModule.leafFor(graduate1.address)).to.equal(cohortLeaf(graduate1.address));
+    });
+  });
+  
+  describe("Cohort Publication", function () {
+    it("Should allow an issuer to publish a cohort", async function () {
+      const { cohortCredentialModule, issuer, cohortTree } = await loadFixture(deployCohortCredentialModuleFixture);
+      
+      const id = await publishCohort(cohortCredentialModule, issuer, cohortTree.merkleRoot);
+      
+      const cohort = await cohortCredentialModule.getCohort(id);
+      expect(cohort.issuer).to.equal(issuer.address);
+      expect(cohort.merkleRoot).to.equal(cohortTree.merkleRoot);
+      expect(cohort.credentialType).to.equal(CredentialType.CERTIFICATION);
+      expect(cohort.claimCount).to.equal(0);
+      expect(cohort.active).to.be.true;
+      expect(await cohortCredentialModule.getIssuerCohorts(issuer.address)).to.deep.equal([id]);
+    });
+    
+    it("Should prevent non-issuers from publishing cohorts", async function () {
+      const { cohortCredentialModule, outsider, cohortTree } = await loadFixture(deployCohortCredentialModuleFixture);
+      
+      await expect(
+        publishCohort(cohortCredentialModule, outsider, cohortTree.merkleRoot)
+      ).to.be.revertedWith("CohortCredential: caller is not an issuer");
+    });
+  });
+  
+  describe("Credential Claims", function () {
+    it("Should create a regular credential when a graduate claims", async function () {
+      const { cohortCredentialModule, credentialVerificationModule, issuer, graduate1, cohortTree } =
+        await loadFixture(deployCohortCredentialModuleFixture);
+      
+      const cohortId = await publishCohort(cohortCredentialModule, issuer, cohortTree.merkleRoot);
+      
+      const tx = await cohortCredentialModule.connect(graduate1).claimCredential(cohortId, cohortTree.proofs[graduate1.address]);
+      const event = await findEvent(tx, cohortCredentialModule, "CohortCredentialClaimed");
+      const credentialId = event.args[2];
+      
+      await expect(tx).to.emit(credentialVerificationModule, "CredentialIssued")
+        .withArgs(credentialId, graduate1.address, issuer.address, CredentialType.CERTIFICATION);
+      
+      const credential = await credentialVerificationModule.getCredential(credentialId);
+      expect(credential.subject).to.equal(graduate1.address);
+      expect(credential.issuer).to.equal(issuer.address);
+      expect(credential.name).to.equal("Full-Stack Bootcamp");
+      expect(credential.evidenceHash).to.equal(cohortTree.merkleRoot);
+      
+      expect(await credentialVerificationModule.getSubjectCredentials(graduate1.address)).to.deep.equal([credentialId]);
+      expect(await credentialVerificationModule.getIssuerCredentials(issuer.address)).to.deep.equal([credentialId]);
+      expect(await cohortCredentialModule.getClaimedCredential(cohortId, graduate1.address)).to.equal(credentialId);
+      expect((await cohortCredentialModule.getCohort(cohortId)).claimCount).to.equal(1);
+    });
+    
+    it("Should prevent claiming twice", async function () {
+      const { cohortCredentialModule, issuer, graduate2, cohortTree } = await loadFixture(deployCohortCredentialModuleFixture);
+      
+      const cohortId = await publishCohort(cohortCredentialModule, issuer, cohortTree.merkleRoot);
+      await cohortCredentialModule.connect(graduate2).claimCredential(cohortId, cohortTree.proofs[graduate2.address]);
+      
+      expect(await cohortCredentialModule.hasClaimed(cohortId, graduate2.address)).to.be.true;
+      await expect(
+        cohortCredentialModule.connect(graduate2).claimCredential(cohortId, cohortTree.proofs[graduate2.address])
+      ).to.be.revertedWith("CohortCredential: credential already claimed");
+    });
+    
+    it("Should reject a proof for someone outside the cohort", async function () {
+      const { cohortCredentialModule, issuer, graduate1, outsider, cohortTree } =
+        await loadFixture(deployCohortCredentialModuleFixture);
+      
+      const cohortId = await publishCohort(cohortCredentialModule, issuer, cohortTree.merkleRoot);
+      
+      await expect(
+        cohortCredentialModule.connect(outsider).claimCredential(cohortId, cohortTree.proofs[graduate1.address])
+      ).to.be.revertedWith("CohortCredential: invalid proof");
+    });
+    
+    it("Should reject a graduate's claim with another graduate's proof", async function () {
+      const { cohortCredentialModule, issuer, graduate1, graduate3, cohortTree } =
+        await loadFixture(deployCohortCredentialModuleFixture);
+      
+      const cohortId = await publishCohort(cohortCredentialModule, issuer, cohortTree.merkleRoot);
+      
+      await expect(
+        cohortCredentialModule.connect(graduate3).claimCredential(cohortId, cohortTree.proofs[graduate1.address])
+      ).to.be.revertedWith("CohortCredential: invalid proof");
+    });
+    
+    it("Should reject claims once the cohort is closed", async function () {
+      const { cohortCredentialModule, issuer, graduate1, cohortTree } = await loadFixture(deployCohortCredentialModuleFixture);
+      
+      const cohortId = await publishCohort(cohortCredentialModule, issuer, cohortTree.merkleRoot);
+      await expect(cohortCredentialModule.connect(issuer).closeCohort(cohortId))
+        .to.emit(cohortCredentialModule, "CohortClosed")
+        .withArgs(cohortId);
+      
+      await expect(
+        cohortCredentialModule.connect(graduate1).claimCredential(cohortId, cohortTree.proofs[graduate1.address])
+      ).to.be.revertedWith("CohortCredential: cohort is closed");
+    });
+    
+    it("Should reject claims when the issuer has lost ISSUER_ROLE", async function () {
+      const { cohortCredentialModule, credentialVerificationModule, admin, issuer, graduate1, cohortTree } =
+        await loadFixture(deployCohortCredentialModuleFixture);
+      
+      const cohortId = await publishCohort(cohortCredentialModule, issuer, cohortTree.merkleRoot);
+      await credentialVerificationModule.connect(admin).removeIssuer(issuer.address);
+      
+      await expect(
+        cohortCredentialModule.connect(graduate1).claimCredential(cohortId, cohortTree.proofs[graduate1.address])
+      ).to.be.revertedWith("CredentialVerification: caller is not an issuer");
+    });
+    
+    it("Should only let credential modules issue on behalf of issuers", async function () {
+      const { credentialVerificationModule, issuer, outsider } = await loadFixture(deployCohortCredentialModuleFixture);
+      
+      await expect(
+        credentialVerificationModule.connect(outsider).issueCredentialFromModule(issuer.address, {
+          subject: outsider.address,
+          name: "Forged",
+          description: "",
+          metadataURI: "",
+          credentialType: CredentialType.CERTIFICATION,
+          expirationDate: 0,
+          evidenceHash: hre.ethers.ZeroHash,
+          revocable: true,
+          schemaId: hre.ethers.ZeroHash
+        })
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CredentialClaimsModule } from "../typechain-types";
+import {
+  buildClaimTree,
+  createDisclosure,
+  verifyDisclosure,
+  verifyDisclosureOnChain,
+} from "../utils/claimDisclosure";
+import { emailArgs, findEvent, issueCredential } from "./helpers";
+
+describe("CredentialClaimsModule", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0,
+    CERTIFICATION: 1
+  };
+  
+  const DEGREE_CLAIMS = {
+    degree: "Bachelor of Science",
+    major: "Computer Science",
+    gpa: "3.4",
+    studentNumber: "S1234567"
+  };
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployCredentialClaimsModuleFixture() {
+    const [admin, issuer, talent, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy CredentialClaimsModule
+    const CredentialClaimsModuleFactory = await hre.ethers.getContractFactory("CredentialClaimsModule");
+    const credentialClaimsModule = await CredentialClaimsModuleFactory.deploy(
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    const CREDENTIAL_MODULE_ROLE = await credentialVerificationModule.CREDENTIAL_MODULE_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Allow the claims module to issue credentials that commit to claims
+    await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, credentialClaimsModule.target);
+    
+    // Register the issuer
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    
+    // Create the subject profile
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "");
+    
+    return {
+      credentialClaimsModule,
+      credentialVerificationModule,
+      admin,
+      issuer,
+      talent,
+      outsider
+    };
+  }
+  
+  function buildRequest(subject: string, evidenceHash: string) {
+    return {
+      subject,
+      name: "Bachelor of Science",
+      description: "Computer Science",
+      metadataURI: "ipfs://QmHash",
+      credentialType: CredentialType.EDUCATION,
+      expirationDate: 0,
+      evidenceHash,
+      revocable: true,
+      schemaId: hre.ethers.ZeroHash
+    };
+  }
+  
+  async function issueWithClaims(
+    credentialClaimsModule: CredentialClaimsModule,
+    issuer: HardhatEthersSigner,
+    subject: string,
+    claimsRoot: string
+  ) {
+    const tx = await credentialClaimsModule.connect(issuer).issueCredentialWithClaims(
+      buildRequest(subject, hre.ethers.keccak256(hre.ethers.toUtf8Bytes("evidence"))),
+      claimsRoot
+    );
+    const event = await findEvent(tx, credentialClaimsModule, "ClaimsRootSet");
+    return event.args[0];
+  }
+  
+  describe("Claim Trees", function () {
+    it("Should verify disclosed claims off-chain", async function () {
+      const claimTree = buildClaimTree(DEGREE_CLAIMS);
+      const disclosure = createDisclosure(hre.ethers.ZeroHash, claimTree, ["degree", "major"]);
+      
+      expect(disclosure.claims.map(claim => claim.key)).to.deep.equal(["degree", "major"]);
+      expect(verifyDisclosure(disclosure)).to.be.true;
+    });
+    
+    it("Should reject tampered claim values and salts off-chain", async function () {
+      const claimTree = buildClaimTree(DEGREE_CLAIMS);
+      
+      const tamperedValue = createDisclosure(hre.ethers.ZeroHash, claimTree, ["gpa"]);
+      tamperedValue.claims[0].value = "4.0";
+      expect(verifyDisclosure(tamperedValue)).to.be.false;
+      
+      const tamperedSalt = createDisclosure(hre.ethers.ZeroHash, claimTree, ["gpa"]);
+      tamperedSalt.claims[0].salt = hre.ethers.ZeroHash;
+      expect(verifyDisclosure(tamperedSalt)).to.be.false;
+    });
+    
+    it("Should rebuild the same root from the same salts", async function () {
+      const claimTree = buildClaimTree(DEGREE_CLAIMS);
+      const salts = Object.fromEntries(claimTree.claims.map(claim => [claim.key, claim.salt]));
+      
+      expect(buildClaimTree(DEGREE_CLAIMS, salts).claimsRoot).to.equal(claimTree.claimsRoot);
+      expect(buildClaimTree(DEGREE_CLAIMS).claimsRoot).to.not.equal(claimTree.claimsRoot);
+    });
+  });
+  
+  describe("On-chain Verification", function () {
+    it("Should issue a credential with a claims root alongside its evidence", async function () {
+      const { credentialClaimsModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialClaimsModuleFixture);
+      
+      const claimTree = buildClaimTree(DEGREE_CLAIMS);
+      const id = await issueWithClaims(credentialClaimsModule, issuer, talent.address, claimTree.claimsRoot);
+      
+      const credential = await credentialVerificationModule.getCredential(id);
+      expect(credential.issuer).to.equal(issuer.address);
+      expect(credential.evidenceHash).to.equal(hre.ethers.keccak256(hre.ethers.toUtf8Bytes("evidence")));
+      expect(await credentialClaimsModule.hasClaimsRoot(id)).to.be.true;
+      expect(await credentialClaimsModule.getClaimsRoot(id)).to.equal(claimTree.claimsRoot);
+    });
+    
+    it("Should verify a disclosed claim against the stored root", async function () {
+      const { credentialClaimsModule, issuer, talent } = await loadFixture(deployCredentialClaimsModuleFixture);
+      
+      const claimTree = buildClaimTree(DEGREE_CLAIMS);
+      const id = await issueWithClaims(credentialClaimsModule, issuer, talent.address, claimTree.claimsRoot);
+      const disclosure = createDisclosure(id, claimTree, ["degree"]);
+      const [claim] = disclosure.claims;
+      
+      expect(await credentialClaimsModule.verifyClaim(id, claim.key, claim.value, claim.salt, claim.proof)).to.be.true;
+      expect(await verifyDisclosureOnChain(disclosure, credentialClaimsModule)).to.be.true;
+    });
+    
+    it("Should reject tampered claims on-chain", async function () {
+      const { credentialClaimsModule, issuer, talent } = await loadFixture(deployCredentialClaimsModuleFixture);
+      
+      const claimTree = buildClaimTree(DEGREE_CLAIMS);
+      const id = await issueWithClaims(credentialClaimsModule, issuer, talent.address, claimTree.claimsRoot);
+      const [claim] = createDisclosure(id, claimTree, ["gpa"]).claims;
+      
+      expect(await credentialClaimsModule.verifyClaim(id, claim.key, "4.0", claim.salt, claim.proof)).to.be.false;
+      expect(await credentialClaimsModule.verifyClaim(id, "major", claim.value, claim.salt, claim.proof)).to.be.false;
+      expect(await credentialClaimsModule.verifyClaim(id, claim.key, claim.value, hre.ethers.ZeroHash, claim.proof)).to.be.false;
+    });
+    
+    it("Should verify claims committed in place of the evidence hash", async function () {
+      const { credentialClaimsModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialClaimsModuleFixture);
+      
+      const claimTree = buildClaimTree(DEGREE_CLAIMS);
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address, {
+        name: "Bachelor of Science",
+        description: "Computer Science",
+        credentialType: CredentialType.EDUCATION,
+        evidenceHash: claimTree.claimsRoot
+      });
+      
+      expect(await credentialClaimsModule.hasClaimsRoot(id)).to.be.false;
+      expect(await verifyDisclosureOnChain(createDisclosure(id, claimTree, ["major"]), credentialClaimsModule)).to.be.true;
+    });
+    
+    it("Should let the issuer attach a claims root once", async function () {
+      const { credentialClaimsModule, credentialVerificationModule, issuer, talent, outsider } =
+        await loadFixture(deployCredentialClaimsModuleFixture);
+      
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address, {
+        name: "Bachelor of Science",
+        description: "Computer Science",
+        credentialType: CredentialType.EDUCATION
+      });
+      const claimTree = buildClaimTree(DEGREE_CLAIMS);
+      
+      await expect(
+        credentialClaimsModule.connect(outsider).setClaimsRoot(id, claimTree.claimsRoot)
+      ).to.be.revertedWith("CredentialClaims: caller is not the credential issuer");
+      
+      await expect(credentialClaimsModule.connect(issuer).setClaimsRoot(id, claimTree.claimsRoot))
+        .to.emit(credentialClaimsModule, "ClaimsRootSet")
+        .withArgs(id, claimTree.claimsRoot);
+      
+      await expect(
+        credentialClaimsModule.connect(issuer).setClaimsRoot(id, hre.ethers.id("other"))
+      ).to.be.revertedWith("CredentialClaims: claims root already set");
+    });
+    
+    it("Should prevent non-issuers from issuing credentials with claims", async function () {
+      const { credentialClaimsModule, talent, outsider } = await loadFixture(deployCredentialClaimsModuleFixture);
+      
+      await expect(
+        issueWithClaims(credentialClaimsModule, outsider, talent.address, buildClaimTree(DEGREE_CLAIMS).claimsRoot)
+      ).to.be.revertedWith("CredentialVerification: caller is not an issuer");
+    });
+  });
+});
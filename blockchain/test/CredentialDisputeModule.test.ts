@@ -0,0 +1,334 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { emailArgs, issueCredential } from "./helpers";
+
+describe("CredentialDisputeModule", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0,
+    CERTIFICATION: 1
+  };
+  
+  const VerificationStatus = {
+    PENDING: 0,
+    VERIFIED: 1,
+    REJECTED: 2,
+    REVOKED: 3
+  };
+  
+  const RecordType = {
+    VERIFICATION: 0,
+    ENDORSEMENT: 1,
+    RENEWAL: 2,
+    DISPUTE: 3
+  };
+  
+  const DisputeState = {
+    OPEN: 0,
+    UNDER_REVIEW: 1,
+    RESOLVED: 2
+  };
+  
+  const DisputeOutcome = {
+    NONE: 0,
+    UPHELD: 1,
+    RESTORED: 2,
+    WITHDRAWN: 3
+  };
+  
+  const DAY = 24 * 60 * 60;
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployCredentialDisputeModuleFixture() {
+    const [admin, issuer, arbitrator, otherArbitrator, talent, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy CredentialDisputeModule
+    const CredentialDisputeModuleFactory = await hre.ethers.getContractFactory("CredentialDisputeModule");
+    const credentialDisputeModule = await CredentialDisputeModuleFactory.deploy(
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    const CREDENTIAL_MODULE_ROLE = await credentialVerificationModule.CREDENTIAL_MODULE_ROLE();
+    const ARBITRATOR_ROLE = await credentialDisputeModule.ARBITRATOR_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Allow the dispute module to write to the verification history
+    await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, credentialDisputeModule.target);
+    await credentialDisputeModule.grantRole(ADMIN_ROLE, admin.address);
+    await credentialDisputeModule.grantRole(ARBITRATOR_ROLE, arbitrator.address);
+    await credentialDisputeModule.grantRole(ARBITRATOR_ROLE, otherArbitrator.address);
+    
+    // Register the issuer
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    
+    // Create the subject profile
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "");
+    
+    // Issue a verified credential and revoke it
+    const credentialId = await issueCredential(credentialVerificationModule, issuer, talent.address, {
+      name: "Bachelor of Science",
+      description: "Computer Science",
+      credentialType: CredentialType.EDUCATION
+    });
+    
+    await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Verified");
+    await credentialVerificationModule.connect(issuer).revokeCredential(credentialId, "Records mismatch");
+    
+    return {
+      credentialDisputeModule,
+      credentialVerificationModule,
+      credentialId,
+      admin,
+      issuer,
+      arbitrator,
+      otherArbitrator,
+      talent,
+      outsider
+    };
+  }
+  
+  describe("Opening Disputes", function () {
+    it("Should let the subject dispute a revocation", async function () {
+      const { credentialDisputeModule, credentialVerificationModule, credentialId, talent } =
+        await loadFixture(deployCredentialDisputeModuleFixture);
+      
+      await expect(credentialDisputeModule.connect(talent).openDispute(credentialId, "I graduated", "ipfs://QmTranscript"))
+        .to.emit(credentialDisputeModule, "DisputeOpened")
+        .withArgs(1, credentialId, talent.address, "ipfs://QmTranscript");
+      
+      const dispute = await credentialDisputeModule.getDispute(1);
+      expect(dispute.state).to.equal(DisputeState.OPEN);
+      expect(dispute.disputedStatus).to.equal(VerificationStatus.REVOKED);
+      expect(dispute.deadline).to.equal(dispute.openedAt + BigInt(14 * DAY));
+      expect(await credentialDisputeModule.getActiveDispute(credentialId)).to.equal(1);
+      
+      const history = await credentialVerificationModule.getVerificationHistory(credentialId);
+      const record = history[history.length - 1];
+      expect(record.recordType).to.equal(RecordType.DISPUTE);
+      expect(record.verifier).to.equal(talent.address);
+      expect(record.notes).to.equal("I graduated");
+    });
+    
+    it("Should only allow disputes of rejected or revoked credentials by their subject", async function () {
+      const { credentialDisputeModule, credentialVerificationModule, credentialId, issuer, talent, outsider } =
+        await loadFixture(deployCredentialDisputeModuleFixture);
+      
+      await expect(
+        credentialDisputeModule.connect(outsider).openDispute(credentialId, "Not mine", "")
+      ).to.be.revertedWith("CredentialDispute: caller is not the credential subject");
+      
+      await expect(
+        credentialDisputeModule.connect(talent).openDispute(credentialId, "", "")
+      ).to.be.revertedWith("CredentialDispute: reason cannot be empty");
+      
+      const pendingId = await issueCredential(credentialVerificationModule, issuer, talent.address, {
+        description: "Course",
+        evidenceHash: hre.ethers.ZeroHash
+      });
+      
+      await expect(
+        credentialDisputeModule.connect(talent).openDispute(pendingId, "Pending too long", "")
+      ).to.be.revertedWith("CredentialDispute: credential is not rejected or revoked");
+    });
+    
+    it("Should enforce the dispute window and one dispute per decision", async function () {
+      const { credentialDisputeModule, credentialId, arbitrator, talent } = await loadFixture(deployCredentialDisputeModuleFixture);
+      
+      await credentialDisputeModule.connect(talent).openDispute(credentialId, "I graduated", "");
+      await expect(
+        credentialDisputeModule.connect(talent).openDispute(credentialId, "Again", "")
+      ).to.be.revertedWith("CredentialDispute: dispute already open");
+      
+      await credentialDisputeModule.connect(arbitrator).startReview(1);
+      await credentialDisputeModule.connect(arbitrator).resolveDispute(1, false, "Revocation stands");
+      
+      await expect(
+        credentialDisputeModule.connect(talent).openDispute(credentialId, "Again", "")
+      ).to.be.revertedWith("CredentialDispute: decision already disputed");
+    });
+    
+    it("Should reject disputes after the dispute window", async function () {
+      const { credentialDisputeModule, credentialId, talent } = await loadFixture(deployCredentialDisputeModuleFixture);
+      
+      await time.increase(31 * DAY);
+      
+      await expect(
+        credentialDisputeModule.connect(talent).openDispute(credentialId, "I graduated", "")
+      ).to.be.revertedWith("CredentialDispute: dispute window has passed");
+    });
+  });
+  
+  describe("Arbitration", function () {
+    it("Should restore the credential when the dispute succeeds", async function () {
+      const { credentialDisputeModule, credentialVerificationModule, credentialId, arbitrator, talent } =
+        await loadFixture(deployCredentialDisputeModuleFixture);
+      
+      await credentialDisputeModule.connect(talent).openDispute(credentialId, "I graduated", "ipfs://QmTranscript");
+      
+      await expect(credentialDisputeModule.connect(arbitrator).startReview(1))
+        .to.emit(credentialDisputeModule, "DisputeUnderReview");
+      expect((await credentialDisputeModule.getDispute(1)).state).to.equal(DisputeState.UNDER_REVIEW);
+      
+      await expect(credentialDisputeModule.connect(arbitrator).resolveDispute(1, true, "Transcript confirms graduation"))
+        .to.emit(credentialDisputeModule, "DisputeResolved")
+        .withArgs(1, credentialId, arbitrator.address, DisputeOutcome.RESTORED);
+      
+      const credential = await credentialVerificationModule.getCredential(credentialId);
+      expect(credential.status).to.equal(VerificationStatus.VERIFIED);
+      
+      const history = await credentialVerificationModule.getVerificationHistory(credentialId);
+      const record = history[history.length - 1];
+      expect(record.recordType).to.equal(RecordType.VERIFICATION);
+      expect(record.verifier).to.equal(arbitrator.address);
+      expect(record.notes).to.equal("Transcript confirms graduation");
+      
+      const dispute = await credentialDisputeModule.getDispute(1);
+      expect(dispute.state).to.equal(DisputeState.RESOLVED);
+      expect(dispute.outcome).to.equal(DisputeOutcome.RESTORED);
+      expect(await credentialDisputeModule.getActiveDispute(credentialId)).to.equal(0);
+    });
+    
+    it("Should keep the decision when the dispute is upheld", async function () {
+      const { credentialDisputeModule, credentialVerificationModule, credentialId, admin, talent } =
+        await loadFixture(deployCredentialDisputeModuleFixture);
+      
+      await credentialDisputeModule.connect(talent).openDispute(credentialId, "I graduated", "");
+      await credentialDisputeModule.connect(admin).startReview(1);
+      await credentialDisputeModule.connect(admin).resolveDispute(1, false, "No enrolment record");
+      
+      expect((await credentialVerificationModule.getCredential(credentialId)).status).to.equal(VerificationStatus.REVOKED);
+      
+      const history = await credentialVerificationModule.getVerificationHistory(credentialId);
+      const record = history[history.length - 1];
+      expect(record.recordType).to.equal(RecordType.DISPUTE);
+      expect(record.status).to.equal(VerificationStatus.REVOKED);
+      expect(record.notes).to.equal("No enrolment record");
+      expect((await credentialDisputeModule.getDispute(1)).outcome).to.equal(DisputeOutcome.UPHELD);
+    });
+    
+    it("Should only let unconflicted arbitrators review disputes", async function () {
+      const { credentialDisputeModule, credentialVerificationModule, credentialId, admin, issuer, arbitrator, otherArbitrator, talent, outsider } =
+        await loadFixture(deployCredentialDisputeModuleFixture);
+      
+      await credentialDisputeModule.connect(talent).openDispute(credentialId, "I graduated", "");
+      
+      await expect(
+        credentialDisputeModule.connect(outsider).startReview(1)
+      ).to.be.revertedWith("CredentialDispute: caller is not an arbitrator");
+      
+      // The issuer cannot arbitrate its own decision, even as an arbitrator
+      await credentialDisputeModule.connect(admin).grantRole(await credentialDisputeModule.ARBITRATOR_ROLE(), issuer.address);
+      await expect(
+        credentialDisputeModule.connect(issuer).startReview(1)
+      ).to.be.revertedWith("CredentialDispute: arbitrator has a conflict of interest");
+      
+      await expect(
+        credentialDisputeModule.connect(arbitrator).resolveDispute(1, true, "Too early")
+      ).to.be.revertedWith("CredentialDispute: dispute is not under review");
+      
+      await credentialDisputeModule.connect(arbitrator).startReview(1);
+      
+      await expect(
+        credentialDisputeModule.connect(otherArbitrator).resolveDispute(1, true, "Not assigned")
+      ).to.be.revertedWith("CredentialDispute: caller is not the assigned arbitrator");
+      
+      await expect(
+        credentialDisputeModule.connect(otherArbitrator).startReview(1)
+      ).to.be.revertedWith("CredentialDispute: dispute cannot be reviewed");
+      
+      expect((await credentialVerificationModule.getCredential(credentialId)).status).to.equal(VerificationStatus.REVOKED);
+    });
+    
+    it("Should let another arbitrator take over an overdue dispute", async function () {
+      const { credentialDisputeModule, credentialId, arbitrator, otherArbitrator, talent } =
+        await loadFixture(deployCredentialDisputeModuleFixture);
+      
+      await credentialDisputeModule.connect(talent).openDispute(credentialId, "I graduated", "");
+      await credentialDisputeModule.connect(arbitrator).startReview(1);
+      
+      expect(await credentialDisputeModule.isOverdue(1)).to.be.false;
+      await time.increase(15 * DAY);
+      expect(await credentialDisputeModule.isOverdue(1)).to.be.true;
+      
+      await credentialDisputeModule.connect(otherArbitrator).startReview(1);
+      
+      const dispute = await credentialDisputeModule.getDispute(1);
+      expect(dispute.arbitrator).to.equal(otherArbitrator.address);
+      expect(dispute.deadline).to.equal(BigInt(await time.latest()) + BigInt(14 * DAY));
+      expect(await credentialDisputeModule.isOverdue(1)).to.be.false;
+      
+      await expect(
+        credentialDisputeModule.connect(arbitrator).resolveDispute(1, true, "Late")
+      ).to.be.revertedWith("CredentialDispute: caller is not the assigned arbitrator");
+      await credentialDisputeModule.connect(otherArbitrator).resolveDispute(1, true, "Restored");
+    });
+    
+    it("Should let the subject withdraw an unresolved dispute", async function () {
+      const { credentialDisputeModule, credentialVerificationModule, credentialId, talent, outsider } =
+        await loadFixture(deployCredentialDisputeModuleFixture);
+      
+      await credentialDisputeModule.connect(talent).openDispute(credentialId, "I graduated", "");
+      
+      await expect(
+        credentialDisputeModule.connect(outsider).withdrawDispute(1)
+      ).to.be.revertedWith("CredentialDispute: caller is not the dispute subject");
+      
+      await expect(credentialDisputeModule.connect(talent).withdrawDispute(1))
+        .to.emit(credentialDisputeModule, "DisputeResolved")
+        .withArgs(1, credentialId, talent.address, DisputeOutcome.WITHDRAWN);
+      
+      await expect(
+        credentialDisputeModule.connect(talent).withdrawDispute(1)
+      ).to.be.revertedWith("CredentialDispute: dispute already resolved");
+      
+      const history = await credentialVerificationModule.getVerificationHistory(credentialId);
+      expect(history[history.length - 1].notes).to.equal("Dispute withdrawn");
+    });
+    
+    it("Should let admins configure the time limits", async function () {
+      const { credentialDisputeModule, admin, outsider } = await loadFixture(deployCredentialDisputeModuleFixture);
+      
+      await expect(credentialDisputeModule.connect(admin).setDisputeWindow(60 * DAY))
+        .to.emit(credentialDisputeModule, "DisputeWindowUpdated")
+        .withArgs(60 * DAY);
+      await credentialDisputeModule.connect(admin).setResolutionPeriod(7 * DAY);
+      
+      const [disputeWindow, resolutionPeriod] = await credentialDisputeModule.getTimeLimits();
+      expect(disputeWindow).to.equal(60 * DAY);
+      expect(resolutionPeriod).to.equal(7 * DAY);
+      
+      await expect(
+        credentialDisputeModule.connect(outsider).setDisputeWindow(DAY)
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+      await expect(
+        credentialDisputeModule.connect(admin).setResolutionPeriod(0)
+      ).to.be.revertedWith("CredentialDispute: resolution period cannot be zero");
+    });
+  });
+});
@@ -0,0 +1,353 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { emailArgs, issueCredential } from "./helpers";
+
+describe("CredentialEndorsementModule", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0,
+    CERTIFICATION: 1
+  };
+  
+  const VerificationStatus = {
+    PENDING: 0,
+    VERIFIED: 1,
+    REJECTED: 2,
+    REVOKED: 3
+  };
+  
+  const RecordType = {
+    VERIFICATION: 0,
+    ENDORSEMENT: 1
+  };
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployCredentialEndorsementModuleFixture() {
+    const [admin, issuer, talent, endorserIssuer, endorserOrg1, endorserOrg2, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy CredentialEndorsementModule
+    const CredentialEndorsementModuleFactory = await hre.ethers.getContractFactory("CredentialEndorsementModule");
+    const credentialEndorsementModule = await CredentialEndorsementModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    const CREDENTIAL_MODULE_ROLE = await credentialVerificationModule.CREDENTIAL_MODULE_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    await credentialEndorsementModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Allow the endorsement module to record endorsements and verify credentials
+    await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, credentialEndorsementModule.target);
+    
+    // Register the issuers and endorsing organizations
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, endorserIssuer.address);
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, endorserOrg1.address);
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, endorserOrg2.address);
+    await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(endorserIssuer.address);
+    
+    // Create the subject profile
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "");
+    
+    return {
+      credentialEndorsementModule,
+      credentialVerificationModule,
+      roleModule,
+      admin,
+      issuer,
+      talent,
+      endorserIssuer,
+      endorserOrg1,
+      endorserOrg2,
+      outsider
+    };
+  }
+  
+  describe("Endorsements", function () {
+    it("Should allow issuers and organizations to endorse a credential", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, issuer, talent, endorserIssuer, endorserOrg1 } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      
+      await expect(credentialEndorsementModule.connect(endorserIssuer).endorseCredential(id, "Confirmed enrolment"))
+        .to.emit(credentialEndorsementModule, "CredentialEndorsed")
+        .withArgs(id, endorserIssuer.address, 1);
+      await credentialEndorsementModule.connect(endorserOrg1).endorseCredential(id, "Confirmed graduation");
+      
+      expect(await credentialEndorsementModule.getEndorsementCount(id)).to.equal(2);
+      expect(await credentialEndorsementModule.hasEndorsed(id, endorserOrg1.address)).to.be.true;
+      
+      const endorsements = await credentialEndorsementModule.getEndorsements(id);
+      expect(endorsements[0].endorser).to.equal(endorserIssuer.address);
+      expect(endorsements[1].notes).to.equal("Confirmed graduation");
+      
+      // Without a quorum the credential stays pending
+      const credential = await credentialVerificationModule.getCredential(id);
+      expect(credential.status).to.equal(VerificationStatus.PENDING);
+    });
+    
+    it("Should record endorsements in the verification history", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, issuer, talent, endorserOrg1 } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialEndorsementModule.connect(endorserOrg1).endorseCredential(id, "Confirmed graduation");
+      
+      const history = await credentialVerificationModule.getVerificationHistory(id);
+      expect(history.length).to.equal(1);
+      expect(history[0].verifier).to.equal(endorserOrg1.address);
+      expect(history[0].recordType).to.equal(RecordType.ENDORSEMENT);
+      expect(history[0].notes).to.equal("Confirmed graduation");
+    });
+    
+    it("Should prevent accounts without an issuer or organization role from endorsing", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, issuer, talent, outsider } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      
+      await expect(
+        credentialEndorsementModule.connect(outsider).endorseCredential(id, "")
+      ).to.be.revertedWith("CredentialEndorsement: caller is not an issuer or organization");
+    });
+    
+    it("Should prevent the issuer from endorsing their own credential", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      
+      await expect(
+        credentialEndorsementModule.connect(issuer).endorseCredential(id, "")
+      ).to.be.revertedWith("CredentialEndorsement: cannot endorse own credential");
+    });
+    
+    it("Should prevent endorsing the same credential twice", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, issuer, talent, endorserOrg1 } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialEndorsementModule.connect(endorserOrg1).endorseCredential(id, "");
+      
+      await expect(
+        credentialEndorsementModule.connect(endorserOrg1).endorseCredential(id, "")
+      ).to.be.revertedWith("CredentialEndorsement: credential already endorsed");
+    });
+    
+    it("Should prevent endorsing a revoked credential", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, issuer, talent, endorserOrg1 } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialVerificationModule.connect(issuer).revokeCredential(id, "Issued in error");
+      
+      await expect(
+        credentialEndorsementModule.connect(endorserOrg1).endorseCredential(id, "")
+      ).to.be.revertedWith("CredentialEndorsement: credential cannot be endorsed");
+    });
+    
+    it("Should only accept history records from credential modules", async function () {
+      const { credentialVerificationModule, issuer, talent, outsider } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      
+      await expect(
+        credentialVerificationModule.connect(outsider).addVerificationRecordFromModule(
+          id,
+          outsider.address,
+          RecordType.VERIFICATION,
+          VerificationStatus.VERIFIED,
+          ""
+        )
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+    });
+  });
+  
+  describe("Quorum Verification", function () {
+    it("Should verify a credential once its quorum is reached", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, issuer, talent, endorserOrg1, endorserOrg2 } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialEndorsementModule.connect(issuer).setCredentialQuorum(id, 2);
+      
+      await credentialEndorsementModule.connect(endorserOrg1).endorseCredential(id, "");
+      expect((await credentialVerificationModule.getCredential(id)).status).to.equal(VerificationStatus.PENDING);
+      
+      await expect(credentialEndorsementModule.connect(endorserOrg2).endorseCredential(id, ""))
+        .to.emit(credentialEndorsementModule, "QuorumReached")
+        .withArgs(id, 2)
+        .and.to.emit(credentialVerificationModule, "CredentialVerified")
+        .withArgs(id, credentialEndorsementModule.target, VerificationStatus.VERIFIED);
+      
+      expect((await credentialVerificationModule.getCredential(id)).status).to.equal(VerificationStatus.VERIFIED);
+      
+      // Two endorsements followed by the quorum verification
+      const history = await credentialVerificationModule.getVerificationHistory(id);
+      expect(history.length).to.equal(3);
+      expect(history[2].verifier).to.equal(credentialEndorsementModule.target);
+      expect(history[2].recordType).to.equal(RecordType.VERIFICATION);
+      expect(history[2].status).to.equal(VerificationStatus.VERIFIED);
+      expect(history[2].notes).to.equal("Endorsement quorum reached");
+    });
+    
+    it("Should apply the credential type quorum by default", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, admin, issuer, talent, endorserOrg1 } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      await expect(credentialEndorsementModule.connect(admin).setTypeQuorum(CredentialType.CERTIFICATION, 1))
+        .to.emit(credentialEndorsementModule, "TypeQuorumSet")
+        .withArgs(CredentialType.CERTIFICATION, 1);
+      
+      const certification = await issueCredential(credentialVerificationModule, issuer, talent.address, { credentialType: CredentialType.CERTIFICATION });
+      const degree = await issueCredential(credentialVerificationModule, issuer, talent.address, { credentialType: CredentialType.EDUCATION });
+      expect(await credentialEndorsementModule.getEffectiveQuorum(certification)).to.equal(1);
+      expect(await credentialEndorsementModule.getEffectiveQuorum(degree)).to.equal(0);
+      
+      await credentialEndorsementModule.connect(endorserOrg1).endorseCredential(certification, "");
+      await credentialEndorsementModule.connect(endorserOrg1).endorseCredential(degree, "");
+      
+      expect((await credentialVerificationModule.getCredential(certification)).status).to.equal(VerificationStatus.VERIFIED);
+      expect((await credentialVerificationModule.getCredential(degree)).status).to.equal(VerificationStatus.PENDING);
+    });
+    
+    it("Should let a credential quorum override the type quorum", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, admin, issuer, talent } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      await credentialEndorsementModule.connect(admin).setTypeQuorum(CredentialType.CERTIFICATION, 1);
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      
+      await expect(credentialEndorsementModule.connect(issuer).setCredentialQuorum(id, 3))
+        .to.emit(credentialEndorsementModule, "CredentialQuorumSet")
+        .withArgs(id, 3);
+      
+      expect(await credentialEndorsementModule.getEffectiveQuorum(id)).to.equal(3);
+    });
+    
+    it("Should only allow the issuer or an admin to set a credential quorum", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, admin, issuer, talent, endorserOrg1 } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      
+      await expect(
+        credentialEndorsementModule.connect(endorserOrg1).setCredentialQuorum(id, 1)
+      ).to.be.revertedWith("CredentialEndorsement: caller is not the issuer or admin");
+      
+      await expect(
+        credentialEndorsementModule.connect(endorserOrg1).setTypeQuorum(CredentialType.EDUCATION, 1)
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+      
+      await credentialEndorsementModule.connect(admin).setCredentialQuorum(id, 1);
+      expect(await credentialEndorsementModule.getEffectiveQuorum(id)).to.equal(1);
+    });
+    
+    it("Should not allow setting a type quorum while paused", async function () {
+      const { credentialEndorsementModule, admin } = await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      await credentialEndorsementModule.connect(admin).pause();
+      await expect(
+        credentialEndorsementModule.connect(admin).setTypeQuorum(CredentialType.CERTIFICATION, 1)
+      ).to.be.revertedWith("Pausable: paused");
+    });
+    
+    it("Should verify a credential when its quorum is lowered below the endorsement count", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, issuer, talent, endorserOrg1, endorserOrg2 } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialEndorsementModule.connect(issuer).setCredentialQuorum(id, 3);
+      await credentialEndorsementModule.connect(endorserOrg1).endorseCredential(id, "");
+      await credentialEndorsementModule.connect(endorserOrg2).endorseCredential(id, "");
+      expect((await credentialVerificationModule.getCredential(id)).status).to.equal(VerificationStatus.PENDING);
+      
+      await expect(credentialEndorsementModule.connect(issuer).setCredentialQuorum(id, 1))
+        .to.emit(credentialEndorsementModule, "QuorumReached")
+        .withArgs(id, 2);
+      
+      expect((await credentialVerificationModule.getCredential(id)).status).to.equal(VerificationStatus.VERIFIED);
+    });
+    
+    it("Should let anyone re-check a credential after its type quorum is lowered", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, admin, issuer, talent, endorserOrg1, endorserOrg2, outsider } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      await credentialEndorsementModule.connect(admin).setTypeQuorum(CredentialType.CERTIFICATION, 3);
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialEndorsementModule.connect(endorserOrg1).endorseCredential(id, "");
+      await credentialEndorsementModule.connect(endorserOrg2).endorseCredential(id, "");
+      
+      await credentialEndorsementModule.connect(admin).setTypeQuorum(CredentialType.CERTIFICATION, 1);
+      expect((await credentialVerificationModule.getCredential(id)).status).to.equal(VerificationStatus.PENDING);
+      
+      await expect(credentialEndorsementModule.connect(outsider).checkQuorum(id))
+        .to.emit(credentialEndorsementModule, "QuorumReached")
+        .withArgs(id, 2);
+      expect((await credentialVerificationModule.getCredential(id)).status).to.equal(VerificationStatus.VERIFIED);
+      
+      // Verified credentials are not verified again
+      expect(await credentialEndorsementModule.connect(outsider).checkQuorum.staticCall(id)).to.be.false;
+    });
+    
+    it("Should verify on the next endorsement when the count already exceeds the quorum", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, admin, issuer, talent, endorserIssuer, endorserOrg1, endorserOrg2 } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      await credentialEndorsementModule.connect(admin).setTypeQuorum(CredentialType.CERTIFICATION, 3);
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialEndorsementModule.connect(endorserOrg1).endorseCredential(id, "");
+      await credentialEndorsementModule.connect(endorserOrg2).endorseCredential(id, "");
+      await credentialEndorsementModule.connect(admin).setTypeQuorum(CredentialType.CERTIFICATION, 1);
+      
+      await expect(credentialEndorsementModule.connect(endorserIssuer).endorseCredential(id, ""))
+        .to.emit(credentialEndorsementModule, "QuorumReached")
+        .withArgs(id, 3);
+      expect((await credentialVerificationModule.getCredential(id)).status).to.equal(VerificationStatus.VERIFIED);
+    });
+    
+    it("Should keep accepting endorsements after verification", async function () {
+      const { credentialEndorsementModule, credentialVerificationModule, issuer, talent, endorserIssuer, endorserOrg1 } =
+        await loadFixture(deployCredentialEndorsementModuleFixture);
+      
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialVerificationModule.connect(issuer).verifyCredential(id, VerificationStatus.VERIFIED, "Verified");
+      await credentialEndorsementModule.connect(issuer).setCredentialQuorum(id, 1);
+      
+      await expect(credentialEndorsementModule.connect(endorserIssuer).endorseCredential(id, ""))
+        .to.not.emit(credentialEndorsementModule, "QuorumReached");
+      await credentialEndorsementModule.connect(endorserOrg1).endorseCredential(id, "");
+      
+      expect(await credentialEndorsementModule.getEndorsementCount(id)).to.equal(2);
+      expect((await credentialVerificationModule.getVerificationHistory(id)).length).to.equal(3);
+    });
+  });
+});
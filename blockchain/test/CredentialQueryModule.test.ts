@@ -0,0 +1,338 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CredentialVerificationModule } from "../typechain-types";
+import { emailArgs, issueCredential } from "./helpers";
+
+describe("CredentialQueryModule", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0,
+    CERTIFICATION: 1
+  };
+  
+  const VerificationStatus = {
+    PENDING: 0,
+    VERIFIED: 1,
+    REJECTED: 2,
+    REVOKED: 3
+  };
+  
+  const NO_FILTER = {
+    filterByType: false,
+    credentialType: 0,
+    filterByStatus: false,
+    status: 0,
+    onlyValid: false
+  };
+  
+  const DAY = 24 * 60 * 60;
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployCredentialQueryModuleFixture() {
+    const [admin, issuer, talent, otherTalent] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy CredentialQueryModule
+    const CredentialQueryModuleFactory = await hre.ethers.getContractFactory("CredentialQueryModule");
+    const credentialQueryModule = await CredentialQueryModuleFactory.deploy(
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Register the issuer
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    
+    // Create the subject profile
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "");
+    await userProfileModule.connect(otherTalent).createProfile("Other Talent", "Also talented", ...emailArgs("other@example.com"), "avatar", "");
+    
+    return {
+      credentialQueryModule,
+      credentialVerificationModule,
+      admin,
+      issuer,
+      talent,
+      otherTalent
+    };
+  }
+  
+  describe("Expiring Credentials", function () {
+    // Issues a credential to the talent and has them accept it
+    async function issueAccepted(
+      credentialVerificationModule: CredentialVerificationModule,
+      issuer: HardhatEthersSigner,
+      talent: HardhatEthersSigner,
+      name: string,
+      expirationDate = 0
+    ) {
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address, { name, expirationDate });
+      await credentialVerificationModule.connect(talent).acceptCredential(id);
+      return id;
+    }
+    
+    it("Should list credentials expiring within the window", async function () {
+      const { credentialQueryModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialQueryModuleFixture);
+      
+      const now = await time.latest();
+      const soon = await issueAccepted(credentialVerificationModule, issuer, talent, "Soon", now + 10 * DAY);
+      await issueAccepted(credentialVerificationModule, issuer, talent, "Later", now + 90 * DAY);
+      await issueAccepted(credentialVerificationModule, issuer, talent, "Permanent");
+      
+      expect((await credentialQueryModule.getExpiringCredentials(talent.address, 30 * DAY, 0, 100))[0]).to.deep.equal([soon]);
+      expect((await credentialQueryModule.getExpiringCredentials(talent.address, 120 * DAY, 0, 100))[0].length).to.equal(2);
+    });
+    
+    it("Should page through expiring credentials", async function () {
+      const { credentialQueryModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialQueryModuleFixture);
+      
+      const now = await time.latest();
+      const first = await issueAccepted(credentialVerificationModule, issuer, talent, "First", now + 10 * DAY);
+      await issueAccepted(credentialVerificationModule, issuer, talent, "Permanent");
+      const last = await issueAccepted(credentialVerificationModule, issuer, talent, "Last", now + 20 * DAY);
+      
+      const [firstPage, firstNext] = await credentialQueryModule.getExpiringCredentials(talent.address, 30 * DAY, 0, 2);
+      expect(firstPage).to.deep.equal([first]);
+      expect(firstNext).to.equal(2);
+      
+      const [secondPage, secondNext] = await credentialQueryModule.getExpiringCredentials(talent.address, 30 * DAY, firstNext, 2);
+      expect(secondPage).to.deep.equal([last]);
+      expect(secondNext).to.equal(3);
+    });
+    
+    it("Should exclude lapsed and revoked credentials", async function () {
+      const { credentialQueryModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialQueryModuleFixture);
+      
+      const now = await time.latest();
+      const lapsed = await issueAccepted(credentialVerificationModule, issuer, talent, "Lapsed", now + DAY);
+      const revoked = await issueAccepted(credentialVerificationModule, issuer, talent, "Revoked", now + 10 * DAY);
+      await credentialVerificationModule.connect(issuer).revokeCredential(revoked, "Misconduct");
+      
+      await time.increase(2 * DAY);
+      
+      const [expiring] = await credentialQueryModule.getExpiringCredentials(talent.address, 30 * DAY, 0, 100);
+      expect(expiring).to.not.include(lapsed);
+      expect(expiring).to.not.include(revoked);
+    });
+    
+    it("Should include expired credentials still within the grace period", async function () {
+      const { credentialQueryModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialQueryModuleFixture);
+      
+      await credentialVerificationModule.connect(issuer).setGracePeriod(7 * DAY);
+      const id = await issueAccepted(credentialVerificationModule, issuer, talent, "Graced", (await time.latest()) + DAY);
+      
+      await time.increase(2 * DAY);
+      expect((await credentialQueryModule.getExpiringCredentials(talent.address, 0, 0, 100))[0]).to.deep.equal([id]);
+      
+      await time.increase(7 * DAY);
+      expect((await credentialQueryModule.getExpiringCredentials(talent.address, 0, 0, 100))[0]).to.deep.equal([]);
+    });
+    
+    it("Should leave declined, hidden and unaccepted credentials out", async function () {
+      const { credentialQueryModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialQueryModuleFixture);
+      
+      const expirationDate = (await time.latest()) + 10 * DAY;
+      const visible = await issueAccepted(credentialVerificationModule, issuer, talent, "Visible", expirationDate);
+      const hidden = await issueAccepted(credentialVerificationModule, issuer, talent, "Hidden", expirationDate);
+      await credentialVerificationModule.connect(talent).setCredentialHidden(hidden, true);
+      const declined = await issueCredential(credentialVerificationModule, issuer, talent.address, { name: "Declined", expirationDate });
+      await credentialVerificationModule.connect(talent).declineCredential(declined);
+      await issueCredential(credentialVerificationModule, issuer, talent.address, { name: "Pending", expirationDate });
+      
+      expect((await credentialQueryModule.getExpiringCredentials(talent.address, 30 * DAY, 0, 100))[0]).to.deep.equal([visible]);
+    });
+    
+    it("Should accept the maximum window without overflowing", async function () {
+      const { credentialQueryModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialQueryModuleFixture);
+      
+      const distant = await issueAccepted(credentialVerificationModule, issuer, talent, "Distant", (await time.latest()) + 3650 * DAY);
+      await issueAccepted(credentialVerificationModule, issuer, talent, "Permanent");
+      
+      expect((await credentialQueryModule.getExpiringCredentials(talent.address, hre.ethers.MaxUint256, 0, 100))[0])
+        .to.deep.equal([distant]);
+    });
+  });
+  
+  describe("Paginated Queries", function () {
+    // Issues five accepted credentials to the talent: even ones are education, the first two are verified
+    async function issueCredentials(
+      credentialVerificationModule: CredentialVerificationModule,
+      issuer: HardhatEthersSigner,
+      talent: HardhatEthersSigner
+    ) {
+      const ids: string[] = [];
+      for (let i = 0; i < 5; i++) {
+        const credentialType = i % 2 === 0 ? CredentialType.EDUCATION : CredentialType.CERTIFICATION;
+        ids.push(await issueCredential(credentialVerificationModule, issuer, talent.address, { name: `Credential ${i}`, credentialType }));
+      }
+      for (const id of ids.slice(0, 2)) {
+        await credentialVerificationModule.connect(issuer).verifyCredential(id, VerificationStatus.VERIFIED, "Verified");
+      }
+      for (const id of ids) {
+        await credentialVerificationModule.connect(talent).acceptCredential(id);
+      }
+      return ids;
+    }
+    
+    it("Should expose credential counts and ID pages", async function () {
+      const { credentialVerificationModule, issuer, talent, otherTalent } = await loadFixture(deployCredentialQueryModuleFixture);
+      
+      const ids = await issueCredentials(credentialVerificationModule, issuer, talent);
+      await issueCredential(credentialVerificationModule, issuer, otherTalent.address, { name: "Other" });
+      
+      expect(await credentialVerificationModule.getSubjectCredentialCount(talent.address)).to.equal(5);
+      expect(await credentialVerificationModule.getIssuerCredentialCount(issuer.address)).to.equal(6);
+      expect(await credentialVerificationModule.getSubjectCredentialIds(talent.address, 1, 2)).to.deep.equal(ids.slice(1, 3));
+      expect(await credentialVerificationModule.getSubjectCredentialIds(talent.address, 4, 10)).to.deep.equal(ids.slice(4));
+      expect(await credentialVerificationModule.getSubjectCredentialIds(talent.address, 5, 10)).to.deep.equal([]);
+      expect(await credentialVerificationModule.getSubjectCredentialIds(talent.address, 2, hre.ethers.MaxUint256))
+        .to.deep.equal(ids.slice(2));
+    });
+    
+    it("Should page through a subject's credentials as full structs", async function () {
+      const { credentialQueryModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialQueryModuleFixture);
+      
+      const ids = await issueCredentials(credentialVerificationModule, issuer, talent);
+      
+      const [firstPage, firstNext] = await credentialQueryModule.getSubjectCredentialsPage(talent.address, NO_FILTER, 0, 3);
+      expect(firstPage.map(credential => credential.id)).to.deep.equal(ids.slice(0, 3));
+      expect(firstPage[0].name).to.equal("Credential 0");
+      expect(firstPage[0].subject).to.equal(talent.address);
+      expect(firstNext).to.equal(3);
+      
+      const [secondPage, secondNext] = await credentialQueryModule.getSubjectCredentialsPage(talent.address, NO_FILTER, firstNext, 3);
+      expect(secondPage.map(credential => credential.id)).to.deep.equal(ids.slice(3));
+      expect(secondNext).to.equal(5);
+    });
+    
+    it("Should filter pages by type, status and validity", async function () {
+      const { credentialQueryModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialQueryModuleFixture);
+      
+      const ids = await issueCredentials(credentialVerificationModule, issuer, talent);
+      
+      const [education] = await credentialQueryModule.getSubjectCredentialsPage(
+        talent.address,
+        { ...NO_FILTER, filterByType: true, credentialType: CredentialType.EDUCATION },
+        0,
+        10
+      );
+      expect(education.map(credential => credential.id)).to.deep.equal([ids[0], ids[2], ids[4]]);
+      
+      const [pending] = await credentialQueryModule.getIssuerCredentialsPage(
+        issuer.address,
+        { ...NO_FILTER, filterByStatus: true, status: VerificationStatus.PENDING },
+        0,
+        10
+      );
+      expect(pending.map(credential => credential.id)).to.deep.equal(ids.slice(2));
+      
+      const [valid, nextOffset] = await credentialQueryModule.getIssuerCredentialsPage(
+        issuer.address,
+        { ...NO_FILTER, onlyValid: true },
+        1,
+        2
+      );
+      expect(valid.map(credential => credential.id)).to.deep.equal([ids[1]]);
+      expect(nextOffset).to.equal(3);
+    });
+    
+    it("Should count the credentials matching a filter within a page", async function () {
+      const { credentialQueryModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialQueryModuleFixture);
+      
+      await issueCredentials(credentialVerificationModule, issuer, talent);
+      
+      const [total, nextOffset] = await credentialQueryModule.countSubjectCredentialsPage(talent.address, NO_FILTER, 0, 10);
+      expect(total).to.equal(5);
+      expect(nextOffset).to.equal(5);
+      expect((await credentialQueryModule.countSubjectCredentialsPage(
+        talent.address,
+        { ...NO_FILTER, filterByType: true, credentialType: CredentialType.CERTIFICATION, onlyValid: true },
+        0,
+        10
+      ))[0]).to.equal(1);
+      expect((await credentialQueryModule.countIssuerCredentialsPage(
+        issuer.address,
+        { ...NO_FILTER, filterByStatus: true, status: VerificationStatus.VERIFIED },
+        0,
+        10
+      ))[0]).to.equal(2);
+      
+      // Counts are paged like the listings
+      const [firstCount, firstNext] = await credentialQueryModule.countSubjectCredentialsPage(talent.address, NO_FILTER, 0, 3);
+      expect(firstCount).to.equal(3);
+      expect(firstNext).to.equal(3);
+      expect((await credentialQueryModule.countSubjectCredentialsPage(talent.address, NO_FILTER, firstNext, 3))[0]).to.equal(2);
+    });
+    
+    it("Should leave declined and hidden credentials out of pages and counts", async function () {
+      const { credentialQueryModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialQueryModuleFixture);
+      
+      const ids = await issueCredentials(credentialVerificationModule, issuer, talent);
+      await credentialVerificationModule.connect(talent).declineCredential(ids[1]);
+      await credentialVerificationModule.connect(talent).setCredentialHidden(ids[2], true);
+      const pending = await issueCredential(credentialVerificationModule, issuer, talent.address, { name: "Pending" });
+      
+      const visible = [ids[0], ids[3], ids[4]];
+      const [subjectPage] = await credentialQueryModule.getSubjectCredentialsPage(talent.address, NO_FILTER, 0, 10);
+      expect(subjectPage.map(credential => credential.id)).to.deep.equal(visible);
+      const [issuerPage] = await credentialQueryModule.getIssuerCredentialsPage(issuer.address, NO_FILTER, 0, 10);
+      expect(issuerPage.map(credential => credential.id)).to.deep.equal(visible);
+      expect(issuerPage.map(credential => credential.id)).to.not.include(pending);
+      
+      expect((await credentialQueryModule.countSubjectCredentialsPage(talent.address, NO_FILTER, 0, 10))[0]).to.equal(3);
+      expect((await credentialQueryModule.countIssuerCredentialsPage(issuer.address, NO_FILTER, 0, 10))[0]).to.equal(3);
+    });
+    
+    it("Should accept the maximum limit without overflowing", async function () {
+      const { credentialQueryModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialQueryModuleFixture);
+      
+      const ids = await issueCredentials(credentialVerificationModule, issuer, talent);
+      
+      const [page, nextOffset] = await credentialQueryModule.getSubjectCredentialsPage(
+        talent.address,
+        NO_FILTER,
+        1,
+        hre.ethers.MaxUint256
+      );
+      expect(page.map(credential => credential.id)).to.deep.equal(ids.slice(1));
+      expect(nextOffset).to.equal(5);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CredentialSchemaModule, CredentialVerificationModule } from "../typechain-types";
+import { emailArgs, findEvent, issueCredential } from "./helpers";
+
+describe("CredentialSchemaModule", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0,
+    CERTIFICATION: 1,
+    EXPERIENCE: 2,
+    SKILL: 3,
+    ACHIEVEMENT: 4,
+    REFERENCE: 5,
+    OTHER: 6
+  };
+  
+  const SCHEMA_URI = "ipfs://QmSchema";
+  const SCHEMA_HASH = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("{\"type\":\"object\"}"));
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployCredentialSchemaModuleFixture() {
+    const [admin, issuer, talent, otherIssuer] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy CredentialSchemaModule
+    const CredentialSchemaModuleFactory = await hre.ethers.getContractFactory("CredentialSchemaModule");
+    const credentialSchemaModule = await CredentialSchemaModuleFactory.deploy(roleModule.target as unknown as string);
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    await credentialSchemaModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Register issuers
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, otherIssuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(otherIssuer.address);
+    
+    // Create the subject profile
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "");
+    
+    // Link the schema module
+    await credentialVerificationModule.connect(admin).setSchemaModule(credentialSchemaModule.target as unknown as string);
+    
+    return {
+      credentialSchemaModule,
+      credentialVerificationModule,
+      roleModule,
+      admin,
+      issuer,
+      talent,
+      otherIssuer
+    };
+  }
+  
+  async function registerSchema(
+    credentialSchemaModule: CredentialSchemaModule,
+    signer: HardhatEthersSigner,
+    name: string,
+    credentialType: number
+  ) {
+    const tx = await credentialSchemaModule.connect(signer).registerSchema(name, credentialType, SCHEMA_URI, SCHEMA_HASH);
+    const event = await findEvent(tx, credentialSchemaModule, "SchemaRegistered");
+    return event.args[0];
+  }
+  
+  async function issueWithSchema(
+    credentialVerificationModule: CredentialVerificationModule,
+    signer: HardhatEthersSigner,
+    subject: string,
+    schemaId: string
+  ) {
+    const tx = await credentialVerificationModule.connect(signer).issueCredentialWithSchema(
+      subject,
+      "Bachelor of Science",
+      "Computer Science",
+      "ipfs://QmHash",
+      schemaId,
+      0,
+      hre.ethers.keccak256(hre.ethers.toUtf8Bytes("evidence")),
+      true
+    );
+    const event = await findEvent(tx, credentialVerificationModule, "CredentialIssued");
+    return event.args[0];
+  }
+  
+  describe("Schema Registration", function () {
+    it("Should allow an issuer to register a schema", async function () {
+      const { credentialSchemaModule, issuer } = await loadFixture(deployCredentialSchemaModuleFixture);
+      
+      await expect(
+        credentialSchemaModule.connect(issuer).registerSchema("UniversityDegree", CredentialType.EDUCATION, SCHEMA_URI, SCHEMA_HASH)
+      )
+        .to.emit(credentialSchemaModule, "SchemaRegistered")
+        .withArgs(hre.ethers.solidityPackedKeccak256(["string", "uint256"], ["UniversityDegree", 1]), issuer.address, "UniversityDegree", 1);
+      
+      const schemaId = await credentialSchemaModule.getLatestSchemaId("UniversityDegree");
+      const schema = await credentialSchemaModule.getSchema(schemaId);
+      expect(schema.creator).to.equal(issuer.address);
+      expect(schema.version).to.equal(1);
+      expect(schema.credentialType).to.equal(CredentialType.EDUCATION);
+      expect(schema.schemaURI).to.equal(SCHEMA_URI);
+      expect(schema.schemaHash).to.equal(SCHEMA_HASH);
+      expect(schema.deprecated).to.be.false;
+      expect(await credentialSchemaModule.isSchemaActive(schemaId)).to.be.true;
+    });
+    
+    it("Should increment the version when a schema family is re-registered", async function () {
+      const { credentialSchemaModule, issuer } = await loadFixture(deployCredentialSchemaModuleFixture);
+      
+      const v1 = await registerSchema(credentialSchemaModule, issuer, "UniversityDegree", CredentialType.EDUCATION);
+      const v2 = await registerSchema(credentialSchemaModule, issuer, "UniversityDegree", CredentialType.EDUCATION);
+      
+      expect(await credentialSchemaModule.getSchemaVersions("UniversityDegree")).to.deep.equal([v1, v2]);
+      expect(await credentialSchemaModule.getLatestSchemaId("UniversityDegree")).to.equal(v2);
+      expect((await credentialSchemaModule.getSchema(v2)).version).to.equal(2);
+      expect(await credentialSchemaModule.getCreatorSchemas(issuer.address)).to.deep.equal([v1, v2]);
+    });
+    
+    it("Should prevent other issuers from publishing versions of a schema family", async function () {
+      const { credentialSchemaModule, issuer, otherIssuer } = await loadFixture(deployCredentialSchemaModuleFixture);
+      
+      await registerSchema(credentialSchemaModule, issuer, "UniversityDegree", CredentialType.EDUCATION);
+      
+      await expect(
+        credentialSchemaModule.connect(otherIssuer).registerSchema("UniversityDegree", CredentialType.EDUCATION, SCHEMA_URI, SCHEMA_HASH)
+      ).to.be.revertedWith("CredentialSchema: caller is not the schema creator");
+    });
+    
+    it("Should prevent non-issuers from registering schemas", async function () {
+      const { credentialSchemaModule, talent } = await loadFixture(deployCredentialSchemaModuleFixture);
+      
+      await expect(
+        credentialSchemaModule.connect(talent).registerSchema("UniversityDegree", CredentialType.EDUCATION, SCHEMA_URI, SCHEMA_HASH)
+      ).to.be.revertedWith("CredentialSchema: caller is not an issuer or admin");
+    });
+    
+    it("Should allow the creator to deprecate a schema", async function () {
+      const { credentialSchemaModule, issuer, otherIssuer } = await loadFixture(deployCredentialSchemaModuleFixture);
+      
+      const schemaId = await registerSchema(credentialSchemaModule, issuer, "UniversityDegree", CredentialType.EDUCATION);
+      
+      await expect(
+        credentialSchemaModule.connect(otherIssuer).deprecateSchema(schemaId)
+      ).to.be.revertedWith("CredentialSchema: caller is not the schema creator or admin");
+      
+      await expect(credentialSchemaModule.connect(issuer).deprecateSchema(schemaId))
+        .to.emit(credentialSchemaModule, "SchemaDeprecated")
+        .withArgs(schemaId, issuer.address);
+      
+      expect(await credentialSchemaModule.isSchemaActive(schemaId)).to.be.false;
+    });
+  });
+  
+  describe("Schema-bound Issuance", function () {
+    it("Should issue a credential referencing a schema", async function () {
+      const { credentialSchemaModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialSchemaModuleFixture);
+      
+      const schemaId = await registerSchema(credentialSchemaModule, issuer, "UniversityDegree", CredentialType.EDUCATION);
+      const id = await issueWithSchema(credentialVerificationModule, issuer, talent.address, schemaId);
+      
+      const credential = await credentialVerificationModule.getCredential(id);
+      expect(credential.schemaId).to.equal(schemaId);
+      expect(credential.credentialType).to.equal(CredentialType.EDUCATION);
+      expect(credential.subject).to.equal(talent.address);
+    });
+    
+    it("Should store an empty schema ID for free-form credentials", async function () {
+      const { credentialVerificationModule, issuer, talent } = await loadFixture(deployCredentialSchemaModuleFixture);
+      
+      const credentialId = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      
+      const credential = await credentialVerificationModule.getCredential(credentialId);
+      expect(credential.schemaId).to.equal(hre.ethers.ZeroHash);
+    });
+    
+    it("Should reject issuance against an unknown schema", async function () {
+      const { credentialVerificationModule, issuer, talent } = await loadFixture(deployCredentialSchemaModuleFixture);
+      
+      await expect(
+        issueWithSchema(credentialVerificationModule, issuer, talent.address, hre.ethers.id("unknown"))
+      ).to.be.revertedWith("CredentialVerification: schema does not exist");
+    });
+    
+    it("Should reject issuance against a deprecated schema", async function () {
+      const { credentialSchemaModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialSchemaModuleFixture);
+      
+      const schemaId = await registerSchema(credentialSchemaModule, issuer, "UniversityDegree", CredentialType.EDUCATION);
+      await credentialSchemaModule.connect(issuer).deprecateSchema(schemaId);
+      
+      await expect(
+        issueWithSchema(credentialVerificationModule, issuer, talent.address, schemaId)
+      ).to.be.revertedWith("CredentialVerification: schema is deprecated");
+    });
+    
+    it("Should allow issuance against a newer version after deprecation", async function () {
+      const { credentialSchemaModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialSchemaModuleFixture);
+      
+      const v1 = await registerSchema(credentialSchemaModule, issuer, "UniversityDegree", CredentialType.EDUCATION);
+      await credentialSchemaModule.connect(issuer).deprecateSchema(v1);
+      const v2 = await registerSchema(credentialSchemaModule, issuer, "UniversityDegree", CredentialType.EDUCATION);
+      
+      const id = await issueWithSchema(credentialVerificationModule, issuer, talent.address, v2);
+      expect((await credentialVerificationModule.getCredential(id)).schemaId).to.equal(v2);
+    });
+  });
+});
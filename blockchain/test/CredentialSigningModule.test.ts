@@ -0,0 +1,220 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { CredentialRequest, signCredentialRequest } from "../utils/credentialSigning";
+import { emailArgs } from "./helpers";
+
+describe("CredentialSigningModule", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0
+  };
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployCredentialSigningModuleFixture() {
+    const [admin, issuer, talent, organization] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy CredentialSigningModule
+    const CredentialSigningModuleFactory = await hre.ethers.getContractFactory("CredentialSigningModule");
+    const credentialSigningModule = await CredentialSigningModuleFactory.deploy(
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    const CREDENTIAL_MODULE_ROLE = await credentialVerificationModule.CREDENTIAL_MODULE_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Allow the signing module to issue credentials on behalf of issuers
+    await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, credentialSigningModule.target);
+    
+    // Register the issuer
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    
+    // Create the subject profile
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "");
+    
+    return {
+      credentialSigningModule,
+      credentialVerificationModule,
+      admin,
+      issuer,
+      talent,
+      organization
+    };
+  }
+  
+  function buildRequest(subject: string): CredentialRequest {
+    return {
+      subject,
+      name: "Bachelor of Science",
+      description: "Computer Science",
+      metadataURI: "ipfs://QmHash",
+      credentialType: CredentialType.EDUCATION,
+      expirationDate: 0,
+      evidenceHash: hre.ethers.keccak256(hre.ethers.toUtf8Bytes("evidence")),
+      revocable: true,
+      schemaId: hre.ethers.ZeroHash
+    };
+  }
+  
+  describe("Signed Issuance", function () {
+    it("Should issue a credential from a relayed issuer signature", async function () {
+      const { credentialSigningModule, credentialVerificationModule, issuer, talent, organization } = 
+        await loadFixture(deployCredentialSigningModuleFixture);
+      
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const signed = await signCredentialRequest(credentialSigningModule, issuer, buildRequest(talent.address), deadline);
+      
+      // Anyone can relay the signed request
+      const tx = await credentialSigningModule.connect(organization).issueCredentialWithSig(
+        signed.issuer,
+        signed.request,
+        signed.deadline,
+        signed.signature
+      );
+      
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => credentialVerificationModule.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "CredentialIssued");
+      const id = event!.args[0];
+      
+      await expect(tx)
+        .to.emit(credentialSigningModule, "SignedCredentialIssued")
+        .withArgs(id, issuer.address, organization.address, 0);
+      
+      const credential = await credentialVerificationModule.getCredential(id);
+      expect(credential.subject).to.equal(talent.address);
+      expect(credential.issuer).to.equal(issuer.address);
+      expect(credential.name).to.equal("Bachelor of Science");
+      expect(await credentialSigningModule.nonces(issuer.address)).to.equal(1);
+      expect(await credentialVerificationModule.getIssuerCredentials(issuer.address)).to.deep.equal([id]);
+    });
+    
+    it("Should prevent replaying a signed request", async function () {
+      const { credentialSigningModule, issuer, talent } = 
+        await loadFixture(deployCredentialSigningModuleFixture);
+      
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const signed = await signCredentialRequest(credentialSigningModule, issuer, buildRequest(talent.address), deadline);
+      
+      await credentialSigningModule.issueCredentialWithSig(signed.issuer, signed.request, signed.deadline, signed.signature);
+      
+      await expect(
+        credentialSigningModule.issueCredentialWithSig(signed.issuer, signed.request, signed.deadline, signed.signature)
+      ).to.be.revertedWith("CredentialSigning: invalid signature");
+    });
+    
+    it("Should reject an expired signature", async function () {
+      const { credentialSigningModule, issuer, talent } = 
+        await loadFixture(deployCredentialSigningModuleFixture);
+      
+      const deadline = BigInt(await time.latest()) + 60n;
+      const signed = await signCredentialRequest(credentialSigningModule, issuer, buildRequest(talent.address), deadline);
+      
+      await time.increase(120);
+      
+      await expect(
+        credentialSigningModule.issueCredentialWithSig(signed.issuer, signed.request, signed.deadline, signed.signature)
+      ).to.be.revertedWith("CredentialSigning: signature expired");
+    });
+    
+    it("Should reject a signature from someone other than the issuer", async function () {
+      const { credentialSigningModule, issuer, talent } = 
+        await loadFixture(deployCredentialSigningModuleFixture);
+      
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const forged = await signCredentialRequest(credentialSigningModule, talent, buildRequest(talent.address), deadline);
+      
+      await expect(
+        credentialSigningModule.issueCredentialWithSig(issuer.address, forged.request, forged.deadline, forged.signature)
+      ).to.be.revertedWith("CredentialSigning: invalid signature");
+    });
+    
+    it("Should reject a valid signature from a signer without ISSUER_ROLE", async function () {
+      const { credentialSigningModule, talent } = 
+        await loadFixture(deployCredentialSigningModuleFixture);
+      
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const signed = await signCredentialRequest(credentialSigningModule, talent, buildRequest(talent.address), deadline);
+      
+      await expect(
+        credentialSigningModule.issueCredentialWithSig(signed.issuer, signed.request, signed.deadline, signed.signature)
+      ).to.be.revertedWith("CredentialVerification: caller is not an issuer");
+    });
+    
+    it("Should reject a request that was altered after signing", async function () {
+      const { credentialSigningModule, issuer, talent, organization } = 
+        await loadFixture(deployCredentialSigningModuleFixture);
+      
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const signed = await signCredentialRequest(credentialSigningModule, issuer, buildRequest(talent.address), deadline);
+      
+      await expect(
+        credentialSigningModule.issueCredentialWithSig(
+          signed.issuer,
+          { ...signed.request, subject: organization.address },
+          signed.deadline,
+          signed.signature
+        )
+      ).to.be.revertedWith("CredentialSigning: invalid signature");
+    });
+    
+    it("Should allow an issuer to cancel an unsubmitted signature", async function () {
+      const { credentialSigningModule, issuer, talent } = 
+        await loadFixture(deployCredentialSigningModuleFixture);
+      
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const signed = await signCredentialRequest(credentialSigningModule, issuer, buildRequest(talent.address), deadline);
+      
+      await expect(credentialSigningModule.connect(issuer).invalidateNonce())
+        .to.emit(credentialSigningModule, "NonceInvalidated")
+        .withArgs(issuer.address, 0);
+      
+      await expect(
+        credentialSigningModule.issueCredentialWithSig(signed.issuer, signed.request, signed.deadline, signed.signature)
+      ).to.be.revertedWith("CredentialSigning: invalid signature");
+    });
+    
+    it("Should only issue while it holds CREDENTIAL_MODULE_ROLE", async function () {
+      const { credentialSigningModule, credentialVerificationModule, issuer, talent } = 
+        await loadFixture(deployCredentialSigningModuleFixture);
+      
+      await credentialVerificationModule.revokeRole(
+        await credentialVerificationModule.CREDENTIAL_MODULE_ROLE(),
+        credentialSigningModule.target
+      );
+      
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const signed = await signCredentialRequest(credentialSigningModule, issuer, buildRequest(talent.address), deadline);
+      
+      await expect(
+        credentialSigningModule.issueCredentialWithSig(signed.issuer, signed.request, signed.deadline, signed.signature)
+      ).to.be.reverted;
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CredentialVerificationModule } from "../typechain-types";
+import { StatusList, StatusListClient, StatusPurpose } from "../utils/statusList";
+import { emailArgs, issueCredential } from "./helpers";
+
+describe("CredentialStatusListModule", function () {
+  // Define enum values to match the contract
+  const VerificationStatus = {
+    PENDING: 0,
+    VERIFIED: 1,
+    REJECTED: 2,
+    REVOKED: 3
+  };
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployCredentialStatusListModuleFixture() {
+    const [admin, issuer, otherIssuer, talent, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy CredentialStatusListModule
+    const CredentialStatusListModuleFactory = await hre.ethers.getContractFactory("CredentialStatusListModule");
+    const credentialStatusListModule = await CredentialStatusListModuleFactory.deploy(
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    await credentialStatusListModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Register the issuers
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, otherIssuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(otherIssuer.address);
+    
+    // Create the subject profile
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "");
+    
+    // Mirror credential statuses into the status lists
+    await credentialVerificationModule.connect(admin).setStatusListModule(credentialStatusListModule.target as unknown as string);
+    
+    return {
+      credentialStatusListModule,
+      credentialVerificationModule,
+      admin,
+      issuer,
+      otherIssuer,
+      talent,
+      outsider
+    };
+  }
+  
+  async function issueValidCredential(
+    credentialVerificationModule: CredentialVerificationModule,
+    issuer: HardhatEthersSigner,
+    subject: HardhatEthersSigner
+  ) {
+    const id = await issueCredential(credentialVerificationModule, issuer, subject.address);
+    await credentialVerificationModule.connect(issuer).verifyCredential(id, VerificationStatus.VERIFIED, "Verified");
+    await credentialVerificationModule.connect(subject).acceptCredential(id);
+    return id;
+  }
+  
+  describe("Status Indices", function () {
+    it("Should assign sequential indices per issuer at issuance", async function () {
+      const { credentialStatusListModule, credentialVerificationModule, issuer, otherIssuer, talent } =
+        await loadFixture(deployCredentialStatusListModuleFixture);
+      
+      const first = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      const second = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      const other = await issueCredential(credentialVerificationModule, otherIssuer, talent.address);
+      
+      const entries = await credentialStatusListModule.getStatusEntries([first, second, other]);
+      expect(entries.map(entry => [entry.issuer, entry.index, entry.assigned])).to.deep.equal([
+        [issuer.address, 0n, true],
+        [issuer.address, 1n, true],
+        [otherIssuer.address, 0n, true]
+      ]);
+      expect(await credentialStatusListModule.getStatusListLength(issuer.address)).to.equal(2);
+      expect(await credentialStatusListModule.getStatusListLength(otherIssuer.address)).to.equal(1);
+    });
+    
+    it("Should index credentials issued before the status list was set", async function () {
+      const { credentialStatusListModule, credentialVerificationModule, admin, issuer, talent, outsider } =
+        await loadFixture(deployCredentialStatusListModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).setStatusListModule(hre.ethers.ZeroAddress);
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialVerificationModule.connect(issuer).revokeCredential(id, "Issued in error");
+      await credentialVerificationModule.connect(admin).setStatusListModule(credentialStatusListModule.target as unknown as string);
+      
+      expect((await credentialStatusListModule.getStatusEntry(id)).assigned).to.be.false;
+      
+      await expect(credentialStatusListModule.connect(outsider).syncCredential(id))
+        .to.emit(credentialStatusListModule, "StatusIndexAssigned")
+        .withArgs(id, issuer.address, 0);
+      
+      const [status] = await credentialStatusListModule.getCredentialStatuses([id]);
+      expect(status.revoked).to.be.true;
+    });
+  });
+  
+  describe("Status Bits", function () {
+    it("Should set the revocation bit when a credential is revoked", async function () {
+      const { credentialStatusListModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialStatusListModuleFixture);
+      
+      await issueCredential(credentialVerificationModule, issuer, talent.address);
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      
+      await expect(credentialVerificationModule.connect(issuer).revokeCredential(id, "Fraudulent"))
+        .to.emit(credentialStatusListModule, "StatusBitUpdated")
+        .withArgs(id, StatusPurpose.REVOCATION, true);
+      
+      const words = await credentialStatusListModule.getStatusListWords(issuer.address, StatusPurpose.REVOCATION, 0, 10);
+      expect(words).to.deep.equal([2n]);
+      
+      // The maximum limit is clamped to the list length instead of overflowing
+      expect(await credentialStatusListModule.getStatusListWords(
+        issuer.address,
+        StatusPurpose.REVOCATION,
+        0,
+        hre.ethers.MaxUint256
+      )).to.deep.equal([2n]);
+    });
+    
+    it("Should suspend and reinstate a credential", async function () {
+      const { credentialStatusListModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialStatusListModuleFixture);
+      
+      const id = await issueValidCredential(credentialVerificationModule, issuer, talent);
+      
+      await expect(credentialStatusListModule.connect(issuer).suspendCredential(id, "Under investigation"))
+        .to.emit(credentialStatusListModule, "CredentialSuspended")
+        .withArgs(id, issuer.address, "Under investigation");
+      
+      expect(await credentialStatusListModule.isSuspended(id)).to.be.true;
+      expect(await credentialVerificationModule.isCredentialValid(id)).to.be.false;
+      
+      await expect(credentialStatusListModule.connect(issuer).reinstateCredential(id, "Cleared"))
+        .to.emit(credentialStatusListModule, "CredentialReinstated")
+        .withArgs(id, issuer.address, "Cleared");
+      
+      expect(await credentialStatusListModule.isSuspended(id)).to.be.false;
+      expect(await credentialVerificationModule.isCredentialValid(id)).to.be.true;
+    });
+    
+    it("Should restrict suspension to the issuer or an admin", async function () {
+      const { credentialStatusListModule, credentialVerificationModule, admin, issuer, talent, outsider } =
+        await loadFixture(deployCredentialStatusListModuleFixture);
+      
+      const id = await issueValidCredential(credentialVerificationModule, issuer, talent);
+      
+      await expect(
+        credentialStatusListModule.connect(outsider).suspendCredential(id, "No reason")
+      ).to.be.revertedWith("CredentialStatusList: caller is not the issuer or admin");
+      
+      await credentialStatusListModule.connect(admin).suspendCredential(id, "Platform review");
+      
+      await expect(
+        credentialStatusListModule.connect(issuer).suspendCredential(id, "Again")
+      ).to.be.revertedWith("CredentialStatusList: credential already suspended");
+      
+      await expect(
+        credentialStatusListModule.connect(outsider).reinstateCredential(id, "No reason")
+      ).to.be.revertedWith("CredentialStatusList: caller is not the issuer or admin");
+    });
+    
+    it("Should not suspend non-revocable or revoked credentials", async function () {
+      const { credentialStatusListModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialStatusListModuleFixture);
+      
+      const permanent = await issueCredential(credentialVerificationModule, issuer, talent.address, { revocable: false });
+      await expect(
+        credentialStatusListModule.connect(issuer).suspendCredential(permanent, "No reason")
+      ).to.be.revertedWith("CredentialStatusList: credential is not revocable");
+      
+      const revoked = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialVerificationModule.connect(issuer).revokeCredential(revoked, "Fraudulent");
+      await expect(
+        credentialStatusListModule.connect(issuer).suspendCredential(revoked, "No reason")
+      ).to.be.revertedWith("CredentialStatusList: credential is revoked");
+      
+      await expect(
+        credentialStatusListModule.connect(issuer).reinstateCredential(revoked, "No reason")
+      ).to.be.revertedWith("CredentialStatusList: credential is not suspended");
+    });
+  });
+  
+  describe("Bulk Queries", function () {
+    it("Should return the status of many credentials in one call", async function () {
+      const { credentialStatusListModule, credentialVerificationModule, issuer, otherIssuer, talent } =
+        await loadFixture(deployCredentialStatusListModuleFixture);
+      
+      const valid = await issueValidCredential(credentialVerificationModule, issuer, talent);
+      const revoked = await issueValidCredential(credentialVerificationModule, issuer, talent);
+      const suspended = await issueValidCredential(credentialVerificationModule, otherIssuer, talent);
+      await credentialVerificationModule.connect(issuer).revokeCredential(revoked, "Fraudulent");
+      await credentialStatusListModule.connect(otherIssuer).suspendCredential(suspended, "Under investigation");
+      
+      const unknown = hre.ethers.id("unknown");
+      const statuses = await credentialStatusListModule.getCredentialStatuses([valid, revoked, suspended, unknown]);
+      
+      expect(statuses.map(status => [status.revoked, status.suspended, status.valid])).to.deep.equal([
+        [false, false, true],
+        [true, false, false],
+        [false, true, false],
+        [false, false, false]
+      ]);
+      expect(statuses[2].issuer).to.equal(otherIssuer.address);
+      expect(statuses[3].issuer).to.equal(hre.ethers.ZeroAddress);
+    });
+    
+    it("Should check many credentials locally with the status list client", async function () {
+      const { credentialStatusListModule, credentialVerificationModule, issuer, otherIssuer, talent } =
+        await loadFixture(deployCredentialStatusListModuleFixture);
+      
+      const ids = [];
+      for (let i = 0; i < 3; i++) {
+        ids.push(await issueCredential(credentialVerificationModule, issuer, talent.address));
+      }
+      ids.push(await issueCredential(credentialVerificationModule, otherIssuer, talent.address));
+      await credentialVerificationModule.connect(issuer).revokeCredential(ids[1], "Fraudulent");
+      await credentialStatusListModule.connect(otherIssuer).suspendCredential(ids[3], "Under investigation");
+      
+      const client = new StatusListClient(credentialStatusListModule);
+      const checks = await client.checkCredentials(ids);
+      
+      expect(checks.map(check => [check.index, check.revoked, check.suspended])).to.deep.equal([
+        [0, false, false],
+        [1, true, false],
+        [2, false, false],
+        [0, false, true]
+      ]);
+      
+      // Credentials indexed after the lists were cached trigger a refresh
+      const later = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialVerificationModule.connect(issuer).revokeCredential(later, "Fraudulent");
+      const [check] = await client.checkCredentials([later]);
+      expect([check.index, check.revoked]).to.deep.equal([3, true]);
+    });
+    
+    it("Should round-trip a status list through its encoded form", async function () {
+      const { credentialStatusListModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialStatusListModuleFixture);
+      
+      const ids = [];
+      for (let i = 0; i < 3; i++) {
+        ids.push(await issueCredential(credentialVerificationModule, issuer, talent.address));
+      }
+      await credentialVerificationModule.connect(issuer).revokeCredential(ids[2], "Fraudulent");
+      
+      const list = await new StatusListClient(credentialStatusListModule).getList(issuer.address, StatusPurpose.REVOCATION);
+      expect(list.bits).to.deep.equal(new Uint8Array([0x20]));
+      
+      const decoded = StatusList.decode(issuer.address, StatusPurpose.REVOCATION, list.length, list.encode());
+      expect([decoded.get(0), decoded.get(1), decoded.get(2)]).to.deep.equal([false, false, true]);
+    });
+  });
+});
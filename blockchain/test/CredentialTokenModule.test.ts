@@ -0,0 +1,251 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { emailArgs, issueCredential } from "./helpers";
+
+describe("CredentialTokenModule", function () {
+  // Define enum values to match the contract
+  const VerificationStatus = {
+    PENDING: 0,
+    VERIFIED: 1,
+    REJECTED: 2,
+    REVOKED: 3
+  };
+  
+  const METADATA_URI = "ipfs://QmCredentialMetadata";
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployCredentialTokenModuleFixture() {
+    const [admin, issuer, talent, otherUser] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy CredentialTokenModule
+    const CredentialTokenModuleFactory = await hre.ethers.getContractFactory("CredentialTokenModule");
+    const credentialTokenModule = await CredentialTokenModuleFactory.deploy(
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Register the issuer
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    
+    // Create the subject profile
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "");
+    
+    // Link the token module to the credential module
+    await credentialVerificationModule.connect(admin).setTokenModule(credentialTokenModule.target);
+    
+    return {
+      credentialTokenModule,
+      credentialVerificationModule,
+      admin,
+      issuer,
+      talent,
+      otherUser
+    };
+  }
+  
+  describe("Minting and Burning", function () {
+    it("Should mint a locked token to the subject when a verified credential is accepted", async function () {
+      const { credentialTokenModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialTokenModuleFixture);
+      
+      const credentialId = await issueCredential(credentialVerificationModule, issuer, talent.address, { metadataURI: METADATA_URI });
+      const tokenId = BigInt(credentialId);
+      expect(await credentialTokenModule.hasToken(credentialId)).to.be.false;
+      
+      await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Verified");
+      
+      // Nothing is minted until the subject accepts the credential
+      expect(await credentialTokenModule.hasToken(credentialId)).to.be.false;
+      
+      await expect(credentialVerificationModule.connect(talent).acceptCredential(credentialId))
+        .to.emit(credentialTokenModule, "Transfer")
+        .withArgs(hre.ethers.ZeroAddress, talent.address, tokenId)
+        .and.to.emit(credentialTokenModule, "Locked")
+        .withArgs(tokenId);
+      
+      expect(await credentialTokenModule.ownerOf(tokenId)).to.equal(talent.address);
+      expect(await credentialTokenModule.balanceOf(talent.address)).to.equal(1);
+      expect(await credentialTokenModule.locked(tokenId)).to.be.true;
+      expect(await credentialTokenModule.tokenURI(tokenId)).to.equal(METADATA_URI);
+      expect(await credentialTokenModule.totalSupply()).to.equal(1);
+    });
+    
+    it("Should not mint tokens for rejected credentials", async function () {
+      const { credentialTokenModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialTokenModuleFixture);
+      
+      const credentialId = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.REJECTED, "Rejected");
+      
+      expect(await credentialTokenModule.hasToken(credentialId)).to.be.false;
+      await expect(credentialTokenModule.locked(BigInt(credentialId))).to.be.reverted;
+    });
+    
+    it("Should burn the token when the credential is revoked", async function () {
+      const { credentialTokenModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialTokenModuleFixture);
+      
+      const credentialId = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Verified");
+      await credentialVerificationModule.connect(talent).acceptCredential(credentialId);
+      
+      await expect(credentialVerificationModule.connect(issuer).revokeCredential(credentialId, "Fraudulent"))
+        .to.emit(credentialTokenModule, "Transfer")
+        .withArgs(talent.address, hre.ethers.ZeroAddress, BigInt(credentialId));
+      
+      expect(await credentialTokenModule.hasToken(credentialId)).to.be.false;
+      expect(await credentialTokenModule.balanceOf(talent.address)).to.equal(0);
+      expect(await credentialTokenModule.totalSupply()).to.equal(0);
+    });
+    
+    it("Should burn tokens for hidden credentials and mint them again when shown", async function () {
+      const { credentialTokenModule, credentialVerificationModule, issuer, talent } =
+        await loadFixture(deployCredentialTokenModuleFixture);
+      
+      const credentialId = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Verified");
+      await credentialVerificationModule.connect(talent).acceptCredential(credentialId);
+      
+      await credentialVerificationModule.connect(talent).setCredentialHidden(credentialId, true);
+      expect(await credentialTokenModule.hasToken(credentialId)).to.be.false;
+      
+      await credentialVerificationModule.connect(talent).setCredentialHidden(credentialId, false);
+      expect(await credentialTokenModule.ownerOf(BigInt(credentialId))).to.equal(talent.address);
+      
+      await credentialVerificationModule.connect(talent).declineCredential(credentialId);
+      expect(await credentialTokenModule.hasToken(credentialId)).to.be.false;
+    });
+    
+    it("Should let anyone mint tokens for credentials verified before the module was set", async function () {
+      const { credentialTokenModule, credentialVerificationModule, admin, issuer, talent, otherUser } =
+        await loadFixture(deployCredentialTokenModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).setTokenModule(hre.ethers.ZeroAddress);
+      const credentialId = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Verified");
+      await credentialVerificationModule.connect(talent).acceptCredential(credentialId);
+      expect(await credentialTokenModule.hasToken(credentialId)).to.be.false;
+      
+      await credentialTokenModule.connect(otherUser).syncCredential(credentialId);
+      expect(await credentialTokenModule.ownerOf(BigInt(credentialId))).to.equal(talent.address);
+      
+      // Syncing again is a no-op
+      await expect(credentialTokenModule.connect(otherUser).syncCredential(credentialId))
+        .to.not.emit(credentialTokenModule, "Transfer");
+    });
+    
+    it("Should not mint tokens for credentials the subject has not accepted", async function () {
+      const { credentialTokenModule, credentialVerificationModule, issuer, talent, otherUser } =
+        await loadFixture(deployCredentialTokenModuleFixture);
+      
+      const credentialId = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Verified");
+      
+      await expect(credentialTokenModule.connect(otherUser).syncCredential(credentialId))
+        .to.not.emit(credentialTokenModule, "Transfer");
+      expect(await credentialTokenModule.hasToken(credentialId)).to.be.false;
+    });
+    
+    it("Should move tokens to the new wallet when credentials are migrated", async function () {
+      const { credentialTokenModule, credentialVerificationModule, admin, issuer, talent, otherUser } =
+        await loadFixture(deployCredentialTokenModuleFixture);
+      
+      const credentialId = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Verified");
+      await credentialVerificationModule.connect(talent).acceptCredential(credentialId);
+      const tokenId = BigInt(credentialId);
+      
+      // Stand in for the wallet migration module
+      await credentialVerificationModule.grantRole(await credentialVerificationModule.CREDENTIAL_MODULE_ROLE(), admin.address);
+      
+      await expect(credentialVerificationModule.connect(admin).migrateSubjectFromModule(talent.address, otherUser.address))
+        .to.emit(credentialTokenModule, "Transfer")
+        .withArgs(talent.address, hre.ethers.ZeroAddress, tokenId)
+        .and.to.emit(credentialTokenModule, "Transfer")
+        .withArgs(hre.ethers.ZeroAddress, otherUser.address, tokenId);
+      
+      expect(await credentialTokenModule.ownerOf(tokenId)).to.equal(otherUser.address);
+      expect(await credentialTokenModule.balanceOf(talent.address)).to.equal(0);
+      expect(await credentialTokenModule.totalSupply()).to.equal(1);
+    });
+  });
+  
+  describe("Soulbound Behaviour", function () {
+    it("Should revert transfers and approvals", async function () {
+      const { credentialTokenModule, credentialVerificationModule, issuer, talent, otherUser } =
+        await loadFixture(deployCredentialTokenModuleFixture);
+      
+      const credentialId = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Verified");
+      await credentialVerificationModule.connect(talent).acceptCredential(credentialId);
+      const tokenId = BigInt(credentialId);
+      
+      await expect(
+        credentialTokenModule.connect(talent).transferFrom(talent.address, otherUser.address, tokenId)
+      ).to.be.revertedWith("CredentialToken: token is soulbound");
+      
+      await expect(
+        credentialTokenModule.connect(talent)["safeTransferFrom(address,address,uint256)"](talent.address, otherUser.address, tokenId)
+      ).to.be.revertedWith("CredentialToken: token is soulbound");
+      
+      await expect(
+        credentialTokenModule.connect(talent).approve(otherUser.address, tokenId)
+      ).to.be.revertedWith("CredentialToken: token is soulbound");
+      
+      await expect(
+        credentialTokenModule.connect(talent).setApprovalForAll(otherUser.address, true)
+      ).to.be.revertedWith("CredentialToken: token is soulbound");
+      
+      expect(await credentialTokenModule.ownerOf(tokenId)).to.equal(talent.address);
+    });
+    
+    it("Should support the ERC-721 and ERC-5192 interfaces", async function () {
+      const { credentialTokenModule } = await loadFixture(deployCredentialTokenModuleFixture);
+      
+      expect(await credentialTokenModule.supportsInterface("0x80ac58cd")).to.be.true; // ERC-721
+      expect(await credentialTokenModule.supportsInterface("0x5b5e139f")).to.be.true; // ERC-721 metadata
+      expect(await credentialTokenModule.supportsInterface("0xb45a3c0e")).to.be.true; // ERC-5192
+      expect(await credentialTokenModule.supportsInterface("0xffffffff")).to.be.false;
+    });
+  });
+  
+  describe("Configuration", function () {
+    it("Should only let admins set the token module", async function () {
+      const { credentialTokenModule, credentialVerificationModule, otherUser } =
+        await loadFixture(deployCredentialTokenModuleFixture);
+      
+      expect(await credentialVerificationModule.getTokenModule()).to.equal(credentialTokenModule.target);
+      
+      await expect(
+        credentialVerificationModule.connect(otherUser).setTokenModule(hre.ethers.ZeroAddress)
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+    });
+  });
+});
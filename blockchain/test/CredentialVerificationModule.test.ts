@@ -1,7 +1,9 @@
 import { expect } from "chai";
 import hre from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { CredentialVerificationModule, RoleModule, UserProfileModule } from "../typechain-types";
+import { emailArgs, issueCredential } from "./helpers";
 
 describe("CredentialVerificationModule", function () {
   // Define enum values to match the contract
@@ -34,13 +36,19 @@ describe("CredentialVerificationModule", function () {
     const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
     const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
     
-    // Finally deploy CredentialVerificationModule
+    // Then deploy CredentialVerificationModule
     const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
     const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
       roleModule.target as unknown as string,
       userProfileModule.target as unknown as string
     );
     
+    // Finally deploy CredentialQueryModule for the derived views
+    const CredentialQueryModuleFactory = await hre.ethers.getContractFactory("CredentialQueryModule");
+    const credentialQueryModule = await CredentialQueryModuleFactory.deploy(
+      credentialVerificationModule.target as unknown as string
+    );
+    
     // Get the role constants
     const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
     const TALENT_ROLE = await roleModule.TALENT_ROLE();
@@ -53,15 +61,23 @@ describe("CredentialVerificationModule", function () {
     await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
     
     // Create profiles
-    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", "talent@example.com", "avatar");
-    await userProfileModule.connect(organization).createProfile("Organization", "Big Company", "org@example.com", "avatar");
-    await userProfileModule.connect(issuer).createProfile("Issuer Org", "Credential Issuer", "issuer@example.com", "avatar");
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "");
+    await userProfileModule.connect(organization).createProfile("Organization", "Big Company", ...emailArgs("org@example.com"), "avatar", "");
+    await userProfileModule.connect(issuer).createProfile("Issuer Org", "Credential Issuer", ...emailArgs("issuer@example.com"), "avatar", "");
     
     // Grant admin role to the credential module to allow it to grant roles
     await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    
+    // The credential module keeps its own admin set
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // ISSUER_ROLE must be registered as an active role before it can be granted
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
     
     return { 
       credentialVerificationModule,
+      credentialQueryModule,
       roleModule,
       userProfileModule,
       admin, 
@@ -218,6 +234,10 @@ describe("CredentialVerificationModule", function () {
       const credential = await credentialVerificationModule.getCredential(id);
       expect(credential.status).to.equal(VerificationStatus.VERIFIED);
       
+      // Verified credentials only count once the subject accepts them
+      expect(await credentialVerificationModule.isCredentialValid(id)).to.be.false;
+      await credentialVerificationModule.connect(talent).acceptCredential(id);
+      
       // Check if the credential is valid
       expect(await credentialVerificationModule.isCredentialValid(id)).to.be.true;
     });
@@ -338,6 +358,34 @@ describe("CredentialVerificationModule", function () {
       expect(credential.description).to.equal(newDescription);
       expect(credential.metadataURI).to.equal(newMetadataURI);
     });
+    it("Should keep credentials of erased subjects resolvable", async function () {
+      const { credentialVerificationModule, userProfileModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      const id = await issueCredential(credentialVerificationModule, issuer, talent.address);
+      
+      await userProfileModule.connect(talent).eraseProfile(talent.address);
+      
+      // The credential still points at the subject, which resolves to an erased profile
+      const credential = await credentialVerificationModule.getCredential(id);
+      expect(credential.subject).to.equal(talent.address);
+      expect(await userProfileModule.isProfileErased(credential.subject)).to.be.true;
+      
+      // No new credentials can be issued to the erased subject
+      await expect(
+        credentialVerificationModule.connect(issuer).issueCredential(
+          talent.address,
+          "Another Certificate",
+          "Description",
+          "ipfs://QmHash",
+          CredentialType.CERTIFICATION,
+          0,
+          hre.ethers.ZeroHash,
+          true
+        )
+      ).to.be.revertedWith("CredentialVerification: subject profile is erased");
+    });
   });
   
   describe("Query Functions", function () {
@@ -457,6 +505,269 @@ describe("CredentialVerificationModule", function () {
     });
   });
   
+  describe("Subject Consent", function () {
+    const ConsentStatus = {
+      PENDING: 0,
+      ACCEPTED: 1,
+      DECLINED: 2
+    };
+    
+    async function issueVerifiedCredential(
+      credentialVerificationModule: CredentialVerificationModule,
+      issuer: HardhatEthersSigner,
+      subject: string,
+      name: string
+    ) {
+      const id = await issueCredential(credentialVerificationModule, issuer, subject, { name });
+      
+      await credentialVerificationModule.connect(issuer).verifyCredential(id, VerificationStatus.VERIFIED, "Verified");
+      
+      return id;
+    }
+    
+    it("Should start credentials in a pending consent state", async function () {
+      const { credentialVerificationModule, credentialQueryModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      const id = await issueVerifiedCredential(credentialVerificationModule, issuer, talent.address, "Certificate");
+      
+      const consent = await credentialQueryModule.getCredentialConsent(id);
+      expect(consent.consent).to.equal(ConsentStatus.PENDING);
+      expect(consent.hidden).to.be.false;
+      expect(await credentialVerificationModule.isCredentialValid(id)).to.be.false;
+      expect((await credentialQueryModule.getVisibleSubjectCredentials(talent.address, 0, 100))[0]).to.deep.equal([]);
+    });
+    
+    it("Should allow the subject to accept a credential", async function () {
+      const { credentialVerificationModule, credentialQueryModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      const id = await issueVerifiedCredential(credentialVerificationModule, issuer, talent.address, "Certificate");
+      
+      await expect(credentialVerificationModule.connect(talent).acceptCredential(id))
+        .to.emit(credentialVerificationModule, "CredentialConsentChanged")
+        .withArgs(id, talent.address, ConsentStatus.ACCEPTED);
+      
+      expect(await credentialVerificationModule.isCredentialValid(id)).to.be.true;
+      expect((await credentialQueryModule.getVisibleSubjectCredentials(talent.address, 0, 100))[0]).to.deep.equal([id]);
+    });
+    
+    it("Should prevent anyone but the subject from giving consent", async function () {
+      const { credentialVerificationModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      const id = await issueVerifiedCredential(credentialVerificationModule, issuer, talent.address, "Certificate");
+      
+      await expect(
+        credentialVerificationModule.connect(issuer).acceptCredential(id)
+      ).to.be.revertedWith("CredentialVerification: caller is not the credential subject");
+      await expect(
+        credentialVerificationModule.connect(admin).declineCredential(id)
+      ).to.be.revertedWith("CredentialVerification: caller is not the credential subject");
+    });
+    
+    it("Should keep the issuer's record when the subject declines", async function () {
+      const { credentialVerificationModule, credentialQueryModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      const id = await issueVerifiedCredential(credentialVerificationModule, issuer, talent.address, "Certificate");
+      await credentialVerificationModule.connect(talent).acceptCredential(id);
+      
+      await expect(credentialVerificationModule.connect(talent).declineCredential(id))
+        .to.emit(credentialVerificationModule, "CredentialConsentChanged")
+        .withArgs(id, talent.address, ConsentStatus.DECLINED);
+      
+      expect(await credentialVerificationModule.isCredentialValid(id)).to.be.false;
+      expect((await credentialQueryModule.getVisibleSubjectCredentials(talent.address, 0, 100))[0]).to.deep.equal([]);
+      
+      // The credential itself is untouched
+      expect(await credentialVerificationModule.getSubjectCredentials(talent.address)).to.deep.equal([id]);
+      expect(await credentialVerificationModule.getIssuerCredentials(issuer.address)).to.deep.equal([id]);
+      expect((await credentialVerificationModule.getCredential(id)).status).to.equal(VerificationStatus.VERIFIED);
+    });
+    
+    it("Should allow hiding an accepted credential from public listings", async function () {
+      const { credentialVerificationModule, credentialQueryModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      const shown = await issueVerifiedCredential(credentialVerificationModule, issuer, talent.address, "Certificate 1");
+      const hidden = await issueVerifiedCredential(credentialVerificationModule, issuer, talent.address, "Certificate 2");
+      await credentialVerificationModule.connect(talent).acceptCredential(shown);
+      await credentialVerificationModule.connect(talent).acceptCredential(hidden);
+      
+      await expect(credentialVerificationModule.connect(talent).setCredentialHidden(hidden, true))
+        .to.emit(credentialVerificationModule, "CredentialVisibilityChanged")
+        .withArgs(hidden, talent.address, true);
+      
+      expect((await credentialQueryModule.getVisibleSubjectCredentials(talent.address, 0, 100))[0]).to.deep.equal([shown]);
+      expect(await credentialVerificationModule.getSubjectCredentials(talent.address)).to.deep.equal([shown, hidden]);
+      
+      // Hiding only affects listings, the credential stays valid
+      expect(await credentialVerificationModule.isCredentialValid(hidden)).to.be.true;
+      
+      await credentialVerificationModule.connect(talent).setCredentialHidden(hidden, false);
+      expect((await credentialQueryModule.getVisibleSubjectCredentials(talent.address, 0, 100))[0]).to.deep.equal([shown, hidden]);
+    });
+    
+    it("Should prevent hiding a credential that was not accepted", async function () {
+      const { credentialVerificationModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      const id = await issueVerifiedCredential(credentialVerificationModule, issuer, talent.address, "Certificate");
+      
+      await expect(
+        credentialVerificationModule.connect(talent).setCredentialHidden(id, true)
+      ).to.be.revertedWith("CredentialVerification: credential not accepted");
+    });
+  });
+  
+  describe("Renewal and Expiry", function () {
+    const YEAR = 365 * 24 * 60 * 60;
+    const DAY = 24 * 60 * 60;
+    
+    async function issueExpiringCredential(
+      credentialVerificationModule: CredentialVerificationModule,
+      issuer: HardhatEthersSigner,
+      subject: HardhatEthersSigner,
+      expirationDate: number
+    ) {
+      const id = await issueCredential(credentialVerificationModule, issuer, subject.address, {
+        name: "AWS Certification",
+        description: "Solutions Architect",
+        expirationDate
+      });
+      
+      await credentialVerificationModule.connect(issuer).verifyCredential(id, VerificationStatus.VERIFIED, "Verified");
+      await credentialVerificationModule.connect(subject).acceptCredential(id);
+      
+      return id;
+    }
+    
+    it("Should allow the issuer to renew a credential", async function () {
+      const { credentialVerificationModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      const expirationDate = (await time.latest()) + YEAR;
+      const id = await issueExpiringCredential(credentialVerificationModule, issuer, talent, expirationDate);
+      
+      const newExpirationDate = expirationDate + YEAR;
+      await expect(credentialVerificationModule.connect(issuer).renewCredential(id, newExpirationDate, "Recertified"))
+        .to.emit(credentialVerificationModule, "CredentialRenewed")
+        .withArgs(id, issuer.address, expirationDate, newExpirationDate);
+      
+      const credential = await credentialVerificationModule.getCredential(id);
+      expect(credential.expirationDate).to.equal(newExpirationDate);
+      
+      // Renewal is recorded after the initial verification
+      const history = await credentialVerificationModule.getVerificationHistory(id);
+      expect(history.length).to.equal(2);
+      expect(history[1].verifier).to.equal(issuer.address);
+      expect(history[1].recordType).to.equal(2); // RENEWAL
+      expect(history[1].status).to.equal(VerificationStatus.VERIFIED);
+      expect(history[1].notes).to.equal("Recertified");
+    });
+    
+    it("Should restore validity when a lapsed credential is renewed", async function () {
+      const { credentialVerificationModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      const expirationDate = (await time.latest()) + YEAR;
+      const id = await issueExpiringCredential(credentialVerificationModule, issuer, talent, expirationDate);
+      
+      await time.increaseTo(expirationDate + DAY);
+      expect(await credentialVerificationModule.isCredentialValid(id)).to.be.false;
+      
+      await credentialVerificationModule.connect(issuer).renewCredential(id, expirationDate + YEAR, "");
+      expect(await credentialVerificationModule.isCredentialValid(id)).to.be.true;
+    });
+    
+    it("Should renew credentials of an erased subject", async function () {
+      const { credentialVerificationModule, userProfileModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      const expirationDate = (await time.latest()) + YEAR;
+      const id = await issueExpiringCredential(credentialVerificationModule, issuer, talent, expirationDate);
+      
+      await userProfileModule.connect(talent).eraseProfile(talent.address);
+      
+      await credentialVerificationModule.connect(issuer).renewCredential(id, expirationDate + YEAR, "");
+      expect((await credentialVerificationModule.getCredential(id)).expirationDate).to.equal(expirationDate + YEAR);
+    });
+    
+    it("Should reject invalid renewals", async function () {
+      const { credentialVerificationModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      const expirationDate = (await time.latest()) + YEAR;
+      const id = await issueExpiringCredential(credentialVerificationModule, issuer, talent, expirationDate);
+      const permanentId = await issueExpiringCredential(credentialVerificationModule, issuer, talent, 0);
+      
+      await expect(
+        credentialVerificationModule.connect(talent).renewCredential(id, expirationDate + YEAR, "")
+      ).to.be.revertedWith("CredentialVerification: caller is not the credential issuer");
+      
+      await expect(
+        credentialVerificationModule.connect(issuer).renewCredential(id, expirationDate, "")
+      ).to.be.revertedWith("CredentialVerification: new expiration date must be later");
+      
+      await expect(
+        credentialVerificationModule.connect(issuer).renewCredential(permanentId, expirationDate, "")
+      ).to.be.revertedWith("CredentialVerification: credential does not expire");
+      
+      await credentialVerificationModule.connect(issuer).revokeCredential(id, "Misconduct");
+      await expect(
+        credentialVerificationModule.connect(issuer).renewCredential(id, expirationDate + YEAR, "")
+      ).to.be.revertedWith("CredentialVerification: credential cannot be renewed");
+    });
+    
+    it("Should keep credentials valid during the issuer's grace period", async function () {
+      const { credentialVerificationModule, credentialQueryModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      await expect(credentialVerificationModule.connect(issuer).setGracePeriod(30 * DAY))
+        .to.emit(credentialVerificationModule, "GracePeriodUpdated")
+        .withArgs(issuer.address, 30 * DAY);
+      
+      const expirationDate = (await time.latest()) + YEAR;
+      const id = await issueExpiringCredential(credentialVerificationModule, issuer, talent, expirationDate);
+      expect(await credentialQueryModule.isInGracePeriod(id)).to.be.false;
+      
+      await time.increaseTo(expirationDate + DAY);
+      expect(await credentialQueryModule.isInGracePeriod(id)).to.be.true;
+      expect(await credentialVerificationModule.isCredentialValid(id)).to.be.true;
+      
+      await time.increaseTo(expirationDate + 30 * DAY);
+      expect(await credentialQueryModule.isInGracePeriod(id)).to.be.false;
+      expect(await credentialVerificationModule.isCredentialValid(id)).to.be.false;
+    });
+    
+    it("Should restrict grace periods to issuers and a maximum length", async function () {
+      const { credentialVerificationModule, admin, issuer, talent } = 
+        await loadFixture(deployCredentialVerificationModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+      
+      await expect(
+        credentialVerificationModule.connect(talent).setGracePeriod(DAY)
+      ).to.be.revertedWith("CredentialVerification: caller is not an issuer");
+      
+      await expect(
+        credentialVerificationModule.connect(issuer).setGracePeriod(YEAR + 1)
+      ).to.be.revertedWith("CredentialVerification: grace period too long");
+    });
+  });
+  
   describe("Pausability", function () {
     it("Should prevent credential operations when paused", async function () {
       const { credentialVerificationModule, admin, issuer, talent } = 
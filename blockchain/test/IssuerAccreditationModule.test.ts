@@ -0,0 +1,344 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CredentialVerificationModule } from "../typechain-types";
+import { emailArgs, findEvent } from "./helpers";
+
+describe("IssuerAccreditationModule", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0,
+    CERTIFICATION: 1
+  };
+  
+  const YEAR = 365 * 24 * 60 * 60;
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployIssuerAccreditationModuleFixture() {
+    const [admin, university, department, otherIssuer, talent, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Then deploy CredentialSchemaModule
+    const CredentialSchemaModuleFactory = await hre.ethers.getContractFactory("CredentialSchemaModule");
+    const credentialSchemaModule = await CredentialSchemaModuleFactory.deploy(roleModule.target as unknown as string);
+    
+    // Finally deploy IssuerAccreditationModule
+    const IssuerAccreditationModuleFactory = await hre.ethers.getContractFactory("IssuerAccreditationModule");
+    const issuerAccreditationModule = await IssuerAccreditationModuleFactory.deploy(roleModule.target as unknown as string);
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    await issuerAccreditationModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Register the issuers
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, university.address);
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, otherIssuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(university.address);
+    await credentialVerificationModule.connect(admin).addIssuer(otherIssuer.address);
+    
+    // Create the subject profile
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "");
+    
+    // Link the schema registry and enable scoped issuance
+    await credentialVerificationModule.connect(admin).setSchemaModule(credentialSchemaModule.target as unknown as string);
+    await credentialVerificationModule.connect(admin).setAccreditationModule(issuerAccreditationModule.target as unknown as string);
+    
+    return {
+      issuerAccreditationModule,
+      credentialVerificationModule,
+      credentialSchemaModule,
+      roleModule,
+      admin,
+      university,
+      department,
+      otherIssuer,
+      talent,
+      outsider
+    };
+  }
+  
+  async function issueCredential(
+    credentialVerificationModule: CredentialVerificationModule,
+    issuer: HardhatEthersSigner,
+    subject: string,
+    credentialType: number
+  ) {
+    return credentialVerificationModule.connect(issuer).issueCredential(
+      subject,
+      "Bachelor of Science",
+      "Computer Science",
+      "ipfs://QmHash",
+      credentialType,
+      0,
+      hre.ethers.keccak256(hre.ethers.toUtf8Bytes("evidence")),
+      true
+    );
+  }
+  
+  describe("Accreditation", function () {
+    it("Should allow an admin to accredit an issuer for a credential type", async function () {
+      const { issuerAccreditationModule, admin, university } = await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      const expiresAt = (await time.latest()) + YEAR;
+      await expect(
+        issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, expiresAt)
+      )
+        .to.emit(issuerAccreditationModule, "IssuerAccredited")
+        .withArgs(university.address, hre.ethers.ZeroAddress, CredentialType.EDUCATION, hre.ethers.ZeroHash, expiresAt);
+      
+      expect(await issuerAccreditationModule.isAccredited(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash)).to.be.true;
+      expect(await issuerAccreditationModule.isAccredited(university.address, CredentialType.CERTIFICATION, hre.ethers.ZeroHash)).to.be.false;
+      
+      const accreditations = await issuerAccreditationModule.getIssuerAccreditations(university.address);
+      expect(accreditations.length).to.equal(1);
+      expect(accreditations[0].expiresAt).to.equal(expiresAt);
+    });
+    
+    it("Should only accredit issuers, and only by admins", async function () {
+      const { issuerAccreditationModule, admin, university, outsider } = await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      await expect(
+        issuerAccreditationModule.connect(outsider).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0)
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+      
+      await expect(
+        issuerAccreditationModule.connect(admin).accredit(outsider.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0)
+      ).to.be.revertedWith("IssuerAccreditation: account is not an issuer");
+    });
+  });
+  
+  describe("Scoped Issuance", function () {
+    it("Should allow issuance within the accredited scope", async function () {
+      const { issuerAccreditationModule, credentialVerificationModule, admin, university, talent } =
+        await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      
+      await expect(issueCredential(credentialVerificationModule, university, talent.address, CredentialType.EDUCATION))
+        .to.emit(credentialVerificationModule, "CredentialIssued");
+    });
+    
+    it("Should reject out-of-scope issuance", async function () {
+      const { issuerAccreditationModule, credentialVerificationModule, admin, university, otherIssuer, talent } =
+        await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      
+      // Wrong credential type
+      await expect(
+        issueCredential(credentialVerificationModule, university, talent.address, CredentialType.CERTIFICATION)
+      ).to.be.revertedWith("CredentialVerification: issuer is not accredited for this credential");
+      
+      // Issuer without any accreditation
+      await expect(
+        issueCredential(credentialVerificationModule, otherIssuer, talent.address, CredentialType.EDUCATION)
+      ).to.be.revertedWith("CredentialVerification: issuer is not accredited for this credential");
+    });
+    
+    it("Should limit schema-scoped accreditations to their schema", async function () {
+      const { issuerAccreditationModule, credentialVerificationModule, credentialSchemaModule, admin, university, talent } =
+        await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      const schemaHash = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("{}"));
+      await credentialSchemaModule.connect(university).registerSchema("Degree", CredentialType.EDUCATION, "ipfs://QmDegree", schemaHash);
+      await credentialSchemaModule.connect(university).registerSchema("Diploma", CredentialType.EDUCATION, "ipfs://QmDiploma", schemaHash);
+      const degreeSchema = await credentialSchemaModule.getLatestSchemaId("Degree");
+      const diplomaSchema = await credentialSchemaModule.getLatestSchemaId("Diploma");
+      
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, degreeSchema, 0);
+      
+      const issueWithSchema = (schemaId: string) => credentialVerificationModule.connect(university).issueCredentialWithSchema(
+        talent.address,
+        "Bachelor of Science",
+        "Computer Science",
+        "ipfs://QmHash",
+        schemaId,
+        0,
+        hre.ethers.keccak256(hre.ethers.toUtf8Bytes("evidence")),
+        true
+      );
+      
+      await expect(issueWithSchema(degreeSchema)).to.emit(credentialVerificationModule, "CredentialIssued");
+      await expect(issueWithSchema(diplomaSchema))
+        .to.be.revertedWith("CredentialVerification: issuer is not accredited for this credential");
+      await expect(issueCredential(credentialVerificationModule, university, talent.address, CredentialType.EDUCATION))
+        .to.be.revertedWith("CredentialVerification: issuer is not accredited for this credential");
+    });
+    
+    it("Should reject issuance after the accreditation expires", async function () {
+      const { issuerAccreditationModule, credentialVerificationModule, admin, university, talent } =
+        await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      const expiresAt = (await time.latest()) + YEAR;
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, expiresAt);
+      
+      await time.increaseTo(expiresAt);
+      
+      await expect(
+        issueCredential(credentialVerificationModule, university, talent.address, CredentialType.EDUCATION)
+      ).to.be.revertedWith("CredentialVerification: issuer is not accredited for this credential");
+    });
+  });
+  
+  describe("Delegation", function () {
+    it("Should let a delegate issue within the delegated scope", async function () {
+      const { issuerAccreditationModule, credentialVerificationModule, admin, university, department, talent } =
+        await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      await expect(
+        issuerAccreditationModule.connect(university).delegate(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0)
+      )
+        .to.emit(issuerAccreditationModule, "IssuerAccredited")
+        .withArgs(department.address, university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      
+      expect(await issuerAccreditationModule.getDelegates(university.address)).to.deep.equal([department.address]);
+      
+      const tx = await issueCredential(credentialVerificationModule, department, talent.address, CredentialType.EDUCATION);
+      const event = await findEvent(tx, credentialVerificationModule, "CredentialIssued");
+      
+      expect((await credentialVerificationModule.getCredential(event.args[0])).issuer).to.equal(department.address);
+    });
+    
+    it("Should prevent delegating beyond the caller's own scope", async function () {
+      const { issuerAccreditationModule, admin, university, department, otherIssuer } =
+        await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      
+      await expect(
+        issuerAccreditationModule.connect(university).delegate(department.address, CredentialType.CERTIFICATION, hre.ethers.ZeroHash, 0)
+      ).to.be.revertedWith("IssuerAccreditation: caller is not accredited for this scope");
+      
+      // Delegates cannot delegate further
+      await issuerAccreditationModule.connect(university).delegate(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      await expect(
+        issuerAccreditationModule.connect(department).delegate(otherIssuer.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0)
+      ).to.be.revertedWith("IssuerAccreditation: caller is not accredited for this scope");
+    });
+    
+    it("Should reject issuance after the delegation expires", async function () {
+      const { issuerAccreditationModule, credentialVerificationModule, admin, university, department, talent } =
+        await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      const expiresAt = (await time.latest()) + YEAR;
+      await issuerAccreditationModule.connect(university).delegate(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, expiresAt);
+      
+      await time.increaseTo(expiresAt);
+      
+      await expect(
+        issueCredential(credentialVerificationModule, department, talent.address, CredentialType.EDUCATION)
+      ).to.be.revertedWith("CredentialVerification: issuer is not accredited for this credential");
+      
+      // The parent's own accreditation is unaffected
+      await expect(issueCredential(credentialVerificationModule, university, talent.address, CredentialType.EDUCATION))
+        .to.emit(credentialVerificationModule, "CredentialIssued");
+    });
+    
+    it("Should cascade revocation of the parent to its delegates", async function () {
+      const { issuerAccreditationModule, credentialVerificationModule, admin, university, department, talent } =
+        await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      await issuerAccreditationModule.connect(university).delegate(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      
+      await expect(issuerAccreditationModule.connect(admin).revokeAccreditation(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash))
+        .to.emit(issuerAccreditationModule, "AccreditationRevoked")
+        .withArgs(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, admin.address);
+      
+      expect(await issuerAccreditationModule.isAccredited(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash)).to.be.false;
+      await expect(
+        issueCredential(credentialVerificationModule, department, talent.address, CredentialType.EDUCATION)
+      ).to.be.revertedWith("CredentialVerification: issuer is not accredited for this credential");
+    });
+    
+    it("Should not restore delegations when a revoked parent is accredited again", async function () {
+      const { issuerAccreditationModule, credentialVerificationModule, admin, university, department, talent } =
+        await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      await issuerAccreditationModule.connect(university).delegate(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      await issuerAccreditationModule.connect(admin).revokeAccreditation(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash);
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      
+      expect(await issuerAccreditationModule.isAccredited(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash)).to.be.true;
+      expect(await issuerAccreditationModule.isAccredited(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash)).to.be.false;
+      await expect(
+        issueCredential(credentialVerificationModule, department, talent.address, CredentialType.EDUCATION)
+      ).to.be.revertedWith("CredentialVerification: issuer is not accredited for this credential");
+      
+      // The parent can grant the delegation again
+      await issuerAccreditationModule.connect(university).delegate(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      expect(await issuerAccreditationModule.isAccredited(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash)).to.be.true;
+    });
+    
+    it("Should keep delegations when an active parent accreditation is renewed", async function () {
+      const { issuerAccreditationModule, admin, university, department } = await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      const expiresAt = (await time.latest()) + YEAR;
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, expiresAt);
+      await issuerAccreditationModule.connect(university).delegate(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, expiresAt + YEAR);
+      
+      await time.increaseTo(expiresAt + 1);
+      expect(await issuerAccreditationModule.isAccredited(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash)).to.be.true;
+    });
+    
+    it("Should cascade removal of the parent's issuer role to its delegates", async function () {
+      const { issuerAccreditationModule, credentialVerificationModule, admin, university, department } =
+        await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      await issuerAccreditationModule.connect(university).delegate(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      
+      await credentialVerificationModule.connect(admin).removeIssuer(university.address);
+      
+      expect(await issuerAccreditationModule.isAccredited(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash)).to.be.false;
+      expect(await issuerAccreditationModule.isAccredited(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash)).to.be.false;
+    });
+    
+    it("Should only let the parent or an admin revoke a delegation", async function () {
+      const { issuerAccreditationModule, admin, university, department, otherIssuer } =
+        await loadFixture(deployIssuerAccreditationModuleFixture);
+      
+      await issuerAccreditationModule.connect(admin).accredit(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      await issuerAccreditationModule.connect(university).delegate(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash, 0);
+      
+      await expect(
+        issuerAccreditationModule.connect(otherIssuer).revokeAccreditation(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash)
+      ).to.be.revertedWith("IssuerAccreditation: caller cannot revoke this accreditation");
+      
+      // Parents cannot revoke their own direct accreditation
+      await expect(
+        issuerAccreditationModule.connect(university).revokeAccreditation(university.address, CredentialType.EDUCATION, hre.ethers.ZeroHash)
+      ).to.be.revertedWith("IssuerAccreditation: caller cannot revoke this accreditation");
+      
+      await issuerAccreditationModule.connect(university).revokeAccreditation(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash);
+      expect(await issuerAccreditationModule.isAccredited(department.address, CredentialType.EDUCATION, hre.ethers.ZeroHash)).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { emailArgs, issueCredential } from "./helpers";
+
+describe("IssuerDirectoryModule", function () {
+  // Define enum values to match the contract
+  const VerificationStatus = {
+    PENDING: 0,
+    VERIFIED: 1,
+    REJECTED: 2,
+    REVOKED: 3
+  };
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployIssuerDirectoryModuleFixture() {
+    const [admin, university, bootcamp, employer, talent, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy IssuerDirectoryModule
+    const IssuerDirectoryModuleFactory = await hre.ethers.getContractFactory("IssuerDirectoryModule");
+    const issuerDirectoryModule = await IssuerDirectoryModuleFactory.deploy(
+      userProfileModule.target as unknown as string,
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    await issuerDirectoryModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Register the issuers
+    for (const issuer of [university, bootcamp, employer]) {
+      await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    }
+    
+    // Create the university and subject profiles
+    await userProfileModule.connect(university).createProfile("State University", "Public university", ...emailArgs("registrar@state.edu"), "avatar", "");
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "");
+    
+    return {
+      issuerDirectoryModule,
+      credentialVerificationModule,
+      userProfileModule,
+      admin,
+      university,
+      bootcamp,
+      employer,
+      talent,
+      outsider
+    };
+  }
+  
+  describe("Issuer Stats", function () {
+    it("Should count issued, verified, rejected and revoked credentials", async function () {
+      const { credentialVerificationModule, university, talent } = await loadFixture(deployIssuerDirectoryModuleFixture);
+      
+      const verified = await issueCredential(credentialVerificationModule, university, talent.address);
+      const rejected = await issueCredential(credentialVerificationModule, university, talent.address);
+      await issueCredential(credentialVerificationModule, university, talent.address);
+      
+      await credentialVerificationModule.connect(university).verifyCredential(verified, VerificationStatus.VERIFIED, "Verified");
+      await credentialVerificationModule.connect(university).verifyCredential(rejected, VerificationStatus.REJECTED, "Rejected");
+      await credentialVerificationModule.connect(university).revokeCredential(verified, "Fraudulent");
+      
+      const stats = await credentialVerificationModule.getIssuerStats(university.address);
+      expect(stats.issuedCount).to.equal(3);
+      expect(stats.verifiedCount).to.equal(1);
+      expect(stats.rejectedCount).to.equal(1);
+      expect(stats.revokedCount).to.equal(1);
+    });
+    
+    it("Should record the first and last issuance times", async function () {
+      const { credentialVerificationModule, university, bootcamp, talent } = await loadFixture(deployIssuerDirectoryModuleFixture);
+      
+      await issueCredential(credentialVerificationModule, university, talent.address);
+      const firstIssuance = await time.latest();
+      
+      await time.increase(30 * 24 * 60 * 60);
+      await issueCredential(credentialVerificationModule, university, talent.address);
+      const lastIssuance = await time.latest();
+      
+      const stats = await credentialVerificationModule.getIssuerStats(university.address);
+      expect(stats.firstIssuanceDate).to.equal(firstIssuance);
+      expect(stats.lastIssuanceDate).to.equal(lastIssuance);
+      
+      const inactive = await credentialVerificationModule.getIssuerStats(bootcamp.address);
+      expect(inactive.issuedCount).to.equal(0);
+      expect(inactive.firstIssuanceDate).to.equal(0);
+    });
+  });
+  
+  describe("Issuer Metadata", function () {
+    it("Should let issuers set their display metadata", async function () {
+      const { issuerDirectoryModule, bootcamp } = await loadFixture(deployIssuerDirectoryModuleFixture);
+      
+      await expect(
+        issuerDirectoryModule.connect(bootcamp).setIssuerMetadata("Code Bootcamp", "https://bootcamp.dev", "ipfs://QmLogo", "Coding bootcamp")
+      )
+        .to.emit(issuerDirectoryModule, "IssuerMetadataUpdated")
+        .withArgs(bootcamp.address, "Code Bootcamp");
+      
+      const entry = await issuerDirectoryModule.getIssuer(bootcamp.address);
+      expect(entry.displayName).to.equal("Code Bootcamp");
+      expect(entry.metadata.website).to.equal("https://bootcamp.dev");
+      expect(entry.hasProfile).to.be.false;
+      expect(entry.active).to.be.true;
+    });
+    
+    it("Should fall back to the issuer's profile name", async function () {
+      const { issuerDirectoryModule, university } = await loadFixture(deployIssuerDirectoryModuleFixture);
+      
+      let entry = await issuerDirectoryModule.getIssuer(university.address);
+      expect(entry.hasProfile).to.be.true;
+      expect(entry.displayName).to.equal("State University");
+      
+      await issuerDirectoryModule.connect(university).setIssuerMetadata("", "https://state.edu", "ipfs://QmLogo", "");
+      entry = await issuerDirectoryModule.getIssuer(university.address);
+      expect(entry.displayName).to.equal("State University");
+      expect(entry.metadata.website).to.equal("https://state.edu");
+    });
+    
+    it("Should list issuers whose profile was erased without a profile name", async function () {
+      const { issuerDirectoryModule, userProfileModule, university } = await loadFixture(deployIssuerDirectoryModuleFixture);
+      
+      await userProfileModule.connect(university).eraseProfile(university.address);
+      
+      const entry = await issuerDirectoryModule.getIssuer(university.address);
+      expect(entry.hasProfile).to.be.false;
+      expect(entry.displayName).to.equal("");
+      
+      const [page] = await issuerDirectoryModule.getIssuers(0, 10, false);
+      expect(page[0].issuer).to.equal(university.address);
+      expect(page[0].hasProfile).to.be.false;
+    });
+    
+    it("Should restrict metadata to issuers and clearing to admins", async function () {
+      const { issuerDirectoryModule, admin, bootcamp, outsider } = await loadFixture(deployIssuerDirectoryModuleFixture);
+      
+      await expect(
+        issuerDirectoryModule.connect(outsider).setIssuerMetadata("Fake University", "", "", "")
+      ).to.be.revertedWith("IssuerDirectory: caller is not an issuer");
+      
+      await issuerDirectoryModule.connect(bootcamp).setIssuerMetadata("Harvard", "", "", "");
+      
+      await expect(
+        issuerDirectoryModule.connect(outsider).clearIssuerMetadata(bootcamp.address)
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+      
+      await expect(issuerDirectoryModule.connect(admin).clearIssuerMetadata(bootcamp.address))
+        .to.emit(issuerDirectoryModule, "IssuerMetadataCleared")
+        .withArgs(bootcamp.address, admin.address);
+      
+      expect((await issuerDirectoryModule.getIssuer(bootcamp.address)).displayName).to.equal("");
+    });
+  });
+  
+  describe("Directory Listing", function () {
+    it("Should page through all issuers with their stats", async function () {
+      const { issuerDirectoryModule, credentialVerificationModule, university, bootcamp, employer, talent } =
+        await loadFixture(deployIssuerDirectoryModuleFixture);
+      
+      await issueCredential(credentialVerificationModule, bootcamp, talent.address);
+      
+      expect(await issuerDirectoryModule.getIssuerCount()).to.equal(3);
+      
+      const [firstPage, nextOffset] = await issuerDirectoryModule.getIssuers(0, 2, false);
+      expect(firstPage.map(entry => entry.issuer)).to.deep.equal([university.address, bootcamp.address]);
+      expect(firstPage[1].stats.issuedCount).to.equal(1);
+      expect(nextOffset).to.equal(2);
+      
+      const [lastPage, endOffset] = await issuerDirectoryModule.getIssuers(nextOffset, 2, false);
+      expect(lastPage.map(entry => entry.issuer)).to.deep.equal([employer.address]);
+      expect(endOffset).to.equal(3);
+      
+      const [emptyPage] = await issuerDirectoryModule.getIssuers(endOffset, 2, false);
+      expect(emptyPage.length).to.equal(0);
+    });
+    
+    it("Should keep removed issuers listed but skip them in active listings", async function () {
+      const { issuerDirectoryModule, credentialVerificationModule, admin, university, bootcamp, employer } =
+        await loadFixture(deployIssuerDirectoryModuleFixture);
+      
+      await credentialVerificationModule.connect(admin).removeIssuer(bootcamp.address);
+      
+      const [all] = await issuerDirectoryModule.getIssuers(0, 10, false);
+      expect(all.map(entry => [entry.issuer, entry.active])).to.deep.equal([
+        [university.address, true],
+        [bootcamp.address, false],
+        [employer.address, true]
+      ]);
+      
+      // Active pages scan a fixed number of positions, so they may come back short
+      const [firstPage, nextOffset] = await issuerDirectoryModule.getIssuers(0, 2, true);
+      expect(firstPage.map(entry => entry.issuer)).to.deep.equal([university.address]);
+      expect(nextOffset).to.equal(2);
+      
+      const [secondPage, endOffset] = await issuerDirectoryModule.getIssuers(nextOffset, 2, true);
+      expect(secondPage.map(entry => entry.issuer)).to.deep.equal([employer.address]);
+      expect(endOffset).to.equal(3);
+      
+      // Re-adding an issuer does not list it twice
+      await credentialVerificationModule.connect(admin).addIssuer(bootcamp.address);
+      expect(await issuerDirectoryModule.getIssuerCount()).to.equal(3);
+    });
+  });
+});
@@ -0,0 +1,365 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CredentialVerificationModule, OpportunityModule } from "../typechain-types";
+import { emailArgs, findEvent, issueCredential } from "./helpers";
+
+describe("OpportunityModule", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0,
+    CERTIFICATION: 1,
+    EXPERIENCE: 2
+  };
+  
+  const VerificationStatus = {
+    PENDING: 0,
+    VERIFIED: 1
+  };
+  
+  const ApplicationStatus = {
+    NONE: 0,
+    SUBMITTED: 1,
+    SHORTLISTED: 2,
+    REJECTED: 3,
+    HIRED: 4,
+    WITHDRAWN: 5
+  };
+  
+  const Permission = {
+    POST: 4
+  };
+  
+  const ONE_WEEK = 7 * 24 * 60 * 60;
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployOpportunityModuleFixture() {
+    const [admin, organization, recruiter, talent, otherTalent, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Then deploy CredentialSchemaModule and OrganizationModule
+    const CredentialSchemaModuleFactory = await hre.ethers.getContractFactory("CredentialSchemaModule");
+    const credentialSchemaModule = await CredentialSchemaModuleFactory.deploy(roleModule.target as unknown as string);
+    
+    const OrganizationModuleFactory = await hre.ethers.getContractFactory("OrganizationModule");
+    const organizationModule = await OrganizationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Finally deploy OpportunityModule
+    const OpportunityModuleFactory = await hre.ethers.getContractFactory("OpportunityModule");
+    const opportunityModule = await OpportunityModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string,
+      credentialVerificationModule.target as unknown as string,
+      organizationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    await credentialVerificationModule.connect(admin).setSchemaModule(credentialSchemaModule.target as unknown as string);
+    
+    // The organization issues credentials and lets its recruiter post opportunities
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, organization.address);
+    await credentialVerificationModule.connect(admin).addIssuer(organization.address);
+    await organizationModule.connect(organization).registerOrganization(
+      "Acme Corp",
+      "Talent for everyone",
+      "https://acme.example",
+      "ipfs://QmLogo"
+    );
+    await organizationModule.connect(organization).addMember(organization.address, recruiter.address, Permission.POST);
+    
+    // Create the talent profiles
+    await userProfileModule.connect(talent).createProfile("Talent", "Bio", ...emailArgs("talent@example.com"), "avatar", "");
+    await userProfileModule.connect(otherTalent).createProfile("Other Talent", "Bio", ...emailArgs("other@example.com"), "avatar", "");
+    
+    // Register a degree schema
+    const schemaTx = await credentialSchemaModule.connect(organization).registerSchema(
+      "UniversityDegree",
+      CredentialType.EDUCATION,
+      "ipfs://QmSchema",
+      hre.ethers.keccak256(hre.ethers.toUtf8Bytes("schema"))
+    );
+    const schemaEvent = await findEvent(schemaTx, credentialSchemaModule, "SchemaRegistered");
+    const degreeSchema: string = schemaEvent.args[0];
+    
+    return {
+      opportunityModule,
+      organizationModule,
+      credentialVerificationModule,
+      userProfileModule,
+      roleModule,
+      degreeSchema,
+      admin,
+      organization,
+      recruiter,
+      talent,
+      otherTalent,
+      outsider
+    };
+  }
+  
+  async function issueVerifiedCredential(
+    credentialVerificationModule: CredentialVerificationModule,
+    issuer: HardhatEthersSigner,
+    subject: HardhatEthersSigner,
+    credentialType: number,
+    schemaId?: string
+  ) {
+    const evidenceHash = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("evidence"));
+    const tx = schemaId
+      ? await credentialVerificationModule.connect(issuer).issueCredentialWithSchema(
+        subject.address, "Bachelor of Science", "Computer Science", "ipfs://QmHash", schemaId, 0, evidenceHash, true
+      )
+      : await credentialVerificationModule.connect(issuer).issueCredential(
+        subject.address, "Credential", "Description", "ipfs://QmHash", credentialType, 0, evidenceHash, true
+      );
+    const event = await findEvent(tx, credentialVerificationModule, "CredentialIssued");
+    const credentialId = event.args[0];
+    
+    await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Verified");
+    await credentialVerificationModule.connect(subject).acceptCredential(credentialId);
+    return credentialId;
+  }
+  
+  async function publish(
+    opportunityModule: OpportunityModule,
+    signer: HardhatEthersSigner,
+    organization: string,
+    requiredTypes: number[] = [],
+    requiredSchemas: string[] = []
+  ) {
+    const deadline = (await time.latest()) + ONE_WEEK;
+    const tx = await opportunityModule.connect(signer).publishOpportunity(
+      organization,
+      "ipfs://QmOpportunity",
+      deadline,
+      requiredTypes,
+      requiredSchemas
+    );
+    const event = await findEvent(tx, opportunityModule, "OpportunityPublished");
+    return event.args[0];
+  }
+  
+  describe("Publishing", function () {
+    it("Should let an organization publish an opportunity", async function () {
+      const { opportunityModule, organization, degreeSchema } = await loadFixture(deployOpportunityModuleFixture);
+      
+      const id = await publish(opportunityModule, organization, organization.address, [CredentialType.EXPERIENCE], [degreeSchema]);
+      
+      const opportunity = await opportunityModule.getOpportunity(id);
+      expect(opportunity.organization).to.equal(organization.address);
+      expect(opportunity.poster).to.equal(organization.address);
+      expect(opportunity.metadataURI).to.equal("ipfs://QmOpportunity");
+      expect(opportunity.requiredTypes).to.deep.equal([BigInt(CredentialType.EXPERIENCE)]);
+      expect(opportunity.requiredSchemas).to.deep.equal([degreeSchema]);
+      expect(opportunity.open).to.be.true;
+      expect(await opportunityModule.isAcceptingApplications(id)).to.be.true;
+      expect(await opportunityModule.getOrganizationOpportunities(organization.address)).to.deep.equal([id]);
+    });
+    
+    it("Should let members with the post permission publish for the organization", async function () {
+      const { opportunityModule, organization, recruiter } = await loadFixture(deployOpportunityModuleFixture);
+      
+      const id = await publish(opportunityModule, recruiter, organization.address);
+      
+      const opportunity = await opportunityModule.getOpportunity(id);
+      expect(opportunity.organization).to.equal(organization.address);
+      expect(opportunity.poster).to.equal(recruiter.address);
+    });
+    
+    it("Should reject invalid publishers and deadlines", async function () {
+      const { opportunityModule, organization, outsider } = await loadFixture(deployOpportunityModuleFixture);
+      
+      const deadline = (await time.latest()) + ONE_WEEK;
+      await expect(
+        opportunityModule.connect(outsider).publishOpportunity(organization.address, "ipfs://QmOpportunity", deadline, [], [])
+      ).to.be.revertedWith("Opportunity: caller cannot post for organization");
+      
+      await expect(
+        opportunityModule.connect(outsider).publishOpportunity(outsider.address, "ipfs://QmOpportunity", deadline, [], [])
+      ).to.be.revertedWith("Opportunity: not an organization");
+      
+      await expect(
+        opportunityModule.connect(organization).publishOpportunity(organization.address, "ipfs://QmOpportunity", await time.latest(), [], [])
+      ).to.be.revertedWith("Opportunity: deadline must be in the future");
+    });
+    
+    it("Should stop accepting applications once closed or past the deadline", async function () {
+      const { opportunityModule, organization, talent, outsider } = await loadFixture(deployOpportunityModuleFixture);
+      
+      const closedId = await publish(opportunityModule, organization, organization.address);
+      const expiredId = await publish(opportunityModule, organization, organization.address);
+      
+      await expect(
+        opportunityModule.connect(outsider).closeOpportunity(closedId)
+      ).to.be.revertedWith("Opportunity: caller cannot post for organization");
+      
+      await expect(opportunityModule.connect(organization).closeOpportunity(closedId))
+        .to.emit(opportunityModule, "OpportunityClosed")
+        .withArgs(closedId, organization.address);
+      
+      await expect(
+        opportunityModule.connect(talent).applyToOpportunity(closedId, [])
+      ).to.be.revertedWith("Opportunity: opportunity is not accepting applications");
+      
+      await time.increase(ONE_WEEK + 1);
+      expect(await opportunityModule.isAcceptingApplications(expiredId)).to.be.false;
+      await expect(
+        opportunityModule.connect(talent).applyToOpportunity(expiredId, [])
+      ).to.be.revertedWith("Opportunity: opportunity is not accepting applications");
+    });
+  });
+  
+  describe("Applications", function () {
+    it("Should accept talents holding the required credentials", async function () {
+      const { opportunityModule, credentialVerificationModule, organization, talent, degreeSchema } = await loadFixture(deployOpportunityModuleFixture);
+      
+      const id = await publish(opportunityModule, organization, organization.address, [CredentialType.EXPERIENCE], [degreeSchema]);
+      const experience = await issueVerifiedCredential(credentialVerificationModule, organization, talent, CredentialType.EXPERIENCE);
+      const degree = await issueVerifiedCredential(credentialVerificationModule, organization, talent, CredentialType.EDUCATION, degreeSchema);
+      
+      expect(await opportunityModule.meetsRequirements(id, talent.address, [experience])).to.be.false;
+      expect(await opportunityModule.meetsRequirements(id, talent.address, [degree, experience])).to.be.true;
+      
+      await expect(opportunityModule.connect(talent).applyToOpportunity(id, [degree, experience]))
+        .to.emit(opportunityModule, "ApplicationSubmitted")
+        .withArgs(id, talent.address);
+      
+      const application = await opportunityModule.getApplication(id, talent.address);
+      expect(application.status).to.equal(ApplicationStatus.SUBMITTED);
+      expect(application.credentialIds).to.deep.equal([degree, experience]);
+      expect(await opportunityModule.getApplicants(id)).to.deep.equal([talent.address]);
+      expect(await opportunityModule.getTalentApplications(talent.address)).to.deep.equal([id]);
+      expect((await opportunityModule.getOpportunity(id)).applicationCount).to.equal(1);
+      
+      await expect(
+        opportunityModule.connect(talent).applyToOpportunity(id, [degree, experience])
+      ).to.be.revertedWith("Opportunity: already applied");
+    });
+    
+    it("Should reject credentials that are missing, unverified or held by someone else", async function () {
+      const { opportunityModule, credentialVerificationModule, organization, talent, otherTalent } = await loadFixture(deployOpportunityModuleFixture);
+      
+      const id = await publish(opportunityModule, organization, organization.address, [CredentialType.EXPERIENCE]);
+      
+      await expect(
+        opportunityModule.connect(talent).applyToOpportunity(id, [])
+      ).to.be.revertedWith("Opportunity: credential requirements not met");
+      
+      // A credential the subject has not accepted is not valid yet
+      const pending = await issueCredential(credentialVerificationModule, organization, talent.address, {
+        name: "Credential",
+        credentialType: CredentialType.EXPERIENCE
+      });
+      await expect(
+        opportunityModule.connect(talent).applyToOpportunity(id, [pending])
+      ).to.be.revertedWith("Opportunity: credential requirements not met");
+      
+      const experience = await issueVerifiedCredential(credentialVerificationModule, organization, talent, CredentialType.EXPERIENCE);
+      await expect(
+        opportunityModule.connect(otherTalent).applyToOpportunity(id, [experience])
+      ).to.be.revertedWith("Opportunity: credential requirements not met");
+    });
+    
+    it("Should require an active profile to apply", async function () {
+      const { opportunityModule, userProfileModule, organization, talent, outsider } = await loadFixture(deployOpportunityModuleFixture);
+      
+      const id = await publish(opportunityModule, organization, organization.address);
+      
+      await expect(
+        opportunityModule.connect(outsider).applyToOpportunity(id, [])
+      ).to.be.revertedWith("Opportunity: profile is not active");
+      
+      await userProfileModule.connect(talent).deactivateProfile(talent.address);
+      await expect(
+        opportunityModule.connect(talent).applyToOpportunity(id, [])
+      ).to.be.revertedWith("Opportunity: profile is not active");
+    });
+  });
+  
+  describe("Review", function () {
+    it("Should move applications through shortlisted, rejected and hired", async function () {
+      const { opportunityModule, organization, recruiter, talent, otherTalent } = await loadFixture(deployOpportunityModuleFixture);
+      
+      const id = await publish(opportunityModule, organization, organization.address);
+      await opportunityModule.connect(talent).applyToOpportunity(id, []);
+      await opportunityModule.connect(otherTalent).applyToOpportunity(id, []);
+      
+      await expect(opportunityModule.connect(recruiter).updateApplicationStatus(id, talent.address, ApplicationStatus.SHORTLISTED))
+        .to.emit(opportunityModule, "ApplicationStatusChanged")
+        .withArgs(id, talent.address, ApplicationStatus.SHORTLISTED, recruiter.address);
+      await opportunityModule.connect(organization).updateApplicationStatus(id, talent.address, ApplicationStatus.HIRED);
+      await opportunityModule.connect(organization).updateApplicationStatus(id, otherTalent.address, ApplicationStatus.REJECTED);
+      
+      expect((await opportunityModule.getApplication(id, talent.address)).status).to.equal(ApplicationStatus.HIRED);
+      expect((await opportunityModule.getApplication(id, otherTalent.address)).status).to.equal(ApplicationStatus.REJECTED);
+      
+      // Final states cannot change
+      await expect(
+        opportunityModule.connect(organization).updateApplicationStatus(id, otherTalent.address, ApplicationStatus.SHORTLISTED)
+      ).to.be.revertedWith("Opportunity: invalid status transition");
+    });
+    
+    it("Should reject invalid transitions and unauthorized reviewers", async function () {
+      const { opportunityModule, organization, talent, outsider } = await loadFixture(deployOpportunityModuleFixture);
+      
+      const id = await publish(opportunityModule, organization, organization.address);
+      await opportunityModule.connect(talent).applyToOpportunity(id, []);
+      
+      await expect(
+        opportunityModule.connect(organization).updateApplicationStatus(id, talent.address, ApplicationStatus.HIRED)
+      ).to.be.revertedWith("Opportunity: invalid status transition");
+      
+      await expect(
+        opportunityModule.connect(organization).updateApplicationStatus(id, outsider.address, ApplicationStatus.SHORTLISTED)
+      ).to.be.revertedWith("Opportunity: invalid status transition");
+      
+      await expect(
+        opportunityModule.connect(outsider).updateApplicationStatus(id, talent.address, ApplicationStatus.SHORTLISTED)
+      ).to.be.revertedWith("Opportunity: caller cannot post for organization");
+    });
+    
+    it("Should let applicants withdraw applications under review", async function () {
+      const { opportunityModule, organization, talent } = await loadFixture(deployOpportunityModuleFixture);
+      
+      const id = await publish(opportunityModule, organization, organization.address);
+      await opportunityModule.connect(talent).applyToOpportunity(id, []);
+      
+      await opportunityModule.connect(talent).withdrawApplication(id);
+      expect((await opportunityModule.getApplication(id, talent.address)).status).to.equal(ApplicationStatus.WITHDRAWN);
+      
+      await expect(
+        opportunityModule.connect(talent).withdrawApplication(id)
+      ).to.be.revertedWith("Opportunity: application cannot be withdrawn");
+      await expect(
+        opportunityModule.connect(organization).updateApplicationStatus(id, talent.address, ApplicationStatus.SHORTLISTED)
+      ).to.be.revertedWith("Opportunity: invalid status transition");
+    });
+  });
+});
@@ -0,0 +1,345 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CredentialVerificationModule, OrganizationModule } from "../typechain-types";
+import { emailArgs, findEvent } from "./helpers";
+
+describe("OrganizationModule", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0,
+    CERTIFICATION: 1
+  };
+  
+  const VerificationStatus = {
+    PENDING: 0,
+    VERIFIED: 1,
+    REJECTED: 2,
+    REVOKED: 3
+  };
+  
+  const RecordType = {
+    VERIFICATION: 0,
+    ISSUANCE: 4
+  };
+  
+  const Permission = {
+    ISSUE: 1,
+    VERIFY: 2,
+    POST: 4,
+    MANAGE: 8,
+    ALL: 15
+  };
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployOrganizationModuleFixture() {
+    const [admin, organization, recruiter, hrManager, talent, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy OrganizationModule
+    const OrganizationModuleFactory = await hre.ethers.getContractFactory("OrganizationModule");
+    const organizationModule = await OrganizationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    const CREDENTIAL_MODULE_ROLE = await credentialVerificationModule.CREDENTIAL_MODULE_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, organizationModule.target);
+    await organizationModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // The organization account is an issuer and registers itself
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, organization.address);
+    await credentialVerificationModule.connect(admin).addIssuer(organization.address);
+    await organizationModule.connect(organization).registerOrganization(
+      "Acme Corp",
+      "Talent for everyone",
+      "https://acme.example",
+      "ipfs://QmLogo"
+    );
+    
+    // Create the talent profile
+    await userProfileModule.connect(talent).createProfile("Talent", "Bio", ...emailArgs("talent@example.com"), "avatar", "");
+    
+    const request = {
+      subject: talent.address,
+      name: "Internship Completion",
+      description: "Completed a six month internship",
+      metadataURI: "ipfs://QmHash",
+      credentialType: CredentialType.CERTIFICATION,
+      expirationDate: 0,
+      evidenceHash: hre.ethers.keccak256(hre.ethers.toUtf8Bytes("evidence")),
+      revocable: true,
+      schemaId: hre.ethers.ZeroHash
+    };
+    
+    return {
+      organizationModule,
+      credentialVerificationModule,
+      roleModule,
+      request,
+      admin,
+      organization,
+      recruiter,
+      hrManager,
+      talent,
+      outsider
+    };
+  }
+  
+  async function issueThroughOrganization(
+    organizationModule: OrganizationModule,
+    member: HardhatEthersSigner,
+    organization: string,
+    request: CredentialVerificationModule.CredentialRequestStruct
+  ) {
+    const tx = await organizationModule.connect(member).issueCredential(organization, request);
+    const event = await findEvent(tx, organizationModule, "OrganizationCredentialIssued");
+    return event.args[1];
+  }
+  
+  describe("Registration", function () {
+    it("Should register the organization with its account as owner", async function () {
+      const { organizationModule, organization } = await loadFixture(deployOrganizationModuleFixture);
+      
+      const org = await organizationModule.getOrganization(organization.address);
+      expect(org.name).to.equal("Acme Corp");
+      expect(org.website).to.equal("https://acme.example");
+      expect(org.active).to.be.true;
+      expect(await organizationModule.isOrganization(organization.address)).to.be.true;
+      expect(await organizationModule.getOrganizations()).to.deep.equal([organization.address]);
+      
+      const owner = await organizationModule.getMember(organization.address, organization.address);
+      expect(owner.owner).to.be.true;
+      expect(owner.permissions).to.equal(Permission.ALL);
+    });
+    
+    it("Should only register accounts with the organization role, once", async function () {
+      const { organizationModule, organization, outsider } = await loadFixture(deployOrganizationModuleFixture);
+      
+      await expect(
+        organizationModule.connect(outsider).registerOrganization("Other", "", "", "")
+      ).to.be.revertedWith("Organization: caller does not have organization role");
+      
+      await expect(
+        organizationModule.connect(organization).registerOrganization("Acme Again", "", "", "")
+      ).to.be.revertedWith("Organization: organization already registered");
+    });
+    
+    it("Should let managers update the profile", async function () {
+      const { organizationModule, organization, hrManager, recruiter } = await loadFixture(deployOrganizationModuleFixture);
+      
+      await organizationModule.connect(organization).addMember(organization.address, hrManager.address, Permission.MANAGE);
+      await organizationModule.connect(organization).addMember(organization.address, recruiter.address, Permission.ISSUE);
+      
+      await expect(
+        organizationModule.connect(hrManager).updateOrganization(organization.address, "Acme Inc", "New", "https://acme.example", "")
+      ).to.emit(organizationModule, "OrganizationUpdated")
+        .withArgs(organization.address, "Acme Inc");
+      expect((await organizationModule.getOrganization(organization.address)).name).to.equal("Acme Inc");
+      
+      await expect(
+        organizationModule.connect(recruiter).updateOrganization(organization.address, "Hijacked", "", "", "")
+      ).to.be.revertedWith("Organization: caller cannot manage organization");
+    });
+  });
+  
+  describe("Members", function () {
+    it("Should add members with permissions", async function () {
+      const { organizationModule, organization, recruiter, outsider } = await loadFixture(deployOrganizationModuleFixture);
+      
+      await expect(organizationModule.connect(organization).addMember(organization.address, recruiter.address, Permission.ISSUE | Permission.POST))
+        .to.emit(organizationModule, "MemberAdded")
+        .withArgs(organization.address, recruiter.address, Permission.ISSUE | Permission.POST);
+      
+      expect(await organizationModule.hasPermission(organization.address, recruiter.address, Permission.ISSUE)).to.be.true;
+      expect(await organizationModule.hasPermission(organization.address, recruiter.address, Permission.POST)).to.be.true;
+      expect(await organizationModule.hasPermission(organization.address, recruiter.address, Permission.VERIFY)).to.be.false;
+      expect(await organizationModule.getAccountOrganizations(recruiter.address)).to.deep.equal([organization.address]);
+      expect((await organizationModule.getMembers(organization.address)).map((member) => member.account))
+        .to.deep.equal([organization.address, recruiter.address]);
+      
+      await expect(
+        organizationModule.connect(organization).addMember(organization.address, recruiter.address, Permission.ISSUE)
+      ).to.be.revertedWith("Organization: account is already a member");
+      
+      await expect(
+        organizationModule.connect(organization).addMember(organization.address, outsider.address, 16)
+      ).to.be.revertedWith("Organization: invalid permissions");
+      
+      await expect(
+        organizationModule.connect(recruiter).addMember(organization.address, outsider.address, Permission.ISSUE)
+      ).to.be.revertedWith("Organization: caller cannot manage members");
+    });
+    
+    it("Should keep managers from managing owners and other managers", async function () {
+      const { organizationModule, organization, hrManager, recruiter, outsider } = await loadFixture(deployOrganizationModuleFixture);
+      
+      await organizationModule.connect(organization).addMember(organization.address, hrManager.address, Permission.MANAGE);
+      await organizationModule.connect(hrManager).addMember(organization.address, recruiter.address, Permission.ISSUE);
+      await organizationModule.connect(organization).addMember(organization.address, outsider.address, Permission.MANAGE);
+      
+      await organizationModule.connect(hrManager).updateMemberPermissions(organization.address, recruiter.address, Permission.ISSUE | Permission.VERIFY);
+      expect((await organizationModule.getMember(organization.address, recruiter.address)).permissions)
+        .to.equal(Permission.ISSUE | Permission.VERIFY);
+      
+      await expect(
+        organizationModule.connect(hrManager).removeMember(organization.address, outsider.address)
+      ).to.be.revertedWith("Organization: only owners can manage managers");
+      
+      await expect(
+        organizationModule.connect(hrManager).removeMember(organization.address, organization.address)
+      ).to.be.revertedWith("Organization: only owners can manage managers");
+      
+      await expect(organizationModule.connect(hrManager).removeMember(organization.address, recruiter.address))
+        .to.emit(organizationModule, "MemberRemoved")
+        .withArgs(organization.address, recruiter.address);
+      expect(await organizationModule.getAccountOrganizations(recruiter.address)).to.deep.equal([]);
+      expect(await organizationModule.hasPermission(organization.address, recruiter.address, Permission.ISSUE)).to.be.false;
+    });
+    
+    it("Should only let owners grant the manage permission", async function () {
+      const { organizationModule, organization, hrManager, recruiter, outsider } = await loadFixture(deployOrganizationModuleFixture);
+      
+      await organizationModule.connect(organization).addMember(organization.address, hrManager.address, Permission.MANAGE);
+      await organizationModule.connect(hrManager).addMember(organization.address, recruiter.address, Permission.ISSUE);
+      
+      await expect(
+        organizationModule.connect(hrManager).addMember(organization.address, outsider.address, Permission.MANAGE)
+      ).to.be.revertedWith("Organization: only owners can grant manage permission");
+      
+      await expect(
+        organizationModule.connect(hrManager).updateMemberPermissions(organization.address, recruiter.address, Permission.ISSUE | Permission.MANAGE)
+      ).to.be.revertedWith("Organization: only owners can grant manage permission");
+      
+      await organizationModule.connect(organization).updateMemberPermissions(organization.address, recruiter.address, Permission.ISSUE | Permission.MANAGE);
+      expect(await organizationModule.hasPermission(organization.address, recruiter.address, Permission.MANAGE)).to.be.true;
+    });
+    
+    it("Should let members leave and owners transfer ownership", async function () {
+      const { organizationModule, organization, recruiter, hrManager } = await loadFixture(deployOrganizationModuleFixture);
+      
+      await organizationModule.connect(organization).addMember(organization.address, recruiter.address, Permission.ISSUE);
+      await organizationModule.connect(recruiter).removeMember(organization.address, recruiter.address);
+      expect((await organizationModule.getMembers(organization.address)).length).to.equal(1);
+      
+      await expect(
+        organizationModule.connect(organization).removeMember(organization.address, organization.address)
+      ).to.be.revertedWith("Organization: cannot remove the last owner");
+      
+      await organizationModule.connect(organization).addMember(organization.address, hrManager.address, Permission.MANAGE);
+      await expect(organizationModule.connect(organization).setOwner(organization.address, hrManager.address, true))
+        .to.emit(organizationModule, "OwnershipUpdated")
+        .withArgs(organization.address, hrManager.address, true);
+      expect((await organizationModule.getMember(organization.address, hrManager.address)).permissions).to.equal(Permission.ALL);
+      
+      // The new owner can demote the original account
+      await organizationModule.connect(hrManager).setOwner(organization.address, organization.address, false);
+      expect((await organizationModule.getMember(organization.address, organization.address)).owner).to.be.false;
+      
+      await expect(
+        organizationModule.connect(hrManager).setOwner(organization.address, hrManager.address, false)
+      ).to.be.revertedWith("Organization: cannot remove the last owner");
+    });
+  });
+  
+  describe("Credentials", function () {
+    it("Should let members issue credentials for the organization", async function () {
+      const { organizationModule, credentialVerificationModule, organization, recruiter, request } =
+        await loadFixture(deployOrganizationModuleFixture);
+      
+      await organizationModule.connect(organization).addMember(organization.address, recruiter.address, Permission.ISSUE);
+      
+      const credentialId = await issueThroughOrganization(organizationModule, recruiter, organization.address, request);
+      
+      // The credential records the organization as issuer and the member as the actor
+      const credential = await credentialVerificationModule.getCredentialData(credentialId);
+      expect(credential.issuer).to.equal(organization.address);
+      expect(credential.subject).to.equal(request.subject);
+      expect(await organizationModule.getCredentialActor(credentialId)).to.equal(recruiter.address);
+      expect(await credentialVerificationModule.getIssuerCredentials(organization.address)).to.deep.equal([credentialId]);
+      
+      // The member is recorded in the credential's history without changing its status
+      const history = await credentialVerificationModule.getVerificationHistory(credentialId);
+      expect(history.length).to.equal(1);
+      expect(history[0].verifier).to.equal(recruiter.address);
+      expect(history[0].recordType).to.equal(RecordType.ISSUANCE);
+      expect(credential.status).to.equal(VerificationStatus.PENDING);
+    });
+    
+    it("Should let members verify the organization's credentials", async function () {
+      const { organizationModule, credentialVerificationModule, organization, recruiter, hrManager, request } =
+        await loadFixture(deployOrganizationModuleFixture);
+      
+      await organizationModule.connect(organization).addMember(organization.address, recruiter.address, Permission.ISSUE);
+      await organizationModule.connect(organization).addMember(organization.address, hrManager.address, Permission.VERIFY);
+      const credentialId = await issueThroughOrganization(organizationModule, recruiter, organization.address, request);
+      
+      await expect(
+        organizationModule.connect(recruiter).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Checked")
+      ).to.be.revertedWith("Organization: caller cannot verify for organization");
+      
+      await expect(
+        organizationModule.connect(hrManager).verifyCredential(credentialId, VerificationStatus.REVOKED, "Revoked")
+      ).to.be.revertedWith("Organization: status must be VERIFIED or REJECTED");
+      
+      await expect(organizationModule.connect(hrManager).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Checked"))
+        .to.emit(organizationModule, "OrganizationCredentialVerified")
+        .withArgs(organization.address, credentialId, hrManager.address, VerificationStatus.VERIFIED);
+      
+      // The acting member is the verifier in the history
+      const history = await credentialVerificationModule.getVerificationHistory(credentialId);
+      expect(history[history.length - 1].verifier).to.equal(hrManager.address);
+      expect(history[history.length - 1].recordType).to.equal(RecordType.VERIFICATION);
+      expect((await credentialVerificationModule.getCredentialData(credentialId)).status).to.equal(VerificationStatus.VERIFIED);
+    });
+    
+    it("Should block members without permission or of suspended organizations", async function () {
+      const { organizationModule, organization, admin, recruiter, outsider, request } =
+        await loadFixture(deployOrganizationModuleFixture);
+      
+      await organizationModule.connect(organization).addMember(organization.address, recruiter.address, Permission.POST);
+      await expect(
+        issueThroughOrganization(organizationModule, recruiter, organization.address, request)
+      ).to.be.revertedWith("Organization: caller cannot issue for organization");
+      
+      await expect(
+        issueThroughOrganization(organizationModule, outsider, organization.address, request)
+      ).to.be.revertedWith("Organization: caller cannot issue for organization");
+      
+      await expect(
+        organizationModule.connect(outsider).setOrganizationActive(organization.address, false)
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+      
+      await organizationModule.connect(admin).setOrganizationActive(organization.address, false);
+      expect(await organizationModule.hasPermission(organization.address, organization.address, Permission.ISSUE)).to.be.false;
+      await expect(
+        issueThroughOrganization(organizationModule, organization, organization.address, request)
+      ).to.be.revertedWith("Organization: caller cannot issue for organization");
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { PeerEndorsementModule } from "../typechain-types";
+import { emailArgs, findEvent } from "./helpers";
+
+describe("PeerEndorsementModule", function () {
+  // Define enum values to match the contract
+  const Relationship = {
+    COLLEAGUE: 0,
+    MANAGER: 1,
+    REPORT: 2,
+    CLIENT: 3,
+    MENTOR: 4,
+    CLASSMATE: 5,
+    OTHER: 6
+  };
+  
+  const EndorsementStatus = {
+    PENDING: 0,
+    APPROVED: 1,
+    HIDDEN: 2,
+    WITHDRAWN: 3
+  };
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployPeerEndorsementModuleFixture() {
+    const [admin, alice, bob, carol, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule and SkillRegistryModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    const SkillRegistryModuleFactory = await hre.ethers.getContractFactory("SkillRegistryModule");
+    const skillRegistryModule = await SkillRegistryModuleFactory.deploy(
+      userProfileModule.target as unknown as string,
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Finally deploy PeerEndorsementModule
+    const PeerEndorsementModuleFactory = await hre.ethers.getContractFactory("PeerEndorsementModule");
+    const peerEndorsementModule = await PeerEndorsementModuleFactory.deploy(
+      userProfileModule.target as unknown as string,
+      skillRegistryModule.target as unknown as string
+    );
+    
+    // Build a small taxonomy
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    await skillRegistryModule.grantRole(ADMIN_ROLE, admin.address);
+    await skillRegistryModule.connect(admin).addSkillTag("Solidity", "Blockchain");
+    await skillRegistryModule.connect(admin).addSkillTag("COBOL", "Programming");
+    await skillRegistryModule.connect(admin).setSkillTagActive(hre.ethers.id("COBOL"), false);
+    const solidity = hre.ethers.id("Solidity");
+    
+    // Create profiles
+    await userProfileModule.connect(alice).createProfile("Alice", "Bio", ...emailArgs("alice@example.com"), "avatar", "");
+    await userProfileModule.connect(bob).createProfile("Bob", "Bio", ...emailArgs("bob@example.com"), "avatar", "");
+    await userProfileModule.connect(carol).createProfile("Carol", "Bio", ...emailArgs("carol@example.com"), "avatar", "");
+    
+    return {
+      peerEndorsementModule,
+      userProfileModule,
+      solidity,
+      admin,
+      alice,
+      bob,
+      carol,
+      outsider
+    };
+  }
+  
+  async function writeEndorsement(
+    peerEndorsementModule: PeerEndorsementModule,
+    author: HardhatEthersSigner,
+    recipient: string,
+    skillId: string
+  ) {
+    const tx = await peerEndorsementModule.connect(author).writeEndorsement(
+      recipient,
+      skillId,
+      "ipfs://QmRecommendation",
+      Relationship.COLLEAGUE
+    );
+    const event = await findEvent(tx, peerEndorsementModule, "EndorsementWritten");
+    return event.args[0];
+  }
+  
+  describe("Writing Endorsements", function () {
+    it("Should let users endorse other profiles for a skill", async function () {
+      const { peerEndorsementModule, alice, bob, solidity } = await loadFixture(deployPeerEndorsementModuleFixture);
+      
+      await expect(peerEndorsementModule.connect(alice).writeEndorsement(bob.address, solidity, "ipfs://QmText", Relationship.MANAGER))
+        .to.emit(peerEndorsementModule, "EndorsementWritten");
+      
+      const [endorsements] = await peerEndorsementModule.getEndorsementsByRecipient(bob.address, 0, 10, false);
+      expect(endorsements.length).to.equal(1);
+      expect(endorsements[0].author).to.equal(alice.address);
+      expect(endorsements[0].skillId).to.equal(solidity);
+      expect(endorsements[0].textURI).to.equal("ipfs://QmText");
+      expect(endorsements[0].relationship).to.equal(Relationship.MANAGER);
+      expect(endorsements[0].status).to.equal(EndorsementStatus.PENDING);
+      
+      // General recommendations have no skill
+      const id = await writeEndorsement(peerEndorsementModule, bob, alice.address, hre.ethers.ZeroHash);
+      expect((await peerEndorsementModule.getEndorsement(id)).skillId).to.equal(hre.ethers.ZeroHash);
+    });
+    
+    it("Should reject invalid endorsements", async function () {
+      const { peerEndorsementModule, userProfileModule, alice, bob, outsider, solidity } =
+        await loadFixture(deployPeerEndorsementModuleFixture);
+      
+      await expect(
+        peerEndorsementModule.connect(alice).writeEndorsement(alice.address, solidity, "ipfs://QmText", Relationship.OTHER)
+      ).to.be.revertedWith("PeerEndorsement: cannot endorse yourself");
+      
+      await expect(
+        peerEndorsementModule.connect(outsider).writeEndorsement(bob.address, solidity, "ipfs://QmText", Relationship.OTHER)
+      ).to.be.revertedWith("PeerEndorsement: author profile is not active");
+      
+      await expect(
+        peerEndorsementModule.connect(alice).writeEndorsement(outsider.address, solidity, "ipfs://QmText", Relationship.OTHER)
+      ).to.be.revertedWith("PeerEndorsement: recipient profile is not active");
+      
+      await expect(
+        peerEndorsementModule.connect(alice).writeEndorsement(bob.address, solidity, "", Relationship.OTHER)
+      ).to.be.revertedWith("PeerEndorsement: text URI cannot be empty");
+      
+      await expect(
+        peerEndorsementModule.connect(alice).writeEndorsement(bob.address, hre.ethers.id("COBOL"), "ipfs://QmText", Relationship.OTHER)
+      ).to.be.revertedWith("PeerEndorsement: skill tag is not active");
+      
+      await userProfileModule.connect(bob).deactivateProfile(bob.address);
+      await expect(
+        peerEndorsementModule.connect(alice).writeEndorsement(bob.address, solidity, "ipfs://QmText", Relationship.OTHER)
+      ).to.be.revertedWith("PeerEndorsement: recipient profile is not active");
+    });
+    
+    it("Should limit the rate per author and recipient", async function () {
+      const { peerEndorsementModule, alice, bob, carol, solidity } = await loadFixture(deployPeerEndorsementModuleFixture);
+      
+      await writeEndorsement(peerEndorsementModule, alice, bob.address, solidity);
+      
+      await expect(
+        writeEndorsement(peerEndorsementModule, alice, bob.address, hre.ethers.ZeroHash)
+      ).to.be.revertedWith("PeerEndorsement: endorsement cooldown active");
+      
+      // Other pairs are not affected
+      await writeEndorsement(peerEndorsementModule, alice, carol.address, solidity);
+      await writeEndorsement(peerEndorsementModule, bob, alice.address, solidity);
+      
+      const nextTime = await peerEndorsementModule.getNextEndorsementTime(alice.address, bob.address);
+      await time.increaseTo(nextTime);
+      await writeEndorsement(peerEndorsementModule, alice, bob.address, hre.ethers.ZeroHash);
+      expect(await peerEndorsementModule.getRecipientEndorsementCount(bob.address)).to.equal(2);
+    });
+  });
+  
+  describe("Moderation", function () {
+    it("Should let recipients approve and hide endorsements", async function () {
+      const { peerEndorsementModule, alice, bob, solidity } = await loadFixture(deployPeerEndorsementModuleFixture);
+      
+      const id = await writeEndorsement(peerEndorsementModule, alice, bob.address, solidity);
+      
+      await expect(
+        peerEndorsementModule.connect(alice).approveEndorsement(id)
+      ).to.be.revertedWith("PeerEndorsement: caller is not the recipient");
+      
+      await expect(peerEndorsementModule.connect(bob).approveEndorsement(id))
+        .to.emit(peerEndorsementModule, "EndorsementStatusChanged")
+        .withArgs(id, bob.address, EndorsementStatus.APPROVED);
+      
+      await expect(
+        peerEndorsementModule.connect(bob).approveEndorsement(id)
+      ).to.be.revertedWith("PeerEndorsement: endorsement cannot be approved");
+      
+      await peerEndorsementModule.connect(bob).hideEndorsement(id);
+      expect((await peerEndorsementModule.getEndorsement(id)).status).to.equal(EndorsementStatus.HIDDEN);
+      
+      await expect(
+        peerEndorsementModule.connect(bob).hideEndorsement(id)
+      ).to.be.revertedWith("PeerEndorsement: endorsement cannot be hidden");
+      
+      // Hidden endorsements can be shown again
+      await peerEndorsementModule.connect(bob).approveEndorsement(id);
+      expect((await peerEndorsementModule.getEndorsement(id)).status).to.equal(EndorsementStatus.APPROVED);
+    });
+    
+    it("Should let authors withdraw endorsements for good", async function () {
+      const { peerEndorsementModule, alice, bob, solidity } = await loadFixture(deployPeerEndorsementModuleFixture);
+      
+      const id = await writeEndorsement(peerEndorsementModule, alice, bob.address, solidity);
+      await peerEndorsementModule.connect(bob).approveEndorsement(id);
+      
+      await expect(
+        peerEndorsementModule.connect(bob).withdrawEndorsement(id)
+      ).to.be.revertedWith("PeerEndorsement: caller is not the author");
+      
+      await expect(peerEndorsementModule.connect(alice).withdrawEndorsement(id))
+        .to.emit(peerEndorsementModule, "EndorsementStatusChanged")
+        .withArgs(id, alice.address, EndorsementStatus.WITHDRAWN);
+      
+      await expect(
+        peerEndorsementModule.connect(bob).approveEndorsement(id)
+      ).to.be.revertedWith("PeerEndorsement: endorsement cannot be approved");
+      await expect(
+        peerEndorsementModule.connect(alice).withdrawEndorsement(id)
+      ).to.be.revertedWith("PeerEndorsement: endorsement already withdrawn");
+      await expect(
+        peerEndorsementModule.connect(bob).approveEndorsement(hre.ethers.ZeroHash)
+      ).to.be.revertedWith("PeerEndorsement: endorsement does not exist");
+    });
+  });
+  
+  describe("Queries", function () {
+    it("Should page endorsements by recipient, optionally approved only", async function () {
+      const { peerEndorsementModule, alice, bob, carol, solidity } = await loadFixture(deployPeerEndorsementModuleFixture);
+      
+      const fromAlice = await writeEndorsement(peerEndorsementModule, alice, bob.address, solidity);
+      const fromCarol = await writeEndorsement(peerEndorsementModule, carol, bob.address, hre.ethers.ZeroHash);
+      await peerEndorsementModule.connect(bob).approveEndorsement(fromCarol);
+      
+      const [firstPage, nextOffset] = await peerEndorsementModule.getEndorsementsByRecipient(bob.address, 0, 1, false);
+      expect(firstPage.map((endorsement) => endorsement.id)).to.deep.equal([fromAlice]);
+      expect(nextOffset).to.equal(1);
+      
+      const [lastPage, endOffset] = await peerEndorsementModule.getEndorsementsByRecipient(bob.address, nextOffset, 1, false);
+      expect(lastPage.map((endorsement) => endorsement.id)).to.deep.equal([fromCarol]);
+      expect(endOffset).to.equal(2);
+      
+      const [approved] = await peerEndorsementModule.getEndorsementsByRecipient(bob.address, 0, 10, true);
+      expect(approved.map((endorsement) => endorsement.id)).to.deep.equal([fromCarol]);
+      
+      const [beyondEnd, beyondOffset] = await peerEndorsementModule.getEndorsementsByRecipient(bob.address, 5, 10, false);
+      expect(beyondEnd).to.deep.equal([]);
+      expect(beyondOffset).to.equal(5);
+    });
+    
+    it("Should page endorsements by author", async function () {
+      const { peerEndorsementModule, alice, bob, carol, solidity } = await loadFixture(deployPeerEndorsementModuleFixture);
+      
+      const forBob = await writeEndorsement(peerEndorsementModule, alice, bob.address, solidity);
+      const forCarol = await writeEndorsement(peerEndorsementModule, alice, carol.address, solidity);
+      await peerEndorsementModule.connect(alice).withdrawEndorsement(forBob);
+      
+      expect(await peerEndorsementModule.getAuthorEndorsementCount(alice.address)).to.equal(2);
+      
+      const [written, nextOffset] = await peerEndorsementModule.getEndorsementsByAuthor(alice.address, 0, 10);
+      expect(written.map((endorsement) => endorsement.id)).to.deep.equal([forBob, forCarol]);
+      expect(written[0].status).to.equal(EndorsementStatus.WITHDRAWN);
+      expect(nextOffset).to.equal(2);
+    });
+  });
+});
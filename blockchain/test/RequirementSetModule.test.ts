@@ -0,0 +1,313 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CredentialVerificationModule, RequirementSetModule } from "../typechain-types";
+import { emailArgs, findEvent, issueCredential } from "./helpers";
+
+describe("RequirementSetModule", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0,
+    CERTIFICATION: 1,
+    EXPERIENCE: 2
+  };
+  
+  const VerificationStatus = {
+    PENDING: 0,
+    VERIFIED: 1
+  };
+  
+  const Operator = {
+    AND: 0,
+    OR: 1
+  };
+  
+  const ONE_YEAR = 365 * 24 * 60 * 60;
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployRequirementSetModuleFixture() {
+    const [admin, certifier, university, otherIssuer, talent, integrator] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy RequirementSetModule
+    const RequirementSetModuleFactory = await hre.ethers.getContractFactory("RequirementSetModule");
+    const requirementSetModule = await RequirementSetModuleFactory.deploy(
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    await requirementSetModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Register issuers
+    for (const issuer of [certifier, university, otherIssuer]) {
+      await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+      await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    }
+    
+    // Create the subject profile
+    await userProfileModule.connect(talent).createProfile("Talent", "Bio", ...emailArgs("talent@example.com"), "avatar", "");
+    
+    return {
+      requirementSetModule,
+      credentialVerificationModule,
+      admin,
+      certifier,
+      university,
+      otherIssuer,
+      talent,
+      integrator
+    };
+  }
+  
+  async function issueVerifiedCredential(
+    credentialVerificationModule: CredentialVerificationModule,
+    issuer: HardhatEthersSigner,
+    subject: HardhatEthersSigner,
+    credentialType: number,
+    accept = true
+  ) {
+    const credentialId = await issueCredential(credentialVerificationModule, issuer, subject.address, {
+      name: "Credential",
+      credentialType
+    });
+    
+    await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Verified");
+    if (accept) {
+      await credentialVerificationModule.connect(subject).acceptCredential(credentialId);
+    }
+    return credentialId;
+  }
+  
+  function rule(credentialType: number, overrides: Partial<RequirementSetModule.RuleStruct> = {}): RequirementSetModule.RuleStruct {
+    return {
+      credentialType,
+      schemaId: hre.ethers.ZeroHash,
+      issuers: [],
+      minIssuanceDate: 0,
+      maxAge: 0,
+      minCount: 1,
+      ...overrides
+    };
+  }
+  
+  async function createSet(
+    requirementSetModule: RequirementSetModule,
+    signer: HardhatEthersSigner,
+    operator: number,
+    groups: RequirementSetModule.GroupStruct[]
+  ) {
+    const tx = await requirementSetModule.connect(signer).createRequirementSet("Requirements", operator, groups);
+    const event = await findEvent(tx, requirementSetModule, "RequirementSetCreated");
+    return event.args[0];
+  }
+  
+  describe("Requirement Sets", function () {
+    it("Should create a requirement set", async function () {
+      const { requirementSetModule, certifier, integrator } = await loadFixture(deployRequirementSetModuleFixture);
+      
+      const groups = [{ operator: Operator.OR, rules: [rule(CredentialType.CERTIFICATION, { issuers: [certifier.address], maxAge: 2 * ONE_YEAR })] }];
+      await expect(requirementSetModule.connect(integrator).createRequirementSet("Certified", Operator.AND, groups))
+        .to.emit(requirementSetModule, "RequirementSetCreated");
+      
+      const [id] = await requirementSetModule.getCreatorRequirementSets(integrator.address);
+      const set = await requirementSetModule.getRequirementSet(id);
+      expect(set.creator).to.equal(integrator.address);
+      expect(set.name).to.equal("Certified");
+      expect(set.active).to.be.true;
+      expect(set.groups.length).to.equal(1);
+      expect(set.groups[0].rules[0].credentialType).to.equal(CredentialType.CERTIFICATION);
+      expect(set.groups[0].rules[0].issuers).to.deep.equal([certifier.address]);
+      expect(set.groups[0].rules[0].maxAge).to.equal(2 * ONE_YEAR);
+    });
+    
+    it("Should reject malformed requirement sets", async function () {
+      const { requirementSetModule, integrator } = await loadFixture(deployRequirementSetModuleFixture);
+      
+      const valid = { operator: Operator.AND, rules: [rule(CredentialType.EDUCATION)] };
+      
+      await expect(
+        requirementSetModule.connect(integrator).createRequirementSet("", Operator.AND, [valid])
+      ).to.be.revertedWith("RequirementSet: name cannot be empty");
+      
+      await expect(
+        requirementSetModule.connect(integrator).createRequirementSet("Empty", Operator.AND, [])
+      ).to.be.revertedWith("RequirementSet: no groups");
+      
+      await expect(
+        requirementSetModule.connect(integrator).createRequirementSet("Empty", Operator.AND, [valid, { operator: Operator.AND, rules: [] }])
+      ).to.be.revertedWith("RequirementSet: empty group");
+      
+      await expect(
+        requirementSetModule.connect(integrator).createRequirementSet("Zero", Operator.AND, [
+          { operator: Operator.AND, rules: [rule(CredentialType.EDUCATION, { minCount: 0 })] }
+        ])
+      ).to.be.revertedWith("RequirementSet: minimum count must be positive");
+      
+      const tooMany = Array.from({ length: 11 }, () => rule(CredentialType.EDUCATION));
+      await expect(
+        requirementSetModule.connect(integrator).createRequirementSet("Large", Operator.AND, [{ operator: Operator.OR, rules: tooMany }])
+      ).to.be.revertedWith("RequirementSet: too many rules");
+    });
+    
+    it("Should let the creator or an admin deactivate a set", async function () {
+      const { requirementSetModule, credentialVerificationModule, admin, certifier, talent, integrator } = await loadFixture(deployRequirementSetModuleFixture);
+      
+      const credentialId = await issueVerifiedCredential(credentialVerificationModule, certifier, talent, CredentialType.CERTIFICATION);
+      const id = await createSet(requirementSetModule, integrator, Operator.AND, [
+        { operator: Operator.AND, rules: [rule(CredentialType.CERTIFICATION)] }
+      ]);
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [credentialId])).to.be.true;
+      
+      await expect(
+        requirementSetModule.connect(talent).setRequirementSetActive(id, false)
+      ).to.be.revertedWith("RequirementSet: caller is not the creator or admin");
+      
+      await expect(requirementSetModule.connect(integrator).setRequirementSetActive(id, false))
+        .to.emit(requirementSetModule, "RequirementSetStatusChanged")
+        .withArgs(id, false);
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [credentialId])).to.be.false;
+      
+      await requirementSetModule.connect(admin).setRequirementSetActive(id, true);
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [credentialId])).to.be.true;
+      
+      await expect(
+        requirementSetModule.meetsRequirements(talent.address, hre.ethers.ZeroHash, [credentialId])
+      ).to.be.revertedWith("RequirementSet: requirement set does not exist");
+    });
+  });
+  
+  describe("Eligibility", function () {
+    it("Should check accepted issuers and credential age", async function () {
+      const { requirementSetModule, credentialVerificationModule, certifier, otherIssuer, talent, integrator } = await loadFixture(deployRequirementSetModuleFixture);
+      
+      // A valid CERTIFICATION from the certifier that is less than two years old
+      const id = await createSet(requirementSetModule, integrator, Operator.AND, [
+        { operator: Operator.AND, rules: [rule(CredentialType.CERTIFICATION, { issuers: [certifier.address], maxAge: 2 * ONE_YEAR })] }
+      ]);
+      
+      const other = await issueVerifiedCredential(credentialVerificationModule, otherIssuer, talent, CredentialType.CERTIFICATION);
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [other])).to.be.false;
+      
+      const certified = await issueVerifiedCredential(credentialVerificationModule, certifier, talent, CredentialType.CERTIFICATION);
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [other, certified])).to.be.true;
+      
+      await time.increase(2 * ONE_YEAR + 1);
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [other, certified])).to.be.false;
+    });
+    
+    it("Should apply minimum issuance dates and counts", async function () {
+      const { requirementSetModule, credentialVerificationModule, university, talent, integrator } = await loadFixture(deployRequirementSetModuleFixture);
+      
+      const earlier = await issueVerifiedCredential(credentialVerificationModule, university, talent, CredentialType.EXPERIENCE);
+      const minIssuanceDate = (await time.latest()) + 1;
+      
+      const id = await createSet(requirementSetModule, integrator, Operator.AND, [
+        { operator: Operator.AND, rules: [rule(CredentialType.EXPERIENCE, { minIssuanceDate, minCount: 2 })] }
+      ]);
+      
+      // The earlier credential does not count
+      const first = await issueVerifiedCredential(credentialVerificationModule, university, talent, CredentialType.EXPERIENCE);
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [earlier, first])).to.be.false;
+      
+      // Presenting a credential twice does not count it twice
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [first, first])).to.be.false;
+      
+      const second = await issueVerifiedCredential(credentialVerificationModule, university, talent, CredentialType.EXPERIENCE);
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [earlier, first, second])).to.be.true;
+    });
+    
+    it("Should combine groups with AND and OR", async function () {
+      const { requirementSetModule, credentialVerificationModule, certifier, university, talent, integrator } = await loadFixture(deployRequirementSetModuleFixture);
+      
+      // (EDUCATION or CERTIFICATION) and EXPERIENCE
+      const andSet = await createSet(requirementSetModule, integrator, Operator.AND, [
+        { operator: Operator.OR, rules: [rule(CredentialType.EDUCATION), rule(CredentialType.CERTIFICATION)] },
+        { operator: Operator.AND, rules: [rule(CredentialType.EXPERIENCE)] }
+      ]);
+      // (EDUCATION and CERTIFICATION) or EXPERIENCE
+      const orSet = await createSet(requirementSetModule, integrator, Operator.OR, [
+        { operator: Operator.AND, rules: [rule(CredentialType.EDUCATION), rule(CredentialType.CERTIFICATION)] },
+        { operator: Operator.AND, rules: [rule(CredentialType.EXPERIENCE)] }
+      ]);
+      
+      const credentialIds = [await issueVerifiedCredential(credentialVerificationModule, certifier, talent, CredentialType.CERTIFICATION)];
+      expect(await requirementSetModule.meetsRequirements(talent.address, andSet, credentialIds)).to.be.false;
+      expect(await requirementSetModule.meetsRequirements(talent.address, orSet, credentialIds)).to.be.false;
+      
+      credentialIds.push(await issueVerifiedCredential(credentialVerificationModule, university, talent, CredentialType.EDUCATION));
+      expect(await requirementSetModule.meetsRequirements(talent.address, andSet, credentialIds)).to.be.false;
+      expect(await requirementSetModule.meetsRequirements(talent.address, orSet, credentialIds)).to.be.true;
+      
+      credentialIds.push(await issueVerifiedCredential(credentialVerificationModule, university, talent, CredentialType.EXPERIENCE));
+      expect(await requirementSetModule.meetsRequirements(talent.address, andSet, credentialIds)).to.be.true;
+    });
+    
+    it("Should only count valid credentials", async function () {
+      const { requirementSetModule, credentialVerificationModule, certifier, talent, integrator } = await loadFixture(deployRequirementSetModuleFixture);
+      
+      const id = await createSet(requirementSetModule, integrator, Operator.AND, [
+        { operator: Operator.AND, rules: [rule(CredentialType.CERTIFICATION)] }
+      ]);
+      
+      // Credentials the subject has not accepted are not valid
+      const credentialId = await issueVerifiedCredential(credentialVerificationModule, certifier, talent, CredentialType.CERTIFICATION, false);
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [credentialId])).to.be.false;
+      
+      await credentialVerificationModule.connect(talent).acceptCredential(credentialId);
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [credentialId])).to.be.true;
+      
+      await credentialVerificationModule.connect(certifier).revokeCredential(credentialId, "Revoked");
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [credentialId])).to.be.false;
+    });
+    
+    it("Should only count credentials held by the subject", async function () {
+      const { requirementSetModule, credentialVerificationModule, certifier, talent, integrator } = await loadFixture(deployRequirementSetModuleFixture);
+      
+      const id = await createSet(requirementSetModule, integrator, Operator.AND, [
+        { operator: Operator.AND, rules: [rule(CredentialType.CERTIFICATION)] }
+      ]);
+      const credentialId = await issueVerifiedCredential(credentialVerificationModule, certifier, talent, CredentialType.CERTIFICATION);
+      
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [credentialId])).to.be.true;
+      expect(await requirementSetModule.meetsRequirements(integrator.address, id, [credentialId])).to.be.false;
+      expect(await requirementSetModule.meetsRequirements(talent.address, id, [hre.ethers.ZeroHash])).to.be.false;
+    });
+    
+    it("Should cap the number of presented credentials", async function () {
+      const { requirementSetModule, talent, integrator } = await loadFixture(deployRequirementSetModuleFixture);
+      
+      const id = await createSet(requirementSetModule, integrator, Operator.AND, [
+        { operator: Operator.AND, rules: [rule(CredentialType.CERTIFICATION)] }
+      ]);
+      const tooMany = Array(Number(await requirementSetModule.MAX_CREDENTIALS()) + 1).fill(hre.ethers.ZeroHash);
+      
+      await expect(
+        requirementSetModule.meetsRequirements(talent.address, id, tooMany)
+      ).to.be.revertedWith("RequirementSet: too many credentials");
+    });
+  });
+});
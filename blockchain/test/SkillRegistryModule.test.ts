@@ -0,0 +1,259 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CredentialVerificationModule } from "../typechain-types";
+import { emailArgs, issueCredential } from "./helpers";
+
+describe("SkillRegistryModule", function () {
+  // Define enum values to match the contract
+  const VerificationStatus = {
+    PENDING: 0,
+    VERIFIED: 1,
+    REJECTED: 2,
+    REVOKED: 3
+  };
+  
+  const Proficiency = {
+    BEGINNER: 0,
+    INTERMEDIATE: 1,
+    ADVANCED: 2,
+    EXPERT: 3
+  };
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deploySkillRegistryModuleFixture() {
+    const [admin, issuer, talent1, talent2, talent3, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy SkillRegistryModule
+    const SkillRegistryModuleFactory = await hre.ethers.getContractFactory("SkillRegistryModule");
+    const skillRegistryModule = await SkillRegistryModuleFactory.deploy(
+      userProfileModule.target as unknown as string,
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    await skillRegistryModule.grantRole(ADMIN_ROLE, admin.address);
+    await userProfileModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Register the issuer
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    
+    // Create the talent profiles
+    await userProfileModule.connect(talent1).createProfile("Talent One", "Bio", ...emailArgs("one@example.com"), "avatar", "");
+    await userProfileModule.connect(talent2).createProfile("Talent Two", "Bio", ...emailArgs("two@example.com"), "avatar", "");
+    await userProfileModule.connect(talent3).createProfile("Talent Three", "Bio", ...emailArgs("three@example.com"), "avatar", "");
+    
+    // Build a small taxonomy
+    await skillRegistryModule.connect(admin).addSkillTag("Solidity", "Blockchain");
+    await skillRegistryModule.connect(admin).addSkillTag("TypeScript", "Programming");
+    const solidity = hre.ethers.id("Solidity");
+    const typescript = hre.ethers.id("TypeScript");
+    
+    return {
+      skillRegistryModule,
+      userProfileModule,
+      credentialVerificationModule,
+      solidity,
+      typescript,
+      admin,
+      issuer,
+      talent1,
+      talent2,
+      talent3,
+      outsider
+    };
+  }
+  
+  async function issueVerifiedCredential(
+    credentialVerificationModule: CredentialVerificationModule,
+    issuer: HardhatEthersSigner,
+    subject: HardhatEthersSigner
+  ) {
+    const credentialId = await issueCredential(credentialVerificationModule, issuer, subject.address, {
+      name: "Smart Contract Developer",
+      description: "Certified Solidity developer"
+    });
+    
+    await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Verified");
+    await credentialVerificationModule.connect(subject).acceptCredential(credentialId);
+    return credentialId;
+  }
+  
+  describe("Taxonomy", function () {
+    it("Should let admins curate skill tags", async function () {
+      const { skillRegistryModule, admin, solidity, typescript } = await loadFixture(deploySkillRegistryModuleFixture);
+      
+      const tag = await skillRegistryModule.getSkillTag(solidity);
+      expect(tag.name).to.equal("Solidity");
+      expect(tag.category).to.equal("Blockchain");
+      expect(tag.active).to.be.true;
+      expect(await skillRegistryModule.getSkillTagIds()).to.deep.equal([solidity, typescript]);
+      
+      await expect(
+        skillRegistryModule.connect(admin).addSkillTag("Solidity", "Other")
+      ).to.be.revertedWith("SkillRegistry: skill tag already exists");
+      
+      await expect(skillRegistryModule.connect(admin).setSkillTagActive(solidity, false))
+        .to.emit(skillRegistryModule, "SkillTagStatusUpdated")
+        .withArgs(solidity, false);
+    });
+    
+    it("Should prevent non-admins from managing the taxonomy", async function () {
+      const { skillRegistryModule, outsider, solidity } = await loadFixture(deploySkillRegistryModuleFixture);
+      
+      await expect(
+        skillRegistryModule.connect(outsider).addSkillTag("Rust", "Programming")
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+      
+      await expect(
+        skillRegistryModule.connect(outsider).setSkillTagActive(solidity, false)
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+    });
+  });
+  
+  describe("Profile Skills", function () {
+    it("Should let talents add, update and remove skills", async function () {
+      const { skillRegistryModule, talent1, solidity, typescript } = await loadFixture(deploySkillRegistryModuleFixture);
+      
+      await expect(skillRegistryModule.connect(talent1).setSkill(solidity, Proficiency.INTERMEDIATE, hre.ethers.ZeroHash))
+        .to.emit(skillRegistryModule, "SkillSet")
+        .withArgs(talent1.address, solidity, Proficiency.INTERMEDIATE, hre.ethers.ZeroHash);
+      await skillRegistryModule.connect(talent1).setSkill(typescript, Proficiency.EXPERT, hre.ethers.ZeroHash);
+      await skillRegistryModule.connect(talent1).setSkill(solidity, Proficiency.ADVANCED, hre.ethers.ZeroHash);
+      
+      let skills = await skillRegistryModule.getSkills(talent1.address);
+      expect(skills.map(skill => [skill.name, skill.proficiency])).to.deep.equal([
+        ["Solidity", BigInt(Proficiency.ADVANCED)],
+        ["TypeScript", BigInt(Proficiency.EXPERT)]
+      ]);
+      expect(skills[0].verified).to.be.false;
+      
+      await expect(skillRegistryModule.connect(talent1).removeSkill(solidity))
+        .to.emit(skillRegistryModule, "SkillRemoved")
+        .withArgs(talent1.address, solidity);
+      
+      skills = await skillRegistryModule.getSkills(talent1.address);
+      expect(skills.map(skill => skill.name)).to.deep.equal(["TypeScript"]);
+      expect(await skillRegistryModule.getTalentCountBySkill(solidity)).to.equal(0);
+      
+      await expect(
+        skillRegistryModule.connect(talent1).removeSkill(solidity)
+      ).to.be.revertedWith("SkillRegistry: skill not set");
+    });
+    
+    it("Should only allow active tags on active profiles", async function () {
+      const { skillRegistryModule, userProfileModule, admin, talent1, outsider, solidity } =
+        await loadFixture(deploySkillRegistryModuleFixture);
+      
+      await expect(
+        skillRegistryModule.connect(outsider).setSkill(solidity, Proficiency.BEGINNER, hre.ethers.ZeroHash)
+      ).to.be.revertedWith("SkillRegistry: profile is not active");
+      
+      await expect(
+        skillRegistryModule.connect(talent1).setSkill(hre.ethers.id("Rust"), Proficiency.BEGINNER, hre.ethers.ZeroHash)
+      ).to.be.revertedWith("SkillRegistry: skill tag is not active");
+      
+      await skillRegistryModule.connect(admin).setSkillTagActive(solidity, false);
+      await expect(
+        skillRegistryModule.connect(talent1).setSkill(solidity, Proficiency.BEGINNER, hre.ethers.ZeroHash)
+      ).to.be.revertedWith("SkillRegistry: skill tag is not active");
+      
+      await userProfileModule.connect(talent1).deactivateProfile(talent1.address);
+      await skillRegistryModule.connect(admin).setSkillTagActive(solidity, true);
+      await expect(
+        skillRegistryModule.connect(talent1).setSkill(solidity, Proficiency.BEGINNER, hre.ethers.ZeroHash)
+      ).to.be.revertedWith("SkillRegistry: profile is not active");
+    });
+    
+    it("Should mark skills backed by a valid credential as verified", async function () {
+      const { skillRegistryModule, credentialVerificationModule, issuer, talent1, talent2, solidity } =
+        await loadFixture(deploySkillRegistryModuleFixture);
+      
+      const credentialId = await issueVerifiedCredential(credentialVerificationModule, issuer, talent1);
+      
+      // Only the credential subject can link it
+      await expect(
+        skillRegistryModule.connect(talent2).setSkill(solidity, Proficiency.EXPERT, credentialId)
+      ).to.be.revertedWith("SkillRegistry: caller is not the credential subject");
+      
+      await skillRegistryModule.connect(talent1).setSkill(solidity, Proficiency.EXPERT, credentialId);
+      expect(await skillRegistryModule.isSkillVerified(talent1.address, solidity)).to.be.true;
+      expect((await skillRegistryModule.getSkills(talent1.address))[0].verified).to.be.true;
+      
+      // Revoking the credential removes the verified mark
+      await credentialVerificationModule.connect(issuer).revokeCredential(credentialId, "Revoked");
+      expect(await skillRegistryModule.isSkillVerified(talent1.address, solidity)).to.be.false;
+    });
+  });
+  
+  describe("Talent Discovery", function () {
+    it("Should page through the talents with a skill", async function () {
+      const { skillRegistryModule, talent1, talent2, talent3, solidity, typescript } =
+        await loadFixture(deploySkillRegistryModuleFixture);
+      
+      await skillRegistryModule.connect(talent1).setSkill(solidity, Proficiency.BEGINNER, hre.ethers.ZeroHash);
+      await skillRegistryModule.connect(talent2).setSkill(solidity, Proficiency.ADVANCED, hre.ethers.ZeroHash);
+      await skillRegistryModule.connect(talent3).setSkill(solidity, Proficiency.EXPERT, hre.ethers.ZeroHash);
+      await skillRegistryModule.connect(talent3).setSkill(typescript, Proficiency.EXPERT, hre.ethers.ZeroHash);
+      
+      expect(await skillRegistryModule.getTalentCountBySkill(solidity)).to.equal(3);
+      
+      const [firstPage, nextOffset] = await skillRegistryModule.getTalentsBySkill(solidity, 0, 2, false);
+      expect(firstPage.map(match => match.talent)).to.deep.equal([talent1.address, talent2.address]);
+      expect(firstPage[1].proficiency).to.equal(Proficiency.ADVANCED);
+      expect(nextOffset).to.equal(2);
+      
+      const [lastPage, endOffset] = await skillRegistryModule.getTalentsBySkill(solidity, nextOffset, 2, false);
+      expect(lastPage.map(match => match.talent)).to.deep.equal([talent3.address]);
+      expect(endOffset).to.equal(3);
+      
+      const [typescriptTalents] = await skillRegistryModule.getTalentsBySkill(typescript, 0, 10, false);
+      expect(typescriptTalents.map(match => match.talent)).to.deep.equal([talent3.address]);
+    });
+    
+    it("Should filter out unverified skills and deactivated profiles", async function () {
+      const { skillRegistryModule, userProfileModule, credentialVerificationModule, issuer, talent1, talent2, talent3, solidity } =
+        await loadFixture(deploySkillRegistryModuleFixture);
+      
+      const credentialId = await issueVerifiedCredential(credentialVerificationModule, issuer, talent2);
+      await skillRegistryModule.connect(talent1).setSkill(solidity, Proficiency.EXPERT, hre.ethers.ZeroHash);
+      await skillRegistryModule.connect(talent2).setSkill(solidity, Proficiency.ADVANCED, credentialId);
+      await skillRegistryModule.connect(talent3).setSkill(solidity, Proficiency.BEGINNER, hre.ethers.ZeroHash);
+      
+      const [verified] = await skillRegistryModule.getTalentsBySkill(solidity, 0, 10, true);
+      expect(verified.map(match => match.talent)).to.deep.equal([talent2.address]);
+      expect(verified[0].verified).to.be.true;
+      
+      await userProfileModule.connect(talent1).deactivateProfile(talent1.address);
+      const [active, nextOffset] = await skillRegistryModule.getTalentsBySkill(solidity, 0, 2, false);
+      expect(active.map(match => match.talent)).to.deep.equal([talent2.address, talent3.address]);
+      expect(nextOffset).to.equal(3);
+    });
+  });
+});
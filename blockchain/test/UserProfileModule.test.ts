@@ -1,7 +1,11 @@
 import { expect } from "chai";
 import hre from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ContractTransactionResponse } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { UserProfileModule, RoleModule } from "../typechain-types";
+import { createEmailCommitment, hashEmail, hashEmailForLookup } from "../utils/emailCommitment";
+import { MockSocialOracle, signSocialHandleAttestation } from "../utils/socialOracle";
+import { emailArgs, LOOKUP_KEY } from "./helpers";
 
 describe("UserProfileModule", function () {
   // Fixture to deploy the necessary contracts for testing
@@ -23,6 +27,8 @@ describe("UserProfileModule", function () {
     
     // Grant roles to UserProfileModule to enable it to grant roles
     await roleModule.grantRole(ADMIN_ROLE, userProfileModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), userProfileModule.target);
+    await userProfileModule.grantRole(ADMIN_ROLE, admin.address);
     
     return { 
       userProfileModule,
@@ -55,25 +61,29 @@ describe("UserProfileModule", function () {
       const email = "john@example.com";
       const avatar = "ipfs://QmHash";
       
-      await expect(userProfileModule.connect(user1).createProfile(name, bio, email, avatar))
+      const { emailHash, commitment } = createEmailCommitment(email, LOOKUP_KEY);
+      
+      await expect(userProfileModule.connect(user1).createProfile(name, bio, emailHash, commitment, avatar, ""))
         .to.emit(userProfileModule, "ProfileCreated")
-        .withArgs(user1.address, name, email);
+        .withArgs(user1.address, name, emailHash);
       
       const profile = await userProfileModule.getProfile(user1.address);
       expect(profile.name).to.equal(name);
       expect(profile.bio).to.equal(bio);
-      expect(profile.email).to.equal(email);
+      expect(profile.emailHash).to.equal(emailHash);
+      expect((await userProfileModule.getEmailCommitment(user1.address)).emailCommitment).to.equal(commitment);
       expect(profile.avatar).to.equal(avatar);
       expect(profile.active).to.be.true;
+      expect(profile.version).to.equal(1);
     });
     
     it("Should prevent creating a duplicate profile", async function () {
       const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
       
-      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", "john@example.com", "avatar");
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
       
       await expect(
-        userProfileModule.connect(user1).createProfile("John Doe", "Bio", "john@example.com", "avatar")
+        userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "")
       ).to.be.revertedWith("UserProfileModule: profile already exists");
     });
     
@@ -81,24 +91,24 @@ describe("UserProfileModule", function () {
       const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
       
       await expect(
-        userProfileModule.connect(user1).createProfile("", "Bio", "john@example.com", "avatar")
+        userProfileModule.connect(user1).createProfile("", "Bio", ...emailArgs("john@example.com"), "avatar", "")
       ).to.be.revertedWith("UserProfileModule: name cannot be empty");
     });
     
     it("Should prevent creating a profile with an already registered email", async function () {
       const { userProfileModule, user1, user2 } = await loadFixture(deployUserProfileModuleFixture);
       
-      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", "john@example.com", "avatar");
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
       
       await expect(
-        userProfileModule.connect(user2).createProfile("Jane Doe", "Bio", "john@example.com", "avatar")
+        userProfileModule.connect(user2).createProfile("Jane Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "")
       ).to.be.revertedWith("UserProfileModule: email already registered");
     });
     
     it("Should allow updating an existing profile", async function () {
       const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
       
-      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", "john@example.com", "avatar");
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
       
       const newName = "Johnny Doe";
       const newBio = "Senior Developer";
@@ -112,13 +122,15 @@ describe("UserProfileModule", function () {
       expect(profile.name).to.equal(newName);
       expect(profile.bio).to.equal(newBio);
       expect(profile.avatar).to.equal(newAvatar);
-      expect(profile.email).to.equal("john@example.com"); // Email shouldn't change
+      expect(profile.version).to.equal(2);
+      expect(await userProfileModule.getAddressByEmailHash(hashEmailForLookup("john@example.com", LOOKUP_KEY)))
+        .to.equal(user1.address); // Email shouldn't change
     });
     
     it("Should allow profile owner to deactivate their profile", async function () {
       const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
       
-      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", "john@example.com", "avatar");
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
       
       await expect(userProfileModule.connect(user1).deactivateProfile(user1.address))
         .to.emit(userProfileModule, "ProfileDeactivated")
@@ -130,7 +142,7 @@ describe("UserProfileModule", function () {
     it("Should allow admin to deactivate any profile", async function () {
       const { userProfileModule, admin, user1 } = await loadFixture(deployUserProfileModuleFixture);
       
-      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", "john@example.com", "avatar");
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
       
       await expect(userProfileModule.connect(admin).deactivateProfile(user1.address))
         .to.emit(userProfileModule, "ProfileDeactivated")
@@ -142,7 +154,7 @@ describe("UserProfileModule", function () {
     it("Should allow reactivating a deactivated profile", async function () {
       const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
       
-      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", "john@example.com", "avatar");
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
       await userProfileModule.connect(user1).deactivateProfile(user1.address);
       
       await expect(userProfileModule.connect(user1).reactivateProfile(user1.address))
@@ -157,7 +169,7 @@ describe("UserProfileModule", function () {
     it("Should allow adding a social handle", async function () {
       const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
       
-      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", "john@example.com", "avatar");
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
       
       const platform = "twitter";
       const handle = "@johndoe";
@@ -176,7 +188,7 @@ describe("UserProfileModule", function () {
     it("Should update existing handle if platform already exists", async function () {
       const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
       
-      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", "john@example.com", "avatar");
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
       await userProfileModule.connect(user1).addSocialHandle("twitter", "@johndoe");
       
       const newHandle = "@john_doe";
@@ -191,7 +203,7 @@ describe("UserProfileModule", function () {
     it("Should allow removing a social handle", async function () {
       const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
       
-      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", "john@example.com", "avatar");
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
       await userProfileModule.connect(user1).addSocialHandle("twitter", "@johndoe");
       await userProfileModule.connect(user1).addSocialHandle("github", "johndoe");
       
@@ -207,7 +219,7 @@ describe("UserProfileModule", function () {
     it("Should allow admin to verify a social handle", async function () {
       const { userProfileModule, admin, user1 } = await loadFixture(deployUserProfileModuleFixture);
       
-      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", "john@example.com", "avatar");
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
       await userProfileModule.connect(user1).addSocialHandle("twitter", "@johndoe");
       
       const nonce = 123456;
@@ -221,14 +233,592 @@ describe("UserProfileModule", function () {
     });
   });
   
-  describe("Email Lookups", function () {
-    it("Should allow looking up an address by email", async function () {
+  describe("Oracle Attestations", function () {
+    async function deployOracleFixture() {
+      const fixture = await deployUserProfileModuleFixture();
+      const { userProfileModule, admin, user1, user3 } = fixture;
+      
+      // user3 acts as the verifier oracle
+      await userProfileModule.connect(admin).addVerifierOracle(user3.address);
+      const oracle = new MockSocialOracle(userProfileModule, user3);
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
+      await userProfileModule.connect(user1).addSocialHandle("github", "johndoe");
+      oracle.confirmHandle(user1.address, "github", "johndoe");
+      
+      return { ...fixture, oracle };
+    }
+    
+    it("Should verify a handle with an oracle attestation submitted by the user", async function () {
+      const { userProfileModule, user1, user3, oracle } = await loadFixture(deployOracleFixture);
+      
+      const { attestation, signature } = await oracle.attest(user1.address, "github", "johndoe", BigInt(await time.latest()));
+      
+      await expect(
+        userProfileModule.connect(user1).verifySocialHandleWithAttestation(
+          "github", user3.address, attestation.nonce, attestation.expiry, signature
+        )
+      )
+        .to.emit(userProfileModule, "SocialHandleVerified")
+        .withArgs(user1.address, "github", "johndoe")
+        .and.to.emit(userProfileModule, "SocialHandleAttested")
+        .withArgs(user1.address, "github", user3.address, attestation.nonce);
+      
+      expect(await userProfileModule.isHandleVerified(user1.address, "github")).to.be.true;
+      expect(await userProfileModule.isVerificationNonceUsed(user1.address, attestation.nonce)).to.be.true;
+      
+      // The nonce is consumed
+      await expect(
+        userProfileModule.connect(user1).verifySocialHandleWithAttestation(
+          "github", user3.address, attestation.nonce, attestation.expiry, signature
+        )
+      ).to.be.revertedWith("UserProfileModule: nonce already used");
+      await expect(
+        userProfileModule.generateVerificationHash(user1.address, "github", attestation.nonce)
+      ).to.be.revertedWith("UserProfileModule: nonce already used");
+    });
+    
+    it("Should reject attestations from unregistered oracles or for other users", async function () {
+      const { userProfileModule, admin, user1, user2, user3, oracle } = await loadFixture(deployOracleFixture);
+      
+      const expiry = BigInt(await time.latest()) + 3600n;
+      const forged = await signSocialHandleAttestation(userProfileModule, user2, {
+        user: user1.address, platform: "github", handle: "johndoe", nonce: 1n, expiry
+      });
+      await expect(
+        userProfileModule.connect(user1).verifySocialHandleWithAttestation("github", user2.address, 1, expiry, forged.signature)
+      ).to.be.revertedWith("UserProfileModule: signer is not a verifier oracle");
+      
+      // A signature by another account cannot be passed off as the oracle's
+      await expect(
+        userProfileModule.connect(user1).verifySocialHandleWithAttestation("github", user3.address, 1, expiry, forged.signature)
+      ).to.be.revertedWith("UserProfileModule: invalid attestation signature");
+      
+      // Attestations are bound to the user they were issued for
+      await userProfileModule.connect(user2).createProfile("Jane Doe", "Bio", ...emailArgs("jane@example.com"), "avatar", "");
+      await userProfileModule.connect(user2).addSocialHandle("github", "johndoe");
+      const { attestation, signature } = await oracle.attest(user1.address, "github", "johndoe", BigInt(await time.latest()));
+      await expect(
+        userProfileModule.connect(user2).verifySocialHandleWithAttestation(
+          "github", user3.address, attestation.nonce, attestation.expiry, signature
+        )
+      ).to.be.revertedWith("UserProfileModule: invalid attestation signature");
+      
+      // Removed oracles can no longer attest
+      await userProfileModule.connect(admin).removeVerifierOracle(user3.address);
+      await expect(
+        userProfileModule.connect(user1).verifySocialHandleWithAttestation(
+          "github", user3.address, attestation.nonce, attestation.expiry, signature
+        )
+      ).to.be.revertedWith("UserProfileModule: signer is not a verifier oracle");
+    });
+    
+    it("Should reject expired attestations", async function () {
+      const { userProfileModule, user1, user3, oracle } = await loadFixture(deployOracleFixture);
+      
+      const { attestation, signature } = await oracle.attest(user1.address, "github", "johndoe", BigInt(await time.latest()));
+      await time.increase(3601);
+      
+      await expect(
+        userProfileModule.connect(user1).verifySocialHandleWithAttestation(
+          "github", user3.address, attestation.nonce, attestation.expiry, signature
+        )
+      ).to.be.revertedWith("UserProfileModule: attestation expired");
+    });
+    
+    it("Should reset verification only when the handle changes", async function () {
+      const { userProfileModule, user1, user3, oracle } = await loadFixture(deployOracleFixture);
+      
+      const { attestation, signature } = await oracle.attest(user1.address, "github", "johndoe", BigInt(await time.latest()));
+      
+      // An attestation for the old handle cannot verify a new one
+      await userProfileModule.connect(user1).addSocialHandle("github", "someone_else");
+      await expect(
+        userProfileModule.connect(user1).verifySocialHandleWithAttestation(
+          "github", user3.address, attestation.nonce, attestation.expiry, signature
+        )
+      ).to.be.revertedWith("UserProfileModule: invalid attestation signature");
+      
+      await userProfileModule.connect(user1).addSocialHandle("github", "johndoe");
+      await userProfileModule.connect(user1).verifySocialHandleWithAttestation(
+        "github", user3.address, attestation.nonce, attestation.expiry, signature
+      );
+      
+      // Re-adding the same handle keeps it verified
+      await userProfileModule.connect(user1).addSocialHandle("github", "johndoe");
+      expect(await userProfileModule.isHandleVerified(user1.address, "github")).to.be.true;
+      
+      await userProfileModule.connect(user1).addSocialHandle("github", "johndoe_2");
+      expect(await userProfileModule.isHandleVerified(user1.address, "github")).to.be.false;
+    });
+    
+    it("Should only let admins manage verifier oracles", async function () {
+      const { userProfileModule, admin, user2, user3 } = await loadFixture(deployOracleFixture);
+      
+      await expect(
+        userProfileModule.connect(user2).addVerifierOracle(user2.address)
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+      
+      await expect(
+        userProfileModule.connect(admin).addVerifierOracle(user3.address)
+      ).to.be.revertedWith("UserProfileModule: oracle already registered");
+      
+      await expect(
+        userProfileModule.connect(admin).removeVerifierOracle(user2.address)
+      ).to.be.revertedWith("UserProfileModule: oracle not registered");
+      
+      expect(await userProfileModule.hasRole(await userProfileModule.VERIFIER_ORACLE_ROLE(), user3.address)).to.be.true;
+    });
+  });
+  
+  describe("Email Privacy", function () {
+    it("Should create a profile from an email commitment without storing the email", async function () {
       const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
       
-      const email = "john@example.com";
-      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", email, "avatar");
+      const { emailHash, commitment, salt } = createEmailCommitment("john@example.com", LOOKUP_KEY);
+      expect(await userProfileModule.computeEmailCommitment(hashEmail("john@example.com"), salt)).to.equal(commitment);
+      
+      await expect(userProfileModule.connect(user1).createProfile("John Doe", "Bio", emailHash, commitment, "avatar", ""))
+        .to.emit(userProfileModule, "ProfileCreated")
+        .withArgs(user1.address, "John Doe", emailHash);
+      
+      expect((await userProfileModule.getProfile(user1.address)).emailHash).to.equal(emailHash);
+      
+      const stored = await userProfileModule.getEmailCommitment(user1.address);
+      expect(stored.emailHash).to.equal(emailHash);
+      expect(stored.emailCommitment).to.equal(commitment);
+    });
+    
+    it("Should let the platform look up an address by email", async function () {
+      const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
       
-      expect(await userProfileModule.getAddressByEmail(email)).to.equal(user1.address);
+      expect(await userProfileModule.getAddressByEmailHash(hashEmailForLookup("john@example.com", LOOKUP_KEY)))
+        .to.equal(user1.address);
+      expect(await userProfileModule.getAddressByEmailHash(hashEmailForLookup("John@Example.com", LOOKUP_KEY)))
+        .to.equal(user1.address);
+    });
+    
+    it("Should not let guessed emails be matched against registrations", async function () {
+      const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      const { emailHash, commitment } = createEmailCommitment("john@example.com", LOOKUP_KEY);
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", emailHash, commitment, "avatar", "");
+      
+      // Without the lookup key, hashing a guess finds nothing
+      expect(emailHash).to.not.equal(hashEmail("john@example.com"));
+      expect(await userProfileModule.getAddressByEmailHash(hashEmail("john@example.com"))).to.equal(hre.ethers.ZeroAddress);
+    });
+    
+    it("Should detect duplicate emails by hash", async function () {
+      const { userProfileModule, user1, user2 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      const first = createEmailCommitment("john@example.com", LOOKUP_KEY);
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", first.emailHash, first.commitment, "avatar", "");
+      
+      // A different salt does not hide a duplicate email
+      const second = createEmailCommitment("John@Example.com", LOOKUP_KEY);
+      expect(second.commitment).to.not.equal(first.commitment);
+      await expect(
+        userProfileModule.connect(user2).createProfile("Jane Doe", "Bio", second.emailHash, second.commitment, "avatar", "")
+      ).to.be.revertedWith("UserProfileModule: email already registered");
+    });
+    
+    it("Should detect an email registered on creation and by an email update", async function () {
+      const { userProfileModule, user1, user2, user3 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
+      await userProfileModule.connect(user2).createProfile("Jane Doe", "Bio", ...emailArgs("jane@example.com"), "avatar", "");
+      
+      // An email taken on creation cannot be moved to by an update
+      await expect(
+        userProfileModule.connect(user2).updateEmail(...emailArgs("JOHN@example.com"))
+      ).to.be.revertedWith("UserProfileModule: email already registered");
+      
+      // An email taken by an update cannot be used to create a profile
+      await userProfileModule.connect(user2).updateEmail(...emailArgs("jane.doe@example.com"));
+      await expect(
+        userProfileModule.connect(user3).createProfile("Bob", "Bio", ...emailArgs("Jane.Doe@example.com"), "avatar", "")
+      ).to.be.revertedWith("UserProfileModule: email already registered");
+    });
+    
+    it("Should require an email hash and commitment", async function () {
+      const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      const { emailHash, commitment } = createEmailCommitment("john@example.com", LOOKUP_KEY);
+      
+      await expect(
+        userProfileModule.connect(user1).createProfile("John Doe", "Bio", hre.ethers.ZeroHash, commitment, "avatar", "")
+      ).to.be.revertedWith("UserProfileModule: email cannot be empty");
+      await expect(
+        userProfileModule.connect(user1).createProfile("John Doe", "Bio", emailHash, hre.ethers.ZeroHash, "avatar", "")
+      ).to.be.revertedWith("UserProfileModule: email commitment cannot be empty");
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", emailHash, commitment, "avatar", "");
+      await expect(
+        userProfileModule.connect(user1).updateEmail(emailHash, hre.ethers.ZeroHash)
+      ).to.be.revertedWith("UserProfileModule: email commitment cannot be empty");
+    });
+    
+    it("Should let verifiers check a revealed email and salt", async function () {
+      const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      const { emailHash, commitment, salt } = createEmailCommitment("john@example.com", LOOKUP_KEY);
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", emailHash, commitment, "avatar", "");
+      
+      expect(await userProfileModule.verifyEmail(user1.address, "john@example.com", salt)).to.be.true;
+      expect(await userProfileModule.verifyEmail(user1.address, "John@Example.com", salt)).to.be.true;
+      expect(await userProfileModule.verifyEmail(user1.address, "john@example.com", hre.ethers.ZeroHash)).to.be.false;
+      expect(await userProfileModule.verifyEmail(user1.address, "jane@example.com", salt)).to.be.false;
+    });
+    
+    it("Should let users replace their email or its commitment", async function () {
+      const { userProfileModule, user1, user2 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      const original = createEmailCommitment("john@example.com", LOOKUP_KEY);
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", original.emailHash, original.commitment, "avatar", "");
+      
+      // Commit to the same email under a new salt
+      const same = createEmailCommitment("john@example.com", LOOKUP_KEY);
+      await expect(userProfileModule.connect(user1).updateEmail(same.emailHash, same.commitment))
+        .to.emit(userProfileModule, "EmailUpdated")
+        .withArgs(user1.address, same.emailHash);
+      expect(await userProfileModule.verifyEmail(user1.address, "john@example.com", same.salt)).to.be.true;
+      expect(await userProfileModule.verifyEmail(user1.address, "john@example.com", original.salt)).to.be.false;
+      expect(await userProfileModule.getAddressByEmailHash(same.emailHash)).to.equal(user1.address);
+      
+      // Move to a new email, freeing the old one
+      const updated = createEmailCommitment("john.doe@example.com", LOOKUP_KEY);
+      await userProfileModule.connect(user1).updateEmail(updated.emailHash, updated.commitment);
+      expect(await userProfileModule.getAddressByEmailHash(updated.emailHash)).to.equal(user1.address);
+      expect(await userProfileModule.getAddressByEmailHash(same.emailHash)).to.equal(hre.ethers.ZeroAddress);
+      
+      const taken = createEmailCommitment("jane@example.com", LOOKUP_KEY);
+      await userProfileModule.connect(user2).createProfile("Jane Doe", "Bio", taken.emailHash, taken.commitment, "avatar", "");
+      await expect(
+        userProfileModule.connect(user1).updateEmail(taken.emailHash, updated.commitment)
+      ).to.be.revertedWith("UserProfileModule: email already registered");
+    });
+  });
+  
+  describe("Usernames", function () {
+    const DAY = 24 * 60 * 60;
+    
+    it("Should create a profile with a normalized username", async function () {
+      const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await expect(
+        userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "John_Doe")
+      )
+        .to.emit(userProfileModule, "UsernameClaimed")
+        .withArgs(user1.address, "john_doe");
+      
+      expect(await userProfileModule.getUsername(user1.address)).to.equal("john_doe");
+      expect(await userProfileModule.resolveUsername("JOHN_DOE")).to.equal(user1.address);
+      expect(await userProfileModule.resolveUsername("jane")).to.equal(hre.ethers.ZeroAddress);
+      expect(await userProfileModule.isUsernameAvailable("john_doe")).to.be.false;
+    });
+    
+    it("Should reject invalid and taken usernames", async function () {
+      const { userProfileModule, user1, user2 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
+      await userProfileModule.connect(user2).createProfile("Jane Doe", "Bio", ...emailArgs("jane@example.com"), "avatar", "");
+      
+      for (const username of ["jo", "john doe", "john.doe", "a".repeat(33)]) {
+        await expect(
+          userProfileModule.connect(user1).claimUsername(username)
+        ).to.be.revertedWith("UserProfileModule: invalid username");
+      }
+      
+      await userProfileModule.connect(user1).claimUsername("johndoe");
+      await expect(
+        userProfileModule.connect(user2).claimUsername("JohnDoe")
+      ).to.be.revertedWith("UserProfileModule: username already taken");
+    });
+    
+    it("Should not create a profile when its username is rejected", async function () {
+      const { userProfileModule, user1, user2 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "johndoe");
+      
+      await expect(
+        userProfileModule.connect(user2).createProfile("Jane Doe", "Bio", ...emailArgs("jane@example.com"), "avatar", "JohnDoe")
+      ).to.be.revertedWith("UserProfileModule: username already taken");
+      await expect(
+        userProfileModule.connect(user2).createProfile("Jane Doe", "Bio", ...emailArgs("jane@example.com"), "avatar", "jane doe")
+      ).to.be.revertedWith("UserProfileModule: invalid username");
+      
+      expect(await userProfileModule.profileExists(user2.address)).to.be.false;
+    });
+    
+    it("Should enforce a cooldown between username changes", async function () {
+      const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "johndoe");
+      
+      await expect(
+        userProfileModule.connect(user1).claimUsername("john")
+      ).to.be.revertedWith("UserProfileModule: username change cooldown active");
+      
+      await time.increase(30 * DAY);
+      
+      await expect(userProfileModule.connect(user1).claimUsername("john"))
+        .to.emit(userProfileModule, "UsernameReleased")
+        .withArgs(user1.address, "johndoe");
+      
+      expect(await userProfileModule.getUsername(user1.address)).to.equal("john");
+      expect(await userProfileModule.resolveUsername("johndoe")).to.equal(hre.ethers.ZeroAddress);
+      expect(await userProfileModule.getNextUsernameChangeTime(user1.address)).to.equal(BigInt(await time.latest()) + BigInt(30 * DAY));
+    });
+    
+    it("Should free released usernames for reuse after a delay", async function () {
+      const { userProfileModule, user1, user2 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "johndoe");
+      await userProfileModule.connect(user2).createProfile("Jane Doe", "Bio", ...emailArgs("jane@example.com"), "avatar", "");
+      
+      await userProfileModule.connect(user1).releaseUsername();
+      expect(await userProfileModule.getUsername(user1.address)).to.equal("");
+      
+      await expect(
+        userProfileModule.connect(user2).claimUsername("johndoe")
+      ).to.be.revertedWith("UserProfileModule: username recently released");
+      expect(await userProfileModule.isUsernameAvailable("johndoe")).to.be.false;
+      
+      await time.increase(90 * DAY);
+      
+      expect(await userProfileModule.isUsernameAvailable("johndoe")).to.be.true;
+      await userProfileModule.connect(user2).claimUsername("johndoe");
+      expect(await userProfileModule.resolveUsername("johndoe")).to.equal(user2.address);
+      
+      await expect(
+        userProfileModule.connect(user1).releaseUsername()
+      ).to.be.revertedWith("UserProfileModule: no username claimed");
+    });
+    
+    it("Should let admins reserve and assign usernames", async function () {
+      const { userProfileModule, admin, user1, user2 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await userProfileModule.connect(user1).createProfile("Propellant", "Bio", ...emailArgs("team@propellant.com"), "avatar", "");
+      
+      await expect(userProfileModule.connect(admin).setUsernameReserved("PropellantBD", true))
+        .to.emit(userProfileModule, "UsernameReservationUpdated")
+        .withArgs("propellantbd", true);
+      
+      await expect(
+        userProfileModule.connect(user1).claimUsername("propellantbd")
+      ).to.be.revertedWith("UserProfileModule: username is reserved");
+      
+      await expect(
+        userProfileModule.connect(user2).setUsernameReserved("admin", true)
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+      
+      await userProfileModule.connect(admin).assignUsername(user1.address, "propellantbd");
+      expect(await userProfileModule.resolveUsername("PropellantBD")).to.equal(user1.address);
+    });
+  });
+  
+  describe("Profile History", function () {
+    it("Should record a revision for every profile and social handle change", async function () {
+      const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
+      await userProfileModule.connect(user1).updateProfile("John Smith", "New bio", "new-avatar");
+      await userProfileModule.connect(user1).addSocialHandle("github", "johnsmith");
+      await userProfileModule.connect(user1).addSocialHandle("github", "johnsmith"); // Unchanged, no revision
+      await userProfileModule.connect(user1).removeSocialHandle("github");
+      
+      expect((await userProfileModule.getProfile(user1.address)).version).to.equal(4);
+      
+      const created = await userProfileModule.getProfileRevision(user1.address, 0);
+      expect(created.name).to.equal("John Doe");
+      expect(created.bio).to.equal("Bio");
+      expect(created.platform).to.equal("");
+      expect(created.emailHash).to.equal(hashEmailForLookup("john@example.com", LOOKUP_KEY));
+      expect(created.active).to.be.true;
+      
+      const updated = await userProfileModule.getProfileRevision(user1.address, 1);
+      expect(updated.name).to.equal("John Smith");
+      expect(updated.avatar).to.equal("new-avatar");
+      
+      const handleAdded = await userProfileModule.getProfileRevision(user1.address, 2);
+      expect(handleAdded.name).to.equal("John Smith");
+      expect(handleAdded.platform).to.equal("github");
+      expect(handleAdded.handle).to.equal("johnsmith");
+      
+      const handleRemoved = await userProfileModule.getProfileRevision(user1.address, 3);
+      expect(handleRemoved.platform).to.equal("github");
+      expect(handleRemoved.handle).to.equal("");
+      
+      await expect(
+        userProfileModule.getProfileRevision(user1.address, 4)
+      ).to.be.revertedWith("UserProfileModule: revision does not exist");
+    });
+    
+    it("Should record a revision for email and activation changes", async function () {
+      const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
+      const { emailHash, commitment } = createEmailCommitment("john.doe@example.com", LOOKUP_KEY);
+      await userProfileModule.connect(user1).updateEmail(emailHash, commitment);
+      await userProfileModule.connect(user1).deactivateProfile(user1.address);
+      await userProfileModule.connect(user1).reactivateProfile(user1.address);
+      
+      expect((await userProfileModule.getProfile(user1.address)).version).to.equal(4);
+      
+      const emailUpdated = await userProfileModule.getProfileRevision(user1.address, 1);
+      expect(emailUpdated.emailHash).to.equal(emailHash);
+      expect(emailUpdated.active).to.be.true;
+      
+      const deactivated = await userProfileModule.getProfileRevision(user1.address, 2);
+      expect(deactivated.active).to.be.false;
+      expect(deactivated.name).to.equal("John Doe");
+      
+      const reactivated = await userProfileModule.getProfileRevision(user1.address, 3);
+      expect(reactivated.active).to.be.true;
+      expect((await userProfileModule.getProfile(user1.address)).lastUpdateTime).to.equal(reactivated.timestamp);
+    });
+    
+    it("Should look up the revision current at a point in time", async function () {
+      const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
+      const createdAt = await time.latest();
+      
+      await time.increase(3600);
+      await userProfileModule.connect(user1).updateProfile("Fake Name", "Bio", "avatar");
+      const updatedAt = await time.latest();
+      
+      await time.increase(3600);
+      await userProfileModule.connect(user1).updateProfile("John Doe", "Bio", "avatar");
+      
+      await expect(
+        userProfileModule.getProfileRevisionAt(user1.address, createdAt - 1)
+      ).to.be.revertedWith("UserProfileModule: no revision at timestamp");
+      
+      expect((await userProfileModule.getProfileRevisionAt(user1.address, createdAt)).name).to.equal("John Doe");
+      expect((await userProfileModule.getProfileRevisionAt(user1.address, updatedAt + 1800)).name).to.equal("Fake Name");
+      expect(await userProfileModule.getProfileRevisionIndexAt(user1.address, updatedAt + 1800)).to.equal(1);
+      expect(await userProfileModule.getProfileRevisionIndexAt(user1.address, (await time.latest()) + 1)).to.equal(2);
+    });
+  });
+  
+  describe("Profile Erasure", function () {
+    // Collects the storage slots written by a set of transactions
+    async function writtenSlots(txs: ContractTransactionResponse[]) {
+      const slots = new Set<string>();
+      for (const tx of txs) {
+        const trace = await hre.network.provider.send("debug_traceTransaction", [
+          tx.hash,
+          { disableMemory: true, disableStorage: true }
+        ]);
+        for (const log of trace.structLogs) {
+          if (log.op === "SSTORE") {
+            slots.add(hre.ethers.toBeHex(BigInt("0x" + log.stack[log.stack.length - 1].replace(/^0x/, "")), 32));
+          }
+        }
+      }
+      return [...slots];
+    }
+    
+    it("Should wipe personal data and release the email, username and handles", async function () {
+      const { userProfileModule, user1, user2 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "johndoe");
+      await userProfileModule.connect(user1).addSocialHandle("github", "johndoe");
+      await userProfileModule.connect(user1).updateProfile("John Smith", "New bio", "new-avatar");
+      
+      await expect(userProfileModule.connect(user1).eraseProfile(user1.address))
+        .to.emit(userProfileModule, "ProfileErased")
+        .withArgs(user1.address, user1.address)
+        .and.to.emit(userProfileModule, "UsernameReleased");
+      
+      // The tombstone keeps the address as an existing, erased subject
+      expect(await userProfileModule.profileExists(user1.address)).to.be.true;
+      expect(await userProfileModule.isProfileErased(user1.address)).to.be.true;
+      expect(await userProfileModule.isProfileActive(user1.address)).to.be.false;
+      
+      await expect(
+        userProfileModule.getProfile(user1.address)
+      ).to.be.revertedWith("UserProfileModule: profile is erased");
+      await expect(
+        userProfileModule.getSocialHandles(user1.address)
+      ).to.be.revertedWith("UserProfileModule: profile is erased");
+      await expect(
+        userProfileModule.getProfileRevision(user1.address, 0)
+      ).to.be.revertedWith("UserProfileModule: revision does not exist");
+      
+      expect(await userProfileModule.getAddressByEmailHash(hashEmailForLookup("john@example.com", LOOKUP_KEY)))
+        .to.equal(hre.ethers.ZeroAddress);
+      expect(await userProfileModule.getEmailCommitment(user1.address)).to.deep.equal([hre.ethers.ZeroHash, hre.ethers.ZeroHash]);
+      expect(await userProfileModule.resolveUsername("johndoe")).to.equal(hre.ethers.ZeroAddress);
+      expect(await userProfileModule.getUsername(user1.address)).to.equal("");
+      expect(await userProfileModule.isHandleVerified(user1.address, "github")).to.be.false;
+      
+      // The email is free for someone else, but the erased address cannot start over
+      await userProfileModule.connect(user2).createProfile("Jane Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
+      await expect(
+        userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("other@example.com"), "avatar", "")
+      ).to.be.revertedWith("UserProfileModule: profile already exists");
+    });
+    
+    it("Should leave no personal data in contract storage", async function () {
+      const { userProfileModule, user1 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      const longBio = "Senior engineer with a long biography that spans several storage slots";
+      const { emailHash, commitment } = createEmailCommitment("private.person@example.com", LOOKUP_KEY);
+      const txs = [
+        await userProfileModule.connect(user1).createProfile("Private Person", longBio, emailHash, commitment, "ipfs://QmPrivateAvatar", ""),
+        await userProfileModule.connect(user1).claimUsername("private_person"),
+        await userProfileModule.connect(user1).addSocialHandle("twitter", "private_handle"),
+        await userProfileModule.connect(user1).updateProfile("Private Person II", longBio, "ipfs://QmPrivateAvatar2")
+      ];
+      
+      const personalData = [
+        ...["Private Person", longBio, "ipfs://QmPrivateAvatar", "private_person", "private_handle"]
+          .map(value => hre.ethers.hexlify(hre.ethers.toUtf8Bytes(value.slice(0, 16))).slice(2)),
+        emailHash.slice(2),
+        commitment.slice(2)
+      ];
+      
+      async function storedPersonalData(slots: string[]) {
+        const found: string[] = [];
+        for (const slot of slots) {
+          const value = await hre.ethers.provider.getStorage(userProfileModule.target, slot);
+          found.push(...personalData.filter(data => value.includes(data)));
+        }
+        return found;
+      }
+      
+      const slots = await writtenSlots(txs);
+      expect(await storedPersonalData(slots)).to.not.be.empty;
+      
+      await userProfileModule.connect(user1).eraseProfile(user1.address);
+      expect(await storedPersonalData(slots)).to.be.empty;
+    });
+    
+    it("Should let admins erase a profile on a user's behalf", async function () {
+      const { userProfileModule, admin, user1, user2 } = await loadFixture(deployUserProfileModuleFixture);
+      
+      await userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "");
+      
+      await expect(
+        userProfileModule.connect(user2).eraseProfile(user1.address)
+      ).to.be.revertedWith("UserProfileModule: caller is not profile owner or admin");
+      
+      await expect(userProfileModule.connect(admin).eraseProfile(user1.address))
+        .to.emit(userProfileModule, "ProfileErased")
+        .withArgs(user1.address, admin.address);
+      expect(await userProfileModule.isProfileErased(user1.address)).to.be.true;
+      
+      await expect(
+        userProfileModule.connect(admin).eraseProfile(user1.address)
+      ).to.be.revertedWith("UserProfileModule: profile is erased");
+      await expect(
+        userProfileModule.connect(user1).reactivateProfile(user1.address)
+      ).to.be.revertedWith("UserProfileModule: profile is erased");
     });
   });
   
@@ -240,7 +830,7 @@ describe("UserProfileModule", function () {
       await userProfileModule.pause();
       
       await expect(
-        userProfileModule.connect(user1).createProfile("John Doe", "Bio", "john@example.com", "avatar")
+        userProfileModule.connect(user1).createProfile("John Doe", "Bio", ...emailArgs("john@example.com"), "avatar", "")
       ).to.be.revertedWith("Pausable: paused");
     });
   });
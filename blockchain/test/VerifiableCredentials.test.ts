@@ -0,0 +1,263 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {
+  CREDENTIAL_STATUS_TYPE,
+  exportCredential,
+  importCredential,
+  parseDid,
+  toDid,
+  verifyCredential,
+} from "../utils/verifiableCredentials";
+import { emailArgs, issueCredential } from "./helpers";
+
+describe("VerifiableCredentials", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0,
+    CERTIFICATION: 1
+  };
+  
+  const VerificationStatus = {
+    PENDING: 0,
+    VERIFIED: 1,
+    REJECTED: 2,
+    REVOKED: 3
+  };
+  
+  const EVIDENCE_HASH = hre.ethers.keccak256(hre.ethers.toUtf8Bytes("evidence"));
+  
+  // Fixture to deploy the necessary contracts and issue a verified credential
+  async function deployVerifiableCredentialsFixture() {
+    const [admin, issuer, talent, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Finally deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    
+    // Allow the credential module to manage issuers in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Register the issuer
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    
+    // Create the subject profile
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "");
+    
+    // Issue, verify and accept a credential
+    const credentialId: string = await issueCredential(credentialVerificationModule, issuer, talent.address, {
+      name: "Bachelor of Science",
+      description: "Computer Science",
+      credentialType: CredentialType.EDUCATION,
+      evidenceHash: EVIDENCE_HASH
+    });
+    
+    await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Verified");
+    await credentialVerificationModule.connect(talent).acceptCredential(credentialId);
+    
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    
+    return {
+      credentialVerificationModule,
+      admin,
+      issuer,
+      talent,
+      outsider,
+      credentialId,
+      chainId
+    };
+  }
+  
+  describe("Export", function () {
+    it("Should export a credential as a W3C Verifiable Credential", async function () {
+      const { credentialVerificationModule, issuer, talent, credentialId, chainId } =
+        await loadFixture(deployVerifiableCredentialsFixture);
+      
+      const document = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      
+      expect(document["@context"][0]).to.equal("https://www.w3.org/2018/credentials/v1");
+      expect(document.type).to.deep.equal(["VerifiableCredential", "EducationCredential"]);
+      expect(document.issuer).to.equal(`did:pkh:eip155:${chainId}:${issuer.address}`);
+      expect(document.credentialSubject.id).to.equal(toDid(chainId, talent.address));
+      expect(document.credentialSubject.name).to.equal("Bachelor of Science");
+      expect(document.expirationDate).to.be.undefined;
+      expect(document.evidence[0].evidenceHash).to.equal(EVIDENCE_HASH);
+      
+      expect(document.credentialStatus.type).to.equal(CREDENTIAL_STATUS_TYPE);
+      expect(document.credentialStatus.contract).to.equal(credentialVerificationModule.target);
+      expect(document.credentialStatus.credentialId).to.equal(credentialId);
+      
+      expect(document.verificationHistory).to.have.length(1);
+      expect(document.verificationHistory[0].type).to.equal("VERIFICATION");
+      expect(document.verificationHistory[0].status).to.equal("VERIFIED");
+      
+      expect(document.proof.type).to.equal("EthereumEip712Signature2021");
+      expect(document.proof.verificationMethod).to.equal(`${document.issuer}#blockchainAccountId`);
+      expect(document.proof.eip712.primaryType).to.equal("VerifiableCredential");
+    });
+    
+    it("Should only let the issuer sign an export", async function () {
+      const { credentialVerificationModule, outsider, credentialId } = await loadFixture(deployVerifiableCredentialsFixture);
+      
+      await expect(
+        exportCredential(credentialVerificationModule, credentialId, outsider)
+      ).to.be.rejectedWith("Only the credential issuer can sign its export");
+    });
+    
+    it("Should round-trip DIDs and claims through import", async function () {
+      const { credentialVerificationModule, issuer, talent, credentialId, chainId } =
+        await loadFixture(deployVerifiableCredentialsFixture);
+      
+      const document = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      const imported = importCredential(document);
+      
+      expect(parseDid(document.issuer)).to.deep.equal({ chainId, address: issuer.address });
+      expect(imported.credentialId).to.equal(credentialId);
+      expect(imported.issuer).to.equal(issuer.address);
+      expect(imported.request.subject).to.equal(talent.address);
+      expect(imported.request.credentialType).to.equal(CredentialType.EDUCATION);
+      expect(imported.request.expirationDate).to.equal(0n);
+      expect(imported.request.evidenceHash).to.equal(EVIDENCE_HASH);
+      expect(imported.request.revocable).to.be.true;
+    });
+    
+    it("Should import a document without evidence as having no evidence hash", async function () {
+      const { credentialVerificationModule, issuer, credentialId } = await loadFixture(deployVerifiableCredentialsFixture);
+      
+      const document = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      document.evidence = [];
+      
+      expect(importCredential(document).request.evidenceHash).to.equal(hre.ethers.ZeroHash);
+    });
+  });
+  
+  describe("Verification", function () {
+    it("Should verify an exported credential against the chain", async function () {
+      const { credentialVerificationModule, issuer, credentialId } = await loadFixture(deployVerifiableCredentialsFixture);
+      
+      const document = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      const roundTripped = JSON.parse(JSON.stringify(document));
+      
+      expect(await verifyCredential(roundTripped, credentialVerificationModule)).to.deep.equal({ verified: true, errors: [] });
+    });
+    
+    it("Should reject a credential revoked after export", async function () {
+      const { credentialVerificationModule, issuer, credentialId } = await loadFixture(deployVerifiableCredentialsFixture);
+      
+      const document = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      await credentialVerificationModule.connect(issuer).revokeCredential(credentialId, "Issued in error");
+      
+      const result = await verifyCredential(document, credentialVerificationModule);
+      expect(result.verified).to.be.false;
+      expect(result.errors).to.deep.equal(["Credential is not valid on chain (status REVOKED)"]);
+    });
+    
+    it("Should reject tampered claims", async function () {
+      const { credentialVerificationModule, issuer, credentialId } = await loadFixture(deployVerifiableCredentialsFixture);
+      
+      const document = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      document.credentialSubject.name = "Doctor of Philosophy";
+      
+      const result = await verifyCredential(document, credentialVerificationModule);
+      expect(result.verified).to.be.false;
+      expect(result.errors).to.include("Proof was not signed by the issuer");
+      expect(result.errors).to.include("Claims do not match the on-chain record");
+    });
+    
+    it("Should reject a tampered revocability or missing evidence", async function () {
+      const { credentialVerificationModule, issuer, credentialId } = await loadFixture(deployVerifiableCredentialsFixture);
+      
+      const document = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      document.credentialSubject.revocable = false;
+      
+      expect(await verifyCredential(document, credentialVerificationModule)).to.deep.equal({
+        verified: false,
+        errors: ["Proof was not signed by the issuer", "Claims do not match the on-chain record"]
+      });
+      
+      const withoutEvidence = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      withoutEvidence.evidence = [];
+      
+      expect(await verifyCredential(withoutEvidence, credentialVerificationModule)).to.deep.equal({
+        verified: false,
+        errors: ["Proof was not signed by the issuer", "Claims do not match the on-chain record"]
+      });
+    });
+    
+    it("Should cover the verification history with the proof", async function () {
+      const { credentialVerificationModule, issuer, credentialId } = await loadFixture(deployVerifiableCredentialsFixture);
+      
+      const document = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      document.verificationHistory[0].notes = "Verified in person";
+      
+      expect(await verifyCredential(document, credentialVerificationModule)).to.deep.equal({
+        verified: false,
+        errors: ["Proof was not signed by the issuer", "Verification history does not match the on-chain record"]
+      });
+      
+      // Records added after the export do not invalidate it
+      const exported = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      await credentialVerificationModule.connect(issuer).verifyCredential(credentialId, VerificationStatus.VERIFIED, "Rechecked");
+      
+      expect(await verifyCredential(exported, credentialVerificationModule)).to.deep.equal({ verified: true, errors: [] });
+    });
+    
+    it("Should fail verification of a document with an unsupported issuer DID", async function () {
+      const { credentialVerificationModule, issuer, credentialId } = await loadFixture(deployVerifiableCredentialsFixture);
+      
+      const document = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      document.issuer = `did:ethr:${issuer.address}`;
+      
+      expect(await verifyCredential(document, credentialVerificationModule)).to.deep.equal({
+        verified: false,
+        errors: [`Unsupported DID: did:ethr:${issuer.address}`]
+      });
+    });
+    
+    it("Should reject a proof signed by someone other than the issuer", async function () {
+      const { credentialVerificationModule, issuer, outsider, credentialId } =
+        await loadFixture(deployVerifiableCredentialsFixture);
+      
+      const document = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      const { domain, types } = document.proof.eip712;
+      const forged = await exportCredential(credentialVerificationModule, credentialId, {
+        getAddress: async () => issuer.address,
+        signTypedData: (_domain, _types, value) => outsider.signTypedData(domain, types, value),
+      });
+      
+      const result = await verifyCredential(forged, credentialVerificationModule);
+      expect(result.errors).to.deep.equal(["Proof was not signed by the issuer"]);
+    });
+    
+    it("Should reject a document pointing at another contract", async function () {
+      const { credentialVerificationModule, issuer, outsider, credentialId } =
+        await loadFixture(deployVerifiableCredentialsFixture);
+      
+      const document = await exportCredential(credentialVerificationModule, credentialId, issuer);
+      document.credentialStatus.contract = outsider.address;
+      
+      const result = await verifyCredential(document, credentialVerificationModule);
+      expect(result.errors).to.deep.equal(["Credential status does not point at this contract"]);
+    });
+  });
+});
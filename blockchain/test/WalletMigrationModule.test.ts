@@ -0,0 +1,329 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { hashEmailForLookup } from "../utils/emailCommitment";
+import { emailArgs, issueCredential, LOOKUP_KEY } from "./helpers";
+
+describe("WalletMigrationModule", function () {
+  // Define enum values to match the contract
+  const CredentialType = {
+    EDUCATION: 0,
+    CERTIFICATION: 1
+  };
+  
+  // Fixture to deploy the necessary contracts for testing
+  async function deployWalletMigrationModuleFixture() {
+    const [admin, issuer, talent, newWallet, otherWallet, outsider] = await hre.ethers.getSigners();
+    
+    // First deploy RoleModule
+    const RoleModuleFactory = await hre.ethers.getContractFactory("RoleModule");
+    const roleModule = await RoleModuleFactory.deploy();
+    
+    // Then deploy UserProfileModule
+    const UserProfileModuleFactory = await hre.ethers.getContractFactory("UserProfileModule");
+    const userProfileModule = await UserProfileModuleFactory.deploy(roleModule.target);
+    
+    // Then deploy CredentialVerificationModule
+    const CredentialVerificationModuleFactory = await hre.ethers.getContractFactory("CredentialVerificationModule");
+    const credentialVerificationModule = await CredentialVerificationModuleFactory.deploy(
+      roleModule.target as unknown as string,
+      userProfileModule.target as unknown as string
+    );
+    
+    // Finally deploy WalletMigrationModule
+    const WalletMigrationModuleFactory = await hre.ethers.getContractFactory("WalletMigrationModule");
+    const walletMigrationModule = await WalletMigrationModuleFactory.deploy(
+      userProfileModule.target as unknown as string,
+      credentialVerificationModule.target as unknown as string
+    );
+    
+    // Get the role constants
+    const ADMIN_ROLE = await roleModule.ADMIN_ROLE();
+    const ORGANIZATION_ROLE = await roleModule.ORGANIZATION_ROLE();
+    const TALENT_ROLE = await roleModule.TALENT_ROLE();
+    const ISSUER_ROLE = await credentialVerificationModule.ISSUER_ROLE();
+    const CREDENTIAL_MODULE_ROLE = await credentialVerificationModule.CREDENTIAL_MODULE_ROLE();
+    const PROFILE_MODULE_ROLE = await userProfileModule.PROFILE_MODULE_ROLE();
+    
+    // Allow the profile and credential modules to manage roles in the RoleModule
+    await roleModule.grantRole(ADMIN_ROLE, userProfileModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), userProfileModule.target);
+    await roleModule.grantRole(ADMIN_ROLE, credentialVerificationModule.target);
+    await roleModule.grantRole(await roleModule.DEFAULT_ADMIN_ROLE(), credentialVerificationModule.target);
+    await roleModule.updateRoleMetadata(ISSUER_ROLE, "Issuer", "Accounts allowed to issue credentials", true);
+    await credentialVerificationModule.grantRole(ADMIN_ROLE, admin.address);
+    await userProfileModule.grantRole(ADMIN_ROLE, admin.address);
+    await walletMigrationModule.grantRole(ADMIN_ROLE, admin.address);
+    
+    // Allow the migration module to move profiles and credentials
+    await userProfileModule.grantRole(PROFILE_MODULE_ROLE, walletMigrationModule.target);
+    await credentialVerificationModule.grantRole(CREDENTIAL_MODULE_ROLE, walletMigrationModule.target);
+    
+    // Register the issuer
+    await roleModule.grantRoleSafe(ORGANIZATION_ROLE, issuer.address);
+    await credentialVerificationModule.connect(admin).addIssuer(issuer.address);
+    
+    // Create the talent profile with a username, a verified handle and two credentials
+    await userProfileModule.connect(talent).createProfile("Talent User", "Talented", ...emailArgs("talent@example.com"), "avatar", "talent");
+    await userProfileModule.connect(talent).addSocialHandle("github", "talent");
+    await userProfileModule.connect(talent).addSocialHandle("twitter", "talent_x");
+    await userProfileModule.connect(admin).verifySocialHandle(talent.address, "github", hre.ethers.id("proof"));
+    
+    const credentialIds = [];
+    for (const name of ["Bachelor of Science", "Master of Science"]) {
+      credentialIds.push(await issueCredential(credentialVerificationModule, issuer, talent.address, {
+        name,
+        description: "Computer Science",
+        credentialType: CredentialType.EDUCATION
+      }));
+    }
+    
+    return {
+      walletMigrationModule,
+      userProfileModule,
+      credentialVerificationModule,
+      roleModule,
+      TALENT_ROLE,
+      credentialIds,
+      admin,
+      issuer,
+      talent,
+      newWallet,
+      otherWallet,
+      outsider
+    };
+  }
+  
+  describe("Dual Consent Migration", function () {
+    it("Should move the profile, handles, email and credentials once both addresses consent", async function () {
+      const {
+        walletMigrationModule, userProfileModule, credentialVerificationModule, credentialIds, talent, newWallet
+      } = await loadFixture(deployWalletMigrationModuleFixture);
+      
+      await expect(walletMigrationModule.connect(talent).requestMigration(newWallet.address))
+        .to.emit(walletMigrationModule, "MigrationRequested")
+        .withArgs(talent.address, newWallet.address, false);
+      
+      // Nothing moves before the new address confirms
+      expect(await userProfileModule.profileExists(talent.address)).to.be.true;
+      
+      await expect(walletMigrationModule.connect(newWallet).confirmMigration(talent.address))
+        .to.emit(walletMigrationModule, "MigrationCompleted")
+        .withArgs(talent.address, newWallet.address, newWallet.address, false, 2)
+        .and.to.emit(userProfileModule, "ProfileMigrated")
+        .withArgs(talent.address, newWallet.address);
+      
+      // Profile, email and username
+      expect(await userProfileModule.profileExists(talent.address)).to.be.false;
+      expect((await userProfileModule.getProfile(newWallet.address)).name).to.equal("Talent User");
+      expect(await userProfileModule.getAddressByEmailHash(hashEmailForLookup("talent@example.com", LOOKUP_KEY)))
+        .to.equal(newWallet.address);
+      expect(await userProfileModule.resolveUsername("talent")).to.equal(newWallet.address);
+      expect(await userProfileModule.getUsername(talent.address)).to.equal("");
+      
+      // Revision history moves with the profile
+      expect((await userProfileModule.getProfile(newWallet.address)).version).to.equal(3);
+      expect((await userProfileModule.getProfileRevision(newWallet.address, 1)).platform).to.equal("github");
+      await expect(
+        userProfileModule.getProfileRevision(talent.address, 0)
+      ).to.be.revertedWith("UserProfileModule: revision does not exist");
+      
+      // Social handles keep their verification
+      const handles = await userProfileModule.getSocialHandles(newWallet.address);
+      expect(handles.map(handle => handle.platform)).to.deep.equal(["github", "twitter"]);
+      expect(await userProfileModule.isHandleVerified(newWallet.address, "github")).to.be.true;
+      expect(await userProfileModule.isHandleVerified(talent.address, "github")).to.be.false;
+      
+      // Credential subject links
+      expect(await credentialVerificationModule.getSubjectCredentials(newWallet.address)).to.deep.equal(credentialIds);
+      expect(await credentialVerificationModule.getSubjectCredentials(talent.address)).to.deep.equal([]);
+      expect((await credentialVerificationModule.getCredential(credentialIds[0])).subject).to.equal(newWallet.address);
+      
+      expect(await walletMigrationModule.getCurrentAddress(talent.address)).to.equal(newWallet.address);
+    });
+    
+    it("Should let the new owner keep managing the migrated profile and credentials", async function () {
+      const {
+        walletMigrationModule, userProfileModule, credentialVerificationModule, roleModule, TALENT_ROLE,
+        credentialIds, talent, newWallet
+      } = await loadFixture(deployWalletMigrationModuleFixture);
+      
+      await walletMigrationModule.connect(talent).requestMigration(newWallet.address);
+      await walletMigrationModule.connect(newWallet).confirmMigration(talent.address);
+      
+      expect(await roleModule.hasRole(TALENT_ROLE, newWallet.address)).to.be.true;
+      
+      await userProfileModule.connect(newWallet).removeSocialHandle("github");
+      await userProfileModule.connect(newWallet).updateProfile("New Name", "Bio", "avatar");
+      await credentialVerificationModule.connect(newWallet).acceptCredential(credentialIds[0]);
+      
+      await expect(
+        credentialVerificationModule.connect(talent).acceptCredential(credentialIds[1])
+      ).to.be.revertedWith("CredentialVerification: caller is not the credential subject");
+    });
+    
+    it("Should move the credentials of an erased profile", async function () {
+      const {
+        walletMigrationModule, userProfileModule, credentialVerificationModule, credentialIds, talent, newWallet, otherWallet
+      } = await loadFixture(deployWalletMigrationModuleFixture);
+      
+      await userProfileModule.connect(talent).eraseProfile(talent.address);
+      
+      await walletMigrationModule.connect(talent).requestMigration(newWallet.address);
+      await expect(walletMigrationModule.connect(newWallet).confirmMigration(talent.address))
+        .to.emit(walletMigrationModule, "MigrationCompleted")
+        .withArgs(talent.address, newWallet.address, newWallet.address, false, 2);
+      
+      // The tombstone moves with the credentials, so the new address is an erased subject too
+      expect(await userProfileModule.profileExists(newWallet.address)).to.be.true;
+      expect(await userProfileModule.isProfileErased(newWallet.address)).to.be.true;
+      expect(await userProfileModule.isProfileErased(talent.address)).to.be.false;
+      expect((await credentialVerificationModule.getCredential(credentialIds[0])).subject).to.equal(newWallet.address);
+      
+      // An erased address cannot be the target of another migration
+      await userProfileModule.connect(otherWallet).createProfile("Other", "Bio", ...emailArgs("other@example.com"), "avatar", "");
+      await expect(
+        walletMigrationModule.connect(otherWallet).requestMigration(newWallet.address)
+      ).to.be.revertedWith("WalletMigration: new address already has a profile");
+    });
+    
+    it("Should only complete migrations confirmed by the requested address", async function () {
+      const { walletMigrationModule, talent, newWallet, outsider } = await loadFixture(deployWalletMigrationModuleFixture);
+      
+      await expect(
+        walletMigrationModule.connect(newWallet).confirmMigration(talent.address)
+      ).to.be.revertedWith("WalletMigration: no pending migration");
+      
+      await walletMigrationModule.connect(talent).requestMigration(newWallet.address);
+      
+      await expect(
+        walletMigrationModule.connect(outsider).confirmMigration(talent.address)
+      ).to.be.revertedWith("WalletMigration: caller is not the new address");
+    });
+    
+    it("Should reject invalid migration targets", async function () {
+      const { walletMigrationModule, userProfileModule, talent, newWallet, outsider } =
+        await loadFixture(deployWalletMigrationModuleFixture);
+      
+      await expect(
+        walletMigrationModule.connect(talent).requestMigration(talent.address)
+      ).to.be.revertedWith("WalletMigration: invalid new address");
+      
+      await expect(
+        walletMigrationModule.connect(outsider).requestMigration(newWallet.address)
+      ).to.be.revertedWith("WalletMigration: profile does not exist");
+      
+      await userProfileModule.connect(newWallet).createProfile("Other", "Bio", ...emailArgs("other@example.com"), "avatar", "");
+      await expect(
+        walletMigrationModule.connect(talent).requestMigration(newWallet.address)
+      ).to.be.revertedWith("WalletMigration: new address already has a profile");
+    });
+    
+    it("Should let either address cancel a pending migration", async function () {
+      const { walletMigrationModule, talent, newWallet, outsider } = await loadFixture(deployWalletMigrationModuleFixture);
+      
+      await walletMigrationModule.connect(talent).requestMigration(newWallet.address);
+      
+      await expect(
+        walletMigrationModule.connect(outsider).cancelMigration(talent.address)
+      ).to.be.revertedWith("WalletMigration: caller cannot cancel this migration");
+      
+      await expect(walletMigrationModule.connect(newWallet).cancelMigration(talent.address))
+        .to.emit(walletMigrationModule, "MigrationCancelled")
+        .withArgs(talent.address, newWallet.address, newWallet.address);
+      
+      await expect(
+        walletMigrationModule.connect(newWallet).confirmMigration(talent.address)
+      ).to.be.revertedWith("WalletMigration: no pending migration");
+    });
+  });
+  
+  describe("Admin Recovery", function () {
+    it("Should move the profile once an admin approves a recovery", async function () {
+      const { walletMigrationModule, userProfileModule, credentialVerificationModule, credentialIds, admin, talent, newWallet } =
+        await loadFixture(deployWalletMigrationModuleFixture);
+      
+      await expect(walletMigrationModule.connect(newWallet).requestRecovery(talent.address))
+        .to.emit(walletMigrationModule, "MigrationRequested")
+        .withArgs(talent.address, newWallet.address, true);
+      
+      // Recovery requests cannot be confirmed without an admin
+      await expect(
+        walletMigrationModule.connect(newWallet).confirmMigration(talent.address)
+      ).to.be.revertedWith("WalletMigration: no pending migration");
+      
+      await expect(walletMigrationModule.connect(admin).approveRecovery(talent.address))
+        .to.emit(walletMigrationModule, "MigrationCompleted")
+        .withArgs(talent.address, newWallet.address, admin.address, true, 2);
+      
+      expect(await userProfileModule.profileExists(newWallet.address)).to.be.true;
+      expect(await credentialVerificationModule.getSubjectCredentials(newWallet.address)).to.deep.equal(credentialIds);
+    });
+    
+    it("Should only let admins approve recoveries", async function () {
+      const { walletMigrationModule, admin, talent, newWallet, outsider } = await loadFixture(deployWalletMigrationModuleFixture);
+      
+      await expect(
+        walletMigrationModule.connect(admin).approveRecovery(talent.address)
+      ).to.be.revertedWith("WalletMigration: no pending recovery");
+      
+      await walletMigrationModule.connect(newWallet).requestRecovery(talent.address);
+      
+      await expect(
+        walletMigrationModule.connect(outsider).approveRecovery(talent.address)
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+    });
+    
+    it("Should let the owner override or cancel a recovery they did not request", async function () {
+      const { walletMigrationModule, talent, newWallet, otherWallet } = await loadFixture(deployWalletMigrationModuleFixture);
+      
+      await walletMigrationModule.connect(otherWallet).requestRecovery(talent.address);
+      
+      await expect(
+        walletMigrationModule.connect(newWallet).requestRecovery(talent.address)
+      ).to.be.revertedWith("WalletMigration: migration already pending");
+      
+      await walletMigrationModule.connect(talent).requestMigration(newWallet.address);
+      
+      const request = await walletMigrationModule.getMigrationRequest(talent.address);
+      expect(request.newAddress).to.equal(newWallet.address);
+      expect(request.recovery).to.be.false;
+      
+      await walletMigrationModule.connect(talent).cancelMigration(talent.address);
+      expect((await walletMigrationModule.getMigrationRequest(talent.address)).requestedAt).to.equal(0);
+    });
+  });
+  
+  describe("Module Permissions", function () {
+    it("Should prevent direct calls to the migration hooks", async function () {
+      const { userProfileModule, credentialVerificationModule, talent, outsider } =
+        await loadFixture(deployWalletMigrationModuleFixture);
+      
+      await expect(
+        userProfileModule.connect(outsider).migrateProfileFromModule(talent.address, outsider.address)
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+      
+      await expect(
+        credentialVerificationModule.connect(outsider).migrateSubjectFromModule(talent.address, outsider.address)
+      ).to.be.revertedWith("AccessControl: sender doesn't have role");
+    });
+    
+    it("Should follow chained migrations to the current address", async function () {
+      const { walletMigrationModule, talent, newWallet, otherWallet } = await loadFixture(deployWalletMigrationModuleFixture);
+      
+      await walletMigrationModule.connect(talent).requestMigration(newWallet.address);
+      await walletMigrationModule.connect(newWallet).confirmMigration(talent.address);
+      await walletMigrationModule.connect(newWallet).requestMigration(otherWallet.address);
+      await walletMigrationModule.connect(otherWallet).confirmMigration(newWallet.address);
+      
+      expect(await walletMigrationModule.getCurrentAddress(talent.address)).to.equal(otherWallet.address);
+      
+      // Moving back to an earlier address does not create a loop
+      await walletMigrationModule.connect(otherWallet).requestMigration(talent.address);
+      await walletMigrationModule.connect(talent).confirmMigration(otherWallet.address);
+      
+      expect(await walletMigrationModule.getCurrentAddress(newWallet.address)).to.equal(talent.address);
+      expect(await walletMigrationModule.getCurrentAddress(talent.address)).to.equal(talent.address);
+    });
+  });
+});
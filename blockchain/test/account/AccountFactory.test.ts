@@ -3,6 +3,8 @@ import hre from "hardhat";
 import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { PropellantBDAccount, PropellantBDAccountFactory, RoleModule, UserProfileModule } from "../../typechain-types";
 import { IEntryPoint } from "../../typechain-types/contracts/account/EntryPoint";
+import { hashEmailForLookup } from "../../utils/emailCommitment";
+import { emailArgs, LOOKUP_KEY } from "../helpers";
 
 describe("PropellantBDAccountFactory", function () {
   // Fixture to deploy necessary contracts
@@ -117,7 +119,7 @@ describe("PropellantBDAccountFactory", function () {
       const expectedAddr = await accountFactory.getAccountAddress(owner1.address, salt);
       
       await expect(
-        accountFactory.createAccountWithProfile(owner1.address, salt, name, bio, email, avatar)
+        accountFactory.createAccountWithProfile(owner1.address, salt, name, bio, ...emailArgs(email), avatar)
       )
         .to.emit(accountFactory, "AccountInitialized")
         .withArgs(expectedAddr, owner1.address);
@@ -126,7 +128,7 @@ describe("PropellantBDAccountFactory", function () {
       const profile = await userProfileModule.getProfile(owner1.address);
       expect(profile.name).to.equal(name);
       expect(profile.bio).to.equal(bio);
-      expect(profile.email).to.equal(email);
+      expect(profile.emailHash).to.equal(hashEmailForLookup(email, LOOKUP_KEY));
       expect(profile.avatar).to.equal(avatar);
       
       // Check the account was created with the correct parameters
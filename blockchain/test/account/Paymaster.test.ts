@@ -1,9 +1,10 @@
 import { expect } from "chai";
 import hre from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { impersonateAccount, loadFixture, setBalance } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { PropellantBDPaymaster, RoleModule, UserProfileModule } from "../../typechain-types";
 import { IERC20 } from "../../typechain-types/@openzeppelin/contracts/token/ERC20/IERC20";
 import { IEntryPoint } from "../../typechain-types/contracts/account/EntryPoint";
+import { emailArgs } from "../helpers";
 
 // We need a MockToken for testing
 const MockTokenArtifact = {
@@ -67,8 +68,8 @@ describe("PropellantBDPaymaster", function () {
     await userProfileModule.connect(user1).createProfile(
       "User One", 
       "Test user", 
-      "user1@example.com", 
-      "avatar"
+      ...emailArgs("user1@example.com"), 
+      "avatar", ""
     );
     
     // Fund the paymaster with ETH
@@ -214,6 +215,46 @@ describe("PropellantBDPaymaster", function () {
     });
   });
   
+  describe("Sponsorship Validation", function () {
+    // Builds a minimal user operation from a sender
+    function userOperation(sender: string) {
+      return {
+        sender,
+        nonce: 0,
+        initCode: "0x",
+        callData: "0x",
+        callGasLimit: 100_000,
+        verificationGasLimit: 100_000,
+        preVerificationGas: 50_000,
+        maxFeePerGas: 0,
+        maxPriorityFeePerGas: 0,
+        paymasterAndData: "0x",
+        signature: "0x"
+      };
+    }
+    
+    it("Should stop sponsoring senders whose profile was erased", async function () {
+      const { paymaster, entryPoint, userProfileModule, user1 } = await loadFixture(deployPaymasterFixture);
+      
+      // Only the EntryPoint may ask the paymaster to validate an operation
+      const entryPointAddress = entryPoint.target as string;
+      await impersonateAccount(entryPointAddress);
+      await setBalance(entryPointAddress, hre.ethers.parseEther("1.0"));
+      const entryPointSigner = await hre.ethers.getSigner(entryPointAddress);
+      
+      const maxCost = hre.ethers.parseEther("0.001");
+      await paymaster.connect(entryPointSigner).validatePaymasterUserOp.staticCall(
+        userOperation(user1.address), hre.ethers.ZeroHash, maxCost
+      );
+      
+      await userProfileModule.connect(user1).eraseProfile(user1.address);
+      
+      await expect(
+        paymaster.connect(entryPointSigner).validatePaymasterUserOp(userOperation(user1.address), hre.ethers.ZeroHash, maxCost)
+      ).to.be.revertedWith("Paymaster: sender profile is erased");
+    });
+  });
+  
   // Note: Testing the full UserOperation validation flow with ERC-4337 requires 
   // complex setup and mocking of EntryPoint behavior, which is beyond the scope
   // of basic unit tests.
@@ -3,6 +3,8 @@ import hre from "hardhat";
 import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { PropellantBDAccount, RoleModule, UserProfileModule } from "../../typechain-types";
 import { IEntryPoint } from "../../typechain-types/contracts/account/EntryPoint";
+import { hashEmailForLookup } from "../../utils/emailCommitment";
+import { emailArgs, LOOKUP_KEY } from "../helpers";
 
 describe("PropellantBDAccount", function () {
   // Fixture to deploy necessary contracts
@@ -72,7 +74,7 @@ describe("PropellantBDAccount", function () {
       const email = "test@example.com";
       const avatar = "ipfs://QmHash";
       
-      await expect(account.connect(owner).initializeWithProfile(name, bio, email, avatar))
+      await expect(account.connect(owner).initializeWithProfile(name, bio, ...emailArgs(email), avatar))
         .to.emit(account, "ProfileLinked")
         .withArgs(account.target, owner.address);
       
@@ -82,15 +84,26 @@ describe("PropellantBDAccount", function () {
       const profile = await userProfileModule.getProfile(owner.address);
       expect(profile.name).to.equal(name);
       expect(profile.bio).to.equal(bio);
-      expect(profile.email).to.equal(email);
+      expect(profile.emailHash).to.equal(hashEmailForLookup(email, LOOKUP_KEY));
       expect(profile.avatar).to.equal(avatar);
     });
     
+    it("Should not report an erased profile as linked", async function () {
+      const { account, owner, userProfileModule } = await loadFixture(deployAccountFixture);
+      
+      await userProfileModule.connect(owner).createProfile("Test User", "Bio", ...emailArgs("owner@example.com"), "avatar", "");
+      await account.connect(owner).initializeWithProfile("Test User", "Bio", ...emailArgs("test@example.com"), "avatar");
+      expect(await account.hasProfile()).to.be.true;
+      
+      await userProfileModule.connect(owner).eraseProfile(owner.address);
+      expect(await account.hasProfile()).to.be.false;
+    });
+    
     it("Should prevent non-owners from initializing profile", async function () {
       const { account, user1 } = await loadFixture(deployAccountFixture);
       
       await expect(
-        account.connect(user1).initializeWithProfile("Name", "Bio", "email@example.com", "avatar")
+        account.connect(user1).initializeWithProfile("Name", "Bio", ...emailArgs("email@example.com"), "avatar")
       ).to.be.revertedWith("Sender not an owner");
     });
     
@@ -99,13 +112,13 @@ describe("PropellantBDAccount", function () {
       
       // Initialize first time
       await account.connect(owner).initializeWithProfile(
-        "Test User", "Bio", "test@example.com", "avatar"
+        "Test User", "Bio", ...emailArgs("test@example.com"), "avatar"
       );
       
       // Try to initialize again
       await expect(
         account.connect(owner).initializeWithProfile(
-          "New Name", "New Bio", "new@example.com", "newavatar"
+          "New Name", "New Bio", ...emailArgs("new@example.com"), "newavatar"
         )
       ).to.be.revertedWith("PropellantBDAccount: profile already initialized");
     });
@@ -115,7 +128,7 @@ describe("PropellantBDAccount", function () {
       
       // Initialize profile
       await account.connect(owner).initializeWithProfile(
-        "Test User", "Bio", "test@example.com", "avatar"
+        "Test User", "Bio", ...emailArgs("test@example.com"), "avatar"
       );
       
       // Update profile
@@ -137,7 +150,7 @@ describe("PropellantBDAccount", function () {
       
       // Initialize profile
       await account.connect(owner).initializeWithProfile(
-        "Test User", "Bio", "test@example.com", "avatar"
+        "Test User", "Bio", ...emailArgs("test@example.com"), "avatar"
       );
       
       // Add a social handle
@@ -158,7 +171,7 @@ describe("PropellantBDAccount", function () {
       
       // Initialize profile
       await account.connect(owner).initializeWithProfile(
-        "Test User", "Bio", "test@example.com", "avatar"
+        "Test User", "Bio", ...emailArgs("test@example.com"), "avatar"
       );
       
       // Add social handles
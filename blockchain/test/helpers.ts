@@ -0,0 +1,71 @@
+import hre from "hardhat";
+import { BaseContract, BigNumberish, ContractTransactionResponse, LogDescription } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { CredentialVerificationModule } from "../typechain-types";
+import { createEmailCommitment } from "../utils/emailCommitment";
+
+// Secret key the platform uses to compute email lookup hashes off-chain
+export const LOOKUP_KEY = hre.ethers.id("email-lookup-key");
+
+// Credential fields for issueCredential, defaulting to a permanent, revocable certification
+export interface CredentialOptions {
+  name?: string;
+  description?: string;
+  metadataURI?: string;
+  credentialType?: BigNumberish;
+  expirationDate?: BigNumberish;
+  evidenceHash?: string;
+  revocable?: boolean;
+}
+
+/**
+ * Waits for a transaction and parses the first log matching an event of a contract
+ */
+export async function findEvent(
+  tx: ContractTransactionResponse,
+  contract: BaseContract,
+  eventName: string
+): Promise<LogDescription> {
+  const receipt = await tx.wait();
+  
+  for (const log of receipt?.logs ?? []) {
+    const event = contract.interface.parseLog(log);
+    if (event?.name === eventName) {
+      return event;
+    }
+  }
+  
+  throw new Error(`${eventName} was not emitted`);
+}
+
+/**
+ * Issues a credential from an issuer and returns its ID
+ */
+export async function issueCredential(
+  credentialVerificationModule: CredentialVerificationModule,
+  issuer: HardhatEthersSigner,
+  subject: string,
+  options: CredentialOptions = {}
+): Promise<string> {
+  const tx = await credentialVerificationModule.connect(issuer).issueCredential(
+    subject,
+    options.name ?? "Certificate",
+    options.description ?? "Description",
+    options.metadataURI ?? "ipfs://QmHash",
+    options.credentialType ?? 1, // CERTIFICATION
+    options.expirationDate ?? 0,
+    options.evidenceHash ?? hre.ethers.keccak256(hre.ethers.toUtf8Bytes("evidence")),
+    options.revocable ?? true
+  );
+  
+  const event = await findEvent(tx, credentialVerificationModule, "CredentialIssued");
+  return event.args[0];
+}
+
+/**
+ * Gets the lookup hash and a fresh commitment of an email, in the order createProfile takes them
+ */
+export function emailArgs(email: string): [string, string] {
+  const { emailHash, commitment } = createEmailCommitment(email, LOOKUP_KEY);
+  return [emailHash, commitment];
+}
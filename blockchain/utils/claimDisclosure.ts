@@ -0,0 +1,92 @@
+import { AbiCoder, hexlify, keccak256, randomBytes } from "ethers";
+import { MerkleTree } from "./merkleTree";
+
+// A single credential claim, salted so undisclosed values cannot be guessed from the root
+export interface Claim {
+  key: string;
+  value: string;
+  salt: string;
+}
+
+// Claims tree built by the issuer and handed to the holder
+export interface ClaimTree {
+  claimsRoot: string;
+  claims: Claim[];
+}
+
+// A claim revealed to a verifier, with its proof against the claims root
+export interface DisclosedClaim extends Claim {
+  proof: string[];
+}
+
+// What a holder shares: the credential, its claims root and the chosen claims
+export interface DisclosurePackage {
+  credentialId: string;
+  claimsRoot: string;
+  claims: DisclosedClaim[];
+}
+
+// The subset of CredentialClaimsModule needed to check disclosures on-chain
+export interface ClaimsVerifier {
+  verifyClaim(credentialId: string, key: string, value: string, salt: string, proof: string[]): Promise<boolean>;
+}
+
+/**
+ * Computes a claim's leaf, matching CredentialClaimsModule.claimLeaf
+ */
+export function claimLeaf(claim: Claim): string {
+  return keccak256(
+    keccak256(AbiCoder.defaultAbiCoder().encode(["string", "string", "bytes32"], [claim.key, claim.value, claim.salt]))
+  );
+}
+
+/**
+ * Builds the claims tree for a credential, salting every claim.
+ * Salts can be passed in to rebuild an existing tree.
+ */
+export function buildClaimTree(values: Record<string, string>, salts: Record<string, string> = {}): ClaimTree {
+  const claims = Object.entries(values).map(([key, value]) => ({
+    key,
+    value,
+    salt: salts[key] ?? hexlify(randomBytes(32)),
+  }));
+  const tree = new MerkleTree(claims.map(claimLeaf));
+
+  return { claimsRoot: tree.root, claims };
+}
+
+/**
+ * Builds a disclosure package revealing only the chosen claims
+ */
+export function createDisclosure(credentialId: string, claimTree: ClaimTree, keys: string[]): DisclosurePackage {
+  const tree = new MerkleTree(claimTree.claims.map(claimLeaf));
+
+  const claims = keys.map((key) => {
+    const claim = claimTree.claims.find((candidate) => candidate.key === key);
+    if (!claim) {
+      throw new Error(`Unknown claim: ${key}`);
+    }
+    return { ...claim, proof: tree.getProof(claimLeaf(claim)) };
+  });
+
+  return { credentialId, claimsRoot: tree.root, claims };
+}
+
+/**
+ * Checks every disclosed claim against the package's claims root, off-chain
+ */
+export function verifyDisclosure(disclosure: DisclosurePackage): boolean {
+  return disclosure.claims.every((claim) => MerkleTree.verify(claimLeaf(claim), claim.proof, disclosure.claimsRoot));
+}
+
+/**
+ * Checks every disclosed claim against the root stored for the credential on-chain
+ */
+export async function verifyDisclosureOnChain(disclosure: DisclosurePackage, module: ClaimsVerifier): Promise<boolean> {
+  for (const claim of disclosure.claims) {
+    if (!(await module.verifyClaim(disclosure.credentialId, claim.key, claim.value, claim.salt, claim.proof))) {
+      return false;
+    }
+  }
+  return true;
+}
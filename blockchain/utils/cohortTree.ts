@@ -0,0 +1,54 @@
+import { AbiCoder, getAddress, isAddress, keccak256 } from "ethers";
+import { MerkleTree } from "./merkleTree";
+
+// Output of the cohort tree tool: the root to publish and one proof per member
+export interface CohortTree {
+  merkleRoot: string;
+  proofs: Record<string, string[]>;
+}
+
+/**
+ * Computes a cohort member's leaf, matching CohortCredentialModule.leafFor
+ */
+export function cohortLeaf(member: string): string {
+  return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address"], [member])));
+}
+
+/**
+ * Reads member addresses from CSV text.
+ * Uses the first column, skips blank lines and a header row, and rejects invalid addresses.
+ */
+export function parseAddressCsv(csv: string): string[] {
+  const addresses: string[] = [];
+
+  csv.split(/\r?\n/).forEach((line, index) => {
+    const value = line.split(",")[0].trim();
+    if (value === "") {
+      return;
+    }
+    if (!isAddress(value)) {
+      // Tolerate a header row such as "address"
+      if (index === 0) {
+        return;
+      }
+      throw new Error(`Invalid address on line ${index + 1}: ${value}`);
+    }
+    addresses.push(getAddress(value));
+  });
+
+  return [...new Set(addresses)];
+}
+
+/**
+ * Builds the Merkle tree for a cohort and the proof for every member
+ */
+export function buildCohortTree(members: string[]): CohortTree {
+  const tree = new MerkleTree(members.map(cohortLeaf));
+  const proofs: Record<string, string[]> = {};
+
+  for (const member of members) {
+    proofs[getAddress(member)] = tree.getProof(cohortLeaf(member));
+  }
+
+  return { merkleRoot: tree.root, proofs };
+}
@@ -0,0 +1,97 @@
+import { Signer, TypedDataDomain, TypedDataField } from "ethers";
+
+// Credential data signed by an issuer, mirrors CredentialVerificationModule.CredentialRequest
+export interface CredentialRequest {
+  subject: string;
+  name: string;
+  description: string;
+  metadataURI: string;
+  credentialType: number;
+  expirationDate: bigint | number;
+  evidenceHash: string;
+  revocable: boolean;
+  schemaId: string;
+}
+
+// A signed request, ready to be submitted with issueCredentialWithSig
+export interface SignedCredentialRequest {
+  issuer: string;
+  request: CredentialRequest;
+  nonce: bigint;
+  deadline: bigint;
+  signature: string;
+}
+
+// Any signer able to produce EIP-712 signatures (wallets, hardhat signers)
+export type TypedDataSigner = Pick<Signer, "getAddress" | "signTypedData">;
+
+// The subset of CredentialSigningModule needed to build typed data
+export interface SigningModule {
+  nonces(owner: string): Promise<bigint>;
+  eip712Domain(): Promise<[string, string, string, bigint, string, string, bigint[]]>;
+}
+
+export const ISSUE_CREDENTIAL_TYPES: Record<string, TypedDataField[]> = {
+  IssueCredential: [
+    { name: "issuer", type: "address" },
+    { name: "request", type: "CredentialRequest" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  CredentialRequest: [
+    { name: "subject", type: "address" },
+    { name: "name", type: "string" },
+    { name: "description", type: "string" },
+    { name: "metadataURI", type: "string" },
+    { name: "credentialType", type: "uint8" },
+    { name: "expirationDate", type: "uint256" },
+    { name: "evidenceHash", type: "bytes32" },
+    { name: "revocable", type: "bool" },
+    { name: "schemaId", type: "bytes32" },
+  ],
+};
+
+/**
+ * Reads the EIP-712 domain the module uses for signed issuance
+ */
+export async function getIssuanceDomain(module: SigningModule): Promise<TypedDataDomain> {
+  const [, name, version, chainId, verifyingContract] = await module.eip712Domain();
+  return { name, version, chainId, verifyingContract };
+}
+
+/**
+ * Builds the typed data an issuer signs to authorize a relayed issuance.
+ * Uses the issuer's current on-chain nonce unless one is given.
+ */
+export async function buildIssueCredentialTypedData(
+  module: SigningModule,
+  issuer: string,
+  request: CredentialRequest,
+  deadline: bigint,
+  nonce?: bigint
+) {
+  const domain = await getIssuanceDomain(module);
+  const value = {
+    issuer,
+    request,
+    nonce: nonce ?? (await module.nonces(issuer)),
+    deadline,
+  };
+  return { domain, types: ISSUE_CREDENTIAL_TYPES, value };
+}
+
+/**
+ * Signs a credential request as the issuer
+ */
+export async function signCredentialRequest(
+  module: SigningModule,
+  issuer: TypedDataSigner,
+  request: CredentialRequest,
+  deadline: bigint,
+  nonce?: bigint
+): Promise<SignedCredentialRequest> {
+  const issuerAddress = await issuer.getAddress();
+  const { domain, types, value } = await buildIssueCredentialTypedData(module, issuerAddress, request, deadline, nonce);
+  const signature = await issuer.signTypedData(domain, types, value);
+  return { issuer: issuerAddress, request, nonce: value.nonce, deadline, signature };
+}
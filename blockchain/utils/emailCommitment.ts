@@ -0,0 +1,65 @@
+import { BytesLike, computeHmac, hexlify, keccak256, randomBytes, solidityPackedKeccak256, toUtf8Bytes } from "ethers";
+
+// Keyed lookup hash and salted commitment stored by UserProfileModule
+export interface EmailCommitment {
+  emailHash: string;
+  commitment: string;
+  salt: string;
+}
+
+/**
+ * Lowercases ASCII letters the same way UserProfileModule.hashEmail does
+ */
+export function normalizeEmail(email: string): string {
+  return email.replace(/[A-Z]/g, (char) => char.toLowerCase());
+}
+
+/**
+ * Hashes an email, matching UserProfileModule.hashEmail.
+ * Not private: anyone can hash a guessed email, so it is only used inside salted commitments.
+ */
+export function hashEmail(email: string): string {
+  return keccak256(toUtf8Bytes(normalizeEmail(email)));
+}
+
+/**
+ * Computes the keyed lookup hash of an email (HMAC-SHA256 with the platform's secret lookup key).
+ * Only the key holder can compute it, so the on-chain index cannot be matched against guessed emails.
+ */
+export function hashEmailForLookup(email: string, lookupKey: BytesLike): string {
+  return computeHmac("sha256", lookupKey, toUtf8Bytes(normalizeEmail(email)));
+}
+
+/**
+ * Computes the salted commitment to an email hash, matching UserProfileModule.computeEmailCommitment
+ */
+export function computeEmailCommitment(emailHash: string, salt: string): string {
+  return solidityPackedKeccak256(["bytes32", "bytes32"], [emailHash, salt]);
+}
+
+/**
+ * Creates the keyed lookup hash and commitment for a new or updated email.
+ * The salt must be kept by the user to later prove ownership of the email.
+ *
+ * Profiles from a deployment that stored plaintext emails are migrated off-chain: the platform reads
+ * each legacy email, creates its commitment here and sends the user the salt, and the user recreates
+ * the profile with createProfile on the new deployment. The old plaintext stays in that chain's history.
+ */
+export function createEmailCommitment(
+  email: string,
+  lookupKey: BytesLike,
+  salt: string = hexlify(randomBytes(32))
+): EmailCommitment {
+  return {
+    emailHash: hashEmailForLookup(email, lookupKey),
+    commitment: computeEmailCommitment(hashEmail(email), salt),
+    salt,
+  };
+}
+
+/**
+ * Checks an email and salt revealed by a user against their on-chain commitment
+ */
+export function verifyEmailCommitment(email: string, salt: string, commitment: string): boolean {
+  return computeEmailCommitment(hashEmail(email), salt) === commitment.toLowerCase();
+}
@@ -0,0 +1,70 @@
+import { concat, keccak256 } from "ethers";
+
+/**
+ * Hashes a pair of nodes in sorted order, matching OpenZeppelin's MerkleProof
+ */
+export function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Minimal Merkle tree over pre-hashed leaves, compatible with MerkleProof.verify.
+ * Leaves are de-duplicated and sorted so the same set always yields the same root.
+ */
+export class MerkleTree {
+  readonly leaves: string[];
+  readonly layers: string[][];
+
+  constructor(leaves: string[]) {
+    if (leaves.length === 0) {
+      throw new Error("MerkleTree: no leaves");
+    }
+
+    this.leaves = [...new Set(leaves.map((leaf) => leaf.toLowerCase()))].sort((a, b) =>
+      BigInt(a) < BigInt(b) ? -1 : BigInt(a) > BigInt(b) ? 1 : 0
+    );
+    this.layers = [this.leaves];
+
+    while (this.layers[this.layers.length - 1].length > 1) {
+      const layer = this.layers[this.layers.length - 1];
+      const next: string[] = [];
+      for (let i = 0; i < layer.length; i += 2) {
+        // An unpaired node is promoted to the next layer unchanged
+        next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+      }
+      this.layers.push(next);
+    }
+  }
+
+  get root(): string {
+    return this.layers[this.layers.length - 1][0];
+  }
+
+  /**
+   * Returns the proof for a leaf, or throws if the leaf is not in the tree
+   */
+  getProof(leaf: string): string[] {
+    let index = this.leaves.indexOf(leaf.toLowerCase());
+    if (index === -1) {
+      throw new Error("MerkleTree: leaf not found");
+    }
+
+    const proof: string[] = [];
+    for (const layer of this.layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    return proof;
+  }
+
+  /**
+   * Checks a proof against a root, as MerkleProof.verify does on-chain
+   */
+  static verify(leaf: string, proof: string[], root: string): boolean {
+    const computed = proof.reduce((node, sibling) => hashPair(node, sibling), leaf);
+    return computed.toLowerCase() === root.toLowerCase();
+  }
+}
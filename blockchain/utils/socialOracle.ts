@@ -0,0 +1,97 @@
+import { TypedDataDomain, TypedDataField, hexlify, randomBytes, toBigInt } from "ethers";
+import { TypedDataSigner } from "./credentialSigning";
+
+// Attestation signed by a verifier oracle, mirrors UserProfileModule.SOCIAL_HANDLE_ATTESTATION_TYPEHASH
+export interface SocialHandleAttestation {
+  user: string;
+  platform: string;
+  handle: string;
+  nonce: bigint;
+  expiry: bigint;
+}
+
+// A signed attestation, ready to be submitted with verifySocialHandleWithAttestation
+export interface SignedSocialHandleAttestation {
+  oracle: string;
+  attestation: SocialHandleAttestation;
+  signature: string;
+}
+
+// The subset of UserProfileModule needed to build typed data
+export interface AttestationModule {
+  eip712Domain(): Promise<[string, string, string, bigint, string, string, bigint[]]>;
+}
+
+export const SOCIAL_HANDLE_ATTESTATION_TYPES: Record<string, TypedDataField[]> = {
+  SocialHandleAttestation: [
+    { name: "user", type: "address" },
+    { name: "platform", type: "string" },
+    { name: "handle", type: "string" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+  ],
+};
+
+/**
+ * Reads the EIP-712 domain the module uses for attestations
+ */
+export async function getAttestationDomain(module: AttestationModule): Promise<TypedDataDomain> {
+  const [, name, version, chainId, verifyingContract] = await module.eip712Domain();
+  return { name, version, chainId, verifyingContract };
+}
+
+/**
+ * Signs an attestation that a user controls a handle
+ */
+export async function signSocialHandleAttestation(
+  module: AttestationModule,
+  oracle: TypedDataSigner,
+  attestation: SocialHandleAttestation
+): Promise<SignedSocialHandleAttestation> {
+  const domain = await getAttestationDomain(module);
+  const signature = await oracle.signTypedData(domain, SOCIAL_HANDLE_ATTESTATION_TYPES, attestation);
+  return { oracle: await oracle.getAddress(), attestation, signature };
+}
+
+/**
+ * Stand-in for an off-chain verifier oracle in local tests.
+ * Instead of checking the platform, it attests only handles registered with confirmHandle.
+ */
+export class MockSocialOracle {
+  private confirmed = new Set<string>();
+
+  constructor(
+    private readonly module: AttestationModule,
+    private readonly signer: TypedDataSigner,
+    private readonly validity: bigint = 3600n
+  ) {}
+
+  /**
+   * Records that the user has proven control of a handle, e.g. by posting a challenge
+   */
+  confirmHandle(user: string, platform: string, handle: string): void {
+    this.confirmed.add(MockSocialOracle.key(user, platform, handle));
+  }
+
+  /**
+   * Signs an attestation for a confirmed handle, with a random nonce
+   * and an expiry `validity` seconds after `now`
+   */
+  async attest(user: string, platform: string, handle: string, now: bigint): Promise<SignedSocialHandleAttestation> {
+    if (!this.confirmed.has(MockSocialOracle.key(user, platform, handle))) {
+      throw new Error(`MockSocialOracle: ${platform} handle ${handle} not confirmed for ${user}`);
+    }
+
+    return signSocialHandleAttestation(this.module, this.signer, {
+      user,
+      platform,
+      handle,
+      nonce: toBigInt(hexlify(randomBytes(32))),
+      expiry: now + this.validity,
+    });
+  }
+
+  private static key(user: string, platform: string, handle: string): string {
+    return `${user.toLowerCase()}:${platform}:${handle}`;
+  }
+}
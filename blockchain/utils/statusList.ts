@@ -0,0 +1,184 @@
+import { gunzipSync, gzipSync } from "zlib";
+
+// Values of CredentialStatusListModule.StatusPurpose
+export const StatusPurpose = {
+  REVOCATION: 0,
+  SUSPENSION: 1,
+} as const;
+
+export type StatusPurposeValue = (typeof StatusPurpose)[keyof typeof StatusPurpose];
+
+// Number of 256-bit words fetched per call
+export const DEFAULT_WORD_PAGE_SIZE = 256;
+
+// A credential's position in its issuer's status list
+export interface StatusEntry {
+  issuer: string;
+  index: bigint;
+  assigned: boolean;
+}
+
+// The subset of CredentialStatusListModule needed to fetch status lists
+export interface StatusListSource {
+  getStatusListLength(issuer: string): Promise<bigint>;
+  getStatusListWords(issuer: string, purpose: StatusPurposeValue, offset: number, limit: number): Promise<bigint[]>;
+  getStatusEntries(ids: string[]): Promise<StatusEntry[]>;
+}
+
+// Result of checking a credential against cached status lists
+export interface CredentialStatusCheck {
+  id: string;
+  issuer: string;
+  index: number;
+  indexed: boolean;
+  revoked: boolean;
+  suspended: boolean;
+}
+
+/**
+ * An issuer's status bitstring, stored in StatusList2021 bit order
+ * (index 0 is the most significant bit of the first byte)
+ */
+export class StatusList {
+  constructor(
+    public readonly issuer: string,
+    public readonly purpose: StatusPurposeValue,
+    public readonly length: number,
+    public readonly bits: Uint8Array = new Uint8Array(Math.ceil(length / 8))
+  ) {}
+
+  /**
+   * Builds a list from the contract's 256-bit words
+   */
+  static fromWords(issuer: string, purpose: StatusPurposeValue, length: number, words: bigint[]): StatusList {
+    const list = new StatusList(issuer, purpose, length);
+
+    for (let index = 0; index < length; index++) {
+      const word = words[index >> 8] ?? 0n;
+      if ((word >> BigInt(index & 255)) & 1n) {
+        list.bits[index >> 3] |= 0x80 >> (index & 7);
+      }
+    }
+
+    return list;
+  }
+
+  /**
+   * Rebuilds a list from its encoded form
+   */
+  static decode(issuer: string, purpose: StatusPurposeValue, length: number, encodedList: string): StatusList {
+    return new StatusList(issuer, purpose, length, new Uint8Array(gunzipSync(Buffer.from(encodedList, "base64url"))));
+  }
+
+  /**
+   * Gets the status bit at an index
+   */
+  get(index: number): boolean {
+    if (index < 0 || index >= this.length) {
+      throw new Error(`Status index out of range: ${index}`);
+    }
+    return (this.bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+  }
+
+  /**
+   * Encodes the list as a gzipped, base64url bitstring, as in a StatusList2021 credential's encodedList
+   */
+  encode(): string {
+    return gzipSync(this.bits).toString("base64url");
+  }
+}
+
+/**
+ * Fetches an issuer's complete status list for one purpose
+ */
+export async function fetchStatusList(
+  source: StatusListSource,
+  issuer: string,
+  purpose: StatusPurposeValue,
+  pageSize: number = DEFAULT_WORD_PAGE_SIZE
+): Promise<StatusList> {
+  const length = Number(await source.getStatusListLength(issuer));
+  const wordCount = Math.ceil(length / 256);
+  const words: bigint[] = [];
+
+  for (let offset = 0; offset < wordCount; offset += pageSize) {
+    words.push(...(await source.getStatusListWords(issuer, purpose, offset, pageSize)));
+  }
+
+  return StatusList.fromWords(issuer, purpose, length, words);
+}
+
+/**
+ * Checks many credentials with one entry lookup and one fetch per issuer list.
+ * Lists are cached, so later checks against the same issuers stay local until refreshed.
+ */
+export class StatusListClient {
+  private readonly lists = new Map<string, StatusList>();
+
+  constructor(private readonly source: StatusListSource) {}
+
+  /**
+   * Checks the revocation and suspension bits of many credentials
+   */
+  async checkCredentials(ids: string[]): Promise<CredentialStatusCheck[]> {
+    const entries = await this.source.getStatusEntries(ids);
+    const results: CredentialStatusCheck[] = [];
+
+    for (let i = 0; i < ids.length; i++) {
+      const { issuer, assigned } = entries[i];
+      const index = Number(entries[i].index);
+
+      if (!assigned) {
+        results.push({ id: ids[i], issuer, index, indexed: false, revoked: false, suspended: false });
+        continue;
+      }
+
+      // Credentials indexed after the lists were cached need a fresh copy
+      if (index >= (await this.getList(issuer, StatusPurpose.REVOCATION)).length) {
+        this.refresh(issuer);
+      }
+
+      const revocations = await this.getList(issuer, StatusPurpose.REVOCATION);
+      const suspensions = await this.getList(issuer, StatusPurpose.SUSPENSION);
+
+      results.push({
+        id: ids[i],
+        issuer,
+        index,
+        indexed: true,
+        revoked: revocations.get(index),
+        suspended: suspensions.get(index),
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Gets an issuer's status list, fetching it if it is not cached
+   */
+  async getList(issuer: string, purpose: StatusPurposeValue): Promise<StatusList> {
+    const key = `${issuer.toLowerCase()}:${purpose}`;
+    let list = this.lists.get(key);
+
+    if (!list) {
+      list = await fetchStatusList(this.source, issuer, purpose);
+      this.lists.set(key, list);
+    }
+
+    return list;
+  }
+
+  /**
+   * Drops an issuer's cached lists, or every cached list
+   */
+  refresh(issuer?: string): void {
+    if (!issuer) {
+      this.lists.clear();
+      return;
+    }
+    for (const purpose of Object.values(StatusPurpose)) {
+      this.lists.delete(`${issuer.toLowerCase()}:${purpose}`);
+    }
+  }
+}
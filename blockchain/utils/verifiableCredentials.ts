@@ -0,0 +1,440 @@
+import { ContractRunner, TypedDataDomain, TypedDataField, ZeroHash, getAddress, verifyTypedData } from "ethers";
+import { CredentialRequest, TypedDataSigner } from "./credentialSigning";
+
+// Names of CredentialVerificationModule.CredentialType, by enum value
+export const CREDENTIAL_TYPE_NAMES = [
+  "EDUCATION",
+  "CERTIFICATION",
+  "EXPERIENCE",
+  "SKILL",
+  "ACHIEVEMENT",
+  "REFERENCE",
+  "OTHER",
+];
+
+// Names of CredentialVerificationModule.VerificationStatus, by enum value
+export const VERIFICATION_STATUS_NAMES = ["PENDING", "VERIFIED", "REJECTED", "REVOKED"];
+
+// Names of CredentialVerificationModule.RecordType, by enum value
+export const RECORD_TYPE_NAMES = ["VERIFICATION", "ENDORSEMENT", "RENEWAL", "DISPUTE", "ISSUANCE"];
+
+export const VC_CONTEXT = [
+  "https://www.w3.org/2018/credentials/v1",
+  "https://w3id.org/security/suites/eip712sig-2021/v1",
+  { "@vocab": "urn:propellantbd:vocab#" },
+];
+
+export const CREDENTIAL_STATUS_TYPE = "PropellantBDCredentialStatus";
+export const PROOF_TYPE = "EthereumEip712Signature2021";
+
+// Domain of the issuer's off-chain proof, bound to the chain holding the credential
+export const VC_PROOF_DOMAIN_NAME = "PropellantBD Verifiable Credential";
+export const VC_PROOF_DOMAIN_VERSION = "1";
+
+export const VC_PROOF_TYPES: Record<string, TypedDataField[]> = {
+  VerifiableCredential: [
+    { name: "id", type: "string" },
+    { name: "issuer", type: "string" },
+    { name: "subject", type: "string" },
+    { name: "credentialId", type: "bytes32" },
+    { name: "name", type: "string" },
+    { name: "description", type: "string" },
+    { name: "metadataURI", type: "string" },
+    { name: "credentialType", type: "uint8" },
+    { name: "issuanceDate", type: "uint256" },
+    { name: "expirationDate", type: "uint256" },
+    { name: "evidenceHash", type: "bytes32" },
+    { name: "revocable", type: "bool" },
+    { name: "schemaId", type: "bytes32" },
+    { name: "verificationHistory", type: "VerificationRecord[]" },
+  ],
+  VerificationRecord: [
+    { name: "recordType", type: "string" },
+    { name: "verifier", type: "string" },
+    { name: "status", type: "string" },
+    { name: "notes", type: "string" },
+    { name: "timestamp", type: "uint256" },
+  ],
+};
+
+// Credential fields as returned by CredentialVerificationModule.getCredential
+export interface OnChainCredential {
+  subject: string;
+  issuer: string;
+  name: string;
+  description: string;
+  metadataURI: string;
+  credentialType: bigint;
+  status: bigint;
+  issuanceDate: bigint;
+  expirationDate: bigint;
+  evidenceHash: string;
+  revocable: boolean;
+  schemaId: string;
+}
+
+// Verification history entry as returned by CredentialVerificationModule.getVerificationHistory
+export interface OnChainVerificationRecord {
+  verifier: string;
+  status: bigint;
+  notes: string;
+  timestamp: bigint;
+  recordType: bigint;
+}
+
+// The subset of CredentialVerificationModule needed to export and verify credentials
+export interface CredentialSource {
+  runner: ContractRunner | null;
+  getAddress(): Promise<string>;
+  getCredential(id: string): Promise<OnChainCredential>;
+  getVerificationHistory(id: string): Promise<OnChainVerificationRecord[]>;
+  isCredentialValid(id: string): Promise<boolean>;
+}
+
+export interface VerificationHistoryEntry {
+  type: string;
+  verifier: string;
+  status: string;
+  notes: string;
+  timestamp: string;
+}
+
+export interface CredentialStatus {
+  id: string;
+  type: string;
+  chainId: string;
+  contract: string;
+  credentialId: string;
+}
+
+export interface Eip712Proof {
+  type: string;
+  created: string;
+  proofPurpose: string;
+  verificationMethod: string;
+  proofValue: string;
+  eip712: {
+    domain: TypedDataDomain;
+    types: Record<string, TypedDataField[]>;
+    primaryType: string;
+  };
+}
+
+// W3C VC Data Model document for an on-chain credential
+export interface VerifiableCredential {
+  "@context": typeof VC_CONTEXT;
+  id: string;
+  type: string[];
+  issuer: string;
+  issuanceDate: string;
+  expirationDate?: string;
+  credentialSubject: {
+    id: string;
+    name: string;
+    description: string;
+    metadataURI: string;
+    credentialType: string;
+    revocable: boolean;
+    schemaId: string;
+  };
+  evidence: { type: string[]; evidenceHash: string }[];
+  credentialStatus: CredentialStatus;
+  // History at export time, covered by the proof; later records only appear on chain
+  verificationHistory: VerificationHistoryEntry[];
+  proof: Eip712Proof;
+}
+
+// Outcome of checking a document against the chain
+export interface VerificationResult {
+  verified: boolean;
+  errors: string[];
+}
+
+/**
+ * Builds a did:pkh identifier for an Ethereum account
+ */
+export function toDid(chainId: bigint | number, address: string): string {
+  return `did:pkh:eip155:${chainId}:${getAddress(address)}`;
+}
+
+/**
+ * Extracts the chain ID and account from a did:pkh identifier
+ */
+export function parseDid(did: string): { chainId: bigint; address: string } {
+  const match = /^did:pkh:eip155:(\d+):(0x[0-9a-fA-F]{40})$/.exec(did);
+  if (!match) {
+    throw new Error(`Unsupported DID: ${did}`);
+  }
+  return { chainId: BigInt(match[1]), address: getAddress(match[2]) };
+}
+
+/**
+ * Builds the URN that identifies an on-chain credential
+ */
+export function credentialUrn(chainId: bigint | number, contract: string, credentialId: string): string {
+  return `urn:propellantbd:credential:${chainId}:${getAddress(contract)}:${credentialId}`;
+}
+
+/**
+ * Reads the chain and address of the contract holding the credentials
+ */
+async function getCredentialLocation(module: CredentialSource): Promise<{ chainId: bigint; contract: string }> {
+  const provider = module.runner?.provider;
+  if (!provider) {
+    throw new Error("Credential module is not connected to a provider");
+  }
+  const { chainId } = await provider.getNetwork();
+  return { chainId, contract: getAddress(await module.getAddress()) };
+}
+
+/**
+ * Converts a unix timestamp to an XML schema dateTime
+ */
+function toDateTime(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString().replace(".000Z", "Z");
+}
+
+/**
+ * Converts an XML schema dateTime back to a unix timestamp
+ */
+function fromDateTime(dateTime: string): bigint {
+  return BigInt(Math.floor(Date.parse(dateTime) / 1000));
+}
+
+/**
+ * Converts an on-chain verification record to its document form
+ */
+function toHistoryEntry(record: OnChainVerificationRecord, chainId: bigint): VerificationHistoryEntry {
+  return {
+    type: RECORD_TYPE_NAMES[Number(record.recordType)],
+    verifier: toDid(chainId, record.verifier),
+    status: VERIFICATION_STATUS_NAMES[Number(record.status)],
+    notes: record.notes,
+    timestamp: toDateTime(record.timestamp),
+  };
+}
+
+/**
+ * Reads the evidence hash of a document, which is zero when it lists no evidence
+ */
+function getEvidenceHash(document: Omit<VerifiableCredential, "proof">): string {
+  return document.evidence?.[0]?.evidenceHash ?? ZeroHash;
+}
+
+/**
+ * Builds the typed data the issuer signs as the document's proof
+ */
+function buildProofTypedData(document: Omit<VerifiableCredential, "proof">, chainId: bigint) {
+  // Chain ID as a number so the domain embedded in the proof stays JSON-serializable
+  const domain: TypedDataDomain = { name: VC_PROOF_DOMAIN_NAME, version: VC_PROOF_DOMAIN_VERSION, chainId: Number(chainId) };
+  const value = {
+    id: document.id,
+    issuer: document.issuer,
+    subject: document.credentialSubject.id,
+    credentialId: document.credentialStatus.credentialId,
+    name: document.credentialSubject.name,
+    description: document.credentialSubject.description,
+    metadataURI: document.credentialSubject.metadataURI,
+    credentialType: CREDENTIAL_TYPE_NAMES.indexOf(document.credentialSubject.credentialType),
+    issuanceDate: fromDateTime(document.issuanceDate),
+    expirationDate: document.expirationDate ? fromDateTime(document.expirationDate) : 0n,
+    evidenceHash: getEvidenceHash(document),
+    revocable: document.credentialSubject.revocable,
+    schemaId: document.credentialSubject.schemaId,
+    verificationHistory: document.verificationHistory.map(entry => ({
+      recordType: entry.type,
+      verifier: entry.verifier,
+      status: entry.status,
+      notes: entry.notes,
+      timestamp: fromDateTime(entry.timestamp),
+    })),
+  };
+  return { domain, types: VC_PROOF_TYPES, value };
+}
+
+/**
+ * Reads a credential and its verification history from the chain and
+ * produces a W3C Verifiable Credential signed by the issuer
+ */
+export async function exportCredential(
+  module: CredentialSource,
+  credentialId: string,
+  issuer: TypedDataSigner
+): Promise<VerifiableCredential> {
+  const { chainId, contract } = await getCredentialLocation(module);
+  const credential = await module.getCredential(credentialId);
+  const history = await module.getVerificationHistory(credentialId);
+
+  const issuerAddress = await issuer.getAddress();
+  if (getAddress(issuerAddress) !== getAddress(credential.issuer)) {
+    throw new Error("Only the credential issuer can sign its export");
+  }
+
+  const id = credentialUrn(chainId, contract, credentialId);
+  const typeName = CREDENTIAL_TYPE_NAMES[Number(credential.credentialType)];
+  const issuerDid = toDid(chainId, credential.issuer);
+
+  const document: Omit<VerifiableCredential, "proof"> = {
+    "@context": VC_CONTEXT,
+    id,
+    type: ["VerifiableCredential", `${typeName.charAt(0)}${typeName.slice(1).toLowerCase()}Credential`],
+    issuer: issuerDid,
+    issuanceDate: toDateTime(credential.issuanceDate),
+    ...(credential.expirationDate > 0n ? { expirationDate: toDateTime(credential.expirationDate) } : {}),
+    credentialSubject: {
+      id: toDid(chainId, credential.subject),
+      name: credential.name,
+      description: credential.description,
+      metadataURI: credential.metadataURI,
+      credentialType: typeName,
+      revocable: credential.revocable,
+      schemaId: credential.schemaId,
+    },
+    evidence: [{ type: ["CredentialEvidence"], evidenceHash: credential.evidenceHash }],
+    credentialStatus: {
+      id: `${id}#status`,
+      type: CREDENTIAL_STATUS_TYPE,
+      chainId: chainId.toString(),
+      contract,
+      credentialId,
+    },
+    verificationHistory: history.map(record => toHistoryEntry(record, chainId)),
+  };
+
+  const { domain, types, value } = buildProofTypedData(document, chainId);
+  const proofValue = await issuer.signTypedData(domain, types, value);
+
+  return {
+    ...document,
+    proof: {
+      type: PROOF_TYPE,
+      created: new Date().toISOString().replace(/\.\d{3}Z$/, "Z"),
+      proofPurpose: "assertionMethod",
+      verificationMethod: `${issuerDid}#blockchainAccountId`,
+      proofValue,
+      eip712: { domain, types, primaryType: "VerifiableCredential" },
+    },
+  };
+}
+
+/**
+ * Reads a Verifiable Credential back into the issuance request it describes
+ */
+export function importCredential(document: VerifiableCredential): {
+  credentialId: string;
+  issuer: string;
+  request: CredentialRequest;
+} {
+  const credentialType = CREDENTIAL_TYPE_NAMES.indexOf(document.credentialSubject.credentialType);
+  if (credentialType < 0) {
+    throw new Error(`Unknown credential type: ${document.credentialSubject.credentialType}`);
+  }
+
+  return {
+    credentialId: document.credentialStatus.credentialId,
+    issuer: parseDid(document.issuer).address,
+    request: {
+      subject: parseDid(document.credentialSubject.id).address,
+      name: document.credentialSubject.name,
+      description: document.credentialSubject.description,
+      metadataURI: document.credentialSubject.metadataURI,
+      credentialType,
+      expirationDate: document.expirationDate ? fromDateTime(document.expirationDate) : 0n,
+      evidenceHash: getEvidenceHash(document),
+      revocable: document.credentialSubject.revocable,
+      schemaId: document.credentialSubject.schemaId,
+    },
+  };
+}
+
+/**
+ * Checks a Verifiable Credential's proof and compares it with the on-chain record.
+ * Documents that cannot be read, such as ones using a DID other than did:pkh, fail verification.
+ */
+export async function verifyCredential(
+  document: VerifiableCredential,
+  module: CredentialSource
+): Promise<VerificationResult> {
+  const errors: string[] = [];
+  const { chainId, contract } = await getCredentialLocation(module);
+  const { credentialStatus, proof } = document;
+
+  if (
+    credentialStatus.type !== CREDENTIAL_STATUS_TYPE ||
+    BigInt(credentialStatus.chainId) !== chainId ||
+    getAddress(credentialStatus.contract) !== contract
+  ) {
+    return { verified: false, errors: ["Credential status does not point at this contract"] };
+  }
+
+  let imported: ReturnType<typeof importCredential>;
+  try {
+    imported = importCredential(document);
+  } catch (error) {
+    return { verified: false, errors: [(error as Error).message] };
+  }
+  const { issuer: issuerAddress, request } = imported;
+
+  // The proof must be an issuer signature over the document's claims
+  if (proof.type !== PROOF_TYPE) {
+    errors.push(`Unsupported proof type: ${proof.type}`);
+  } else {
+    const { domain, types, value } = buildProofTypedData(document, chainId);
+    try {
+      if (getAddress(verifyTypedData(domain, types, value, proof.proofValue)) !== issuerAddress) {
+        errors.push("Proof was not signed by the issuer");
+      }
+    } catch {
+      errors.push("Proof signature is malformed");
+    }
+  }
+
+  let credential: OnChainCredential;
+  try {
+    credential = await module.getCredential(credentialStatus.credentialId);
+  } catch {
+    return { verified: false, errors: [...errors, "Credential does not exist on chain"] };
+  }
+
+  // The document must match the on-chain record
+  if (getAddress(credential.issuer) !== issuerAddress) errors.push("Issuer does not match the on-chain record");
+  if (getAddress(credential.subject) !== request.subject) errors.push("Subject does not match the on-chain record");
+  if (
+    credential.name !== request.name ||
+    credential.description !== request.description ||
+    credential.metadataURI !== request.metadataURI ||
+    Number(credential.credentialType) !== request.credentialType ||
+    credential.evidenceHash !== request.evidenceHash ||
+    credential.revocable !== request.revocable ||
+    credential.schemaId !== request.schemaId
+  ) {
+    errors.push("Claims do not match the on-chain record");
+  }
+  if (credential.expirationDate !== BigInt(request.expirationDate)) {
+    errors.push("Expiration date does not match the on-chain record");
+  }
+
+  // The exported history must be the start of the on-chain history, which only grows
+  const history = (await module.getVerificationHistory(credentialStatus.credentialId)).map(record =>
+    toHistoryEntry(record, chainId)
+  );
+  if (
+    document.verificationHistory.length > history.length ||
+    document.verificationHistory.some(
+      (entry, i) =>
+        entry.type !== history[i].type ||
+        entry.verifier !== history[i].verifier ||
+        entry.status !== history[i].status ||
+        entry.notes !== history[i].notes ||
+        entry.timestamp !== history[i].timestamp
+    )
+  ) {
+    errors.push("Verification history does not match the on-chain record");
+  }
+
+  if (!(await module.isCredentialValid(credentialStatus.credentialId))) {
+    errors.push(`Credential is not valid on chain (status ${VERIFICATION_STATUS_NAMES[Number(credential.status)]})`);
+  }
+
+  return { verified: errors.length === 0, errors };
+}